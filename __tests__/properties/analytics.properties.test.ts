@@ -5,7 +5,10 @@
 
 import fc from 'fast-check';
 import { AnalyticsService, AnalyticsError } from '@/services/AnalyticsService';
-import { CompletedSession, Plan } from '@/types';
+import { CompletedSession, Plan, QuestionPattern } from '@/types';
+import { patterns } from '@/lib/patterns';
+import { questionBank } from '@/lib/questions';
+import { InMemoryQuestionProvider } from '@/services/QuestionProvider';
 
 // ============================================================================
 // Arbitraries (Generators) for Property-Based Testing
@@ -614,6 +617,46 @@ describe('Analytics Property Tests', () => {
         { numRuns: 100 }
       );
     });
+    it('should average test pass rates only over sessions where code was run', () => {
+      fc.assert(
+        fc.property(
+          categoryArbitrary(),
+          fc.array(
+            fc.option(fc.double({ min: 0, max: 1, noNaN: true }), { nil: undefined }),
+            { minLength: 1, maxLength: 10 }
+          ),
+          (category, passRates) => {
+            const sessions: CompletedSession[] = passRates.map((testPassRate, index) => ({
+              id: `session-${index}`,
+              userId: 'test-user',
+              questionId: `q-${index}`,
+              questionTitle: `Question ${index}`,
+              category,
+              difficulty: 'medium',
+              startTime: new Date(),
+              endTime: new Date(),
+              duration: 1800,
+              rating: 3,
+              perceivedDifficulty: 'medium',
+              notes: '',
+              pressureModeUsed: false,
+              ...(testPassRate !== undefined && { testPassRate }),
+            }));
+
+            const [perf] = AnalyticsService.getPerformanceByCategory(sessions);
+            const runRates = passRates.filter((r): r is number => r !== undefined);
+
+            if (runRates.length === 0) {
+              expect(perf.averagePassRate).toBeNull();
+            } else {
+              const expected = runRates.reduce((sum, r) => sum + r, 0) / runRates.length;
+              expect(perf.averagePassRate).toBeCloseTo(expected, 10);
+            }
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
   });
 
   describe('Property 32: Weakest category is correctly identified', () => {
@@ -794,4 +837,334 @@ describe('Analytics Property Tests', () => {
       }).toThrow('No sessions available to determine weakest category');
     });
   });
+
+  describe('Adaptive selection weights and difficulty steps', () => {
+    const now = new Date('2024-06-01T12:00:00');
+    const datedSessionArbitrary = (category?: string) =>
+      completedSessionArbitrary('test-user', undefined, category).filter(s => !isNaN(s.endTime.getTime()));
+
+    it('should weight untried categories as coverage gaps and keep practiced weights between 1 and 4', () => {
+      fc.assert(
+        fc.property(
+          fc.array(datedSessionArbitrary(), { maxLength: 20 }),
+          fc.uniqueArray(categoryArbitrary(), { minLength: 1 }),
+          (sessions, categories) => {
+            const weights = AnalyticsService.getCategoryWeights(sessions, categories, now);
+
+            expect(weights.map(w => w.category)).toEqual(categories);
+            weights.forEach(({ category, weight, reason }) => {
+              expect(reason.endsWith(`: ${category}`)).toBe(true);
+              if (sessions.some(s => s.category === category)) {
+                expect(weight).toBeGreaterThanOrEqual(1);
+                expect(weight).toBeLessThanOrEqual(4);
+              } else {
+                expect(weight).toBe(AnalyticsService.COVERAGE_GAP_WEIGHT);
+                expect(reason).toBe(`new area: ${category}`);
+              }
+            });
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should weight a lower-rated category higher when practiced equally recently', () => {
+      fc.assert(
+        fc.property(ratingArbitrary(), ratingArbitrary(), fc.integer({ min: 0, max: 30 }), (low, high, daysAgo) => {
+          fc.pre(low < high);
+          const endTime = new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000);
+          const session = (category: string, rating: 1 | 2 | 3 | 4 | 5): CompletedSession => ({
+            id: `session-${category}`,
+            userId: 'test-user',
+            questionId: `q-${category}`,
+            questionTitle: 'Question',
+            category,
+            difficulty: 'medium',
+            startTime: endTime,
+            endTime,
+            duration: 1800,
+            rating,
+            perceivedDifficulty: 'medium',
+            notes: '',
+            pressureModeUsed: false,
+          });
+
+          const [weak, strong] = AnalyticsService.getCategoryWeights(
+            [session('graphs', low), session('trees', high)],
+            ['graphs', 'trees'],
+            now
+          );
+
+          expect(weak.weight).toBeGreaterThan(strong.weight);
+          if (daysAgo === 0) {
+            expect(weak.reason).toBe('weak area: graphs');
+          }
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should step difficulty by at most one level from the latest attempt', () => {
+      fc.assert(
+        fc.property(fc.array(datedSessionArbitrary('arrays'), { maxLength: 10 }), (sessions) => {
+          const ladder = ['easy', 'medium', 'hard'];
+          const step = AnalyticsService.getDifficultyStep(sessions, 'arrays');
+
+          if (sessions.length === 0) {
+            expect(step).toEqual({ difficulty: 'medium', direction: 'hold' });
+            return;
+          }
+
+          const recent = [...sessions]
+            .sort((a, b) => b.endTime.getTime() - a.endTime.getTime())
+            .slice(0, AnalyticsService.RECENT_ATTEMPTS);
+          const average = recent.reduce((sum, s) => sum + s.rating, 0) / recent.length;
+          const moved = ladder.indexOf(step.difficulty) - ladder.indexOf(recent[0].difficulty);
+
+          expect(moved).toBe({ up: 1, down: -1, hold: 0 }[step.direction]);
+          if (step.direction === 'up') expect(average).toBeGreaterThanOrEqual(4);
+          if (step.direction === 'down') expect(average).toBeLessThanOrEqual(2);
+          if (average >= 4 && recent[0].difficulty !== 'hard') expect(step.direction).toBe('up');
+          if (average <= 2 && recent[0].difficulty !== 'easy') expect(step.direction).toBe('down');
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Pattern performance mirrors category performance', () => {
+    /**
+     * A session counts once towards each of its patterns; the weakest
+     * pattern is the one with the lowest average rating.
+     */
+    const patternArbitrary = (): fc.Arbitrary<QuestionPattern> =>
+      fc.constantFrom(...patterns.map(pattern => pattern.id));
+
+    const taggedSessionArbitrary = () =>
+      fc.tuple(
+        completedSessionArbitrary('test-user'),
+        fc.uniqueArray(patternArbitrary(), { minLength: 1, maxLength: 3 })
+      ).map(([session, tags]) => ({ ...session, patterns: tags }));
+
+    it('should count and average every session under each of its patterns', () => {
+      fc.assert(
+        fc.property(fc.array(taggedSessionArbitrary(), { minLength: 1, maxLength: 20 }), (sessions) => {
+          const performances = AnalyticsService.getPerformanceByPattern(sessions);
+          const tagged = new Set(sessions.flatMap(s => s.patterns));
+
+          expect(performances.map(p => p.pattern).sort()).toEqual([...tagged].sort());
+
+          performances.forEach(perf => {
+            const matching = sessions.filter(s => s.patterns.includes(perf.pattern));
+            const average = matching.reduce((sum, s) => sum + s.rating, 0) / matching.length;
+
+            expect(perf.sessionsCount).toBe(matching.length);
+            expect(perf.averageRating).toBeCloseTo(average, 10);
+          });
+
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should mark exactly one pattern with the lowest average as weakest', () => {
+      fc.assert(
+        fc.property(fc.array(taggedSessionArbitrary(), { minLength: 1, maxLength: 20 }), (sessions) => {
+          const performances = AnalyticsService.getPerformanceByPattern(sessions);
+          const weakest = performances.filter(p => p.isWeakest);
+
+          expect(weakest).toHaveLength(1);
+          expect(weakest[0].averageRating).toBe(Math.min(...performances.map(p => p.averageRating)));
+          expect(AnalyticsService.getWeakestPattern(sessions)).toBe(weakest[0].pattern);
+
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("should fall back to the question bank's tags for untagged sessions", () => {
+      const session: CompletedSession = {
+        id: 'session-1',
+        userId: 'test-user',
+        questionId: 'basic-array-1',
+        questionTitle: 'Two Sum',
+        category: 'arrays',
+        difficulty: 'easy',
+        startTime: new Date(),
+        endTime: new Date(),
+        duration: 1800,
+        rating: 2,
+        perceivedDifficulty: 'easy',
+        notes: '',
+        pressureModeUsed: false,
+      };
+
+      const [perf] = AnalyticsService.getPerformanceByPattern([session]);
+
+      expect(perf.pattern).toBe('hash-map');
+      expect(perf.sessionsCount).toBe(1);
+    });
+
+    it('should look up untagged sessions\' questions through the question provider', () => {
+      const [builtIn] = questionBank;
+      const packQuestion = { ...builtIn, id: 'team-1', patterns: ['topological-sort' as QuestionPattern] };
+      const session: CompletedSession = {
+        id: 'session-1',
+        userId: 'test-user',
+        questionId: 'team-1',
+        questionTitle: 'Team Question',
+        category: 'graphs',
+        difficulty: 'medium',
+        startTime: new Date(),
+        endTime: new Date(),
+        duration: 1800,
+        rating: 3,
+        perceivedDifficulty: 'medium',
+        notes: '',
+        pressureModeUsed: false,
+      };
+
+      const performances = AnalyticsService.getPerformanceByPattern(
+        [session],
+        new InMemoryQuestionProvider([packQuestion])
+      );
+
+      expect(performances.map(p => p.pattern)).toEqual(['topological-sort']);
+    });
+
+    it('should throw error when no sessions available', () => {
+      expect(() => AnalyticsService.getWeakestPattern([])).toThrow(AnalyticsError);
+      expect(() => AnalyticsService.getWeakestPattern([])).toThrow(
+        'No sessions available to determine weakest pattern'
+      );
+    });
+  });
+
+  describe('Hint dependence is reported per category', () => {
+    /**
+     * Each category reports the share of tracked sessions that used a hint,
+     * the average hint count and the average time to the first hint.
+     * Sessions saved before hint tracking are left out.
+     */
+    const hintSessionArbitrary = () =>
+      fc.tuple(
+        completedSessionArbitrary('test-user'),
+        fc.oneof(
+          fc.constant({}),
+          fc.record({ hintUsed: fc.boolean() }),
+          fc.integer({ min: 0, max: 3 }).chain((hintCount): fc.Arbitrary<Partial<CompletedSession>> =>
+            hintCount === 0
+              ? fc.constant({ hintUsed: false, hintCount })
+              : fc.integer({ min: 0, max: 2700 }).map(firstHintSeconds => ({ hintUsed: true, hintCount, firstHintSeconds }))
+          )
+        )
+      ).map(([session, hints]): CompletedSession => ({ ...session, ...hints }));
+
+    it('should summarize hint use over the tracked sessions of each category', () => {
+      fc.assert(
+        fc.property(fc.array(hintSessionArbitrary(), { maxLength: 20 }), (sessions) => {
+          const dependence = AnalyticsService.getHintDependenceByCategory(sessions);
+          const tracked = sessions.filter(s => s.hintUsed !== undefined);
+
+          expect(dependence.map(d => d.category).sort()).toEqual([...new Set(tracked.map(s => s.category))].sort());
+
+          dependence.forEach(entry => {
+            const matching = tracked.filter(s => s.category === entry.category);
+            const counts = matching.map(s => s.hintCount ?? (s.hintUsed ? 1 : 0));
+            const timed = matching.flatMap(s => (s.firstHintSeconds === undefined ? [] : [s.firstHintSeconds]));
+
+            expect(entry.sessionsCount).toBe(matching.length);
+            expect(entry.hintRate).toBeCloseTo(counts.filter(count => count > 0).length / counts.length, 10);
+            expect(entry.averageHints).toBeCloseTo(counts.reduce((sum, count) => sum + count, 0) / counts.length, 10);
+            if (timed.length === 0) {
+              expect(entry.averageSecondsToFirstHint).toBeNull();
+            } else {
+              expect(entry.averageSecondsToFirstHint).toBeCloseTo(timed.reduce((sum, t) => sum + t, 0) / timed.length, 10);
+            }
+          });
+
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Practice sessions stay out of interview metrics', () => {
+    const interviewsArbitrary = () =>
+      fc.array(completedSessionArbitrary('test-user', new Date()), { maxLength: 8 });
+    const practiceArbitrary = () =>
+      fc.array(
+        completedSessionArbitrary('test-user', new Date()).map((s): CompletedSession => ({ ...s, mode: 'practice' })),
+        { minLength: 1, maxLength: 8 }
+      );
+
+    it('should leave practice sessions out of weekly stats', () => {
+      fc.assert(
+        fc.property(interviewsArbitrary(), practiceArbitrary(), (interviews, practice) => {
+          const withPractice = AnalyticsService.getWeeklyStats('test-user', [...interviews, ...practice]);
+          const without = AnalyticsService.getWeeklyStats('test-user', interviews);
+
+          expect(withPractice).toEqual(without);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should count practice toward activity at a reduced weight but not toward performance', () => {
+      fc.assert(
+        fc.property(interviewsArbitrary(), practiceArbitrary(), fc.nat({ max: 40 }), (interviews, practice, streak) => {
+          const withPractice = AnalyticsService.calculateReadinessScore('test-user', [...interviews, ...practice], streak);
+          const without = AnalyticsService.calculateReadinessScore('test-user', interviews, streak);
+          const weighted = interviews.length + practice.length * AnalyticsService.PRACTICE_ACTIVITY_WEIGHT;
+
+          expect(withPractice.breakdown.performance).toBe(without.breakdown.performance);
+          expect(withPractice.breakdown.recentActivity).toBe(Math.round(Math.min(100, (weighted / 7) * 100)));
+          expect(withPractice.breakdown.recentActivity).toBeGreaterThanOrEqual(without.breakdown.recentActivity);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should score mock interviews lower for every hint shown', () => {
+      fc.assert(
+        fc.property(completedSessionArbitrary('test-user', new Date()), fc.integer({ min: 1, max: 4 }), (session, hintCount) => {
+          const clean = AnalyticsService.calculateReadinessScore('test-user', [{ ...session, hintUsed: false, hintCount: 0 }], 0);
+          const hinted = AnalyticsService.calculateReadinessScore('test-user', [{ ...session, hintUsed: true, hintCount }], 0);
+          const penalized = Math.max(1, session.rating - AnalyticsService.HINT_PENALTY * hintCount);
+
+          expect(hinted.breakdown.performance).toBe(Math.round((penalized / 5) * 100));
+          expect(hinted.breakdown.performance).toBeLessThanOrEqual(clean.breakdown.performance);
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Interview loops count once in weekly stats', () => {
+    it('should count a loop\'s rounds as one session but rate every round', () => {
+      fc.assert(
+        fc.property(
+          fc.array(completedSessionArbitrary('test-user', new Date()), { maxLength: 5 }),
+          fc.array(completedSessionArbitrary('test-user', new Date()), { minLength: 1, maxLength: 4 }),
+          (singles, roundSessions) => {
+            const rounds = roundSessions.map((s, round): CompletedSession => ({
+              ...s,
+              loop: { loopId: 'loop-1', loopTitle: 'Coding Loop', round, roundCount: 4, roundTitle: `Round ${round + 1}` },
+            }));
+            const all = [...singles, ...rounds];
+
+            const stats = AnalyticsService.getWeeklyStats('test-user', all);
+
+            expect(stats.sessionsCompleted).toBe(singles.length + 1);
+            expect(stats.comparisonToPreviousWeek.sessionsDelta).toBe(singles.length + 1);
+            expect(stats.averageRating).toBeCloseTo(all.reduce((sum, s) => sum + s.rating, 0) / all.length, 10);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+  });
 });
@@ -0,0 +1,298 @@
+/**
+ * Property-Based Tests for Online Assessments
+ * Tests problem set draws, hidden test submissions, grading, and result storage
+ */
+
+import fc from 'fast-check';
+import { SessionService, SessionError } from '@/services/SessionService';
+import { StorageService } from '@/services/StorageService';
+import { getQuestionById, getQuestionsByPlan } from '@/lib/questions';
+import { AssessmentDurationMinutes, CodeRunResult, Plan, Session } from '@/types';
+
+// Mock localStorage for testing
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+beforeAll(() => {
+  Object.defineProperty(global, 'localStorage', {
+    value: localStorageMock,
+    writable: true,
+  });
+});
+
+beforeEach(() => {
+  localStorageMock.clear();
+  StorageService.clearAll();
+});
+
+// ============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// ============================================================================
+
+const assessmentPlanArbitrary = (): fc.Arbitrary<Plan> => fc.constantFrom<Plan>('premium', 'pro');
+
+const problemCountArbitrary = (): fc.Arbitrary<number> => fc.constantFrom(...SessionService.ASSESSMENT_PROBLEM_COUNTS);
+
+const durationArbitrary = (): fc.Arbitrary<AssessmentDurationMinutes> =>
+  fc.constantFrom(...SessionService.ASSESSMENT_DURATIONS);
+
+/**
+ * A submission to one of the set's problems: which problem, the share of its
+ * cases passed, and how many seconds into the assessment it was made
+ */
+const submissionArbitrary = () =>
+  fc.record({
+    problem: fc.nat(),
+    passed: fc.double({ min: 0, max: 1, noNaN: true }),
+    atSeconds: fc.nat({ max: 90 * 60 }),
+  });
+
+/**
+ * A runner result passing the given number of a question's test cases
+ */
+const runResult = (questionId: string, passedCount: number): CodeRunResult => {
+  const totalCount = getQuestionById(questionId)!.testCases.length;
+  return {
+    language: 'javascript',
+    results: [],
+    passedCount,
+    totalCount,
+    passRate: passedCount / totalCount,
+    timedOut: false,
+  };
+};
+
+/**
+ * Submit to a problem at a time relative to the assessment's start
+ */
+const submit = (session: Session, questionId: string, passedCount: number, atSeconds: number): Session =>
+  SessionService.recordAssessmentSubmission(
+    session,
+    questionId,
+    runResult(questionId, passedCount),
+    new Date(session.startTime.getTime() + atSeconds * 1000)
+  );
+
+const caseCount = (questionId: string) => getQuestionById(questionId)!.testCases.length;
+
+// ============================================================================
+// Property Tests
+// ============================================================================
+
+describe('Online Assessment Property Tests', () => {
+  describe('Starting an assessment', () => {
+    it('should draw distinct auto-graded problems from the plan, easiest first', () => {
+      const difficultyOrder = ['easy', 'medium', 'hard'];
+
+      fc.assert(
+        fc.property(assessmentPlanArbitrary(), problemCountArbitrary(), durationArbitrary(), (plan, count, duration) => {
+          const session = SessionService.startAssessment('test-user', plan, count, duration);
+          const { questionIds } = session.assessment!;
+          const planIds = getQuestionsByPlan(plan).map(q => q.id);
+          const ranks = questionIds.map(id => difficultyOrder.indexOf(getQuestionById(id)!.difficulty));
+
+          expect(questionIds).toHaveLength(count);
+          expect(new Set(questionIds).size).toBe(count);
+          questionIds.forEach(id => {
+            expect(planIds).toContain(id);
+            expect(getQuestionById(id)!.runner).toBeDefined();
+            expect(caseCount(id)).toBeGreaterThan(0);
+          });
+          expect(ranks).toEqual([...ranks].sort((a, b) => a - b));
+          expect(session.questionId).toBe(questionIds[0]);
+          expect(session.timeRemaining).toBe(duration * 60);
+          expect(session.assessment!.submissions).toEqual([]);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should only offer the plans, problem counts and time limits of an OA', () => {
+      expect(() => SessionService.startAssessment('test-user', 'basic', 3, 90)).toThrow(SessionError);
+
+      fc.assert(
+        fc.property(fc.integer({ min: -2, max: 8 }), (count) => {
+          fc.pre(!SessionService.ASSESSMENT_PROBLEM_COUNTS.includes(count));
+          expect(() => SessionService.startAssessment('test-user', 'pro', count, 90)).toThrow(SessionError);
+        }),
+        { numRuns: 30 }
+      );
+
+      expect(() =>
+        SessionService.startAssessment('test-user', 'pro', 3, 45 as AssessmentDurationMinutes)
+      ).toThrow(SessionError);
+    });
+
+    it('should refuse hints, pauses and self-rating during an assessment', () => {
+      fc.assert(
+        fc.property(assessmentPlanArbitrary(), (plan) => {
+          const session = SessionService.startAssessment('test-user', plan, 2, 70);
+
+          expect(() => SessionService.revealHint(session)).toThrow(SessionError);
+          expect(() => SessionService.pauseSession(session, plan)).toThrow(SessionError);
+          expect(() =>
+            SessionService.endSession(session, { rating: 5, perceivedDifficulty: 'easy', notes: '' })
+          ).toThrow(SessionError);
+        }),
+        { numRuns: 10 }
+      );
+    });
+  });
+
+  describe('Submissions', () => {
+    it('should record each submission against a problem in the set', () => {
+      fc.assert(
+        fc.property(fc.array(submissionArbitrary(), { maxLength: 8 }), (submissions) => {
+          let session = SessionService.startAssessment('test-user', 'pro', 3, 90);
+          const { questionIds } = session.assessment!;
+
+          submissions.forEach(({ problem, passed, atSeconds }) => {
+            const questionId = questionIds[problem % questionIds.length];
+            session = submit(session, questionId, Math.round(passed * caseCount(questionId)), atSeconds);
+          });
+
+          expect(session.assessment!.submissions).toHaveLength(submissions.length);
+          expect(session.assessment!.questionIds).toEqual(questionIds);
+        }),
+        { numRuns: 30 }
+      );
+    });
+
+    it('should reject submissions to other problems or after time is up', () => {
+      const session = SessionService.startAssessment('test-user', 'pro', 2, 70);
+      const outside = getQuestionsByPlan('pro').find(q => !session.assessment!.questionIds.includes(q.id))!;
+
+      expect(() => submit(session, outside.id, 0, 60)).toThrow(SessionError);
+      expect(() => submit({ ...session, timedOut: true }, session.questionId, 1, 60)).toThrow(SessionError);
+      expect(() =>
+        SessionService.recordAssessmentSubmission(SessionService.startSession('test-user', 'pro'), outside.id, runResult(outside.id, 0))
+      ).toThrow(SessionError);
+    });
+  });
+
+  describe('Grading', () => {
+    it('should keep each problem\'s best submission and score within 0-100', () => {
+      fc.assert(
+        fc.property(fc.array(submissionArbitrary(), { maxLength: 10 }), durationArbitrary(), (submissions, duration) => {
+          let session = SessionService.startAssessment('test-user', 'pro', 4, duration);
+          const { questionIds } = session.assessment!;
+
+          submissions.forEach(({ problem, passed, atSeconds }) => {
+            const questionId = questionIds[problem % questionIds.length];
+            session = submit(session, questionId, Math.round(passed * caseCount(questionId)), atSeconds);
+          });
+
+          const result = SessionService.getAssessmentResult(session, new Date(session.startTime.getTime() + 60 * 1000));
+
+          result.problems.forEach(problem => {
+            const attempts = session.assessment!.submissions.filter(s => s.questionId === problem.questionId);
+            expect(problem.passedCount).toBe(Math.max(0, ...attempts.map(s => s.passedCount)));
+            expect(problem.totalCount).toBe(caseCount(problem.questionId));
+            expect(problem.submissionCount).toBe(attempts.length);
+            expect(problem.solvedAtSeconds === null).toBe(problem.passedCount < problem.totalCount);
+          });
+          expect(result.passedCount).toBe(result.problems.reduce((sum, p) => sum + p.passedCount, 0));
+          expect(result.score).toBeGreaterThanOrEqual(0);
+          expect(result.score).toBeLessThanOrEqual(100);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should score nothing for no submissions and full marks for solving everything at once', () => {
+      fc.assert(
+        fc.property(problemCountArbitrary(), durationArbitrary(), (count, duration) => {
+          const session = SessionService.startAssessment('test-user', 'pro', count, duration);
+          expect(SessionService.getAssessmentResult(session).score).toBe(0);
+
+          const solved = session.assessment!.questionIds.reduce(
+            (current, id) => submit(current, id, caseCount(id), 0),
+            session
+          );
+          expect(SessionService.getAssessmentResult(solved).score).toBe(100);
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it('should score solving later no higher than solving earlier', () => {
+      fc.assert(
+        fc.property(fc.nat({ max: 70 * 60 }), fc.nat({ max: 70 * 60 }), (a, b) => {
+          const session = SessionService.startAssessment('test-user', 'pro', 2, 70);
+          const [first] = session.assessment!.questionIds;
+          const early = SessionService.getAssessmentResult(submit(session, first, caseCount(first), Math.min(a, b)));
+          const late = SessionService.getAssessmentResult(submit(session, first, caseCount(first), Math.max(a, b)));
+
+          expect(early.score).toBeGreaterThanOrEqual(late.score);
+        }),
+        { numRuns: 30 }
+      );
+    });
+  });
+
+  describe('Finishing', () => {
+    it('should grade a finished assessment as of finishing and refuse later submissions', () => {
+      fc.assert(
+        fc.property(durationArbitrary(), fc.integer({ min: 1, max: 70 * 60 }), (duration, finishedIn) => {
+          StorageService.clearAll();
+          const session = SessionService.startAssessment('test-user', 'pro', 2, duration);
+          const finishedAt = new Date(session.startTime.getTime() + finishedIn * 1000);
+          const finished = SessionService.finishSession(session, finishedAt);
+
+          expect(() => submit(finished, session.questionId, 1, finishedIn)).toThrow(SessionError);
+
+          const result = SessionService.endAssessment(finished);
+          expect(result.endTime).toEqual(finishedAt);
+          expect(result.timeUsed).toBe(finishedIn);
+          expect(result.timedOut).toBe(false);
+        }),
+        { numRuns: 30 }
+      );
+    });
+  });
+
+  describe('Results', () => {
+    it('should save results apart from interview sessions and clear the active assessment', () => {
+      const session = SessionService.startAssessment('test-user', 'premium', 2, 80);
+      SessionService.saveProgress(session, null);
+
+      const result = SessionService.endAssessment(submit(session, session.questionId, 1, 120));
+
+      expect(StorageService.getAssessmentResults('test-user')).toEqual([result]);
+      expect(StorageService.getSessions('test-user')).toEqual([]);
+      expect(SessionService.getCurrentSession('test-user')).toBeNull();
+    });
+
+    it('should restore an assessment in progress with its submissions', () => {
+      fc.assert(
+        fc.property(fc.array(submissionArbitrary(), { maxLength: 5 }), (submissions) => {
+          let session = SessionService.startAssessment('test-user', 'pro', 3, 90);
+          const { questionIds } = session.assessment!;
+
+          submissions.forEach(({ problem, atSeconds }) => {
+            session = submit(session, questionIds[problem % questionIds.length], 0, atSeconds);
+          });
+          SessionService.saveProgress(session, null);
+
+          const restored = StorageService.getActiveSession('test-user')!.session;
+          expect(restored.assessment).toEqual(session.assessment);
+        }),
+        { numRuns: 20 }
+      );
+    });
+  });
+});
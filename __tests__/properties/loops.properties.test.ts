@@ -0,0 +1,235 @@
+/**
+ * Property-Based Tests for Interview Loops
+ * Tests loop setup, linked round sessions, breaks, and loop summaries in history
+ */
+
+import fc from 'fast-check';
+import { SessionService, SessionError } from '@/services/SessionService';
+import { LoopService } from '@/services/LoopService';
+import { StorageService } from '@/services/StorageService';
+import { loopTemplates, getLoopTemplateById, getLoopTemplatesByPlan } from '@/lib/loops';
+import { getQuestionById, getQuestionsByPlan } from '@/lib/questions';
+import { CompletedSession, Feedback, Plan } from '@/types';
+
+// Mock localStorage for testing
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+beforeAll(() => {
+  Object.defineProperty(global, 'localStorage', {
+    value: localStorageMock,
+    writable: true,
+  });
+});
+
+beforeEach(() => {
+  localStorageMock.clear();
+  StorageService.clearAll();
+});
+
+// ============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// ============================================================================
+
+const planArbitrary = (): fc.Arbitrary<Plan> => fc.constantFrom<Plan>('basic', 'premium', 'pro');
+
+const feedbackArbitrary = (): fc.Arbitrary<Feedback> =>
+  fc.record({
+    rating: fc.constantFrom<Feedback['rating']>(1, 2, 3, 4, 5),
+    perceivedDifficulty: fc.constantFrom<Feedback['perceivedDifficulty']>('easy', 'medium', 'hard'),
+    notes: fc.constant(''),
+  });
+
+/**
+ * Run every round of a loop with the given feedback, one per round
+ */
+const runLoop = (userId: string, plan: Plan, loopId: string, feedback: Feedback[]): CompletedSession[] =>
+  feedback.map(roundFeedback => {
+    const session = SessionService.startLoopRound(userId, plan, loopId);
+    return SessionService.endSession(session, roundFeedback);
+  });
+
+// ============================================================================
+// Property Tests
+// ============================================================================
+
+describe('Interview Loop Property Tests', () => {
+  describe('Starting a loop', () => {
+    it('should choose a different question for every round from the round\'s categories', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...loopTemplates), (template) => {
+          StorageService.clearAll();
+          const loop = SessionService.startLoop('test-user', 'pro', template.id);
+          const questionIds = loop.rounds.map(round => round.questionId);
+
+          expect(new Set(questionIds).size).toBe(questionIds.length);
+          loop.rounds.forEach((round, index) => {
+            const question = getQuestionById(round.questionId)!;
+            expect(round.categories).toContain(question.category);
+            expect(round).toMatchObject({ ...template.rounds[index], sessionId: null, completedAt: null });
+          });
+          expect(LoopService.getActiveLoop('test-user')).toEqual(loop);
+        }),
+        { numRuns: 30 }
+      );
+    });
+
+    it('should only start loops on the plan, one at a time', () => {
+      fc.assert(
+        fc.property(planArbitrary(), fc.constantFrom(...loopTemplates), (plan, template) => {
+          StorageService.clearAll();
+          const available = getLoopTemplatesByPlan(plan).includes(template);
+
+          if (!available) {
+            expect(() => SessionService.startLoop('test-user', plan, template.id)).toThrow(SessionError);
+            return;
+          }
+
+          const loop = SessionService.startLoop('test-user', plan, template.id);
+          const planQuestionIds = getQuestionsByPlan(plan).map(q => q.id);
+          expect(loop.rounds.every(round => planQuestionIds.includes(round.questionId))).toBe(true);
+          expect(() => SessionService.startLoop('test-user', plan, template.id)).toThrow(SessionError);
+        }),
+        { numRuns: 30 }
+      );
+    });
+
+    it('should reject unknown loops', () => {
+      expect(() => SessionService.startLoop('test-user', 'pro', 'no-such-loop')).toThrow(SessionError);
+      expect(() => SessionService.startLoopRound('test-user', 'pro', 'no-such-loop')).toThrow(SessionError);
+    });
+  });
+
+  describe('Rounds', () => {
+    it('should run rounds in order as linked sessions with their own time budget', () => {
+      const template = getLoopTemplateById('onsite-loop')!;
+
+      fc.assert(
+        fc.property(fc.array(feedbackArbitrary(), { minLength: template.rounds.length, maxLength: template.rounds.length }), (feedback) => {
+          StorageService.clearAll();
+          const loop = SessionService.startLoop('test-user', 'pro', template.id);
+
+          loop.rounds.forEach((round, index) => {
+            const session = SessionService.startLoopRound('test-user', 'pro', loop.id);
+            expect(session.questionId).toBe(round.questionId);
+            expect(session.timeRemaining).toBe(round.durationMinutes * 60);
+            expect(session.loop).toEqual({
+              loopId: loop.id,
+              loopTitle: loop.title,
+              round: index,
+              roundCount: loop.rounds.length,
+              roundTitle: round.title,
+            });
+
+            const completed = SessionService.endSession(session, feedback[index]);
+            expect(completed.loop).toEqual(session.loop);
+            expect(LoopService.getLoop('test-user', loop.id).rounds[index].sessionId).toBe(completed.id);
+          });
+
+          const finished = LoopService.getLoop('test-user', loop.id);
+          expect(finished.endedAt).not.toBeNull();
+          expect(LoopService.getActiveLoop('test-user')).toBeNull();
+          expect(() => SessionService.startLoopRound('test-user', 'pro', loop.id)).toThrow(SessionError);
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it('should end the break after the previous round its break length after it', () => {
+      const loop = SessionService.startLoop('test-user', 'pro', 'onsite-loop');
+      expect(LoopService.getBreakEndsAt(loop)).toBeNull();
+
+      const [first] = runLoop('test-user', 'pro', loop.id, [{ rating: 4, perceivedDifficulty: 'medium', notes: '' }]);
+      const breakEndsAt = LoopService.getBreakEndsAt(LoopService.getLoop('test-user', loop.id));
+
+      expect(breakEndsAt!.getTime() - first.endTime.getTime()).toBe(loop.rounds[0].breakMinutes * 60 * 1000);
+    });
+
+    it('should save a round only once it is linked to its loop, so ending it again adds no duplicate', () => {
+      const loop = SessionService.startLoop('test-user', 'pro', 'coding-loop');
+      const session = SessionService.startLoopRound('test-user', 'pro', loop.id);
+      const feedback: Feedback = { rating: 4, perceivedDifficulty: 'medium', notes: '' };
+
+      const recordRound = jest.spyOn(LoopService, 'recordRound').mockImplementationOnce(() => {
+        throw new Error('Storage quota exceeded');
+      });
+      expect(() => SessionService.endSession(session, feedback)).toThrow('Storage quota exceeded');
+      expect(StorageService.getSessions('test-user')).toEqual([]);
+      recordRound.mockRestore();
+
+      const completed = SessionService.endSession(session, feedback);
+
+      expect(StorageService.getSessions('test-user').map(s => s.id)).toEqual([completed.id]);
+      expect(LoopService.getLoop('test-user', loop.id).rounds.map(round => round.sessionId))
+        .toEqual([completed.id, ...loop.rounds.slice(1).map(() => null)]);
+    });
+
+    it('should stop an abandoned loop from starting more rounds', () => {
+      const loop = SessionService.startLoop('test-user', 'pro', 'coding-loop');
+      LoopService.abandonLoop('test-user', loop.id);
+
+      expect(LoopService.getActiveLoop('test-user')).toBeNull();
+      expect(() => SessionService.startLoopRound('test-user', 'pro', loop.id)).toThrow(SessionError);
+      expect(SessionService.startLoop('test-user', 'pro', 'coding-loop').id).not.toBe(loop.id);
+    });
+  });
+
+  describe('Summaries', () => {
+    it('should roll a loop\'s rounds up into one summary', () => {
+      const template = getLoopTemplateById('coding-loop')!;
+
+      fc.assert(
+        fc.property(fc.array(feedbackArbitrary(), { minLength: 1, maxLength: template.rounds.length }), (feedback) => {
+          StorageService.clearAll();
+          const loop = SessionService.startLoop('test-user', 'premium', template.id);
+          const rounds = runLoop('test-user', 'premium', loop.id, feedback);
+
+          const [summary] = LoopService.getSummaries(StorageService.getSessions('test-user'));
+          expect(summary.loopId).toBe(loop.id);
+          expect(summary.rounds.map(s => s.id)).toEqual(rounds.map(s => s.id));
+          expect(summary.roundCount).toBe(template.rounds.length);
+          expect(summary.averageRating).toBeCloseTo(feedback.reduce((sum, f) => sum + f.rating, 0) / feedback.length);
+          expect(summary.duration).toBe(rounds.reduce((sum, s) => sum + s.duration, 0));
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it('should show each loop once in history, where its first round was', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: 0, max: 3 }), fc.integer({ min: 0, max: 3 }), (before, after) => {
+          StorageService.clearAll();
+          const single = () => SessionService.endSession(
+            SessionService.startSession('test-user', 'premium'),
+            { rating: 3, perceivedDifficulty: 'medium', notes: '' }
+          );
+
+          for (let i = 0; i < before; i++) single();
+          const loop = SessionService.startLoop('test-user', 'premium', 'coding-loop');
+          runLoop('test-user', 'premium', loop.id, loop.rounds.map(() => ({ rating: 4, perceivedDifficulty: 'medium', notes: '' })));
+          for (let i = 0; i < after; i++) single();
+
+          const entries = LoopService.groupHistory(StorageService.getSessions('test-user'));
+          expect(entries).toHaveLength(before + 1 + after);
+          expect(LoopService.isSummary(entries[before])).toBe(true);
+          expect(entries.filter(entry => LoopService.isSummary(entry))).toHaveLength(1);
+        }),
+        { numRuns: 20 }
+      );
+    });
+  });
+});
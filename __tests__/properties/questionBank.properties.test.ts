@@ -4,7 +4,9 @@
  */
 
 import fc from 'fast-check';
-import { questionBank, getQuestionsByPlan } from '@/lib/questions';
+import { questionBank, getQuestionsByPlan, getQuestionsByPattern } from '@/lib/questions';
+import { languages } from '@/lib/languages';
+import { patterns } from '@/lib/patterns';
 import { Question, Plan } from '@/types';
 
 // ============================================================================
@@ -311,7 +313,7 @@ describe('Question Bank Property Tests', () => {
         expect(question.title).toBeDefined();
         expect(question.title.length).toBeGreaterThan(0);
         expect(question.category).toBeDefined();
-        expect(question.hint).toBeDefined();
+        expect(question.hints.length).toBeGreaterThan(0);
         expect(question.planRequired).toBeDefined();
         expect(['basic', 'premium', 'pro']).toContain(question.planRequired);
       });
@@ -332,7 +334,7 @@ describe('Question Bank Property Tests', () => {
             expect(question.id).toBeTruthy();
             expect(question.title).toBeTruthy();
             expect(question.category).toBeTruthy();
-            expect(question.hint).toBeTruthy();
+            expect(question.hints.every(hint => hint.length > 0)).toBe(true);
             expect(question.planRequired).toBeTruthy();
           });
           
@@ -343,6 +345,159 @@ describe('Question Bank Property Tests', () => {
     });
   });
 
+  describe('Coding questions include structured examples and test cases', () => {
+    /**
+     * For any coding question (every category except behavioral and
+     * system-design), the question should carry at least one worked example,
+     * its constraints, and hidden test cases for the code runner.
+     */
+    const isCodingQuestion = (question: Question) =>
+      question.category !== 'behavioral' && question.category !== 'system-design';
+
+    it('should have examples, constraints and test cases for every coding question', () => {
+      fc.assert(
+        fc.property(planArbitrary(), (plan) => {
+          const codingQuestions = getQuestionsByPlan(plan).filter(isCodingQuestion);
+
+          codingQuestions.forEach(question => {
+            expect(question.examples.length).toBeGreaterThan(0);
+            expect(question.constraints.length).toBeGreaterThan(0);
+            expect(question.testCases.length).toBeGreaterThan(0);
+          });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should have non-empty input and output for every example', () => {
+      questionBank.filter(isCodingQuestion).forEach(question => {
+        question.examples.forEach(example => {
+          expect(example.input.trim()).not.toBe('');
+          expect(example.output.trim()).not.toBe('');
+          if (example.explanation !== undefined) {
+            expect(example.explanation.trim()).not.toBe('');
+          }
+        });
+      });
+    });
+
+    it('should have test cases with argument lists and an expected value', () => {
+      questionBank.filter(isCodingQuestion).forEach(question => {
+        question.testCases.forEach(testCase => {
+          expect(Array.isArray(testCase.args)).toBe(true);
+          expect(testCase.args.length).toBeGreaterThan(0);
+          expect(testCase.expected).toBeDefined();
+
+          // Test cases must survive storage and transfer to the runner
+          expect(JSON.parse(JSON.stringify(testCase))).toEqual(testCase);
+        });
+      });
+    });
+
+    it('should not define test cases for non-coding questions', () => {
+      questionBank.filter(q => !isCodingQuestion(q)).forEach(question => {
+        expect(question.testCases).toEqual([]);
+      });
+    });
+  });
+
+  describe('Questions include reference solutions and starter code', () => {
+    /**
+     * Every question carries an approach write-up. Coding questions also
+     * state their complexity and ship at least one reference solution, and
+     * every solution is keyed by a language the workspace offers.
+     */
+    const isCodingQuestion = (question: Question) =>
+      question.category !== 'behavioral' && question.category !== 'system-design';
+
+    it('should have an approach write-up for every question', () => {
+      questionBank.forEach(question => {
+        expect(question.solution.approach.trim()).not.toBe('');
+      });
+    });
+
+    it('should have complexity and code for every coding question', () => {
+      questionBank.filter(isCodingQuestion).forEach(question => {
+        expect(question.solution.timeComplexity?.trim()).toBeTruthy();
+        expect(question.solution.spaceComplexity?.trim()).toBeTruthy();
+        expect(question.solution.code.javascript?.trim()).toBeTruthy();
+      });
+    });
+
+    it('should provide a starter signature in every language for coding questions', () => {
+      questionBank.forEach(question => {
+        const starterLanguages = Object.keys(question.starterCode);
+
+        if (isCodingQuestion(question)) {
+          expect(starterLanguages.sort()).toEqual(languages.map(lang => lang.id).sort());
+        } else {
+          expect(starterLanguages).toEqual([]);
+        }
+      });
+    });
+
+    it('should only key solutions by supported languages', () => {
+      const supported = languages.map(lang => lang.id as string);
+
+      questionBank.forEach(question => {
+        Object.entries(question.solution.code).forEach(([language, code]) => {
+          expect(supported).toContain(language);
+          expect(code?.trim()).toBeTruthy();
+        });
+      });
+    });
+  });
+
+  describe('Questions are tagged with problem patterns', () => {
+    /**
+     * Every question carries at least one pattern tag, each tag is a known
+     * pattern, and filtering by a pattern returns exactly the tagged questions.
+     */
+    const patternIds = patterns.map(pattern => pattern.id);
+
+    it('should tag every question with known, distinct patterns', () => {
+      questionBank.forEach(question => {
+        expect(question.patterns.length).toBeGreaterThan(0);
+        expect(new Set(question.patterns).size).toBe(question.patterns.length);
+        question.patterns.forEach(pattern => expect(patternIds).toContain(pattern));
+      });
+    });
+
+    it('should return exactly the tagged questions when filtering by pattern', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...patternIds), (pattern) => {
+          const tagged = getQuestionsByPattern(pattern);
+
+          expect(tagged.every(q => q.patterns.includes(pattern))).toBe(true);
+          expect(tagged.length).toBe(questionBank.filter(q => q.patterns.includes(pattern)).length);
+
+          return true;
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should have at least one question for every pattern', () => {
+      patternIds.forEach(pattern => {
+        expect(getQuestionsByPattern(pattern).length).toBeGreaterThan(0);
+      });
+    });
+  });
+
+  describe('Questions have progressive hints', () => {
+    /**
+     * Every question has several distinct hints to reveal one at a time,
+     * so a nudge never gives the whole approach away.
+     */
+    it('should give every question at least two distinct, non-empty hints', () => {
+      questionBank.forEach(question => {
+        expect(question.hints.length).toBeGreaterThanOrEqual(2);
+        expect(new Set(question.hints).size).toBe(question.hints.length);
+        question.hints.forEach(hint => expect(hint.trim()).not.toBe(''));
+      });
+    });
+  });
+
   describe('Question Bank Integrity', () => {
     it('should have unique question IDs across all questions', () => {
       const ids = questionBank.map(q => q.id);
@@ -0,0 +1,377 @@
+/**
+ * Property-Based Tests for Question Packs
+ * Tests the portable question file formats and imported pack lookup
+ */
+
+import fc from 'fast-check';
+import { QuestionPackService, QuestionPackError } from '@/services/QuestionPackService';
+import { SessionService } from '@/services/SessionService';
+import { PackQuestionProvider } from '@/services/QuestionProvider';
+import { StorageService } from '@/services/StorageService';
+import {
+  parseQuestionFile,
+  serializeQuestions,
+  detectQuestionFormat,
+  QUESTION_FILE_FORMAT,
+  QUESTION_FILE_VERSION,
+} from '@/lib/questionFormat';
+import { questionBank } from '@/lib/questions';
+import { patterns } from '@/lib/patterns';
+import { Plan, Question, QuestionFileFormat } from '@/types';
+
+// Mock localStorage for testing
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+beforeAll(() => {
+  Object.defineProperty(global, 'localStorage', {
+    value: localStorageMock,
+    writable: true,
+  });
+});
+
+beforeEach(() => {
+  localStorageMock.clear();
+  StorageService.clearAll();
+});
+
+// ============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// ============================================================================
+
+const formatArbitrary = (): fc.Arbitrary<QuestionFileFormat> => fc.constantFrom<QuestionFileFormat>('json', 'markdown');
+
+/**
+ * Single-line prose without leading or trailing spaces
+ */
+const textArbitrary = (): fc.Arbitrary<string> =>
+  fc.stringMatching(/^[A-Za-z0-9][A-Za-z0-9 ,.()=<>+*:"'-]{0,30}[A-Za-z0-9.)]$/);
+
+/**
+ * Code lines, including ones that look like Markdown structure
+ */
+const codeArbitrary = (): fc.Arbitrary<string> =>
+  fc.array(
+    fc.oneof(
+      fc.stringMatching(/^[a-z(){};= ]{1,20}$/),
+      fc.constantFrom('---', '## Not a heading', '```', '    return `${x}`;', '')
+    ),
+    { minLength: 1, maxLength: 5 }
+  ).map(lines => lines.join('\n')).filter(code => code.trim() !== '');
+
+const valueArbitrary = (): fc.Arbitrary<unknown> =>
+  fc.oneof(fc.integer(), fc.string(), fc.boolean(), fc.constant(null), fc.array(fc.integer(), { maxLength: 4 }));
+
+const codeByLanguageArbitrary = () =>
+  fc.record({ javascript: codeArbitrary(), python: codeArbitrary() }, { requiredKeys: [] });
+
+/**
+ * Generate a valid question with a pack-style id
+ */
+const questionArbitrary = (): fc.Arbitrary<Question> =>
+  fc.record({
+    id: fc.stringMatching(/^pack-[a-z0-9]{1,8}$/),
+    title: textArbitrary(),
+    difficulty: fc.constantFrom<Question['difficulty']>('easy', 'medium', 'hard'),
+    category: fc.constantFrom<Question['category']>('arrays', 'strings', 'trees', 'graphs', 'behavioral'),
+    patterns: fc.uniqueArray(fc.constantFrom(...patterns.map(p => p.id)), { maxLength: 3 }),
+    statement: fc.array(textArbitrary(), { minLength: 1, maxLength: 4 }).map(lines => lines.join('\n')),
+    hints: fc.array(textArbitrary(), { maxLength: 3 }),
+    examples: fc.array(
+      fc.record(
+        { input: textArbitrary(), output: textArbitrary(), explanation: textArbitrary() },
+        { requiredKeys: ['input', 'output'] }
+      ),
+      { maxLength: 2 }
+    ),
+    constraints: fc.array(textArbitrary(), { maxLength: 3 }),
+    testCases: fc.array(
+      fc.record(
+        { args: fc.array(valueArbitrary(), { maxLength: 3 }), expected: valueArbitrary(), unordered: fc.boolean() },
+        { requiredKeys: ['args', 'expected'] }
+      ),
+      { maxLength: 2 }
+    ),
+    runner: fc.record({ entryPoint: fc.stringMatching(/^[a-z][a-zA-Z]{0,10}$/) }),
+    starterCode: codeByLanguageArbitrary(),
+    solution: fc.record(
+      {
+        approach: textArbitrary(),
+        timeComplexity: fc.constantFrom('O(n)', 'O(n log n)'),
+        spaceComplexity: fc.constantFrom('O(1)', 'O(n)'),
+        code: codeByLanguageArbitrary(),
+      },
+      { requiredKeys: ['approach', 'code'] }
+    ),
+    planRequired: fc.constantFrom<Plan>('basic', 'premium', 'pro'),
+  }, {
+    requiredKeys: [
+      'id', 'title', 'difficulty', 'category', 'patterns', 'statement', 'hints', 'examples',
+      'constraints', 'testCases', 'starterCode', 'solution', 'planRequired',
+    ],
+  });
+
+const packArbitrary = () =>
+  fc.uniqueArray(questionArbitrary(), { minLength: 1, maxLength: 4, selector: q => q.id });
+
+/**
+ * Line numbers (1-based) of lines matching a pattern
+ */
+const linesMatching = (text: string, pattern: RegExp) =>
+  text.split('\n').flatMap((line, index) => (pattern.test(line) ? [index + 1] : []));
+
+// ============================================================================
+// Property Tests
+// ============================================================================
+
+describe('Question Pack Property Tests', () => {
+  describe('Question files round-trip', () => {
+    it('should read the exported built-in bank back unchanged in both formats', () => {
+      (['json', 'markdown'] as QuestionFileFormat[]).forEach(format => {
+        const parsed = parseQuestionFile(serializeQuestions(questionBank, format, 'Bank'), format);
+
+        expect(parsed.issues).toEqual([]);
+        expect(parsed.questions).toEqual(questionBank);
+        expect(parsed.name).toBe(format === 'json' ? 'Bank' : null);
+      });
+    });
+
+    it('should read any exported pack back unchanged', () => {
+      fc.assert(
+        fc.property(packArbitrary(), formatArbitrary(), (questions, format) => {
+          const parsed = parseQuestionFile(serializeQuestions(questions, format, 'Team Pack'), format);
+
+          expect(parsed.issues).toEqual([]);
+          expect(parsed.questions).toEqual(questions);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should detect the format from the file name, then the contents', () => {
+      expect(detectQuestionFormat('pack.JSON', '---')).toBe('json');
+      expect(detectQuestionFormat('pack.md', '{')).toBe('markdown');
+      expect(detectQuestionFormat('', '  {"format": 1}')).toBe('json');
+      expect(detectQuestionFormat('', '---\nid: x')).toBe('markdown');
+    });
+  });
+
+  describe('Import errors point at their line', () => {
+    it('should report an invalid field on the line it is written', () => {
+      fc.assert(
+        fc.property(
+          formatArbitrary(),
+          fc.integer({ min: 0, max: questionBank.length - 1 }),
+          (format, index) => {
+            const text = serializeQuestions(questionBank, format, 'Bank');
+            const pattern = format === 'json' ? /^ {6}"difficulty": "/ : /^difficulty: /;
+            const line = linesMatching(text, pattern)[index];
+            const broken = text.split('\n').map((l, i) =>
+              i === line - 1 ? l.replace(/(easy|medium|hard)/, 'extreme') : l
+            ).join('\n');
+
+            expect(parseQuestionFile(broken, format).issues).toEqual([
+              { line, message: 'difficulty must be one of easy, medium, hard' },
+            ]);
+          }
+        ),
+        { numRuns: 30 }
+      );
+    });
+
+    it('should report JSON syntax errors on the line they occur', () => {
+      const text = serializeQuestions(questionBank.slice(0, 3), 'json', 'Bank');
+      const lineCount = text.split('\n').length;
+
+      fc.assert(
+        fc.property(fc.integer({ min: 2, max: lineCount - 2 }), (line) => {
+          const lines = text.split('\n');
+          lines.splice(line - 1, 0, '  ???');
+
+          const parsed = parseQuestionFile(lines.join('\n'), 'json');
+
+          expect(parsed.issues).toHaveLength(1);
+          expect(parsed.issues[0].line).toBe(line);
+          expect(parsed.questions).toEqual([]);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should report every Markdown problem in line order', () => {
+      const markdown = [
+        '---',
+        'id: team-1',
+        'title: Pair Sum',
+        'difficulty: easy',
+        'category: puzzles',
+        'owner: platform-team',
+        'planRequired: basic',
+        '---',
+        '',
+        '## Statement',
+        '',
+        'Find a pair.',
+        '',
+        '## Notes',
+        '',
+        '## Solution',
+        '',
+        'Use a set.',
+      ].join('\n');
+
+      expect(parseQuestionFile(markdown, 'markdown').issues).toEqual([
+        { line: 5, message: 'category must be one of arrays, trees, graphs, dynamic-programming, strings, system-design, behavioral' },
+        { line: 6, message: "Unknown field 'owner'" },
+        { line: 14, message: "Unknown section 'Notes'" },
+      ]);
+    });
+
+    it('should read a single hint written before hints were a list as the first hint', () => {
+      const [builtIn] = questionBank;
+      const { hints, ...rest } = builtIn;
+      const text = JSON.stringify({
+        format: QUESTION_FILE_FORMAT,
+        version: QUESTION_FILE_VERSION,
+        name: 'Legacy',
+        questions: [{ ...rest, hint: hints[0] }],
+      });
+
+      const parsed = parseQuestionFile(text, 'json');
+
+      expect(parsed.issues).toEqual([]);
+      expect(parsed.questions[0].hints).toEqual([hints[0]]);
+      expect(parseQuestionFile(JSON.stringify({
+        format: QUESTION_FILE_FORMAT,
+        version: QUESTION_FILE_VERSION,
+        name: 'Both',
+        questions: [{ ...builtIn, hint: hints[0] }],
+      }), 'json').issues.map(issue => issue.message)).toContain('Use hints or hint, not both');
+    });
+
+    it('should reject entry points that are not function names on their line', () => {
+      fc.assert(
+        fc.property(
+          questionArbitrary(),
+          formatArbitrary(),
+          fc.constantFrom('two sum', 'a-b', '1st', 'x; alert(1)'),
+          (question, format, name) => {
+            const text = serializeQuestions([{ ...question, runner: { entryPoint: name } }], format, 'Pack');
+            const [line] = linesMatching(text, format === 'json' ? /"entryPoint": "/ : /^runner: /);
+
+            const parsed = parseQuestionFile(text, format);
+
+            expect(parsed.issues).toEqual([
+              { line, message: `runner.entryPoint '${name}' is not a valid function name` },
+            ]);
+            expect(parsed.questions).toEqual([]);
+          }
+        ),
+        { numRuns: 30 }
+      );
+    });
+
+    it('should reject ids used twice in one file', () => {
+      fc.assert(
+        fc.property(questionArbitrary(), formatArbitrary(), (question, format) => {
+          const text = serializeQuestions([question, question], format, 'Pack');
+          const parsed = parseQuestionFile(text, format);
+          const idLines = linesMatching(text, format === 'json' ? /^ {6}"id": "/ : /^id: /);
+
+          expect(parsed.issues).toEqual([{ line: idLines[1], message: `Duplicate question id '${question.id}'` }]);
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Imported packs are persisted and loadable', () => {
+    it('should make imported questions available by id and plan', () => {
+      fc.assert(
+        fc.property(packArbitrary(), formatArbitrary(), (questions, format) => {
+          localStorageMock.clear();
+
+          const pack = QuestionPackService.importPack(serializeQuestions(questions, format, 'Team Pack'), format, 'team-pack');
+
+          expect(pack.id).toBe('team-pack');
+          expect(QuestionPackService.getPacks()).toHaveLength(1);
+          const provider = new PackQuestionProvider();
+          questions.forEach(question => {
+            expect(provider.getById(question.id)).toEqual(question);
+            expect(SessionService.getQuestion(question.id)).toEqual(question);
+          });
+          expect(provider.getByPlan('basic').every(q => q.planRequired === 'basic')).toBe(true);
+          expect(provider.getByPlan('pro')).toHaveLength(questions.length);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should replace a pack re-imported under the same name and remove it on request', () => {
+      fc.assert(
+        fc.property(packArbitrary(), packArbitrary(), (first, second) => {
+          localStorageMock.clear();
+
+          QuestionPackService.importPack(serializeQuestions(first, 'json', 'Graphs'), 'json', '');
+          QuestionPackService.importPack(serializeQuestions(second, 'json', 'Graphs'), 'json', '');
+
+          expect(QuestionPackService.getQuestions()).toEqual(second);
+          expect(parseQuestionFile(QuestionPackService.exportPack('graphs', 'markdown'), 'markdown').questions).toEqual(second);
+
+          QuestionPackService.removePack('graphs');
+          expect(QuestionPackService.getQuestions()).toEqual([]);
+        }),
+        { numRuns: 30 }
+      );
+    });
+
+    it('should refuse ids taken by the built-in bank or another pack', () => {
+      const [builtIn] = questionBank;
+      const markdown = serializeQuestions([builtIn], 'markdown', '');
+
+      expect(() => QuestionPackService.importPack(markdown, 'markdown', 'Copies')).toThrow(QuestionPackError);
+      try {
+        QuestionPackService.importPack(markdown, 'markdown', 'Copies');
+      } catch (error) {
+        expect((error as QuestionPackError).issues).toEqual([
+          { line: 2, message: `Question id '${builtIn.id}' is already used by the built-in question bank` },
+        ]);
+      }
+
+      const custom = { ...builtIn, id: 'team-two-sum' };
+      QuestionPackService.importPack(serializeQuestions([custom], 'json', 'First'), 'json', '');
+      expect(() =>
+        QuestionPackService.importPack(serializeQuestions([custom], 'json', 'Second'), 'json', '')
+      ).toThrow(QuestionPackError);
+      expect(QuestionPackService.getPacks().map(p => p.name)).toEqual(['First']);
+    });
+
+    it('should offer pack questions in session selection', () => {
+      const [builtIn] = questionBank;
+      const custom: Question = { ...builtIn, id: 'team-components', category: 'arrays', patterns: ['union-find'] };
+      QuestionPackService.importPack(serializeQuestions([custom], 'json', 'Team'), 'json', '');
+
+      const question = SessionService.getRandomQuestion('basic', [], {
+        ...SessionService.DEFAULT_CONFIG,
+        categories: ['arrays'],
+        patterns: ['union-find'],
+      });
+
+      expect(question).toEqual(custom);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Property-Based Tests for Question Providers
+ * Tests that every question source answers lookups and queries the same way,
+ * and that session selection only reads questions through its provider
+ */
+
+import fc from 'fast-check';
+import {
+  BuiltInQuestionProvider,
+  CompositeQuestionProvider,
+  InMemoryQuestionProvider,
+  createQuestionProvider,
+} from '@/services/QuestionProvider';
+import { matchesQuery } from '@/lib/questionQuery';
+import { SessionService } from '@/services/SessionService';
+import { StorageService } from '@/services/StorageService';
+import { UserQuestionService } from '@/services/UserQuestionService';
+import { questionBank, getQuestionsByPlan, filterQuestionsByPlan } from '@/lib/questions';
+import { patterns } from '@/lib/patterns';
+import { Plan, Question, QuestionQuery } from '@/types';
+
+// Mock localStorage for testing
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+beforeAll(() => {
+  Object.defineProperty(global, 'localStorage', {
+    value: localStorageMock,
+    writable: true,
+  });
+});
+
+beforeEach(() => {
+  localStorageMock.clear();
+  StorageService.clearAll();
+});
+
+afterEach(() => {
+  SessionService.setQuestionProvider();
+});
+
+// ============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// ============================================================================
+
+const planArbitrary = (): fc.Arbitrary<Plan> => fc.constantFrom<Plan>('basic', 'premium', 'pro');
+
+const categories = [...new Set(questionBank.map(q => q.category))];
+
+const queryArbitrary = (): fc.Arbitrary<QuestionQuery> =>
+  fc.record({
+    plan: planArbitrary(),
+    categories: fc.uniqueArray(fc.constantFrom(...categories), { maxLength: 3 }),
+    patterns: fc.uniqueArray(fc.constantFrom(...patterns.map(p => p.id)), { maxLength: 3 }),
+    difficulties: fc.uniqueArray(fc.constantFrom<Question['difficulty']>('easy', 'medium', 'hard'), { maxLength: 2 }),
+  }, { requiredKeys: [] });
+
+/**
+ * Split the built-in bank into a few in-memory providers
+ */
+const splitBankArbitrary = (): fc.Arbitrary<Question[][]> =>
+  fc.array(fc.integer({ min: 0, max: 3 }), { minLength: questionBank.length, maxLength: questionBank.length })
+    .map(slots => [0, 1, 2, 3].map(slot => questionBank.filter((_, index) => slots[index] === slot)));
+
+// ============================================================================
+// Property Tests
+// ============================================================================
+
+describe('Question Provider Property Tests', () => {
+  describe('Providers', () => {
+    it('should serve the built-in bank as lib/questions does', () => {
+      const provider = new BuiltInQuestionProvider();
+
+      expect(provider.list()).toEqual(questionBank);
+      (['basic', 'premium', 'pro'] as Plan[]).forEach(plan => {
+        expect(provider.getByPlan(plan)).toEqual(getQuestionsByPlan(plan));
+      });
+      questionBank.forEach(question => {
+        expect(provider.getById(question.id)).toBe(question);
+      });
+      expect(provider.getById('no-such-question')).toBeUndefined();
+    });
+
+    it('should answer a query with the plan\'s questions that match every filter', () => {
+      fc.assert(
+        fc.property(queryArbitrary(), (query) => {
+          const provider = new InMemoryQuestionProvider(questionBank);
+          const expected = filterQuestionsByPlan(questionBank, query.plan ?? 'pro').filter(q => matchesQuery(q, query));
+
+          expect(provider.query(query)).toEqual(expected);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should read a composite the same as one provider over the same questions', () => {
+      fc.assert(
+        fc.property(splitBankArbitrary(), queryArbitrary(), planArbitrary(), (parts, query, plan) => {
+          const composite = new CompositeQuestionProvider(parts.map(part => new InMemoryQuestionProvider(part)));
+          const whole = new InMemoryQuestionProvider(parts.flat());
+
+          expect(composite.list()).toEqual(whole.list());
+          expect(composite.getByPlan(plan)).toEqual(whole.getByPlan(plan));
+          expect(composite.query(query)).toEqual(whole.query(query));
+          questionBank.forEach(question => {
+            expect(composite.getById(question.id)).toBe(question);
+          });
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should look an id up in the earliest provider that has it', () => {
+      const [original] = questionBank;
+      const shadow = { ...original, title: 'Shadow' };
+      const composite = new CompositeQuestionProvider([
+        new InMemoryQuestionProvider([original]),
+        new InMemoryQuestionProvider([shadow]),
+      ]);
+
+      expect(composite.getById(original.id)).toBe(original);
+    });
+
+    it('should add a user\'s own questions only when given the user', () => {
+      const question = UserQuestionService.createQuestion('user-a', questionBank[0]);
+
+      expect(createQuestionProvider('user-a').getById(question.id)).toEqual(question);
+      expect(createQuestionProvider('user-b').getById(question.id)).toBeUndefined();
+      expect(createQuestionProvider().list()).toEqual(questionBank);
+    });
+  });
+
+  describe('Session selection', () => {
+    it('should only choose questions from the session provider', () => {
+      fc.assert(
+        fc.property(
+          fc.subarray(questionBank.filter(q => q.planRequired === 'basic'), { minLength: 1 }),
+          fc.stringMatching(/^[a-z0-9]{4,12}$/),
+          (questions, seed) => {
+            SessionService.setQuestionProvider(new InMemoryQuestionProvider(questions));
+            const draw = { seed, plan: 'basic' as Plan, config: SessionService.DEFAULT_CONFIG, excludeIds: [] };
+
+            expect(questions).toContain(SessionService.drawQuestion(draw));
+            expect(questions).toContain(SessionService.getRandomQuestion('basic'));
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should find questions from the session provider when starting and ending sessions', () => {
+      const [builtIn] = questionBank;
+      const custom: Question = { ...builtIn, id: 'provided-question', planRequired: 'basic' };
+      SessionService.setQuestionProvider(new InMemoryQuestionProvider([custom]));
+
+      const session = SessionService.startSession('user-a', 'basic');
+      expect(session.questionId).toBe(custom.id);
+      expect(SessionService.getQuestion(custom.id)).toBe(custom);
+
+      const completed = SessionService.endSession(session, { rating: 3, perceivedDifficulty: 'medium', notes: '' });
+      expect(completed.questionTitle).toBe(custom.title);
+    });
+  });
+});
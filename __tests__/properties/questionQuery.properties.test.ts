@@ -0,0 +1,247 @@
+/**
+ * Property-Based Tests for Question Search and Filtering
+ * Tests that query filters compose, that history filters follow the user's
+ * attempts, that search results are ranked, and that a catalog pick starts
+ * a session on exactly that question
+ */
+
+import fc from 'fast-check';
+import { getQuestionAttempts, getSearchScore, isSolvedSession, queryQuestions } from '@/lib/questionQuery';
+import { questionBank, filterQuestionsByPlan } from '@/lib/questions';
+import { patterns } from '@/lib/patterns';
+import { SessionService, SessionError } from '@/services/SessionService';
+import { StorageService } from '@/services/StorageService';
+import { CompletedSession, Plan, Question, QuestionQuery } from '@/types';
+
+// Mock localStorage for testing
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+beforeAll(() => {
+  Object.defineProperty(global, 'localStorage', {
+    value: localStorageMock,
+    writable: true,
+  });
+});
+
+beforeEach(() => {
+  localStorageMock.clear();
+  StorageService.clearAll();
+});
+
+// ============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// ============================================================================
+
+const planArbitrary = (): fc.Arbitrary<Plan> => fc.constantFrom<Plan>('basic', 'premium', 'pro');
+
+const categories = [...new Set(questionBank.map(q => q.category))];
+
+const dateArbitrary = (): fc.Arbitrary<Date> =>
+  fc.date({ min: new Date('2025-01-01'), max: new Date('2025-12-31'), noInvalidDate: true });
+
+/**
+ * Generate a history of sessions on questions from the bank
+ */
+const historyArbitrary = (): fc.Arbitrary<CompletedSession[]> =>
+  fc.array(
+    fc.record({
+      id: fc.uuid(),
+      question: fc.constantFrom(...questionBank),
+      endTime: dateArbitrary(),
+      rating: fc.constantFrom<CompletedSession['rating']>(1, 2, 3, 4, 5),
+      testPassRate: fc.option(fc.constantFrom(0, 0.5, 1), { nil: undefined }),
+    }).map(({ id, question, endTime, rating, testPassRate }): CompletedSession => ({
+      id,
+      userId: 'test-user',
+      questionId: question.id,
+      questionTitle: question.title,
+      category: question.category,
+      difficulty: question.difficulty,
+      startTime: new Date(endTime.getTime() - 30 * 60 * 1000),
+      endTime,
+      duration: 1800,
+      rating,
+      perceivedDifficulty: 'medium',
+      notes: '',
+      pressureModeUsed: false,
+      ...(testPassRate !== undefined && { testPassRate }),
+    })),
+    { maxLength: 20 }
+  );
+
+const searchArbitrary = (): fc.Arbitrary<string> =>
+  fc.oneof(
+    fc.constantFrom('tree', 'binary tree', 'sum', 'array', 'string', 'graph', 'cache', 'design', 'subarray'),
+    fc.constantFrom(...questionBank).map(q => q.title)
+  );
+
+const queryArbitrary = (): fc.Arbitrary<QuestionQuery> =>
+  fc.record({
+    plan: planArbitrary(),
+    categories: fc.uniqueArray(fc.constantFrom(...categories), { maxLength: 3 }),
+    patterns: fc.uniqueArray(fc.constantFrom(...patterns.map(p => p.id)), { maxLength: 3 }),
+    difficulties: fc.uniqueArray(fc.constantFrom<Question['difficulty']>('easy', 'medium', 'hard'), { maxLength: 2 }),
+    text: searchArbitrary(),
+    status: fc.constantFrom<'solved' | 'unsolved'>('solved', 'unsolved'),
+    lastAttempted: fc.record({ from: dateArbitrary(), to: dateArbitrary() }, { requiredKeys: [] }),
+  }, { requiredKeys: [] });
+
+const ids = (questions: Question[]) => questions.map(q => q.id).sort();
+
+// ============================================================================
+// Property Tests
+// ============================================================================
+
+describe('Question Query Property Tests', () => {
+  describe('Filters', () => {
+    it('should return exactly the questions every filter returns on its own', () => {
+      fc.assert(
+        fc.property(queryArbitrary(), historyArbitrary(), (query, history) => {
+          const results = queryQuestions(questionBank, { ...query, history });
+          const filters = Object.entries(query).map(([key, value]) => ({ [key]: value, history }));
+          const expected = filters.reduce(
+            (remaining, filter) => remaining.filter(q => queryQuestions(questionBank, filter).includes(q)),
+            questionBank
+          );
+
+          expect(ids(results)).toEqual(ids(expected));
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should split the plan\'s questions into solved and unsolved by history', () => {
+      fc.assert(
+        fc.property(planArbitrary(), historyArbitrary(), (plan, history) => {
+          const solved = queryQuestions(questionBank, { plan, status: 'solved', history });
+          const unsolved = queryQuestions(questionBank, { plan, status: 'unsolved', history });
+          const solvedIds = new Set(history.filter(isSolvedSession).map(s => s.questionId));
+
+          expect(ids([...solved, ...unsolved])).toEqual(ids(filterQuestionsByPlan(questionBank, plan)));
+          expect(solved.every(q => solvedIds.has(q.id))).toBe(true);
+          expect(unsolved.some(q => solvedIds.has(q.id))).toBe(false);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should keep only questions last attempted within the range', () => {
+      fc.assert(
+        fc.property(historyArbitrary(), dateArbitrary(), dateArbitrary(), (history, a, b) => {
+          const [from, to] = a <= b ? [a, b] : [b, a];
+          const results = queryQuestions(questionBank, { lastAttempted: { from, to }, history });
+
+          const expected = questionBank.filter(q => {
+            const ends = history.filter(s => s.questionId === q.id).map(s => s.endTime.getTime());
+            return ends.length > 0 && Math.max(...ends) >= from.getTime() && Math.max(...ends) <= to.getTime();
+          });
+
+          expect(ids(results)).toEqual(ids(expected));
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should count attempts and keep the latest attempt per question', () => {
+      fc.assert(
+        fc.property(historyArbitrary(), (history) => {
+          const attempts = getQuestionAttempts(history);
+
+          attempts.forEach((attempt, questionId) => {
+            const sessions = history.filter(s => s.questionId === questionId);
+            expect(attempt.attempts).toBe(sessions.length);
+            expect(attempt.lastAttemptedAt.getTime()).toBe(Math.max(...sessions.map(s => s.endTime.getTime())));
+            expect(attempt.solved).toBe(sessions.some(isSolvedSession));
+          });
+          expect(attempts.size).toBe(new Set(history.map(s => s.questionId)).size);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Search', () => {
+    it('should only match questions whose title or statement has every search word', () => {
+      fc.assert(
+        fc.property(searchArbitrary(), (text) => {
+          const terms = text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+          const results = queryQuestions(questionBank, { text });
+
+          results.forEach(question => {
+            const words = `${question.title} ${question.statement}`.toLowerCase().split(/[^a-z0-9]+/);
+            terms.forEach(term => {
+              expect(words.some(word => word.startsWith(term))).toBe(true);
+            });
+          });
+          expect(results.length).toBe(questionBank.filter(q => getSearchScore(q, text) > 0).length);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should rank results best match first', () => {
+      fc.assert(
+        fc.property(searchArbitrary(), (text) => {
+          const scores = queryQuestions(questionBank, { text }).map(q => getSearchScore(q, text));
+
+          scores.slice(1).forEach((score, index) => {
+            expect(score).toBeLessThanOrEqual(scores[index]);
+          });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should rank a question first when searching its exact title', () => {
+      questionBank.forEach(question => {
+        const [best] = queryQuestions(questionBank, { text: question.title });
+
+        expect(getSearchScore(best, question.title)).toBe(getSearchScore(question, question.title));
+      });
+    });
+
+    it('should rank title matches above statement-only matches', () => {
+      const results = queryQuestions(questionBank, { text: 'tree' });
+      const inTitle = results.map(q => /\btree/i.test(q.title));
+
+      expect(inTitle.indexOf(false) === -1 || inTitle.lastIndexOf(true) < inTitle.indexOf(false)).toBe(true);
+    });
+  });
+
+  describe('Catalog sessions', () => {
+    it('should start a session on the picked question when the plan includes it', () => {
+      fc.assert(
+        fc.property(planArbitrary(), fc.constantFrom(...questionBank), (plan, question) => {
+          StorageService.clearAll();
+          const available = filterQuestionsByPlan(questionBank, plan).includes(question);
+
+          if (available) {
+            expect(SessionService.startQuestionSession('test-user', plan, question.id).questionId).toBe(question.id);
+          } else {
+            expect(() => SessionService.startQuestionSession('test-user', plan, question.id)).toThrow(SessionError);
+          }
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should reject unknown questions', () => {
+      expect(() => SessionService.startQuestionSession('test-user', 'pro', 'no-such-question')).toThrow(SessionError);
+    });
+  });
+});
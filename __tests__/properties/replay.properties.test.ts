@@ -0,0 +1,298 @@
+/**
+ * Property-Based Tests for Session Replays
+ * Tests diff-compressed snapshots, their playback, compaction to the storage
+ * budget, and replay storage alongside completed sessions
+ */
+
+import fc from 'fast-check';
+import { SessionService } from '@/services/SessionService';
+import { ReplayService } from '@/services/ReplayService';
+import { StorageService } from '@/services/StorageService';
+import { getQuestionById } from '@/lib/questions';
+import { LanguageId, ReplayBuffers, Session, SessionReplay } from '@/types';
+
+// Mock localStorage for testing
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+beforeAll(() => {
+  Object.defineProperty(global, 'localStorage', {
+    value: localStorageMock,
+    writable: true,
+  });
+});
+
+beforeEach(() => {
+  localStorageMock.clear();
+  StorageService.clearAll();
+});
+
+// ============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// ============================================================================
+
+/**
+ * The workspace after an edit: the selected language's buffer and the notes,
+ * some seconds after the edit before
+ */
+const editArbitrary = () =>
+  fc.record({
+    language: fc.constantFrom<LanguageId>('javascript', 'python'),
+    code: fc.string({ maxLength: 60 }),
+    notes: fc.string({ maxLength: 30 }),
+    gapSeconds: fc.integer({ min: 1, max: 90 }),
+  });
+
+type Edit = { language: LanguageId; code: string; notes: string; gapSeconds: number };
+
+const buffersOf = (edit: Edit): ReplayBuffers => ({
+  language: edit.language,
+  code: { [edit.language]: edit.code },
+  notes: edit.notes,
+});
+
+/**
+ * Snapshot each edit in turn from empty buffers, returning the session and
+ * the edits that changed something, one per snapshot
+ */
+const recordEdits = (session: Session, edits: Edit[]) => {
+  let at = session.startTime.getTime();
+  const snapshotted: Edit[] = [];
+
+  const recorded = edits.reduce<Session>((current, edit) => {
+    at += edit.gapSeconds * 1000;
+    const next = ReplayService.recordSnapshot(current, buffersOf(edit), new Date(at));
+    if (next !== current) snapshotted.push(edit);
+    return next;
+  }, { ...session, snapshots: [] });
+
+  return { session: recorded, snapshotted };
+};
+
+const replayOf = (session: Session, startTime: Date = session.startTime): SessionReplay => ({
+  sessionId: session.id,
+  userId: session.userId,
+  startTime,
+  intervalSeconds: ReplayService.SNAPSHOT_INTERVAL_SECONDS,
+  snapshots: session.snapshots ?? [],
+});
+
+const last = <T,>(items: T[]): T | undefined => items.slice(-1)[0];
+
+/**
+ * The text each buffer ends with; a buffer never written reads as empty
+ */
+const finalText = (replay: SessionReplay) => {
+  const state = last(ReplayService.getStates(replay.snapshots));
+  return {
+    javascript: state?.code.javascript ?? '',
+    python: state?.code.python ?? '',
+    notes: state?.notes ?? '',
+  };
+};
+
+// ============================================================================
+// Property Tests
+// ============================================================================
+
+describe('Session Replay Property Tests', () => {
+  describe('Diffs', () => {
+    it('should turn any text into any other with one patch', () => {
+      fc.assert(
+        fc.property(fc.string({ maxLength: 80 }), fc.string({ maxLength: 80 }), (before, after) => {
+          const patch = ReplayService.diff(before, after);
+
+          if (before === after) {
+            expect(patch).toBeNull();
+          } else {
+            expect(ReplayService.applyPatch(before, patch!)).toBe(after);
+            expect(patch!.insert.length).toBeLessThanOrEqual(after.length);
+          }
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it('should keep typing at the end of a buffer to the typed text', () => {
+      fc.assert(
+        fc.property(fc.string({ maxLength: 80 }), fc.string({ minLength: 1, maxLength: 20 }), (code, typed) => {
+          expect(ReplayService.diff(code, code + typed)).toEqual({ start: code.length, deleteCount: 0, insert: typed });
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Snapshots', () => {
+    it('should open a session\'s replay on the starter code', () => {
+      const session = SessionService.startSession('test-user', 'pro');
+      const starterCode = getQuestionById(session.questionId)!.starterCode.javascript ?? '';
+
+      const [opening] = ReplayService.getFrames(replayOf(session));
+      expect(opening).toMatchObject({ at: session.startTime, language: 'javascript', code: starterCode, notes: '' });
+      expect(SessionService.startAssessment('test-user', 'pro', 2, 70).snapshots).toBeUndefined();
+    });
+
+    it('should play back the workspace as it was at each snapshot', () => {
+      fc.assert(
+        fc.property(fc.array(editArbitrary(), { maxLength: 15 }), (edits) => {
+          const { session, snapshotted } = recordEdits(SessionService.startSession('test-user', 'pro'), edits);
+          const frames = ReplayService.getFrames(replayOf(session));
+
+          expect(frames).toHaveLength(snapshotted.length);
+          frames.forEach((frame, index) => {
+            const { language, code, notes } = snapshotted[index];
+            expect(frame).toMatchObject({ language, code, notes });
+          });
+
+          // Each language's buffer ends with its last edit
+          const [finalState] = ReplayService.getStates(session.snapshots!).slice(-1);
+          (['javascript', 'python'] as LanguageId[]).forEach(language => {
+            const lastEdit = edits.filter(edit => edit.language === language).slice(-1)[0];
+            expect(finalState?.code[language] ?? '').toBe(lastEdit?.code ?? '');
+          });
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should take no snapshot when nothing changed', () => {
+      fc.assert(
+        fc.property(editArbitrary(), (edit) => {
+          const { session } = recordEdits(SessionService.startSession('test-user', 'pro'), [edit]);
+          const again = ReplayService.recordSnapshot(session, buffersOf(edit));
+
+          expect(again).toBe(session);
+        }),
+        { numRuns: 30 }
+      );
+    });
+  });
+
+  describe('Compaction', () => {
+    it('should keep every buffer\'s final text when thinning', () => {
+      fc.assert(
+        fc.property(
+          fc.array(editArbitrary(), { minLength: 1, maxLength: 20 }),
+          fc.constantFrom(30, 60, 120),
+          (edits, intervalSeconds) => {
+            const { session } = recordEdits(SessionService.startSession('test-user', 'pro'), edits);
+            const replay = replayOf(session);
+            const thinned = ReplayService.thin(replay, intervalSeconds);
+
+            expect(finalText(thinned)).toEqual(finalText(replay));
+            expect(thinned.snapshots.length).toBeLessThanOrEqual(replay.snapshots.length);
+            expect(thinned.snapshots[0].at).toEqual(replay.snapshots[0].at);
+            expect(last(thinned.snapshots)!.at).toEqual(last(replay.snapshots)!.at);
+            expect(thinned.intervalSeconds).toBe(intervalSeconds);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should fit replays within the budget, thinning and then dropping the oldest first', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.array(editArbitrary(), { minLength: 1, maxLength: 12 }), { minLength: 1, maxLength: 5 }),
+          fc.integer({ min: 200, max: 6000 }),
+          (sessions, budget) => {
+            const replays = sessions.map((edits, index) => {
+              const { session } = recordEdits({ ...SessionService.startSession('test-user', 'pro'), id: `session-${index}` }, edits);
+              return replayOf(session, new Date(2024, 0, index + 1));
+            });
+
+            const kept = ReplayService.compact(replays, budget);
+            const keptIds = kept.map(replay => replay.sessionId);
+
+            expect(ReplayService.getSize(kept)).toBeLessThanOrEqual(budget);
+            // Whatever was dropped was older than everything kept
+            expect(keptIds).toEqual(replays.map(replay => replay.sessionId).slice(replays.length - kept.length));
+            kept.forEach(replay => {
+              const original = replays.find(r => r.sessionId === replay.sessionId)!;
+              expect(finalText(replay)).toEqual(finalText(original));
+            });
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should leave replays within the budget untouched', () => {
+      fc.assert(
+        fc.property(fc.array(editArbitrary(), { minLength: 1, maxLength: 10 }), (edits) => {
+          const { session } = recordEdits(SessionService.startSession('test-user', 'pro'), edits);
+          const replay = replayOf(session);
+
+          expect(ReplayService.compact([replay])).toEqual([replay]);
+        }),
+        { numRuns: 20 }
+      );
+    });
+  });
+
+  describe('Storage', () => {
+    it('should save a finished session\'s replay alongside it', () => {
+      fc.assert(
+        fc.property(fc.array(editArbitrary(), { maxLength: 10 }), (edits) => {
+          StorageService.clearAll();
+          const { session } = recordEdits(SessionService.startSession('test-user', 'pro'), edits);
+          fc.pre(session.snapshots!.length > 0);
+
+          const completed = SessionService.endSession(session, { rating: 3, perceivedDifficulty: 'medium', notes: '' });
+          const replay = ReplayService.getReplay('test-user', completed.id)!;
+
+          expect(replay.snapshots).toEqual(session.snapshots);
+          expect(replay.startTime).toEqual(completed.startTime);
+          expect(StorageService.getSessions('test-user')[0]).not.toHaveProperty('snapshots');
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it('should keep stored replays within the budget as sessions end', () => {
+      const padding = 'x'.repeat(ReplayService.STORAGE_BUDGET / 4);
+
+      for (let i = 0; i < 6; i++) {
+        const session = SessionService.startSession('test-user', 'pro');
+        const edited = ReplayService.recordSnapshot(
+          session,
+          { language: 'javascript', code: { javascript: `${i}${padding}` }, notes: '' },
+          new Date(session.startTime.getTime() + 1000)
+        );
+        SessionService.endSession(edited, { rating: 3, perceivedDifficulty: 'medium', notes: '' });
+      }
+
+      const stored = StorageService.getReplays('test-user');
+      expect(ReplayService.getSize(stored)).toBeLessThanOrEqual(ReplayService.STORAGE_BUDGET);
+      expect(stored.length).toBeLessThan(6);
+      expect(StorageService.getSessions('test-user')).toHaveLength(6);
+    });
+
+    it('should restore an in-progress session with its snapshots', () => {
+      fc.assert(
+        fc.property(fc.array(editArbitrary(), { maxLength: 10 }), (edits) => {
+          const { session } = recordEdits(SessionService.startSession('test-user', 'pro'), edits);
+          SessionService.saveProgress(session, null);
+
+          expect(StorageService.getActiveSession('test-user')!.session.snapshots).toEqual(session.snapshots);
+        }),
+        { numRuns: 20 }
+      );
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Property-Based Tests for Review Scheduling
+ * Tests universal properties of the SM-2 scheduler and review-mode question selection
+ */
+
+import fc from 'fast-check';
+import { ReviewService } from '@/services/ReviewService';
+import { SessionService, SessionError } from '@/services/SessionService';
+import { StorageService } from '@/services/StorageService';
+import { CompletedSession, ReviewSchedule } from '@/types';
+import { getQuestionsByPlan } from '@/lib/questions';
+
+// Mock localStorage for testing
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+beforeAll(() => {
+  Object.defineProperty(global, 'localStorage', {
+    value: localStorageMock,
+    writable: true,
+  });
+});
+
+beforeEach(() => {
+  localStorageMock.clear();
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// ============================================================================
+
+/**
+ * Generate a completed attempt at a question
+ */
+const attemptArbitrary = (questionId?: string): fc.Arbitrary<CompletedSession> => {
+  return fc.record({
+    id: fc.uuid(),
+    userId: fc.constant('user-1'),
+    questionId: questionId ? fc.constant(questionId) : fc.constantFrom('q1', 'q2', 'q3'),
+    questionTitle: fc.constant('Question'),
+    category: fc.constant('arrays'),
+    difficulty: fc.constantFrom<'easy' | 'medium' | 'hard'>('easy', 'medium', 'hard'),
+    startTime: fc.constant(new Date('2024-03-04T10:00:00')),
+    endTime: fc.date({ min: new Date('2024-03-04T10:00:00'), max: new Date('2024-06-01T00:00:00'), noInvalidDate: true }),
+    duration: fc.integer({ min: 60, max: 2700 }),
+    rating: fc.constantFrom<1 | 2 | 3 | 4 | 5>(1, 2, 3, 4, 5),
+    perceivedDifficulty: fc.constantFrom<'easy' | 'medium' | 'hard'>('easy', 'medium', 'hard'),
+    notes: fc.constant(''),
+    pressureModeUsed: fc.boolean(),
+  });
+};
+
+/**
+ * Replay a sequence of attempts through the scheduler
+ */
+const replay = (attempts: CompletedSession[]): ReviewSchedule[] => {
+  const schedules: ReviewSchedule[] = [];
+  attempts.reduce<ReviewSchedule | null>((previous, attempt) => {
+    const schedule = ReviewService.scheduleReview(previous, attempt);
+    schedules.push(schedule);
+    return schedule;
+  }, null);
+  return schedules;
+};
+
+describe('Review Scheduling Property Tests', () => {
+  describe('SM-2 schedules stay within bounds', () => {
+    it('should keep ease at least 1.3 and schedule at least a day after the attempt', () => {
+      fc.assert(
+        fc.property(fc.array(attemptArbitrary('q1'), { minLength: 1, maxLength: 12 }), (attempts) => {
+          replay(attempts).forEach((schedule, i) => {
+            expect(schedule.easeFactor).toBeGreaterThanOrEqual(ReviewService.MIN_EASE_FACTOR);
+            expect(schedule.intervalDays).toBeGreaterThanOrEqual(1);
+            expect(schedule.lastReviewedAt).toEqual(attempts[i].endTime);
+            expect(schedule.nextReviewAt.getTime() - schedule.lastReviewedAt.getTime())
+              .toBe(schedule.intervalDays * DAY_MS);
+          });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should start a question over after a failing attempt', () => {
+      fc.assert(
+        fc.property(
+          fc.array(attemptArbitrary('q1'), { minLength: 0, maxLength: 8 }),
+          attemptArbitrary('q1'),
+          (history, attempt) => {
+            const failing = { ...attempt, rating: 2 as const };
+            const previous = replay(history).pop() ?? null;
+
+            const schedule = ReviewService.scheduleReview(previous, failing);
+
+            expect(schedule.repetitions).toBe(0);
+            expect(schedule.intervalDays).toBe(1);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should grow the interval with each passing attempt after the first two', () => {
+      fc.assert(
+        fc.property(fc.array(attemptArbitrary('q1'), { minLength: 3, maxLength: 10 }), (attempts) => {
+          const passing = attempts.map(a => ({ ...a, rating: 5 as const, perceivedDifficulty: 'easy' as const }));
+          const schedules = replay(passing);
+
+          expect(schedules.map(s => s.intervalDays).slice(0, 2)).toEqual([1, 6]);
+          for (let i = 2; i < schedules.length; i++) {
+            expect(schedules[i].intervalDays).toBeGreaterThan(schedules[i - 1].intervalDays);
+          }
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should grade an attempt lower when it felt hard', () => {
+      fc.assert(
+        fc.property(attemptArbitrary(), (attempt) => {
+          const hard = ReviewService.getQuality({ ...attempt, perceivedDifficulty: 'hard' });
+          const easy = ReviewService.getQuality({ ...attempt, perceivedDifficulty: 'easy' });
+
+          expect(hard).toBe(Math.max(0, easy - 1));
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Due reviews are stored per user and question', () => {
+    it('should report a question as due once its review date arrives', () => {
+      fc.assert(
+        fc.property(attemptArbitrary(), (attempt) => {
+          localStorageMock.clear();
+          const schedule = ReviewService.recordSession(attempt);
+
+          const dayBefore = new Date(schedule.nextReviewAt.getTime() - DAY_MS);
+          expect(ReviewService.getDueQuestionIds('user-1', dayBefore)).not.toContain(attempt.questionId);
+          expect(ReviewService.getDueQuestionIds('user-1', schedule.nextReviewAt)).toEqual([attempt.questionId]);
+          expect(ReviewService.getDueCount('other-user', schedule.nextReviewAt)).toBe(0);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should keep one schedule per question, built on the previous one', () => {
+      fc.assert(
+        fc.property(fc.array(attemptArbitrary(), { minLength: 1, maxLength: 10 }), (attempts) => {
+          localStorageMock.clear();
+          attempts.forEach(attempt => ReviewService.recordSession(attempt));
+
+          const stored = StorageService.getReviewSchedules('user-1');
+          const questionIds = [...new Set(attempts.map(a => a.questionId))];
+          expect(stored.map(s => s.questionId).sort()).toEqual(questionIds.sort());
+
+          questionIds.forEach(questionId => {
+            const expected = replay(attempts.filter(a => a.questionId === questionId)).pop();
+            expect(stored.find(s => s.questionId === questionId)).toEqual(expected);
+          });
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Ending a session schedules its review', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should keep a saved session saved when its review cannot be scheduled', () => {
+      localStorageMock.clear();
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(ReviewService, 'recordSession').mockImplementation(() => {
+        throw new Error('Storage quota exceeded');
+      });
+
+      const session = SessionService.startSession('user-1', 'pro');
+      SessionService.saveProgress(session, null);
+      const completed = SessionService.endSession(session, { rating: 4, perceivedDifficulty: 'medium', notes: '' });
+
+      expect(StorageService.getSessions('user-1').map(s => s.id)).toEqual([completed.id]);
+      expect(SessionService.getCurrentSession('user-1')).toBeNull();
+    });
+  });
+
+  describe('Review mode selects only due questions', () => {
+    const planQuestionIds = getQuestionsByPlan('pro').map(q => q.id);
+
+    it('should pick a question from the due list', () => {
+      fc.assert(
+        fc.property(fc.subarray(planQuestionIds, { minLength: 1 }), (dueIds) => {
+          const question = SessionService.getRandomQuestion(
+            'pro',
+            [],
+            { ...SessionService.DEFAULT_CONFIG, selectionMode: 'review' },
+            dueIds
+          );
+
+          expect(dueIds).toContain(question.id);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should refuse to start a review session when nothing is due', () => {
+      expect(() =>
+        SessionService.startSession('user-1', 'pro', { ...SessionService.DEFAULT_CONFIG, selectionMode: 'review' })
+      ).toThrow(SessionError);
+    });
+  });
+});
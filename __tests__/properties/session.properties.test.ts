@@ -6,8 +6,9 @@
 import fc from 'fast-check';
 import { SessionService, SessionError } from '@/services/SessionService';
 import { StorageService } from '@/services/StorageService';
-import { Plan, Feedback, CompletedSession, User } from '@/types';
+import { Plan, Feedback, CompletedSession, User, Question, QuestionDraw, SessionDurationMinutes, SessionMode } from '@/types';
 import { questionBank, getQuestionsByPlan } from '@/lib/questions';
+import { createSeededRandom } from '@/lib/random';
 
 // Mock localStorage for testing
 const localStorageMock = (() => {
@@ -362,6 +363,139 @@ describe('Session Management Property Tests', () => {
       );
     });
 
+    it('should record hint usage and pressure mode from the ended session', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          planArbitrary(),
+          feedbackArbitrary(),
+          fc.boolean(),
+          fc.boolean(),
+          (userId, plan, feedback, hintRevealed, pressureModeEnabled) => {
+            const session = SessionService.startSession(userId, plan);
+            const completedSession = SessionService.endSession(
+              { ...session, hintRevealed, pressureModeEnabled },
+              feedback
+            );
+
+            // Completed session should reflect the real question and flags
+            const question = SessionService.getQuestion(session.questionId);
+            expect(completedSession.questionId).toBe(session.questionId);
+            expect(completedSession.questionTitle).toBe(question.title);
+            expect(completedSession.hintUsed).toBe(hintRevealed);
+            expect(completedSession.pressureModeUsed).toBe(pressureModeEnabled);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should reveal hints one at a time and record when the first was shown', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          planArbitrary(),
+          feedbackArbitrary(),
+          fc.array(fc.integer({ min: 1, max: 600 }), { maxLength: 5 }),
+          (userId, plan, feedback, gaps) => {
+            const session = SessionService.startSession(userId, plan);
+            const question = SessionService.getQuestion(session.questionId);
+            const revealCount = Math.min(gaps.length, question.hints.length);
+
+            // Reveal hints at increasing offsets from the start
+            let elapsed = 0;
+            let current = session;
+            gaps.slice(0, revealCount).forEach(gap => {
+              elapsed += gap;
+              current = SessionService.revealHint(current, new Date(session.startTime.getTime() + elapsed * 1000));
+            });
+
+            expect(SessionService.getHintsShown(current)).toBe(revealCount);
+            expect(current.hintRevealed).toBe(revealCount > 0);
+            if (revealCount === question.hints.length) {
+              expect(() => SessionService.revealHint(current)).toThrow(SessionError);
+            }
+
+            const completedSession = SessionService.endSession(current, feedback);
+            expect(completedSession.hintCount).toBe(revealCount);
+            expect(completedSession.firstHintSeconds).toBe(revealCount > 0 ? gaps[0] : undefined);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should carry the latest test pass rate onto the completed session', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          planArbitrary(),
+          feedbackArbitrary(),
+          fc.option(fc.double({ min: 0, max: 1, noNaN: true }), { nil: undefined }),
+          (userId, plan, feedback, testPassRate) => {
+            const session = SessionService.startSession(userId, plan);
+            const completedSession = SessionService.endSession({ ...session, testPassRate }, feedback);
+
+            // Sessions where code was never run have no pass rate
+            expect(completedSession.testPassRate).toBe(testPassRate);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should distinguish sessions ended by the timer from manual ends', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          planArbitrary(),
+          feedbackArbitrary(),
+          fc.boolean(),
+          fc.string(),
+          (userId, plan, feedback, timedOut, code) => {
+            localStorageMock.clear();
+            const started = SessionService.startSession(userId, plan);
+            const session = timedOut
+              ? { ...started, timeRemaining: 0, timedOut: true, finalCode: { language: 'javascript' as const, code } }
+              : started;
+
+            const completed = SessionService.endSession(session, feedback);
+
+            expect(completed.timedOut).toBe(timedOut);
+            expect(completed.finalCode).toEqual(timedOut ? { language: 'javascript', code } : undefined);
+            expect(StorageService.getSessions(userId)[0].timedOut).toBe(timedOut);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should end a finished session when it was finished, not when feedback is given', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          planArbitrary(),
+          feedbackArbitrary(),
+          fc.integer({ min: 0, max: 2700 }),
+          (userId, plan, feedback, secondsIn) => {
+            localStorageMock.clear();
+            const session = SessionService.startSession(userId, plan);
+            const finishedAt = new Date(session.startTime.getTime() + secondsIn * 1000);
+
+            const finished = SessionService.finishSession(session, finishedAt);
+            const completed = SessionService.endSession(finished, feedback);
+
+            expect(completed.endTime).toEqual(finishedAt);
+            expect(completed.duration).toBe(secondsIn);
+            expect(completed.timedOut).toBe(false);
+            expect(completed.events!.slice(-1)[0]).toEqual({ type: 'ended', at: finishedAt });
+            expect(SessionService.finishSession(finished)).toBe(finished);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
     it('should persist completed session to storage', () => {
       fc.assert(
         fc.property(
@@ -605,6 +739,34 @@ describe('Session Management Property Tests', () => {
         { numRuns: 50 }
       );
     });
+
+    it('should count an interview loop once, however many of its rounds are done', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          feedbackArbitrary(),
+          (userId, feedback) => {
+            StorageService.clearAll();
+
+            // A loop started before moving down to Basic
+            const loop = SessionService.startLoop(userId, 'premium', 'coding-loop');
+            SessionService.endSession(SessionService.startLoopRound(userId, 'premium', loop.id), feedback);
+
+            for (let i = 0; i < 2; i++) {
+              SessionService.endSession(SessionService.startSession(userId, 'basic'), feedback);
+            }
+
+            // The loop's next round is not a new interview
+            SessionService.endSession(SessionService.startLoopRound(userId, 'basic', loop.id), feedback);
+
+            expect(() => {
+              SessionService.startSession(userId, 'basic');
+            }).toThrow('Basic plan users are limited to 3 interviews per week');
+          }
+        ),
+        { numRuns: 20 }
+      );
+    });
   });
 
   describe('Property 22: Premium/Pro plans allow unlimited interviews', () => {
@@ -695,4 +857,539 @@ describe('Session Management Property Tests', () => {
       );
     });
   });
+  describe('Saved progress restores with time away deducted', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should deduct the seconds since the last save from the remaining time', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          planArbitrary(),
+          fc.integer({ min: 0, max: 2700 }),
+          fc.integer({ min: 0, max: 4000 }),
+          (userId, plan, timeRemaining, secondsAway) => {
+            localStorageMock.clear();
+            const session = { ...SessionService.startSession(userId, plan), timeRemaining };
+            const draft = {
+              sessionId: session.id,
+              language: 'javascript' as const,
+              code: { javascript: 'function solve() {}' },
+              notes: 'notes',
+              approach: '',
+            };
+
+            const savedAt = SessionService.saveProgress(session, draft);
+            jest.spyOn(Date, 'now').mockReturnValue(savedAt.getTime() + secondsAway * 1000);
+
+            const restored = SessionService.getCurrentSession(userId);
+            expect(restored?.id).toBe(session.id);
+            expect(restored?.timeRemaining).toBe(Math.max(0, timeRemaining - secondsAway));
+            expect(SessionService.getSavedDraft(userId)).toEqual(draft);
+
+            jest.restoreAllMocks();
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should not count time away against a finished saved session', () => {
+      fc.assert(
+        fc.property(userIdArbitrary(), planArbitrary(), fc.integer({ min: 1, max: 4000 }), (userId, plan, secondsAway) => {
+          localStorageMock.clear();
+          const session = SessionService.finishSession(SessionService.startSession(userId, plan));
+
+          const savedAt = SessionService.saveProgress(session, null);
+          jest.spyOn(Date, 'now').mockReturnValue(savedAt.getTime() + secondsAway * 1000);
+
+          const restored = SessionService.getCurrentSession(userId);
+          expect(restored?.timeRemaining).toBe(session.timeRemaining);
+          expect(restored?.endTime).toEqual(session.endTime);
+
+          jest.restoreAllMocks();
+        }),
+        { numRuns: 30 }
+      );
+    });
+
+    it('should clear saved progress when the session ends', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          planArbitrary(),
+          feedbackArbitrary(),
+          (userId, plan, feedback) => {
+            localStorageMock.clear();
+            const session = SessionService.startSession(userId, plan);
+            SessionService.saveProgress(session, null);
+
+            SessionService.endSession(session, feedback);
+
+            expect(SessionService.getCurrentSession(userId)).toBeNull();
+            expect(SessionService.getSavedDraft(userId)).toBeNull();
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+  });
+  describe('Paused time is excluded from active time', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should split session time into active and paused durations', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          fc.constantFrom<Plan>('premium', 'pro'),
+          feedbackArbitrary(),
+          fc.integer({ min: 0, max: 600 }),
+          fc.integer({ min: 1, max: 600 }),
+          fc.integer({ min: 0, max: 600 }),
+          (userId, plan, feedback, before, paused, after) => {
+            jest.useFakeTimers({ now: new Date('2024-03-04T10:00:00Z') });
+
+            let session = SessionService.startSession(userId, plan);
+            jest.advanceTimersByTime(before * 1000);
+            session = SessionService.pauseSession(session, plan);
+            expect(SessionService.isPaused(session)).toBe(true);
+            jest.advanceTimersByTime(paused * 1000);
+            session = SessionService.resumeSession(session, plan);
+            expect(SessionService.isPaused(session)).toBe(false);
+            jest.advanceTimersByTime(after * 1000);
+
+            const completed = SessionService.endSession(session, feedback);
+
+            expect(completed.duration).toBe(before + paused + after);
+            expect(completed.pausedDuration).toBe(paused);
+            expect(completed.activeDuration).toBe(before + after);
+            expect(completed.pauseCount).toBe(1);
+
+            jest.useRealTimers();
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should end a pause resumed past the plan\'s limit at that limit and take the overrun off the clock', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          planArbitrary(),
+          feedbackArbitrary(),
+          fc.integer({ min: 1, max: 1200 }),
+          (userId, plan, feedback, overrun) => {
+            const { maxPauseSeconds } = SessionService.PAUSE_POLICIES[plan];
+            jest.useFakeTimers({ now: new Date('2024-03-04T10:00:00Z') });
+
+            let session = SessionService.pauseSession(SessionService.startSession(userId, plan), plan);
+            const timeRemaining = session.timeRemaining;
+            jest.advanceTimersByTime((maxPauseSeconds + overrun) * 1000);
+            session = SessionService.resumeSession(session, plan);
+
+            expect(session.pauses![0].end!.getTime() - session.pauses![0].start.getTime()).toBe(maxPauseSeconds * 1000);
+            expect(session.timeRemaining).toBe(Math.max(0, timeRemaining - overrun));
+
+            const completed = SessionService.endSession(session, feedback);
+            expect(completed.pausedDuration).toBe(maxPauseSeconds);
+            expect(completed.activeDuration).toBe(overrun);
+
+            jest.useRealTimers();
+          }
+        ),
+        { numRuns: 30 }
+      );
+    });
+
+    it('should not allow more pauses than the plan permits', () => {
+      fc.assert(
+        fc.property(userIdArbitrary(), planArbitrary(), (userId, plan) => {
+          const { maxPauses } = SessionService.PAUSE_POLICIES[plan];
+          let session = SessionService.startSession(userId, plan);
+
+          for (let i = 0; i < maxPauses; i++) {
+            session = SessionService.resumeSession(SessionService.pauseSession(session, plan), plan);
+          }
+
+          expect(() => SessionService.pauseSession(session, plan)).toThrow(SessionError);
+          expect(session.pauses).toHaveLength(maxPauses);
+        }),
+        { numRuns: 30 }
+      );
+    });
+
+    it('should not allow pausing in pressure mode', () => {
+      fc.assert(
+        fc.property(userIdArbitrary(), planArbitrary(), (userId, plan) => {
+          const session = { ...SessionService.startSession(userId, plan), pressureModeEnabled: true };
+
+          expect(() => SessionService.pauseSession(session, plan)).toThrow(
+            'Sessions cannot be paused in pressure mode'
+          );
+        }),
+        { numRuns: 30 }
+      );
+    });
+
+    it('should not count time away against a paused saved session', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          planArbitrary(),
+          fc.integer({ min: 1, max: 4000 }),
+          (userId, plan, secondsAway) => {
+            localStorageMock.clear();
+            const session = SessionService.pauseSession(SessionService.startSession(userId, plan), plan);
+            const savedAt = SessionService.saveProgress(session, null);
+            jest.spyOn(Date, 'now').mockReturnValue(savedAt.getTime() + secondsAway * 1000);
+
+            const restored = SessionService.getCurrentSession(userId);
+            expect(restored?.timeRemaining).toBe(session.timeRemaining);
+            expect(restored && SessionService.isPaused(restored)).toBe(true);
+
+            jest.restoreAllMocks();
+          }
+        ),
+        { numRuns: 30 }
+      );
+    });
+  });
+  describe('Practice sessions are untimed', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should record the chosen mode, defaulting to interview', () => {
+      fc.assert(
+        fc.property(userIdArbitrary(), planArbitrary(), feedbackArbitrary(), fc.constantFrom<SessionMode | undefined>('practice', 'interview', undefined), (userId, plan, feedback, mode) => {
+          localStorageMock.clear();
+          const session = SessionService.startSession(userId, plan, { ...SessionService.DEFAULT_CONFIG, mode });
+
+          expect(session.mode).toBe(mode ?? 'interview');
+          expect(SessionService.endSession(session, feedback).mode).toBe(mode ?? 'interview');
+        }),
+        { numRuns: 30 }
+      );
+    });
+
+    it('should neither pause nor lose time while away', () => {
+      fc.assert(
+        fc.property(userIdArbitrary(), planArbitrary(), fc.integer({ min: 1, max: 4000 }), (userId, plan, secondsAway) => {
+          localStorageMock.clear();
+          const session = SessionService.startSession(userId, plan, { ...SessionService.DEFAULT_CONFIG, mode: 'practice' });
+          expect(() => SessionService.pauseSession(session, plan)).toThrow(SessionError);
+
+          const savedAt = SessionService.saveProgress(session, null);
+          jest.spyOn(Date, 'now').mockReturnValue(savedAt.getTime() + secondsAway * 1000);
+
+          expect(SessionService.getCurrentSession(userId)?.timeRemaining).toBe(session.timeRemaining);
+
+          jest.restoreAllMocks();
+        }),
+        { numRuns: 30 }
+      );
+    });
+  });
+  describe('Session setup is validated against plan entitlements', () => {
+    const durationArbitrary = () => fc.constantFrom<SessionDurationMinutes>(15, 30, 45, 60, 90);
+
+    it('should start allowed setups with their duration and categories', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          fc.constantFrom<Plan>('premium', 'pro').chain(plan =>
+            fc.tuple(fc.constant(plan), fc.constantFrom(...SessionService.SETUP_ENTITLEMENTS[plan].durations))
+          ),
+          feedbackArbitrary(),
+          fc.subarray(['arrays', 'trees', 'strings'] as Question['category'][]),
+          (userId, [plan, durationMinutes], feedback, categories) => {
+            localStorageMock.clear();
+            const config = { ...SessionService.DEFAULT_CONFIG, durationMinutes, categories };
+
+            const session = SessionService.startSession(userId, plan, config);
+            const question = questionBank.find(q => q.id === session.questionId);
+
+            expect(session.timeRemaining).toBe(durationMinutes * 60);
+            expect(session.config).toEqual(config);
+            if (categories.length > 0) {
+              expect(categories).toContain(question?.category);
+            }
+            expect(SessionService.endSession(session, feedback).config).toEqual(config);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should reject durations outside the plan', () => {
+      fc.assert(
+        fc.property(userIdArbitrary(), planArbitrary(), durationArbitrary(), (userId, plan, durationMinutes) => {
+          fc.pre(!SessionService.SETUP_ENTITLEMENTS[plan].durations.includes(durationMinutes));
+
+          expect(() =>
+            SessionService.startSession(userId, plan, { ...SessionService.DEFAULT_CONFIG, durationMinutes })
+          ).toThrow(SessionError);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should reject category and difficulty choices the plan does not include', () => {
+      fc.assert(
+        fc.property(userIdArbitrary(), (userId) => {
+          expect(() =>
+            SessionService.startSession(userId, 'basic', { ...SessionService.DEFAULT_CONFIG, categories: ['arrays'] })
+          ).toThrow('Choosing categories is not available on your plan');
+
+          expect(() =>
+            SessionService.startSession(userId, 'premium', {
+              ...SessionService.DEFAULT_CONFIG,
+              difficultyMix: { easy: 0, medium: 0, hard: 1 },
+            })
+          ).toThrow('Custom difficulty settings are available on the Pro plan');
+
+          expect(() =>
+            SessionService.startSession(userId, 'pro', {
+              ...SessionService.DEFAULT_CONFIG,
+              difficultyMix: { easy: 0, medium: 0, hard: 0 },
+            })
+          ).toThrow(SessionError);
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it('should only pick difficulties with a positive weight', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          fc.constantFrom<Question['difficulty']>('easy', 'medium', 'hard'),
+          (userId, difficulty) => {
+            localStorageMock.clear();
+            const difficultyMix = { easy: 0, medium: 0, hard: 0, [difficulty]: 1 };
+
+            const session = SessionService.startSession(userId, 'pro', {
+              ...SessionService.DEFAULT_CONFIG,
+              difficultyMix,
+            });
+
+            expect(questionBank.find(q => q.id === session.questionId)?.difficulty).toBe(difficulty);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should only pick questions tagged with a chosen pattern', () => {
+      const planPatterns = [...new Set(getQuestionsByPlan('premium').flatMap(q => q.patterns))];
+
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          fc.subarray(planPatterns, { minLength: 1, maxLength: 3 }),
+          feedbackArbitrary(),
+          (userId, chosen, feedback) => {
+            localStorageMock.clear();
+
+            const session = SessionService.startSession(userId, 'premium', {
+              ...SessionService.DEFAULT_CONFIG,
+              patterns: chosen,
+            });
+            const question = questionBank.find(q => q.id === session.questionId)!;
+
+            expect(question.patterns.some(pattern => chosen.includes(pattern))).toBe(true);
+            expect(SessionService.endSession(session, feedback).patterns).toEqual(question.patterns);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should reject pattern choices on the Basic plan and patterns no category question uses', () => {
+      expect(() =>
+        SessionService.startSession('user-1', 'basic', { ...SessionService.DEFAULT_CONFIG, patterns: ['hash-map'] })
+      ).toThrow('Choosing patterns is not available on your plan');
+
+      expect(() =>
+        SessionService.getRandomQuestion('pro', [], {
+          ...SessionService.DEFAULT_CONFIG,
+          categories: ['behavioral'],
+          patterns: ['union-find'],
+        })
+      ).toThrow('No questions match the selected patterns');
+    });
+  });
+
+  describe('Adaptive selection explains its choice', () => {
+    it('should record why the question was chosen and keep it on the completed session', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          fc.constantFrom<Plan>('premium', 'pro'),
+          fc.array(fc.tuple(fc.constantFrom('arrays', 'trees', 'strings'), ratingArbitrary()), { maxLength: 6 }),
+          feedbackArbitrary(),
+          (userId, plan, attempts, feedback) => {
+            localStorageMock.clear();
+            attempts.forEach(([category, rating], i) => {
+              StorageService.saveSession({
+                id: `past-${i}`,
+                userId,
+                questionId: `past-q-${i}`,
+                questionTitle: 'Past question',
+                category,
+                difficulty: 'medium',
+                startTime: new Date('2024-01-01T10:00:00'),
+                endTime: new Date('2024-01-01T10:30:00'),
+                duration: 1800,
+                rating,
+                perceivedDifficulty: 'medium',
+                notes: '',
+                pressureModeUsed: false,
+              });
+            });
+
+            const session = SessionService.startSession(userId, plan, {
+              ...SessionService.DEFAULT_CONFIG,
+              selectionMode: 'adaptive',
+            });
+            const question = questionBank.find(q => q.id === session.questionId)!;
+
+            expect(session.selectionReason).toMatch(
+              new RegExp(`^(weak area|new area|keeping up|not practiced in \\d+ days?): ${question.category}`)
+            );
+            expect(SessionService.endSession(session, feedback).selectionReason).toBe(session.selectionReason);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should stay within the chosen categories', () => {
+      fc.assert(
+        fc.property(
+          fc.subarray(['arrays', 'trees', 'strings'] as Question['category'][], { minLength: 1 }),
+          (categories) => {
+            const { question } = SessionService.getAdaptiveQuestion(
+              'pro',
+              [],
+              { ...SessionService.DEFAULT_CONFIG, categories, selectionMode: 'adaptive' },
+              []
+            );
+
+            expect(categories).toContain(question.category);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should not offer adaptive selection on the Basic plan', () => {
+      expect(() =>
+        SessionService.startSession('user-1', 'basic', { ...SessionService.DEFAULT_CONFIG, selectionMode: 'adaptive' })
+      ).toThrow('Adaptive question selection is available on Premium and Pro');
+    });
+  });
+
+  describe('Seeded selection is reproducible', () => {
+    const seedArbitrary = () => fc.string({ minLength: 1, maxLength: 20 });
+
+    afterEach(() => {
+      SessionService.setRandomSource();
+    });
+
+    it('should start the same question when the random source is pinned to a seed', () => {
+      fc.assert(
+        fc.property(userIdArbitrary(), planArbitrary(), seedArbitrary(), (userId, plan, seed) => {
+          localStorageMock.clear();
+          SessionService.setRandomSource(createSeededRandom(seed));
+          const first = SessionService.startSession(userId, plan);
+
+          localStorageMock.clear();
+          SessionService.setRandomSource(createSeededRandom(seed));
+          const second = SessionService.startSession(userId, plan);
+
+          expect(second.questionId).toBe(first.questionId);
+          expect(second.draw).toEqual(first.draw);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should reproduce a session\'s question for a friend from its challenge link', () => {
+      fc.assert(
+        fc.property(
+          userIdArbitrary(),
+          userIdArbitrary(),
+          fc.constantFrom<Plan>('premium', 'pro'),
+          fc.subarray(['arrays', 'trees', 'strings'] as Question['category'][]),
+          (userId, friendId, plan, categories) => {
+            localStorageMock.clear();
+            const session = SessionService.startSession(userId, plan, { ...SessionService.DEFAULT_CONFIG, categories });
+
+            const link = SessionService.getChallengeLink(session.draw!);
+            const draw = SessionService.decodeDraw(new URL(link, 'http://localhost').searchParams.get('draw'));
+            const challenge = SessionService.startSessionFromDraw(friendId, 'pro', draw!);
+
+            expect(draw).toEqual(session.draw);
+            expect(challenge.questionId).toBe(session.questionId);
+            expect(challenge.userId).toBe(friendId);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should give every user on a plan the same question of the day', () => {
+      fc.assert(
+        fc.property(
+          fc.array(userIdArbitrary(), { minLength: 2, maxLength: 5 }),
+          planArbitrary(),
+          dateArbitrary().filter(date => !isNaN(date.getTime())),
+          (userIds, plan, date) => {
+            localStorageMock.clear();
+            const draw = SessionService.getDailyDraw(plan, date);
+            const laterSameDay = new Date(date);
+            laterSameDay.setHours(23, 59, 0, 0);
+
+            const questionIds = userIds.map(userId => SessionService.startSessionFromDraw(userId, plan, draw).questionId);
+
+            expect(new Set(questionIds).size).toBe(1);
+            expect(getQuestionsByPlan(plan).map(q => q.id)).toContain(questionIds[0]);
+            expect(SessionService.getDailyDraw(plan, laterSameDay)).toEqual(draw);
+            expect(SessionService.isDailyDraw(draw, date)).toBe(true);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should refuse a drawn question the plan does not include', () => {
+      const basicIds = getQuestionsByPlan('basic').map(q => q.id);
+      const proOnly = Array.from({ length: 200 }, (_, i) => `seed-${i}`)
+        .map((seed): QuestionDraw => ({ seed, plan: 'pro', config: SessionService.DEFAULT_CONFIG, excludeIds: [] }))
+        .find(draw => !basicIds.includes(SessionService.drawQuestion(draw).id));
+
+      expect(proOnly).toBeDefined();
+      expect(() => SessionService.startSessionFromDraw('user-1', 'basic', proOnly!))
+        .toThrow('This question is not available on your plan');
+    });
+
+    it('should reject links that do not hold a draw', () => {
+      fc.assert(
+        fc.property(fc.string(), (value) => {
+          const draw = SessionService.decodeDraw(value);
+          if (draw !== null) {
+            expect(typeof draw.seed).toBe('string');
+          }
+        }),
+        { numRuns: 100 }
+      );
+      expect(SessionService.decodeDraw(null)).toBeNull();
+      expect(SessionService.decodeDraw(btoa('{"seed":1}'))).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,200 @@
+/**
+ * Property-Based Tests for Session Event Logs
+ * Tests the events sessions record, and their storage with active and completed sessions
+ */
+
+import fc from 'fast-check';
+import { SessionService } from '@/services/SessionService';
+import { StorageService } from '@/services/StorageService';
+import { getQuestionsByPlan } from '@/lib/questions';
+import { Feedback, Plan, Session, SessionEvent } from '@/types';
+
+// Mock localStorage for testing
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+beforeAll(() => {
+  Object.defineProperty(global, 'localStorage', {
+    value: localStorageMock,
+    writable: true,
+  });
+});
+
+beforeEach(() => {
+  localStorageMock.clear();
+  StorageService.clearAll();
+});
+
+// ============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// ============================================================================
+
+const planArbitrary = (): fc.Arbitrary<Plan> => fc.constantFrom<Plan>('basic', 'premium', 'pro');
+
+const feedback: Feedback = { rating: 4, perceivedDifficulty: 'medium', notes: '' };
+
+/**
+ * Workspace events the interview page records, seconds after the start
+ */
+const workspaceEventArbitrary = () =>
+  fc.oneof(
+    fc.record({
+      type: fc.constant('language-switched' as const),
+      from: fc.constant('javascript' as const),
+      to: fc.constantFrom('python' as const, 'go' as const),
+    }),
+    fc.record({
+      type: fc.constant('code-run' as const),
+      language: fc.constant('javascript' as const),
+      passedCount: fc.nat({ max: 5 }),
+      totalCount: fc.constant(5),
+    }),
+    fc.record({
+      type: fc.constant('pressure-popup-shown' as const),
+      message: fc.string({ maxLength: 40 }),
+    }),
+    fc.record({ type: fc.constant('pressure-popup-dismissed' as const) })
+  );
+
+/**
+ * Record workspace events one second apart
+ */
+const recordAll = (session: Session, events: Omit<SessionEvent, 'at'>[]): Session =>
+  events.reduce(
+    (current, event, index) =>
+      SessionService.recordEvent(current, {
+        ...event,
+        at: new Date(session.startTime.getTime() + (index + 1) * 1000),
+      } as SessionEvent),
+    session
+  );
+
+// ============================================================================
+// Property Tests
+// ============================================================================
+
+describe('Session Event Log Property Tests', () => {
+  describe('Recording', () => {
+    it('should start every session and assessment with a started event at its start time', () => {
+      fc.assert(
+        fc.property(planArbitrary(), (plan) => {
+          StorageService.clearAll();
+          const session = SessionService.startSession('test-user', plan);
+          expect(session.events).toEqual([{ type: 'started', at: session.startTime }]);
+        }),
+        { numRuns: 10 }
+      );
+
+      const assessment = SessionService.startAssessment('test-user', 'pro', 2, 70);
+      expect(assessment.events).toEqual([{ type: 'started', at: assessment.startTime }]);
+    });
+
+    it('should log hints with their level, and pauses and resumes, in order', () => {
+      const question = getQuestionsByPlan('premium').find(q => q.hints.length >= 2)!;
+
+      fc.assert(
+        fc.property(fc.integer({ min: 1, max: question.hints.length }), (hintCount) => {
+          StorageService.clearAll();
+          let session = SessionService.startQuestionSession('test-user', 'premium', question.id);
+
+          session = SessionService.resumeSession(SessionService.pauseSession(session, 'premium'), 'premium');
+          for (let i = 0; i < hintCount; i++) {
+            session = SessionService.revealHint(session);
+          }
+
+          const types = session.events!.map(event => event.type);
+          expect(types).toEqual(['started', 'paused', 'resumed', ...Array(hintCount).fill('hint-revealed')]);
+          expect(session.events!.filter(event => event.type === 'hint-revealed')).toEqual(
+            session.hintsRevealedAt!.map((at, index) => ({ type: 'hint-revealed', at, level: index + 1 }))
+          );
+        }),
+        { numRuns: 10 }
+      );
+    });
+
+    it('should append workspace events after the existing log', () => {
+      fc.assert(
+        fc.property(fc.array(workspaceEventArbitrary(), { maxLength: 10 }), (events) => {
+          const session = SessionService.startSession('test-user', 'pro');
+          const recorded = recordAll(session, events);
+
+          expect(recorded.events).toHaveLength(events.length + 1);
+          recorded.events!.slice(1).forEach((event, index) => expect(event).toMatchObject(events[index]));
+        }),
+        { numRuns: 30 }
+      );
+    });
+  });
+
+  describe('Storage', () => {
+    it('should save the log with the completed session, ending with an ended event', () => {
+      fc.assert(
+        fc.property(fc.array(workspaceEventArbitrary(), { maxLength: 10 }), (events) => {
+          StorageService.clearAll();
+          const session = recordAll(SessionService.startSession('test-user', 'pro'), events);
+          const completed = SessionService.endSession(session, feedback);
+
+          expect(completed.events).toEqual([...session.events!, { type: 'ended', at: completed.endTime }]);
+
+          const [stored] = StorageService.getSessions('test-user');
+          expect(stored.events).toEqual(completed.events);
+          stored.events!.forEach(event => expect(event.at).toBeInstanceOf(Date));
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it('should restore an in-progress session with its log', () => {
+      fc.assert(
+        fc.property(fc.array(workspaceEventArbitrary(), { maxLength: 10 }), (events) => {
+          const session = recordAll(SessionService.startSession('test-user', 'pro'), events);
+          SessionService.saveProgress(session, null);
+
+          const restored = StorageService.getActiveSession('test-user')!.session;
+          expect(restored.events).toEqual(session.events);
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it('should log when time ran out while away', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: 1, max: 600 }), fc.integer({ min: 0, max: 600 }), (remaining, extra) => {
+          const session = { ...SessionService.startSession('test-user', 'pro'), timeRemaining: remaining };
+          const savedAt = new Date(Date.now() - (remaining + extra + 1) * 1000);
+          StorageService.saveActiveSession({ session, draft: null, savedAt });
+
+          const current = SessionService.getCurrentSession('test-user')!;
+          expect(current.timeRemaining).toBe(0);
+          expect(current.events!.slice(-1)[0]).toEqual({
+            type: 'timed-out',
+            at: new Date(savedAt.getTime() + remaining * 1000),
+          });
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it('should leave sessions saved before event logs without one', () => {
+      const legacy = { ...SessionService.startSession('test-user', 'pro'), events: undefined };
+      const completed = SessionService.endSession(legacy, feedback);
+
+      expect(completed.events).toBeUndefined();
+      expect(StorageService.getSessions('test-user')[0].events).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Property-Based Tests for Study Tracks
+ * Tests track definitions and progress derived from session history
+ */
+
+import fc from 'fast-check';
+import { TrackService } from '@/services/TrackService';
+import { SessionService, SessionError } from '@/services/SessionService';
+import { StorageService } from '@/services/StorageService';
+import { studyTracks, getTrackById, getTracksByPlan } from '@/lib/tracks';
+import { getQuestionsByPlan, getQuestionById } from '@/lib/questions';
+import { CompletedSession, Plan } from '@/types';
+
+// Mock localStorage for testing
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+beforeAll(() => {
+  Object.defineProperty(global, 'localStorage', {
+    value: localStorageMock,
+    writable: true,
+  });
+});
+
+beforeEach(() => {
+  localStorageMock.clear();
+});
+
+// ============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// ============================================================================
+
+const planArbitrary = (): fc.Arbitrary<Plan> => fc.constantFrom<Plan>('basic', 'premium', 'pro');
+
+const trackQuestionIds = [...new Set(studyTracks.flatMap(t => t.questionIds))];
+
+/**
+ * Generate a completed session on one of the track questions
+ */
+const attemptArbitrary = (): fc.Arbitrary<CompletedSession> => {
+  return fc.record({
+    questionId: fc.constantFrom(...trackQuestionIds),
+    rating: fc.constantFrom<1 | 2 | 3 | 4 | 5>(1, 2, 3, 4, 5),
+  }).map(({ questionId, rating }) => {
+    const question = getQuestionById(questionId)!;
+    return {
+      id: `session-${questionId}-${rating}`,
+      userId: 'user-1',
+      questionId,
+      questionTitle: question.title,
+      category: question.category,
+      difficulty: question.difficulty,
+      startTime: new Date('2024-03-04T10:00:00'),
+      endTime: new Date('2024-03-04T10:30:00'),
+      duration: 1800,
+      rating,
+      perceivedDifficulty: 'medium',
+      notes: '',
+      pressureModeUsed: false,
+    };
+  });
+};
+
+/**
+ * Sessions that complete every question of the given tracks
+ */
+const completeTracks = (trackIds: string[]): CompletedSession[] =>
+  trackIds.flatMap(id => getTrackById(id)!.questionIds).map(questionId => {
+    const question = getQuestionById(questionId)!;
+    return {
+      id: `done-${questionId}`,
+      userId: 'user-1',
+      questionId,
+      questionTitle: question.title,
+      category: question.category,
+      difficulty: question.difficulty,
+      startTime: new Date('2024-03-01T10:00:00'),
+      endTime: new Date('2024-03-01T10:30:00'),
+      duration: 1800,
+      rating: 4,
+      perceivedDifficulty: 'medium',
+      notes: '',
+      pressureModeUsed: false,
+    };
+  });
+
+describe('Study Track Property Tests', () => {
+  describe('Track definitions are consistent with the question bank', () => {
+    it('should only use questions available on the track plan, each once', () => {
+      studyTracks.forEach(track => {
+        const planIds = getQuestionsByPlan(track.planRequired).map(q => q.id);
+        expect(track.questionIds.length).toBeGreaterThan(0);
+        expect(new Set(track.questionIds).size).toBe(track.questionIds.length);
+        track.questionIds.forEach(id => expect(planIds).toContain(id));
+      });
+    });
+
+    it('should only require existing tracks that the same plan can reach, without cycles', () => {
+      const visit = (id: string, path: string[]): void => {
+        expect(path).not.toContain(id);
+        getTrackById(id)!.prerequisites.forEach(next => visit(next, [...path, id]));
+      };
+
+      studyTracks.forEach(track => {
+        const planTrackIds = getTracksByPlan(track.planRequired).map(t => t.id);
+        track.prerequisites.forEach(id => expect(planTrackIds).toContain(id));
+        visit(track.id, []);
+      });
+    });
+  });
+
+  describe('Progress is derived from history', () => {
+    it('should count questions rated 3 or higher and point at the first one left in order', () => {
+      fc.assert(
+        fc.property(fc.array(attemptArbitrary(), { maxLength: 30 }), planArbitrary(), (sessions, plan) => {
+          const passed = new Set(
+            sessions.filter(s => s.rating >= TrackService.COMPLETION_RATING).map(s => s.questionId)
+          );
+
+          TrackService.getProgress(sessions, plan).forEach((progress, i) => {
+            const track = studyTracks[i];
+            const done = track.questionIds.filter(id => passed.has(id));
+
+            expect(progress.trackId).toBe(track.id);
+            expect(progress.completedQuestionIds).toEqual(done);
+            expect(progress.percentComplete).toBe(Math.round((done.length / track.questionIds.length) * 100));
+            expect(progress.nextQuestionId).toBe(track.questionIds.find(id => !passed.has(id)) ?? null);
+            expect(progress.available).toBe(getTracksByPlan(plan).includes(track));
+          });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should unlock a track exactly when its prerequisites are complete', () => {
+      fc.assert(
+        fc.property(fc.subarray(studyTracks.map(t => t.id)), planArbitrary(), (completedTrackIds, plan) => {
+          const progress = TrackService.getProgress(completeTracks(completedTrackIds), plan);
+
+          progress.forEach((p, i) => {
+            const prerequisitesDone = studyTracks[i].prerequisites.every(id =>
+              progress.find(other => other.trackId === id)!.percentComplete === 100
+            );
+            expect(p.unlocked).toBe(prerequisitesDone);
+          });
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should continue an open track, preferring one already started', () => {
+      fc.assert(
+        fc.property(fc.array(attemptArbitrary(), { maxLength: 30 }), planArbitrary(), (sessions, plan) => {
+          const next = TrackService.getNextInTrack(sessions, plan);
+          const open = TrackService.getProgress(sessions, plan)
+            .filter(p => p.available && p.unlocked && p.nextQuestionId !== null);
+
+          if (open.length === 0) {
+            expect(next).toBeNull();
+            return;
+          }
+
+          expect(open).toContainEqual(next!.progress);
+          if (open.some(p => p.completedQuestionIds.length > 0)) {
+            expect(next!.progress.completedQuestionIds.length).toBeGreaterThan(0);
+          }
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Track sessions start on the next question', () => {
+    it('should start the track\'s next question and record the track on the session', () => {
+      fc.assert(
+        fc.property(
+          fc.array(attemptArbitrary(), { maxLength: 10 }),
+          fc.constantFrom<Plan>('premium', 'pro'),
+          fc.record({ rating: fc.constantFrom<1 | 2 | 3 | 4 | 5>(1, 2, 3, 4, 5) }),
+          (sessions, plan, feedback) => {
+            localStorageMock.clear();
+            sessions.forEach(session => StorageService.saveSession(session));
+            const expected = TrackService.getProgress(sessions, plan)
+              .find(p => p.trackId === 'arrays-fundamentals')!.nextQuestionId;
+            fc.pre(expected !== null);
+
+            const session = SessionService.startTrackSession('user-1', plan, 'arrays-fundamentals');
+            const completed = SessionService.endSession(session, {
+              ...feedback,
+              perceivedDifficulty: 'medium',
+              notes: '',
+            });
+
+            expect(session.questionId).toBe(expected);
+            expect(completed.trackId).toBe('arrays-fundamentals');
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should refuse locked, unavailable and unknown tracks', () => {
+      expect(() => SessionService.startTrackSession('user-1', 'pro', 'graph-mastery'))
+        .toThrow('Complete Tree Foundations before starting Graph Mastery');
+      expect(() => SessionService.startTrackSession('user-1', 'basic', 'tree-foundations'))
+        .toThrow('Tree Foundations is not available on your plan');
+      expect(() => SessionService.startTrackSession('user-1', 'pro', 'no-such-track'))
+        .toThrow(SessionError);
+    });
+  });
+});
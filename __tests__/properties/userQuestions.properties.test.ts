@@ -0,0 +1,204 @@
+/**
+ * Property-Based Tests for My Questions
+ * Tests private user questions: validation, ownership and session eligibility
+ */
+
+import fc from 'fast-check';
+import { UserQuestionService, UserQuestionError } from '@/services/UserQuestionService';
+import { QuestionPackService, QuestionPackError } from '@/services/QuestionPackService';
+import { SessionService, SessionError } from '@/services/SessionService';
+import { StorageService } from '@/services/StorageService';
+import { serializeQuestions } from '@/lib/questionFormat';
+import { questionBank } from '@/lib/questions';
+import { patterns } from '@/lib/patterns';
+import { Question, QuestionDraft } from '@/types';
+
+// Mock localStorage for testing
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+beforeAll(() => {
+  Object.defineProperty(global, 'localStorage', {
+    value: localStorageMock,
+    writable: true,
+  });
+});
+
+beforeEach(() => {
+  localStorageMock.clear();
+  StorageService.clearAll();
+});
+
+// ============================================================================
+// Arbitraries (Generators) for Property-Based Testing
+// ============================================================================
+
+const textArbitrary = (): fc.Arbitrary<string> =>
+  fc.stringMatching(/^[A-Za-z0-9][A-Za-z0-9 ,.()=<>+*:'-]{0,30}[A-Za-z0-9.)]$/);
+
+const userIdArbitrary = (): fc.Arbitrary<string> => fc.stringMatching(/^user-[a-z0-9]{1,8}$/);
+
+/**
+ * Generate a valid question draft, as filled in on the My Questions page
+ */
+const draftArbitrary = (): fc.Arbitrary<QuestionDraft> =>
+  fc.record({
+    title: textArbitrary(),
+    difficulty: fc.constantFrom<Question['difficulty']>('easy', 'medium', 'hard'),
+    category: fc.constantFrom<Question['category']>('arrays', 'strings', 'trees', 'graphs', 'behavioral'),
+    patterns: fc.uniqueArray(fc.constantFrom(...patterns.map(p => p.id)), { maxLength: 3 }),
+    statement: textArbitrary(),
+    hints: fc.array(textArbitrary(), { maxLength: 3 }),
+    examples: fc.array(fc.record({ input: textArbitrary(), output: textArbitrary() }), { maxLength: 2 }),
+    constraints: fc.array(textArbitrary(), { maxLength: 3 }),
+    testCases: fc.constant([]),
+    starterCode: fc.constant({}),
+    solution: fc.record({ approach: textArbitrary(), code: fc.constant({}) }),
+  });
+
+const feedback = { rating: 4 as const, perceivedDifficulty: 'medium' as const, notes: '' };
+
+// ============================================================================
+// Property Tests
+// ============================================================================
+
+describe('My Questions Property Tests', () => {
+  describe('Authoring', () => {
+    it('should save drafts under unique ids in their own namespace', () => {
+      fc.assert(
+        fc.property(userIdArbitrary(), fc.array(draftArbitrary(), { minLength: 1, maxLength: 5 }), (userId, drafts) => {
+          StorageService.clearAll();
+
+          const created = drafts.map(draft => UserQuestionService.createQuestion(userId, draft));
+          const ids = created.map(q => q.id);
+
+          expect(new Set(ids).size).toBe(ids.length);
+          expect(ids.every(id => UserQuestionService.isUserQuestionId(id))).toBe(true);
+          expect(ids.some(id => questionBank.some(q => q.id === id))).toBe(false);
+          expect(UserQuestionService.getQuestions(userId)).toEqual(created);
+          created.forEach((question, index) => {
+            expect(question).toMatchObject({ ...drafts[index], planRequired: 'basic' });
+          });
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should reject invalid drafts with every invalid field', () => {
+      fc.assert(
+        fc.property(userIdArbitrary(), draftArbitrary(), (userId, draft) => {
+          StorageService.clearAll();
+          const broken = { ...draft, title: '', solution: { ...draft.solution, approach: 42 } } as unknown as QuestionDraft;
+
+          let error: unknown;
+          try {
+            UserQuestionService.createQuestion(userId, broken);
+          } catch (err) {
+            error = err;
+          }
+
+          expect(error).toBeInstanceOf(UserQuestionError);
+          expect((error as UserQuestionError).issues.map(issue => issue.field)).toEqual(
+            expect.arrayContaining(['title', 'solution.approach'])
+          );
+          expect(UserQuestionService.getQuestions(userId)).toEqual([]);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should keep each user\'s questions private', () => {
+      fc.assert(
+        fc.property(draftArbitrary(), (draft) => {
+          StorageService.clearAll();
+          const question = UserQuestionService.createQuestion('user-a', draft);
+
+          expect(UserQuestionService.getQuestions('user-b')).toEqual([]);
+          expect(UserQuestionService.getQuestionById('user-b', question.id)).toBeUndefined();
+          expect(() => UserQuestionService.deleteQuestion('user-b', question.id)).toThrow(UserQuestionError);
+          expect(UserQuestionService.getQuestions('user-a')).toEqual([question]);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should update a question in place and delete it on request', () => {
+      fc.assert(
+        fc.property(userIdArbitrary(), draftArbitrary(), draftArbitrary(), (userId, first, second) => {
+          StorageService.clearAll();
+          const created = UserQuestionService.createQuestion(userId, first);
+          const updated = UserQuestionService.updateQuestion(userId, created.id, second);
+
+          expect(updated.id).toBe(created.id);
+          expect(UserQuestionService.getQuestions(userId)).toEqual([updated]);
+
+          UserQuestionService.deleteQuestion(userId, created.id);
+          expect(UserQuestionService.getQuestions(userId)).toEqual([]);
+          expect(() => UserQuestionService.updateQuestion(userId, created.id, second)).toThrow(UserQuestionError);
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Sessions', () => {
+    const config = { ...SessionService.DEFAULT_CONFIG, categories: ['arrays' as const], patterns: ['union-find' as const] };
+
+    it('should offer a user\'s questions only when they opt in', () => {
+      fc.assert(
+        fc.property(draftArbitrary(), (draft) => {
+          StorageService.clearAll();
+          const question = UserQuestionService.createQuestion('user-a', {
+            ...draft,
+            category: 'arrays',
+            patterns: ['union-find'],
+          });
+
+          expect(() => SessionService.startSession('user-a', 'pro', config)).toThrow(SessionError);
+
+          const session = SessionService.startSession('user-a', 'pro', { ...config, includeMyQuestions: true });
+          expect(session.questionId).toBe(question.id);
+          expect(session.draw).toBeUndefined();
+
+          expect(() => SessionService.startSession('user-b', 'pro', { ...config, includeMyQuestions: true }))
+            .toThrow(SessionError);
+        }),
+        { numRuns: 30 }
+      );
+    });
+
+    it('should look up and complete sessions on a user\'s question', () => {
+      const [draft] = fc.sample(draftArbitrary(), { numRuns: 1 });
+      const question = UserQuestionService.createQuestion('user-a', { ...draft, category: 'arrays', patterns: ['union-find'] });
+      const session = SessionService.startSession('user-a', 'pro', { ...config, includeMyQuestions: true });
+
+      expect(SessionService.getQuestion(question.id, 'user-a')).toEqual(question);
+      expect(() => SessionService.getQuestion(question.id, 'user-b')).toThrow(SessionError);
+
+      const completed = SessionService.endSession(session, feedback);
+      expect(completed.questionTitle).toBe(question.title);
+    });
+
+    it('should keep question packs out of the My Questions namespace', () => {
+      const [builtIn] = questionBank;
+      const text = serializeQuestions([{ ...builtIn, id: `${UserQuestionService.ID_PREFIX}shared` }], 'json', 'Team');
+
+      expect(() => QuestionPackService.importPack(text, 'json', '')).toThrow(QuestionPackError);
+      expect(QuestionPackService.getPacks()).toEqual([]);
+    });
+  });
+});
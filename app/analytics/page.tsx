@@ -3,8 +3,14 @@
 import { AppLayout } from "@/components/layouts/AppLayout";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { useAuth } from "@/contexts/AuthContext";
+import { AnalyticsService } from "@/services/AnalyticsService";
+import { StorageService } from "@/services/StorageService";
+import { LoopService } from "@/services/LoopService";
 import Link from "next/link";
 
+const formatLabel = (value: string) =>
+  value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
 export default function AnalyticsPage() {
   const { user } = useAuth();
 
@@ -66,6 +72,10 @@ export default function AnalyticsPage() {
   }
 
   // Premium and Pro users see full analytics
+  const history = StorageService.getSessions(user.id);
+  const hintDependence = AnalyticsService.getHintDependenceByCategory(history);
+  const loopSummaries = LoopService.getSummaries(history).reverse();
+
   return (
     <ProtectedRoute>
       <AppLayout>
@@ -214,6 +224,69 @@ export default function AnalyticsPage() {
             </div>
           </div>
 
+          {/* Hint Dependence by Category */}
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 backdrop-blur-sm">
+            <h2 className="text-xl font-semibold text-white mb-6">Hint Dependence</h2>
+            {hintDependence.length === 0 ? (
+              <p className="text-sm text-slate-400">Finish a session to see how often you reach for hints</p>
+            ) : (
+              <div className="space-y-4">
+                {hintDependence.map(entry => (
+                  <div key={entry.category} className="flex items-center gap-4">
+                    <div className="w-40 text-slate-300 font-medium">{formatLabel(entry.category)}</div>
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <div className="flex-1 h-3 bg-slate-700 rounded-full overflow-hidden">
+                          <div className="h-full bg-yellow-500" style={{ width: `${entry.hintRate * 100}%` }}></div>
+                        </div>
+                        <div className="w-12 text-right text-sm font-semibold text-white">
+                          {Math.round(entry.hintRate * 100)}%
+                        </div>
+                      </div>
+                      <div className="text-xs text-slate-400">
+                        {entry.averageHints.toFixed(1)} hints per session over {entry.sessionsCount} sessions
+                        {entry.averageSecondsToFirstHint !== null && (
+                          <> · first hint after {Math.round(entry.averageSecondsToFirstHint / 60)} min on average</>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Interview Loops, one row per loop */}
+          {loopSummaries.length > 0 && (
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 backdrop-blur-sm">
+              <h2 className="text-xl font-semibold text-white mb-6">Interview Loops</h2>
+              <div className="space-y-4">
+                {loopSummaries.map(summary => (
+                  <div key={summary.loopId} className="flex items-center gap-4">
+                    <Link href={`/loops?id=${encodeURIComponent(summary.loopId)}`} className="w-40 text-slate-300 font-medium hover:text-white">
+                      {summary.title}
+                    </Link>
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <div className="flex-1 h-3 bg-slate-700 rounded-full overflow-hidden">
+                          <div className="h-full bg-purple-500" style={{ width: `${(summary.averageRating / 5) * 100}%` }}></div>
+                        </div>
+                        <div className="w-12 text-right text-sm font-semibold text-white">
+                          {summary.averageRating.toFixed(1)}
+                        </div>
+                      </div>
+                      <div className="text-xs text-slate-400">
+                        {summary.startTime.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                        {` · ${summary.rounds.length} of ${summary.roundCount} rounds · ${Math.round(summary.duration / 60)} min`}
+                        {summary.averagePassRate !== null && ` · ${Math.round(summary.averagePassRate * 100)}% tests passed`}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Weekly Progress Chart */}
           <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 backdrop-blur-sm">
             <h2 className="text-xl font-semibold text-white mb-6">Weekly Progress</h2>
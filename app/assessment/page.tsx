@@ -0,0 +1,480 @@
+'use client';
+
+import { AppLayout } from "@/components/layouts/AppLayout";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSession } from "@/contexts/SessionContext";
+import { CodeEditor } from "@/components/interview/CodeEditor";
+import { SessionRecoveryPrompt } from "@/components/interview/SessionRecoveryPrompt";
+import { AssessmentReport } from "@/components/interview/AssessmentReport";
+import { CodeRunnerService } from "@/services/CodeRunnerService";
+import { SessionService } from "@/services/SessionService";
+import { StorageService } from "@/services/StorageService";
+import { languages } from "@/lib/languages";
+import { AssessmentDurationMinutes, LanguageId } from "@/types";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+
+const formatLabel = (value: string) =>
+  value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const difficultyStyles = {
+  easy: 'bg-green-900/50 text-green-300 border-green-700',
+  medium: 'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+  hard: 'bg-red-900/50 text-red-300 border-red-700',
+};
+
+// Only languages the runner can grade
+const gradedLanguages = languages.filter(lang => CodeRunnerService.isLanguageSupported(lang.id));
+
+export default function AssessmentPage() {
+  const { user } = useAuth();
+  const {
+    activeSession,
+    draft,
+    timeRemaining,
+    isTimedOut,
+    isFinished,
+    loading,
+    expiredSession,
+    lastSavedAt,
+    hasUnsavedChanges,
+    saveError,
+    error,
+    startAssessment,
+    submitAssessmentProblem,
+    finishSession,
+    updateDraft,
+    onSessionExpired,
+  } = useSession();
+  const router = useRouter();
+  const [problemCount, setProblemCount] = useState(3);
+  const [durationMinutes, setDurationMinutes] = useState<AssessmentDurationMinutes>(90);
+  const [starting, setStarting] = useState(false);
+  const [problemIndex, setProblemIndex] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [selectedResultId, setSelectedResultId] = useState<string | null>(null);
+
+  const results = useMemo(() => (user ? StorageService.getAssessmentResults(user.id) : []), [user]);
+
+  // The problem set, resolved once per assessment
+  const questionIds = activeSession?.assessment?.questionIds;
+  const sessionUserId = activeSession?.userId;
+  const questions = useMemo(
+    () => (questionIds && sessionUserId ? questionIds.map(id => SessionService.getQuestion(id, sessionUserId)) : []),
+    [questionIds, sessionUserId]
+  );
+
+  // Time is up: submissions are frozen, go straight to grading
+  useEffect(() => {
+    return onSessionExpired(() => {
+      router.push('/interview/feedback');
+    });
+  }, [onSessionExpired, router]);
+
+  // A finished assessment only waits for grading
+  useEffect(() => {
+    if (isFinished) {
+      router.replace('/interview/feedback');
+    }
+  }, [isFinished, router]);
+
+  if (!user) return null;
+
+  // Stop the clock now, so the assessment is graded as of finishing
+  const handleFinish = () => {
+    finishSession();
+    router.push('/interview/feedback');
+  };
+
+  const handleStart = async () => {
+    setStarting(true);
+    setProblemIndex(0);
+    try {
+      await startAssessment(problemCount, durationMinutes);
+    } catch {
+      // Error is surfaced through the session context
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  // Previous assessment ran out of time while the app was closed
+  if (!activeSession && expiredSession) {
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <div className="max-w-xl mx-auto py-16">
+            <SessionRecoveryPrompt />
+          </div>
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  // A regular interview is still going
+  if (activeSession && !activeSession.assessment) {
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <div className="max-w-xl mx-auto py-16">
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 text-slate-300">
+              Finish your current interview before starting an online assessment.
+              <Link href="/interview" className="ml-2 underline text-blue-300 hover:text-white">
+                Back to Interview
+              </Link>
+            </div>
+          </div>
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  // No assessment yet: choose the problem count and time limit
+  if (!activeSession) {
+    const available = SessionService.ASSESSMENT_PLANS.includes(user.plan);
+    const selectedResult = results.find(result => result.id === selectedResultId) ?? null;
+
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <div className="space-y-6">
+            {/* Header */}
+            <div>
+              <h1 className="text-3xl font-bold text-white neon-text">Online Assessments</h1>
+              <p className="text-slate-400 mt-1 terminal-text">
+                {'// Timed problem sets graded against hidden test cases, like a company screen'}
+              </p>
+            </div>
+
+            <div className="holo-card rounded-lg p-6 glow-border cyber-border">
+              <ul className="text-sm text-slate-300 space-y-1 mb-6 list-disc list-inside">
+                <li>No hints, no solutions, and no pausing once the timer starts</li>
+                <li>Each submission runs against hidden test cases; only the pass count is shown</li>
+                <li>Your score weighs cases passed against how early each problem was solved</li>
+              </ul>
+
+              {available ? (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                    <div>
+                      <div className="text-sm text-slate-400 mb-2">Problems</div>
+                      <div className="flex gap-2">
+                        {SessionService.ASSESSMENT_PROBLEM_COUNTS.map(count => (
+                          <button
+                            key={count}
+                            onClick={() => setProblemCount(count)}
+                            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                              problemCount === count ? 'neon-button text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'
+                            }`}
+                          >
+                            {count}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-slate-400 mb-2">Time Limit</div>
+                      <div className="flex gap-2">
+                        {SessionService.ASSESSMENT_DURATIONS.map(minutes => (
+                          <button
+                            key={minutes}
+                            onClick={() => setDurationMinutes(minutes)}
+                            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                              durationMinutes === minutes ? 'neon-button text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'
+                            }`}
+                          >
+                            {minutes} min
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+
+                  {error && (
+                    <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 mb-6 text-sm text-red-300">
+                      {error}
+                    </div>
+                  )}
+
+                  <button
+                    onClick={handleStart}
+                    disabled={starting || loading}
+                    className="px-6 py-2 neon-button text-white font-medium rounded-lg transition-all disabled:opacity-50"
+                  >
+                    {starting ? 'Starting...' : 'Start Assessment'}
+                  </button>
+                </>
+              ) : (
+                <Link
+                  href="/pricing"
+                  className="inline-block px-6 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-lg transition-all"
+                >
+                  Upgrade to Premium for Online Assessments
+                </Link>
+              )}
+            </div>
+
+            {/* Selected past result */}
+            {selectedResult && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xl font-semibold text-white">
+                    Assessment of {formatDate(selectedResult.startTime)}
+                  </h2>
+                  <button
+                    onClick={() => setSelectedResultId(null)}
+                    className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-medium rounded-lg transition-all"
+                  >
+                    Close
+                  </button>
+                </div>
+                <AssessmentReport result={selectedResult} />
+              </div>
+            )}
+
+            {/* Past results */}
+            {results.length > 0 && (
+              <div className="bg-slate-800/50 border border-slate-700 rounded-lg backdrop-blur-sm overflow-hidden">
+                <div className="px-6 py-3 border-b border-slate-700 text-sm font-semibold text-slate-200">Past Assessments</div>
+                <ul className="divide-y divide-slate-700">
+                  {[...results].reverse().map(result => (
+                    <li key={result.id}>
+                      <button
+                        onClick={() => setSelectedResultId(result.id)}
+                        className="w-full px-6 py-3 flex items-center justify-between text-left hover:bg-slate-700/30 transition-colors"
+                      >
+                        <span className="text-white">
+                          {result.problems.length} problems · {result.durationMinutes} min
+                          <span className="text-slate-400">{` · ${formatDate(result.startTime)}`}</span>
+                        </span>
+                        <span className="text-sm text-slate-300">
+                          {result.score}/100 · {result.passedCount}/{result.totalCount} cases
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  const assessment = activeSession.assessment!;
+  const question = questions[problemIndex];
+  if (!question) return null;
+
+  const selectedLanguage: LanguageId = CodeRunnerService.isLanguageSupported(draft?.language ?? 'javascript')
+    ? draft?.language ?? 'javascript'
+    : 'javascript';
+  const code = draft?.problemCode?.[question.id]?.[selectedLanguage] ?? question.starterCode[selectedLanguage] ?? '';
+
+  const submissionsFor = (questionId: string) => assessment.submissions.filter(s => s.questionId === questionId);
+  const lastSubmission = submissionsFor(question.id).slice(-1)[0];
+
+  const handleCodeChange = (value: string) => {
+    updateDraft({
+      problemCode: {
+        ...draft?.problemCode,
+        [question.id]: { ...draft?.problemCode?.[question.id], [selectedLanguage]: value },
+      },
+    });
+  };
+
+  const handleSubmitProblem = async () => {
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      const result = await CodeRunnerService.runTests(code, selectedLanguage, question);
+      submitAssessmentProblem(question.id, result);
+      if (result.error) {
+        setSubmitError(result.error);
+      }
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Unable to run code');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const saveStatus = saveError
+    ? `Not saved: ${saveError}`
+    : hasUnsavedChanges
+      ? 'Saving...'
+      : lastSavedAt
+        ? `Auto-saved at ${lastSavedAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
+        : 'Not saved yet';
+
+  return (
+    <ProtectedRoute>
+      <AppLayout>
+        <div className="h-[calc(100vh-120px)] flex flex-col">
+          {/* Top Bar - Timer, Problems and Finish */}
+          <div className="holo-card border-b border-slate-700 px-6 py-4 flex items-center justify-between glow-border">
+            <div className="flex items-center gap-6">
+              <div>
+                <div className={`text-2xl font-bold font-mono ${timeRemaining <= 300 ? 'text-red-400 neon-text' : 'gradient-text'}`}>
+                  {formatTime(timeRemaining)}
+                </div>
+                <div className="text-xs text-slate-400 terminal-text">{'// Time Remaining'}</div>
+              </div>
+
+              <div className="border-l border-slate-700 pl-6 flex items-center gap-2">
+                {questions.map((q, index) => {
+                  const submissions = submissionsFor(q.id);
+                  const best = Math.max(0, ...submissions.map(s => s.passedCount));
+                  const solved = submissions.length > 0 && best === q.testCases.length;
+
+                  return (
+                    <button
+                      key={q.id}
+                      onClick={() => {
+                        setProblemIndex(index);
+                        setSubmitError(null);
+                      }}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                        index === problemIndex ? 'neon-button text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'
+                      }`}
+                    >
+                      Problem {index + 1}
+                      {submissions.length > 0 && (
+                        <span className={`ml-2 text-xs ${solved ? 'text-green-300' : 'text-slate-400'}`}>
+                          {best}/{q.testCases.length}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <button
+              onClick={handleFinish}
+              className="px-6 py-2 bg-red-600 hover:bg-red-700 text-white font-medium rounded-lg transition-all neon-text"
+            >
+              Finish Assessment
+            </button>
+          </div>
+
+          <div className="flex-1 flex overflow-hidden">
+            {/* Left Side - Problem Statement (no hints or solutions) */}
+            <div className="w-1/2 bg-slate-900 border-r border-slate-700 overflow-y-auto">
+              <div className="p-6 space-y-6">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-2xl font-bold text-white">{question.title}</h2>
+                  <span className={`px-3 py-1 border rounded-full text-sm font-medium ${difficultyStyles[question.difficulty]}`}>
+                    {formatLabel(question.difficulty)}
+                  </span>
+                </div>
+
+                <div className="bg-slate-800/50 rounded-lg p-6 border border-slate-700">
+                  <h3 className="text-lg font-semibold text-white mb-4">Problem Statement</h3>
+                  <p className="text-slate-300 leading-relaxed whitespace-pre-line">{question.statement}</p>
+                </div>
+
+                {question.examples.length > 0 && (
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-white">Examples</h3>
+                    {question.examples.map((example, index) => (
+                      <div key={index} className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+                        <div className="text-sm text-slate-400 mb-2">Example {index + 1}:</div>
+                        <div className="font-mono text-sm space-y-1">
+                          <div className="text-slate-300"><span className="text-blue-400">Input:</span> {example.input}</div>
+                          <div className="text-slate-300"><span className="text-green-400">Output:</span> {example.output}</div>
+                          {example.explanation && (
+                            <div className="text-slate-400"><span className="text-slate-500">Explanation:</span> {example.explanation}</div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {question.constraints.length > 0 && (
+                  <div className="space-y-3">
+                    <h3 className="text-lg font-semibold text-white">Constraints</h3>
+                    <ul className="list-disc list-inside space-y-1 text-sm text-slate-300">
+                      {question.constraints.map((constraint, index) => (
+                        <li key={index}>
+                          <code className="bg-slate-700 px-2 py-0.5 rounded text-blue-300">{constraint}</code>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Right Side - Editor and Submission */}
+            <div className="w-1/2 bg-slate-950 flex flex-col">
+              <div className="bg-slate-900 border-b border-slate-700 px-4 py-2 flex items-center justify-end">
+                <select
+                  value={selectedLanguage}
+                  onChange={(e) => updateDraft({ language: e.target.value as LanguageId })}
+                  className="px-3 py-1.5 bg-slate-800 text-slate-200 border border-slate-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {gradedLanguages.map((lang) => (
+                    <option key={lang.id} value={lang.id}>
+                      {lang.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex-1 p-6 min-h-0">
+                <CodeEditor
+                  key={question.id}
+                  language={selectedLanguage}
+                  value={code}
+                  onChange={handleCodeChange}
+                  readOnly={isTimedOut}
+                />
+              </div>
+
+              {/* Submission result: counts only, the test cases stay hidden */}
+              <div className="border-t border-slate-700 px-6 py-3 text-sm">
+                {submitting ? (
+                  <span className="text-slate-400">Running hidden test cases...</span>
+                ) : submitError ? (
+                  <span className="text-red-400">{submitError}</span>
+                ) : lastSubmission ? (
+                  <span className={lastSubmission.passedCount === lastSubmission.totalCount ? 'text-green-300' : 'text-slate-300'}>
+                    Last submission: {lastSubmission.passedCount} of {lastSubmission.totalCount} hidden test cases passed
+                  </span>
+                ) : (
+                  <span className="text-slate-500">Not submitted yet</span>
+                )}
+              </div>
+
+              <div className="bg-slate-900 border-t border-slate-700 px-6 py-4 flex items-center justify-between">
+                <div className={`text-sm ${saveError ? 'text-red-400' : 'text-slate-400'}`}>
+                  {saveStatus}
+                </div>
+                <button
+                  onClick={handleSubmitProblem}
+                  disabled={submitting || isTimedOut}
+                  className="px-6 py-2 bg-green-700 hover:bg-green-600 disabled:bg-slate-700 disabled:text-slate-400 text-white font-medium rounded-lg transition-all"
+                >
+                  {submitting ? 'Submitting...' : 'Submit'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </AppLayout>
+    </ProtectedRoute>
+  );
+}
@@ -5,7 +5,11 @@ import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { DashboardHeader } from "@/components/dashboard/DashboardHeader";
 import { QuickActions } from "@/components/dashboard/QuickActions";
 import { LastSessionSummary } from "@/components/dashboard/LastSessionSummary";
+import { ReviewsDue } from "@/components/dashboard/ReviewsDue";
+import { QuestionOfTheDay } from "@/components/dashboard/QuestionOfTheDay";
+import { StudyTracks } from "@/components/dashboard/StudyTracks";
 import { UpgradePrompt } from "@/components/dashboard/UpgradePrompt";
+import { SessionRecoveryPrompt } from "@/components/interview/SessionRecoveryPrompt";
 import { useAuth } from "@/contexts/AuthContext";
 import dynamic from 'next/dynamic';
 
@@ -34,9 +38,21 @@ export default function DashboardPage() {
           {/* Dashboard Header with Streak and Plan Badge */}
           <DashboardHeader />
 
+          {/* Unfinished session that ran out of time while away */}
+          <SessionRecoveryPrompt />
+
           {/* Quick Actions - Start Interview Button */}
           <QuickActions />
 
+          {/* Same question for everyone on the plan today */}
+          <QuestionOfTheDay />
+
+          {/* Spaced-repetition reviews due today */}
+          <ReviewsDue />
+
+          {/* Curated study tracks and their completion */}
+          <StudyTracks />
+
           {/* Upgrade Prompt for Basic Users */}
           {user.plan === 'basic' && <UpgradePrompt />}
 
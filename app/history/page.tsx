@@ -4,7 +4,14 @@ import { AppLayout } from "@/components/layouts/AppLayout";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { useAuth } from "@/contexts/AuthContext";
 import { StorageService } from "@/services/StorageService";
-import { useMemo } from "react";
+import { createQuestionProvider } from "@/services/QuestionProvider";
+import { LoopService } from "@/services/LoopService";
+import { patterns, getPatternName } from "@/lib/patterns";
+import { LoopSummary, Question, QuestionPattern, SessionMode } from "@/types";
+import Link from "next/link";
+import { useMemo, useState } from "react";
+
+const difficultyFilters: Question['difficulty'][] = ['easy', 'medium', 'hard'];
 
 export default function HistoryPage() {
   const { user } = useAuth();
@@ -15,14 +22,45 @@ export default function HistoryPage() {
     
     const allSessions = StorageService.getSessions(user.id);
     
-    // Apply plan-based limits
+    // Apply plan-based limits: the last 5 history entries, with a loop counted
+    // once so its rounds are never cut off partway
     if (user.plan === 'basic') {
-      return allSessions.slice(0, 5); // Last 5 sessions only
+      return LoopService.groupHistory(allSessions)
+        .slice(0, 5)
+        .flatMap(entry => (LoopService.isSummary(entry) ? entry.rounds : [entry]));
     }
     
     return allSessions; // All sessions for Premium/Pro
   }, [user]);
 
+  const [difficultyFilter, setDifficultyFilter] = useState<Question['difficulty'] | null>(null);
+  const [patternFilter, setPatternFilter] = useState<QuestionPattern | ''>('');
+  const [modeFilter, setModeFilter] = useState<SessionMode | ''>('');
+
+  // Sessions saved before patterns were recorded fall back to the question's tags
+  const sessionPatterns = useMemo(() => {
+    const questions = createQuestionProvider(user?.id);
+    return new Map(sessions.map(s => [s.id, s.patterns ?? questions.getById(s.questionId)?.patterns ?? []]));
+  }, [sessions, user]);
+
+  const patternOptions = useMemo(
+    () => patterns.filter(pattern => [...sessionPatterns.values()].some(tags => tags.includes(pattern.id))),
+    [sessionPatterns]
+  );
+
+  const filteredSessions = useMemo(
+    () => sessions.filter(s =>
+      (difficultyFilter === null || s.difficulty === difficultyFilter) &&
+      (patternFilter === '' || sessionPatterns.get(s.id)!.includes(patternFilter)) &&
+      // Sessions saved before modes were mock interviews
+      (modeFilter === '' || (s.mode ?? 'interview') === modeFilter)
+    ),
+    [sessions, sessionPatterns, difficultyFilter, patternFilter, modeFilter]
+  );
+
+  // A loop's rounds show as one entry
+  const entries = useMemo(() => LoopService.groupHistory(filteredSessions), [filteredSessions]);
+
   if (!user) return null;
 
   const difficultyColors = {
@@ -59,11 +97,58 @@ export default function HistoryPage() {
     }
   };
 
+  const renderStars = (rating: number) => (
+    <div className="flex items-center gap-1">
+      {[...Array(5)].map((_, i) => (
+        <svg
+          key={i}
+          className={`w-4 h-4 ${i < rating ? 'text-yellow-400 fill-current' : 'text-slate-600'}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+        </svg>
+      ))}
+    </div>
+  );
+
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     return `${mins} min`;
   };
 
+  const renderLoopRow = (summary: LoopSummary) => (
+    <tr key={summary.loopId} className="hover:bg-slate-700/30 transition-colors">
+      <td className="px-6 py-4">
+        <Link href={`/loops?id=${encodeURIComponent(summary.loopId)}`} className="text-white font-medium hover:text-blue-300">
+          {summary.title}
+        </Link>
+        <div className="text-xs text-slate-500 mt-1">
+          {summary.rounds.map(round => round.loop!.roundTitle).join(' · ')}
+        </div>
+      </td>
+      <td className="px-6 py-4">
+        <span className="px-3 py-1 rounded-full text-xs font-medium border bg-purple-900/50 text-purple-300 border-purple-700">
+          Loop
+        </span>
+      </td>
+      <td className="px-6 py-4 text-slate-300">
+        {summary.rounds.length} of {summary.roundCount} rounds
+      </td>
+      <td className="px-6 py-4">
+        {renderStars(Math.round(summary.averageRating))}
+      </td>
+      <td className="px-6 py-4 text-slate-300">{formatDuration(summary.duration)}</td>
+      <td className="px-6 py-4 text-slate-400">{formatRelativeDate(summary.startTime)}</td>
+      {user.plan === 'pro' && (
+        <td className="px-6 py-4">
+          <span className="text-slate-500 text-xs">Loop</span>
+        </td>
+      )}
+    </tr>
+  );
+
   return (
     <ProtectedRoute>
       <AppLayout>
@@ -73,7 +158,7 @@ export default function HistoryPage() {
             <div>
               <h1 className="text-3xl font-bold text-white neon-text">Session History</h1>
               <p className="text-slate-400 mt-1 terminal-text">
-                {user.plan === 'basic' && '// Showing last 5 sessions (Basic plan limit)'}
+                {user.plan === 'basic' && '// Showing last 5 sessions or loops (Basic plan limit)'}
                 {user.plan === 'premium' && '// All your interview sessions'}
                 {user.plan === 'pro' && '// Complete session history with advanced insights'}
               </p>
@@ -81,18 +166,40 @@ export default function HistoryPage() {
 
             {/* Filter Buttons */}
             <div className="flex items-center gap-2">
-              <button className="px-4 py-2 bg-slate-800 text-white rounded-lg font-medium text-sm border border-slate-700">
-                All
-              </button>
-              <button className="px-4 py-2 bg-slate-900 text-slate-400 hover:text-slate-200 rounded-lg font-medium text-sm border border-slate-700">
-                Easy
-              </button>
-              <button className="px-4 py-2 bg-slate-900 text-slate-400 hover:text-slate-200 rounded-lg font-medium text-sm border border-slate-700">
-                Medium
-              </button>
-              <button className="px-4 py-2 bg-slate-900 text-slate-400 hover:text-slate-200 rounded-lg font-medium text-sm border border-slate-700">
-                Hard
-              </button>
+              {[null, ...difficultyFilters].map(difficulty => (
+                <button
+                  key={difficulty ?? 'all'}
+                  onClick={() => setDifficultyFilter(difficulty)}
+                  className={`px-4 py-2 rounded-lg font-medium text-sm border border-slate-700 ${
+                    difficultyFilter === difficulty
+                      ? 'bg-slate-800 text-white'
+                      : 'bg-slate-900 text-slate-400 hover:text-slate-200'
+                  }`}
+                >
+                  {difficulty === null ? 'All' : difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+                </button>
+              ))}
+              <select
+                aria-label="Filter by pattern"
+                value={patternFilter}
+                onChange={(e) => setPatternFilter(e.target.value as QuestionPattern | '')}
+                className="px-3 py-2 bg-slate-900 text-slate-300 rounded-lg text-sm border border-slate-700"
+              >
+                <option value="">All patterns</option>
+                {patternOptions.map(pattern => (
+                  <option key={pattern.id} value={pattern.id}>{pattern.name}</option>
+                ))}
+              </select>
+              <select
+                aria-label="Filter by mode"
+                value={modeFilter}
+                onChange={(e) => setModeFilter(e.target.value as SessionMode | '')}
+                className="px-3 py-2 bg-slate-900 text-slate-300 rounded-lg text-sm border border-slate-700"
+              >
+                <option value="">All modes</option>
+                <option value="interview">Mock interviews</option>
+                <option value="practice">Practice</option>
+              </select>
             </div>
           </div>
 
@@ -138,7 +245,13 @@ export default function HistoryPage() {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-700">
-                  {sessions.length === 0 ? (
+                  {sessions.length > 0 && filteredSessions.length === 0 ? (
+                    <tr>
+                      <td colSpan={user.plan === 'pro' ? 7 : 6} className="px-6 py-12 text-center text-slate-400">
+                        No sessions match these filters
+                      </td>
+                    </tr>
+                  ) : sessions.length === 0 ? (
                     <tr>
                       <td colSpan={user.plan === 'pro' ? 7 : 6} className="px-6 py-12 text-center">
                         <div className="text-slate-400">
@@ -151,10 +264,24 @@ export default function HistoryPage() {
                       </td>
                     </tr>
                   ) : (
-                    sessions.map((session) => (
+                    entries.map((session) => LoopService.isSummary(session) ? renderLoopRow(session) : (
                       <tr key={session.id} className="hover:bg-slate-700/30 transition-colors">
                         <td className="px-6 py-4">
-                          <div className="text-white font-medium">{session.questionTitle}</div>
+                          <div className="font-medium">
+                            <Link href={`/history/session?id=${encodeURIComponent(session.id)}`} className="text-white hover:text-blue-300">
+                              {session.questionTitle}
+                            </Link>
+                            {session.mode === 'practice' && (
+                              <span className="ml-2 px-2 py-0.5 bg-teal-900/50 text-teal-300 border border-teal-700 rounded text-xs font-medium">
+                                Practice
+                              </span>
+                            )}
+                          </div>
+                          {sessionPatterns.get(session.id)!.length > 0 && (
+                            <div className="text-xs text-slate-500 mt-1">
+                              {sessionPatterns.get(session.id)!.map(getPatternName).join(' · ')}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4">
                           <span className={`px-3 py-1 rounded-full text-xs font-medium border ${difficultyColors[session.difficulty]}`}>
@@ -165,21 +292,16 @@ export default function HistoryPage() {
                           {session.category.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')}
                         </td>
                         <td className="px-6 py-4">
-                          <div className="flex items-center gap-1">
-                            {[...Array(5)].map((_, i) => (
-                              <svg
-                                key={i}
-                                className={`w-4 h-4 ${i < session.rating ? 'text-yellow-400 fill-current' : 'text-slate-600'}`}
-                                fill="none"
-                                stroke="currentColor"
-                                viewBox="0 0 24 24"
-                              >
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
-                              </svg>
-                            ))}
-                          </div>
+                          {renderStars(session.rating)}
+                        </td>
+                        <td className="px-6 py-4 text-slate-300">
+                          {formatDuration(session.duration)}
+                          {session.timedOut && (
+                            <span className="ml-2 px-2 py-0.5 bg-red-900/50 text-red-300 border border-red-700 rounded text-xs font-medium">
+                              Timed out
+                            </span>
+                          )}
                         </td>
-                        <td className="px-6 py-4 text-slate-300">{formatDuration(session.duration)}</td>
                         <td className="px-6 py-4 text-slate-400">{formatRelativeDate(session.startTime)}</td>
                         {user.plan === 'pro' && (
                           <td className="px-6 py-4">
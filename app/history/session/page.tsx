@@ -0,0 +1,142 @@
+'use client';
+
+import { AppLayout } from "@/components/layouts/AppLayout";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { SessionTimeline } from "@/components/history/SessionTimeline";
+import { ReplayPlayer } from "@/components/history/ReplayPlayer";
+import { useAuth } from "@/contexts/AuthContext";
+import { StorageService } from "@/services/StorageService";
+import { ReplayService } from "@/services/ReplayService";
+import { getLanguageName } from "@/lib/languages";
+import Link from "next/link";
+import { useMemo, useState } from "react";
+
+const formatLabel = (value: string) =>
+  value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const formatMinutes = (seconds: number) => `${Math.round(seconds / 60)} min`;
+
+export default function SessionDetailPage() {
+  const { user } = useAuth();
+
+  // Session opened from history, from /history/session?id=...
+  const [sessionId] = useState<string | null>(() =>
+    typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('id') : null
+  );
+
+  const session = useMemo(
+    () => (user && sessionId ? StorageService.getSessions(user.id).find(s => s.id === sessionId) ?? null : null),
+    [user, sessionId]
+  );
+
+  const replay = useMemo(
+    () => (user && session ? ReplayService.getReplay(user.id, session.id) : null),
+    [user, session]
+  );
+
+  if (!user) return null;
+
+  return (
+    <ProtectedRoute>
+      <AppLayout>
+        <div className="space-y-6">
+          <Link href="/history" className="text-sm text-slate-400 hover:text-white">
+            &larr; Back to History
+          </Link>
+
+          {!session ? (
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-12 text-center text-slate-400 backdrop-blur-sm">
+              This session could not be found.
+            </div>
+          ) : (
+            <>
+              {/* Header */}
+              <div>
+                <h1 className="text-3xl font-bold text-white neon-text">{session.questionTitle}</h1>
+                <p className="text-slate-400 mt-1 terminal-text">
+                  {`// ${session.startTime.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`}
+                  {` · ${formatLabel(session.category)} · ${formatLabel(session.difficulty)}`}
+                </p>
+              </div>
+
+              {/* Summary */}
+              <div className="holo-card rounded-lg p-6 glow-border cyber-border">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-6 text-sm">
+                  <div>
+                    <div className="text-slate-400">Rating</div>
+                    <div className="text-white font-medium">{session.rating}/5</div>
+                  </div>
+                  <div>
+                    <div className="text-slate-400">Duration</div>
+                    <div className="text-white font-medium">
+                      {formatMinutes(session.activeDuration ?? session.duration)}
+                      {session.timedOut && <span className="text-red-300"> · timed out</span>}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-slate-400">Hints</div>
+                    <div className="text-white font-medium">{session.hintCount ?? (session.hintUsed ? 1 : 0)}</div>
+                  </div>
+                  <div>
+                    <div className="text-slate-400">Tests Passed</div>
+                    <div className="text-white font-medium">
+                      {session.testPassRate !== undefined ? `${Math.round(session.testPassRate * 100)}%` : 'Not run'}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-slate-400">Mode</div>
+                    <div className="text-white font-medium">
+                      {session.mode === 'practice' ? 'Practice' : session.pressureModeUsed ? 'Pressure' : 'Standard'}
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              {/* Timeline */}
+              <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 backdrop-blur-sm">
+                <h2 className="text-lg font-semibold text-white mb-4">Timeline</h2>
+                {session.events ? (
+                  <SessionTimeline events={session.events} startTime={session.startTime} />
+                ) : (
+                  <p className="text-sm text-slate-400">
+                    This session was saved before timelines were recorded.
+                  </p>
+                )}
+              </div>
+
+              {/* Code evolution replay */}
+              <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 backdrop-blur-sm">
+                <h2 className="text-lg font-semibold text-white mb-4">Replay</h2>
+                {replay ? (
+                  <ReplayPlayer replay={replay} events={session.events ?? []} duration={session.duration} />
+                ) : (
+                  <p className="text-sm text-slate-400">
+                    No replay is stored for this session. Older replays are removed to stay within storage limits.
+                  </p>
+                )}
+              </div>
+
+              {/* Notes and final code */}
+              {session.notes && (
+                <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 backdrop-blur-sm">
+                  <h2 className="text-lg font-semibold text-white mb-2">Notes</h2>
+                  <p className="text-sm text-slate-300 whitespace-pre-wrap">{session.notes}</p>
+                </div>
+              )}
+
+              {session.finalCode && (
+                <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 backdrop-blur-sm">
+                  <h2 className="text-lg font-semibold text-white mb-2">
+                    Code When Time Ran Out
+                    <span className="text-slate-400 font-normal text-sm">{` · ${getLanguageName(session.finalCode.language)}`}</span>
+                  </h2>
+                  <pre className="text-xs text-slate-200 bg-slate-900 rounded-lg p-4 overflow-x-auto">{session.finalCode.code}</pre>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </AppLayout>
+    </ProtectedRoute>
+  );
+}
@@ -4,18 +4,27 @@ import { AppLayout } from "@/components/layouts/AppLayout";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { useAuth } from "@/contexts/AuthContext";
+import { useSession } from "@/contexts/SessionContext";
 import { StorageService } from "@/services/StorageService";
-import { CompletedSession } from "@/types";
+import { AnalyticsService } from "@/services/AnalyticsService";
+import { SessionService } from "@/services/SessionService";
+import { AssessmentReport } from "@/components/interview/AssessmentReport";
+import { AssessmentResult, CompletedSession } from "@/types";
 
 export default function FeedbackPage() {
   const router = useRouter();
   const { user } = useAuth();
+  const { activeSession, currentQuestion, draft, endSession, endAssessment } = useSession();
   const [rating, setRating] = useState<number>(0);
   const [hoveredRating, setHoveredRating] = useState<number>(0);
   const [difficulty, setDifficulty] = useState<'easy' | 'medium' | 'hard' | ''>('');
-  const [notes, setNotes] = useState('');
+  const [notes, setNotes] = useState(() => draft?.notes ?? '');
   const [isSaving, setIsSaving] = useState(false);
+  const [completedSession, setCompletedSession] = useState<CompletedSession | null>(null);
+  const [assessmentResult, setAssessmentResult] = useState<AssessmentResult | null>(null);
+  const [openedAt] = useState(() => Date.now());
 
   const difficultyOptions = [
     { value: 'easy', label: 'Easy', color: 'green' },
@@ -23,6 +32,51 @@ export default function FeedbackPage() {
     { value: 'hard', label: 'Hard', color: 'red' },
   ];
 
+  // A finished session ended when the user chose to end it
+  const endedAt = activeSession?.endTime?.getTime() ?? openedAt;
+  const pausedSoFar = activeSession ? SessionService.getPausedSeconds(activeSession, new Date(endedAt)) : 0;
+
+  // Summarize the saved session once ended, otherwise the one still in progress
+  const summary = completedSession
+    ? {
+        questionTitle: completedSession.questionTitle,
+        category: completedSession.category,
+        duration: completedSession.activeDuration ?? completedSession.duration,
+        pausedDuration: completedSession.pausedDuration ?? 0,
+        hintCount: completedSession.hintCount ?? (completedSession.hintUsed ? 1 : 0),
+        firstHintSeconds: completedSession.firstHintSeconds,
+        pressureModeUsed: completedSession.pressureModeUsed,
+        practice: completedSession.mode === 'practice',
+        testPassRate: completedSession.testPassRate,
+        timedOut: completedSession.timedOut ?? false,
+        selectionReason: completedSession.selectionReason,
+      }
+    : activeSession && currentQuestion
+      ? {
+          questionTitle: currentQuestion.title,
+          category: currentQuestion.category,
+          duration: Math.max(0, Math.floor((endedAt - activeSession.startTime.getTime()) / 1000) - pausedSoFar),
+          pausedDuration: pausedSoFar,
+          hintCount: SessionService.getHintsShown(activeSession),
+          firstHintSeconds: activeSession.hintsRevealedAt?.[0]
+            ? Math.floor((activeSession.hintsRevealedAt[0].getTime() - activeSession.startTime.getTime()) / 1000)
+            : undefined,
+          pressureModeUsed: activeSession.pressureModeEnabled,
+          practice: activeSession.mode === 'practice',
+          testPassRate: activeSession.testPassRate,
+          timedOut: activeSession.timedOut ?? false,
+          selectionReason: activeSession.selectionReason,
+        }
+      : null;
+
+  const formatLabel = (value: string) =>
+    value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+  const formatDuration = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    return mins === 1 ? '1 minute' : `${mins} minutes`;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -31,47 +85,37 @@ export default function FeedbackPage() {
       return;
     }
 
-    if (!user) return;
+    if (!user || !activeSession) return;
 
     setIsSaving(true);
-    
-    // Create completed session
-    const now = new Date();
-    const startTime = new Date(now.getTime() - 38 * 60 * 1000); // 38 minutes ago
-    
-    const session: CompletedSession = {
-      id: `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-      userId: user.id,
-      questionId: 'basic-array-1',
-      questionTitle: 'Two Sum',
-      category: 'arrays',
-      difficulty: 'easy',
-      startTime,
-      endTime: now,
-      duration: 38 * 60, // 38 minutes in seconds
-      rating: rating as 1 | 2 | 3 | 4 | 5,
-      perceivedDifficulty: difficulty as 'easy' | 'medium' | 'hard',
-      notes: notes,
-      pressureModeUsed: false,
-    };
 
     try {
-      // Save session to localStorage
-      StorageService.saveSession(session);
-      
+      // End the active session (saves it through SessionService)
+      const session = await endSession({
+        rating: rating as 1 | 2 | 3 | 4 | 5,
+        perceivedDifficulty: difficulty as 'easy' | 'medium' | 'hard',
+        notes: notes,
+      });
+      setCompletedSession(session);
+
+      // Recompute streak from the saved history
+      const sessions = StorageService.getSessions(user.id);
+      const streak = AnalyticsService.calculateStreak(user.id, sessions);
+
       // Update user's last session date and streak
       const updatedUser = {
         ...user,
-        lastSessionDate: now,
-        streak: user.streak + 1,
+        lastSessionDate: session.endTime,
+        streak,
       };
       StorageService.saveUser(updatedUser);
+      StorageService.updateStreak(user.id, streak);
       
       // Wait a moment to show success
       await new Promise(resolve => setTimeout(resolve, 1500));
       
-      // Redirect to dashboard
-      router.push('/dashboard');
+      // Loop rounds go back to the loop for the break and next round
+      router.push(session.loop ? `/loops?id=${encodeURIComponent(session.loop.loopId)}` : '/dashboard');
     } catch (error) {
       console.error('Failed to save session:', error);
       alert('Failed to save session. Please try again.');
@@ -79,6 +123,114 @@ export default function FeedbackPage() {
     }
   };
 
+  const handleGradeAssessment = async () => {
+    setIsSaving(true);
+
+    try {
+      setAssessmentResult(await endAssessment());
+    } catch (error) {
+      console.error('Failed to grade assessment:', error);
+      alert('Failed to grade assessment. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Online assessments are graded from their submissions, not self-rated
+  if (assessmentResult || activeSession?.assessment) {
+    const submissionCount = activeSession?.assessment?.submissions.length ?? 0;
+
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <div className="max-w-3xl mx-auto py-8 space-y-6">
+            <div className="text-center">
+              <h1 className="text-3xl font-bold text-white mb-2">Assessment Results</h1>
+              <p className="text-slate-400">
+                {assessmentResult
+                  ? 'Graded against hidden test cases'
+                  : activeSession?.timedOut
+                    ? "Time's up! Submit your assessment to see your score"
+                    : activeSession?.endTime
+                      ? 'Your answers are locked in. Submit your assessment to see your score'
+                      : 'Submit your assessment to see your score; you cannot return to it afterwards'}
+              </p>
+            </div>
+
+            {assessmentResult ? (
+              <>
+                <AssessmentReport result={assessmentResult} />
+                <div className="flex items-center justify-center gap-3">
+                  <Link
+                    href="/assessment"
+                    className="px-6 py-3 neon-button text-white font-medium rounded-lg transition-all"
+                  >
+                    Online Assessments
+                  </Link>
+                  <Link
+                    href="/dashboard"
+                    className="px-6 py-3 bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-lg transition-all"
+                  >
+                    Back to Dashboard
+                  </Link>
+                </div>
+              </>
+            ) : (
+              <div className="holo-card rounded-lg p-6 glow-border cyber-border text-center">
+                <p className="text-slate-300 mb-6">
+                  {submissionCount === 0
+                    ? 'You have not submitted any solutions yet.'
+                    : `${submissionCount} submission${submissionCount === 1 ? '' : 's'} will be graded.`}
+                </p>
+                <div className="flex items-center justify-center gap-3">
+                  <button
+                    onClick={handleGradeAssessment}
+                    disabled={isSaving}
+                    className="px-6 py-3 neon-button text-white font-medium rounded-lg transition-all disabled:opacity-50"
+                  >
+                    {isSaving ? 'Grading...' : 'Submit Assessment'}
+                  </button>
+                  {!activeSession?.timedOut && !activeSession?.endTime && (
+                    <Link
+                      href="/assessment"
+                      className="px-6 py-3 bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-lg transition-all"
+                    >
+                      Back to Assessment
+                    </Link>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  // Nothing to give feedback on (e.g. page opened directly)
+  if (!summary) {
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <div className="max-w-xl mx-auto py-16 text-center">
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-8 backdrop-blur-sm">
+              <h1 className="text-2xl font-bold text-white mb-2">No Active Session</h1>
+              <p className="text-slate-400 mb-6">
+                Start a mock interview to record feedback for it.
+              </p>
+              <Link
+                href="/dashboard"
+                className="inline-block px-6 py-3 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-medium rounded-lg transition-all"
+              >
+                Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
   return (
     <ProtectedRoute>
       <AppLayout>
@@ -87,7 +239,9 @@ export default function FeedbackPage() {
           <div className="text-center mb-8">
             <h1 className="text-3xl font-bold text-white mb-2">Session Feedback</h1>
             <p className="text-slate-400">
-              Rate your performance and add notes about your session
+              {summary.timedOut
+                ? "Time's up! Your code was saved as it was when the timer ran out"
+                : 'Rate your performance and add notes about your session'}
             </p>
           </div>
 
@@ -99,21 +253,50 @@ export default function FeedbackPage() {
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
                   <div className="text-slate-400">Question</div>
-                  <div className="text-white font-medium">Two Sum</div>
+                  <div className="text-white font-medium">{summary.questionTitle}</div>
                 </div>
                 <div>
                   <div className="text-slate-400">Category</div>
-                  <div className="text-white font-medium">Arrays</div>
+                  <div className="text-white font-medium">{formatLabel(summary.category)}</div>
                 </div>
                 <div>
                   <div className="text-slate-400">Duration</div>
-                  <div className="text-white font-medium">38 minutes</div>
+                  <div className="text-white font-medium">
+                    {formatDuration(summary.duration)}
+                    {summary.pausedDuration > 0 && (
+                      <span className="text-slate-400"> (+{formatDuration(summary.pausedDuration)} paused)</span>
+                    )}
+                  </div>
                 </div>
                 <div>
                   <div className="text-slate-400">Hints Used</div>
-                  <div className="text-white font-medium">1</div>
+                  <div className="text-white font-medium">
+                    {summary.hintCount}
+                    {summary.firstHintSeconds !== undefined && (
+                      <span className="text-slate-400"> (first at {formatDuration(summary.firstHintSeconds)})</span>
+                    )}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-slate-400">Ended</div>
+                  <div className="text-white font-medium">{summary.timedOut ? 'Time ran out' : 'Ended early'}</div>
+                </div>
+                <div>
+                  <div className="text-slate-400">Mode</div>
+                  <div className="text-white font-medium">{summary.practice ? 'Practice' : summary.pressureModeUsed ? 'Pressure' : 'Standard'}</div>
+                </div>
+                <div>
+                  <div className="text-slate-400">Tests Passed</div>
+                  <div className="text-white font-medium">
+                    {summary.testPassRate !== undefined ? `${Math.round(summary.testPassRate * 100)}%` : 'Not run'}
+                  </div>
                 </div>
               </div>
+              {summary.selectionReason && (
+                <p className="mt-4 text-sm text-slate-400">
+                  <span className="text-slate-500">Chosen for you:</span> {summary.selectionReason}
+                </p>
+              )}
             </div>
 
             {/* Performance Rating */}
@@ -234,7 +417,7 @@ export default function FeedbackPage() {
                   </>
                 ) : (
                   <>
-                    Save & Return to Dashboard
+                    {activeSession?.loop ? 'Save & Continue Loop' : 'Save & Return to Dashboard'}
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
                     </svg>
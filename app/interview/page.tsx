@@ -3,46 +3,132 @@
 import { AppLayout } from "@/components/layouts/AppLayout";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { useAuth } from "@/contexts/AuthContext";
+import { useSession } from "@/contexts/SessionContext";
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import { CodeEditor } from "@/components/interview/CodeEditor";
+import { TestResultsPanel } from "@/components/interview/TestResultsPanel";
+import { SessionRecoveryPrompt } from "@/components/interview/SessionRecoveryPrompt";
+import { SessionSetup } from "@/components/interview/SessionSetup";
+import { SharedQuestionPrompt } from "@/components/interview/SharedQuestionPrompt";
+import { TrackStartPrompt } from "@/components/interview/TrackStartPrompt";
+import { QuestionStartPrompt } from "@/components/interview/QuestionStartPrompt";
+import { LoopRoundPrompt } from "@/components/interview/LoopRoundPrompt";
+import { CodeRunnerService } from "@/services/CodeRunnerService";
+import { SessionService } from "@/services/SessionService";
+import { ReviewService } from "@/services/ReviewService";
+import { languages, getLanguageName } from "@/lib/languages";
+import { CodeRunResult, LanguageId, QuestionDraw, SessionConfig } from "@/types";
+
+type EditorTab = 'code' | 'notes' | 'approach';
+
+const editorTabs: { id: EditorTab; label: string }[] = [
+  { id: 'code', label: 'Code' },
+  { id: 'notes', label: 'Notes' },
+  { id: 'approach', label: 'Approach' },
+];
 
 export default function InterviewPage() {
   const { user } = useAuth();
+  const {
+    activeSession,
+    currentQuestion,
+    draft,
+    timeRemaining,
+    isPaused,
+    isTimedOut,
+    isFinished,
+    loading,
+    expiredSession,
+    lastSavedAt,
+    hasUnsavedChanges,
+    saveError,
+    error,
+    startSession,
+    startTrackSession,
+    startQuestionSession,
+    startLoopRound,
+    finishSession,
+    updateSession,
+    updateDraft,
+    recordEvent,
+    revealHint,
+    pauseSession,
+    resumeSession,
+    onSessionExpired,
+  } = useSession();
   const router = useRouter();
-  const [showHint, setShowHint] = useState(false);
-  const [pressureMode, setPressureMode] = useState(false);
-  const [timeRemaining, setTimeRemaining] = useState(45 * 60); // 45 minutes in seconds
   const [showSolution, setShowSolution] = useState(false);
-  const [selectedLanguage, setSelectedLanguage] = useState('javascript');
   const [pressurePopup, setPressurePopup] = useState<string | null>(null);
-  const [showWarning, setShowWarning] = useState(false);
+  const [warningDismissed, setWarningDismissed] = useState(false);
+  const [activeTab, setActiveTab] = useState<EditorTab>('code');
+  const [runResult, setRunResult] = useState<CodeRunResult | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [runningTests, setRunningTests] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [challengeCopied, setChallengeCopied] = useState(false);
+
+  // Question of the day or a friend's challenge, from /interview?draw=...
+  const [sharedDraw, setSharedDraw] = useState<QuestionDraw | null>(() =>
+    typeof window !== 'undefined'
+      ? SessionService.decodeDraw(new URLSearchParams(window.location.search).get('draw'))
+      : null
+  );
 
-  if (!user) return null;
+  // Next question of a study track, from /interview?track=...
+  const [trackId, setTrackId] = useState<string | null>(() =>
+    typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('track') : null
+  );
+
+  // Question picked from the catalog, from /interview?question=...
+  const [pickedQuestionId, setPickedQuestionId] = useState<string | null>(() =>
+    typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('question') : null
+  );
+
+  // Next round of an interview loop, from /interview?loop=...
+  const [loopId, setLoopId] = useState<string | null>(() =>
+    typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('loop') : null
+  );
+
+  const pressureMode = activeSession?.pressureModeEnabled ?? false;
+
+  // Buffers live in the session draft so they are autosaved
+  const selectedLanguage = draft?.language ?? 'javascript';
+
+  // Each language keeps its own buffer, starting from the question's signature
+  const code = draft?.code[selectedLanguage] ?? currentQuestion?.starterCode[selectedLanguage] ?? '';
 
-  // Countdown timer
+  const isPractice = activeSession?.mode === 'practice';
+
+  // Show warning at 2 minutes
+  const showWarning =
+    activeSession !== null && !isPractice && timeRemaining <= SessionService.WARNING_SECONDS && !warningDismissed;
+
+  // Time is up: the session is frozen, go straight to feedback (Requirement 2.5)
   useEffect(() => {
-    const timer = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev <= 0) {
-          clearInterval(timer);
-          return 0;
-        }
-        
-        // Show warning at 2 minutes
-        if (prev === 120 && !showWarning) {
-          setShowWarning(true);
-        }
-        
-        return prev - 1;
-      });
-    }, 1000);
+    return onSessionExpired(() => {
+      router.push('/interview/feedback');
+    });
+  }, [onSessionExpired, router]);
 
-    return () => clearInterval(timer);
-  }, [showWarning]);
+  // A finished session only waits for feedback, e.g. when revisited from the feedback page
+  useEffect(() => {
+    if (isFinished) {
+      router.replace('/interview/feedback');
+    }
+  }, [isFinished, router]);
+
+  // Online assessments have their own workspace, without hints or solutions
+  const isAssessment = activeSession?.assessment !== undefined;
+  useEffect(() => {
+    if (isAssessment) {
+      router.replace('/assessment');
+    }
+  }, [isAssessment, router]);
 
   // Pressure mode popups
   useEffect(() => {
-    if (!pressureMode || user.plan !== 'pro') return;
+    if (!pressureMode || user?.plan !== 'pro') return;
 
     const popupMessages = [
       "Explain your thought process out loud!",
@@ -55,6 +141,7 @@ export default function InterviewPage() {
     const showRandomPopup = () => {
       const randomMessage = popupMessages[Math.floor(Math.random() * popupMessages.length)];
       setPressurePopup(randomMessage);
+      recordEvent({ type: 'pressure-popup-shown', at: new Date(), message: randomMessage });
       setTimeout(() => setPressurePopup(null), 5000);
     };
 
@@ -68,7 +155,9 @@ export default function InterviewPage() {
       clearInterval(interval);
       clearTimeout(initialTimeout);
     };
-  }, [pressureMode, user.plan]);
+  }, [pressureMode, user?.plan, recordEvent]);
+
+  if (!user) return null;
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -76,22 +165,285 @@ export default function InterviewPage() {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const handleStartSession = async (config?: SessionConfig, draw?: QuestionDraw) => {
+    setStarting(true);
+    try {
+      await startSession(config, draw);
+    } catch {
+      // Error is surfaced through the session context
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleStartTrackSession = async (id: string) => {
+    setStarting(true);
+    try {
+      await startTrackSession(id);
+    } catch {
+      // Error is surfaced through the session context
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleStartQuestionSession = async (id: string) => {
+    setStarting(true);
+    try {
+      await startQuestionSession(id);
+    } catch {
+      // Error is surfaced through the session context
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleStartLoopRound = async (id: string) => {
+    setStarting(true);
+    try {
+      await startLoopRound(id);
+    } catch {
+      // Error is surfaced through the session context
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleDismissPrompt = () => {
+    setSharedDraw(null);
+    setTrackId(null);
+    setPickedQuestionId(null);
+    setLoopId(null);
+    router.replace('/interview');
+  };
+
+  const handleCopyChallenge = async () => {
+    if (!activeSession?.draw) return;
+
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}${SessionService.getChallengeLink(activeSession.draw)}`
+      );
+      setChallengeCopied(true);
+      setTimeout(() => setChallengeCopied(false), 2000);
+    } catch {
+      // Clipboard access denied; nothing to copy into
+    }
+  };
+
   const handleSubmit = () => {
     setShowSolution(true);
   };
 
+  const handleCodeChange = (value: string) => {
+    updateDraft({ code: { [selectedLanguage]: value } });
+  };
+
+  const setSelectedLanguage = (language: LanguageId) => {
+    if (language === selectedLanguage) return;
+    updateDraft({ language });
+    recordEvent({ type: 'language-switched', at: new Date(), from: selectedLanguage, to: language });
+  };
+
+  const saveStatus = saveError
+    ? `Not saved: ${saveError}`
+    : hasUnsavedChanges
+      ? 'Saving...'
+      : lastSavedAt
+        ? `Auto-saved at ${lastSavedAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
+        : 'Not saved yet';
+
+  const handleRunTests = async () => {
+    if (!currentQuestion) return;
+
+    setRunningTests(true);
+    setRunError(null);
+    try {
+      const result = await CodeRunnerService.runTests(code, selectedLanguage, currentQuestion);
+      setRunResult(result);
+      updateSession({ testPassRate: result.passRate });
+      recordEvent({
+        type: 'code-run',
+        at: new Date(),
+        language: result.language,
+        passedCount: result.passedCount,
+        totalCount: result.totalCount,
+        error: result.error,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unable to run code';
+      setRunResult(null);
+      setRunError(message);
+      recordEvent({
+        type: 'code-run',
+        at: new Date(),
+        language: selectedLanguage,
+        passedCount: 0,
+        totalCount: currentQuestion.testCases.length,
+        error: message,
+      });
+    } finally {
+      setRunningTests(false);
+    }
+  };
+
+  const handleDismissPressurePopup = () => {
+    setPressurePopup(null);
+    recordEvent({ type: 'pressure-popup-dismissed', at: new Date() });
+  };
+
+  const handleTogglePressureMode = () => {
+    updateSession({ pressureModeEnabled: !pressureMode });
+  };
+
+  const formatLabel = (value: string) =>
+    value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+  const difficultyStyles = {
+    easy: 'bg-green-900/50 text-green-300 border-green-700',
+    medium: 'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+    hard: 'bg-red-900/50 text-red-300 border-red-700',
+  };
+
+  const hintsShown = activeSession ? SessionService.getHintsShown(activeSession) : 0;
+  const pausePolicy = SessionService.PAUSE_POLICIES[user.plan];
+  const pausesLeft = pausePolicy.maxPauses - (activeSession?.pauses?.length ?? 0);
+  const pauseUnavailableReason = isPractice
+    ? 'Practice sessions are untimed'
+    : pressureMode && !pausePolicy.allowedInPressureMode
+    ? 'Pausing is off in pressure mode'
+    : pausesLeft <= 0
+      ? 'No pauses left this session'
+      : null;
+
+  // Stop the clock now, so time spent on feedback is not counted
   const handleEndSession = () => {
+    finishSession();
     router.push('/interview/feedback');
   };
 
-  const languages = [
-    { id: 'javascript', name: 'JavaScript' },
-    { id: 'python', name: 'Python' },
-    { id: 'java', name: 'Java' },
-    { id: 'cpp', name: 'C++' },
-    { id: 'typescript', name: 'TypeScript' },
-    { id: 'go', name: 'Go' },
-  ];
+  // Previous session ran out of time while the app was closed
+  if (!activeSession && expiredSession) {
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <div className="max-w-xl mx-auto py-16">
+            <SessionRecoveryPrompt />
+          </div>
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  // Shared question: start exactly the drawn question
+  if (!activeSession && !loading && sharedDraw) {
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <SharedQuestionPrompt
+            plan={user.plan}
+            draw={sharedDraw}
+            starting={starting}
+            error={error}
+            onStart={(draw) => handleStartSession(undefined, draw)}
+            onDismiss={handleDismissPrompt}
+          />
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  // Study track: start the track's next question
+  if (!activeSession && !loading && trackId) {
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <TrackStartPrompt
+            userId={user.id}
+            plan={user.plan}
+            trackId={trackId}
+            starting={starting}
+            error={error}
+            onStart={handleStartTrackSession}
+            onDismiss={handleDismissPrompt}
+          />
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  // Catalog pick: start exactly that question
+  if (!activeSession && !loading && pickedQuestionId) {
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <QuestionStartPrompt
+            userId={user.id}
+            plan={user.plan}
+            questionId={pickedQuestionId}
+            starting={starting}
+            error={error}
+            onStart={handleStartQuestionSession}
+            onDismiss={handleDismissPrompt}
+          />
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  // Interview loop: start the loop's next round
+  if (!activeSession && !loading && loopId) {
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <LoopRoundPrompt
+            userId={user.id}
+            loopId={loopId}
+            starting={starting}
+            error={error}
+            onStart={handleStartLoopRound}
+            onDismiss={handleDismissPrompt}
+          />
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  // No session yet: choose duration, categories and difficulty first
+  if (!activeSession && !loading && !starting) {
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <SessionSetup
+            userId={user.id}
+            plan={user.plan}
+            dueReviewCount={ReviewService.getDueCount(user.id)}
+            starting={starting}
+            error={error}
+            onStart={handleStartSession}
+          />
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  if (!activeSession || !currentQuestion || isAssessment) {
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <div className="min-h-[60vh] flex items-center justify-center">
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="mt-4 text-slate-300">Preparing your interview...</p>
+            </div>
+          </div>
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  const solutionCode = currentQuestion.solution.code[selectedLanguage];
+  const availableSolutionLanguages = languages.filter(lang => currentQuestion.solution.code[lang.id]);
 
   return (
     <ProtectedRoute>
@@ -101,36 +453,73 @@ export default function InterviewPage() {
           {/* Top Bar - Timer and Controls */}
           <div className="holo-card border-b border-slate-700 px-6 py-4 flex items-center justify-between glow-border">
             <div className="flex items-center gap-6">
-              {/* Timer */}
-              <div className="flex items-center gap-3">
-                <div className={`w-12 h-12 holo-card rounded-full flex items-center justify-center border-2 ${
-                  timeRemaining <= 120 ? 'border-red-500 animate-pulse neon-text' : 'border-blue-500'
-                }`}>
-                  <svg className={`w-6 h-6 ${timeRemaining <= 120 ? 'text-red-400' : 'text-blue-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                </div>
+              {/* Timer (practice sessions are untimed) */}
+              {isPractice ? (
                 <div>
-                  <div className={`text-2xl font-bold font-mono ${timeRemaining <= 120 ? 'text-red-400 neon-text' : 'gradient-text'}`}>
-                    {formatTime(timeRemaining)}
+                  <div className="text-2xl font-bold font-mono gradient-text">Untimed</div>
+                  <div className="text-xs text-slate-400 terminal-text">{'// Practice Mode'}</div>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3">
+                  <div className={`w-12 h-12 holo-card rounded-full flex items-center justify-center border-2 ${
+                    timeRemaining <= 120 ? 'border-red-500 animate-pulse neon-text' : 'border-blue-500'
+                  }`}>
+                    <svg className={`w-6 h-6 ${timeRemaining <= 120 ? 'text-red-400' : 'text-blue-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                  </div>
+                  <div>
+                    <div className={`text-2xl font-bold font-mono ${timeRemaining <= 120 ? 'text-red-400 neon-text' : 'gradient-text'}`}>
+                      {formatTime(timeRemaining)}
+                    </div>
+                    <div className="text-xs text-slate-400 terminal-text">// Time Remaining</div>
                   </div>
-                  <div className="text-xs text-slate-400 terminal-text">// Time Remaining</div>
                 </div>
-              </div>
+              )}
 
               {/* Question Info */}
               <div className="border-l border-slate-700 pl-6">
                 <div className="text-sm text-slate-400 terminal-text">// Current Question</div>
-                <div className="text-white font-medium">Two Sum Problem</div>
+                <div className="text-white font-medium">{currentQuestion.title}</div>
               </div>
             </div>
 
             {/* Right Controls */}
             <div className="flex items-center gap-3">
+              {/* Share the exact question */}
+              {activeSession.draw && (
+                <button
+                  onClick={handleCopyChallenge}
+                  title="Copy a link that starts this same question"
+                  className="px-4 py-2 holo-card text-slate-200 glow-border font-medium rounded-lg transition-all"
+                >
+                  {challengeCopied ? 'Link Copied' : 'Challenge a Friend'}
+                </button>
+              )}
+
+              {/* Pause / Resume */}
+              {isPaused ? (
+                <button
+                  onClick={resumeSession}
+                  className="px-4 py-2 neon-button text-white font-medium rounded-lg transition-all"
+                >
+                  Resume
+                </button>
+              ) : (
+                <button
+                  onClick={pauseSession}
+                  disabled={pauseUnavailableReason !== null || timeRemaining === 0}
+                  title={pauseUnavailableReason ?? `${pausesLeft} of ${pausePolicy.maxPauses} pauses left, up to ${pausePolicy.maxPauseSeconds / 60} min each`}
+                  className="px-4 py-2 holo-card text-slate-200 glow-border font-medium rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Pause
+                </button>
+              )}
+
               {/* Pressure Mode Toggle (Pro Only) */}
-              {user.plan === 'pro' && (
+              {user.plan === 'pro' && !isPractice && (
                 <button
-                  onClick={() => setPressureMode(!pressureMode)}
+                  onClick={handleTogglePressureMode}
                   className={`px-4 py-2 rounded-lg font-medium transition-all ${
                     pressureMode
                       ? 'neon-button text-white'
@@ -163,107 +552,145 @@ export default function InterviewPage() {
               <div className="p-6 space-y-6">
                 {/* Question Header */}
                 <div className="flex items-center justify-between">
-                  <h2 className="text-2xl font-bold text-white">Two Sum</h2>
+                  <h2 className="text-2xl font-bold text-white">{currentQuestion.title}</h2>
                   <div className="flex items-center gap-2">
-                    <span className="px-3 py-1 bg-green-900/50 text-green-300 border border-green-700 rounded-full text-sm font-medium">
-                      Easy
+                    <span className={`px-3 py-1 border rounded-full text-sm font-medium ${difficultyStyles[currentQuestion.difficulty]}`}>
+                      {formatLabel(currentQuestion.difficulty)}
                     </span>
                     <span className="px-3 py-1 bg-blue-900/50 text-blue-300 border border-blue-700 rounded-full text-sm font-medium">
-                      Arrays
+                      {formatLabel(currentQuestion.category)}
                     </span>
                   </div>
                 </div>
 
+                {activeSession.loop && (
+                  <p className="text-sm text-slate-400">
+                    <span className="text-slate-500">{activeSession.loop.loopTitle}:</span>{' '}
+                    Round {activeSession.loop.round + 1} of {activeSession.loop.roundCount}, {activeSession.loop.roundTitle}
+                  </p>
+                )}
+
+                {activeSession.selectionReason && (
+                  <p className="text-sm text-slate-400">
+                    <span className="text-slate-500">Chosen for you:</span> {activeSession.selectionReason}
+                  </p>
+                )}
+
                 {/* Question Statement */}
                 <div className="bg-slate-800/50 rounded-lg p-6 border border-slate-700">
                   <h3 className="text-lg font-semibold text-white mb-4">Problem Statement</h3>
-                  <p className="text-slate-300 leading-relaxed mb-4">
-                    Given an array of integers <code className="bg-slate-700 px-2 py-1 rounded text-blue-300">nums</code> and an integer <code className="bg-slate-700 px-2 py-1 rounded text-blue-300">target</code>, return indices of the two numbers such that they add up to target.
-                  </p>
-                  <p className="text-slate-300 leading-relaxed">
-                    You may assume that each input would have exactly one solution, and you may not use the same element twice.
+                  <p className="text-slate-300 leading-relaxed whitespace-pre-line">
+                    {currentQuestion.statement}
                   </p>
                 </div>
 
                 {/* Examples */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold text-white">Examples</h3>
-                  
-                  <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-                    <div className="text-sm text-slate-400 mb-2">Example 1:</div>
-                    <div className="font-mono text-sm space-y-1">
-                      <div className="text-slate-300"><span className="text-blue-400">Input:</span> nums = [2,7,11,15], target = 9</div>
-                      <div className="text-slate-300"><span className="text-green-400">Output:</span> [0,1]</div>
-                      <div className="text-slate-400"><span className="text-slate-500">Explanation:</span> Because nums[0] + nums[1] == 9, we return [0, 1].</div>
-                    </div>
+                {currentQuestion.examples.length > 0 && (
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-white">Examples</h3>
+
+                    {currentQuestion.examples.map((example, index) => (
+                      <div key={index} className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+                        <div className="text-sm text-slate-400 mb-2">Example {index + 1}:</div>
+                        <div className="font-mono text-sm space-y-1">
+                          <div className="text-slate-300"><span className="text-blue-400">Input:</span> {example.input}</div>
+                          <div className="text-slate-300"><span className="text-green-400">Output:</span> {example.output}</div>
+                          {example.explanation && (
+                            <div className="text-slate-400"><span className="text-slate-500">Explanation:</span> {example.explanation}</div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
                   </div>
+                )}
 
-                  <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-                    <div className="text-sm text-slate-400 mb-2">Example 2:</div>
-                    <div className="font-mono text-sm space-y-1">
-                      <div className="text-slate-300"><span className="text-blue-400">Input:</span> nums = [3,2,4], target = 6</div>
-                      <div className="text-slate-300"><span className="text-green-400">Output:</span> [1,2]</div>
-                    </div>
+                {/* Constraints */}
+                {currentQuestion.constraints.length > 0 && (
+                  <div className="space-y-3">
+                    <h3 className="text-lg font-semibold text-white">Constraints</h3>
+                    <ul className="list-disc list-inside space-y-1 text-sm text-slate-300">
+                      {currentQuestion.constraints.map((constraint, index) => (
+                        <li key={index}>
+                          <code className="bg-slate-700 px-2 py-0.5 rounded text-blue-300">{constraint}</code>
+                        </li>
+                      ))}
+                    </ul>
                   </div>
-                </div>
+                )}
 
-                {/* Hint Section */}
-                <div className="space-y-3">
-                  <button
-                    onClick={() => setShowHint(!showHint)}
-                    className="w-full px-4 py-3 bg-slate-800 hover:bg-slate-700 text-slate-200 font-medium rounded-lg border border-slate-600 transition-all flex items-center justify-between"
-                  >
-                    <span>💡 Show Hint</span>
-                    <svg className={`w-5 h-5 transition-transform ${showHint ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                    </svg>
-                  </button>
-                  
-                  {showHint && (
-                    <div className="bg-yellow-900/20 border border-yellow-700/50 rounded-lg p-4">
-                      <p className="text-yellow-200 text-sm">
-                        Try using a hash map to store the numbers you've seen so far. For each number, check if target - number exists in the hash map.
-                      </p>
-                    </div>
-                  )}
-                </div>
+                {/* Hint Section: hints are shown one at a time, gentlest first */}
+                {currentQuestion.hints.length > 0 && (
+                  <div className="space-y-3">
+                    {currentQuestion.hints.slice(0, hintsShown).map((hint, index) => (
+                      <div key={index} className="bg-yellow-900/20 border border-yellow-700/50 rounded-lg p-4">
+                        <div className="text-xs text-yellow-400 mb-1">Hint {index + 1} of {currentQuestion.hints.length}</div>
+                        <p className="text-yellow-200 text-sm">{hint}</p>
+                      </div>
+                    ))}
+
+                    {hintsShown < currentQuestion.hints.length && (
+                      <button
+                        onClick={revealHint}
+                        className="w-full px-4 py-3 bg-slate-800 hover:bg-slate-700 text-slate-200 font-medium rounded-lg border border-slate-600 transition-all text-left"
+                      >
+                        💡 {hintsShown === 0 ? 'Show Hint' : `Show Next Hint (${hintsShown + 1} of ${currentQuestion.hints.length})`}
+                      </button>
+                    )}
+                  </div>
+                )}
 
                 {/* Solution Section (shown after submit) */}
                 {showSolution && (
                   <div className="space-y-4 border-t border-slate-700 pt-6">
                     <h3 className="text-lg font-semibold text-white">Solution & Explanation</h3>
                     
-                    <div className="bg-green-900/20 border border-green-700/50 rounded-lg p-4">
-                      <h4 className="text-green-300 font-semibold mb-2">Approach: Hash Map</h4>
-                      <p className="text-slate-300 text-sm leading-relaxed mb-3">
-                        The optimal solution uses a hash map to store each number and its index as we iterate through the array. For each number, we check if the complement (target - current number) exists in the hash map. If it does, we've found our answer. If not, we add the current number to the hash map and continue.
+                    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700 space-y-3">
+                      <p className="text-slate-300 text-sm leading-relaxed">
+                        {currentQuestion.solution.approach}
                       </p>
-                      <div className="text-sm text-slate-400">
-                        <div>Time Complexity: O(n)</div>
-                        <div>Space Complexity: O(n)</div>
-                      </div>
+                      {currentQuestion.solution.timeComplexity && (
+                        <div className="flex flex-wrap gap-3 text-xs">
+                          <span className="px-2 py-1 bg-slate-700 rounded text-blue-300 font-mono">
+                            Time: {currentQuestion.solution.timeComplexity}
+                          </span>
+                          <span className="px-2 py-1 bg-slate-700 rounded text-blue-300 font-mono">
+                            Space: {currentQuestion.solution.spaceComplexity}
+                          </span>
+                        </div>
+                      )}
                     </div>
 
-                    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-                      <div className="text-sm text-slate-400 mb-2">Solution Code:</div>
-                      <pre className="font-mono text-sm text-slate-300 overflow-x-auto">
-{`function twoSum(nums, target) {
-  const map = new Map();
-  
-  for (let i = 0; i < nums.length; i++) {
-    const complement = target - nums[i];
-    
-    if (map.has(complement)) {
-      return [map.get(complement), i];
-    }
-    
-    map.set(nums[i], i);
-  }
-  
-  return [];
-}`}
-                      </pre>
-                    </div>
+                    {solutionCode ? (
+                      <div className="space-y-2">
+                        <div className="text-xs text-slate-400 uppercase tracking-wide">
+                          Reference solution · {getLanguageName(selectedLanguage)}
+                        </div>
+                        <pre className="bg-slate-950 rounded-lg p-4 border border-slate-700 overflow-x-auto text-sm text-slate-200 font-mono">
+                          <code>{solutionCode}</code>
+                        </pre>
+                      </div>
+                    ) : availableSolutionLanguages.length > 0 ? (
+                      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700 space-y-3">
+                        <p className="text-slate-400 text-sm">
+                          No {getLanguageName(selectedLanguage)} solution yet. Reference solutions are available in:
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          {availableSolutionLanguages.map((lang) => (
+                            <button
+                              key={lang.id}
+                              onClick={() => setSelectedLanguage(lang.id)}
+                              className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-xs font-medium transition-all"
+                            >
+                              {lang.name}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-slate-400 text-sm">
+                        This question is discussion-based, so there is no reference code.
+                      </p>
+                    )}
                   </div>
                 )}
               </div>
@@ -274,18 +701,23 @@ export default function InterviewPage() {
               {/* Language Selector & Tabs */}
               <div className="bg-slate-900 border-b border-slate-700 px-4 py-2 flex items-center justify-between">
                 <div className="flex items-center gap-2">
-                  <button className="px-4 py-2 bg-slate-800 text-white rounded-t-lg font-medium text-sm">
-                    Notes
-                  </button>
-                  <button className="px-4 py-2 text-slate-400 hover:text-slate-200 rounded-t-lg font-medium text-sm">
-                    Approach
-                  </button>
+                  {editorTabs.map((tab) => (
+                    <button
+                      key={tab.id}
+                      onClick={() => setActiveTab(tab.id)}
+                      className={`px-4 py-2 rounded-t-lg font-medium text-sm ${
+                        activeTab === tab.id ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200'
+                      }`}
+                    >
+                      {tab.label}
+                    </button>
+                  ))}
                 </div>
                 
                 {/* Language Selector */}
                 <select
                   value={selectedLanguage}
-                  onChange={(e) => setSelectedLanguage(e.target.value)}
+                  onChange={(e) => setSelectedLanguage(e.target.value as LanguageId)}
                   className="px-3 py-1.5 bg-slate-800 text-slate-200 border border-slate-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   {languages.map((lang) => (
@@ -296,41 +728,115 @@ export default function InterviewPage() {
                 </select>
               </div>
 
-              {/* Notes Area */}
-              <div className="flex-1 p-6">
-                <textarea
-                  className="w-full h-full bg-slate-900 border border-slate-700 rounded-lg p-4 text-slate-200 font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="Take notes here...
-
-• Think about the problem
-• Write your approach
-• Track edge cases
-• Note time/space complexity"
-                  defaultValue="Approach:
-1. Use a hash map to store numbers and their indices
-2. For each number, check if (target - number) exists
-3. Return the indices when found
-
-Time: O(n)
-Space: O(n)"
-                />
+              {/* Code Area (kept mounted so each language's undo history survives tab switches) */}
+              <div className={`flex-1 flex flex-col min-h-0 ${activeTab === 'code' ? '' : 'hidden'}`}>
+                <div className="flex-1 p-6 min-h-0">
+                  <CodeEditor
+                    language={selectedLanguage}
+                    value={code}
+                    onChange={handleCodeChange}
+                    readOnly={isTimedOut}
+                  />
+                </div>
+
+                {/* Test Results */}
+                {CodeRunnerService.canRun(currentQuestion) && (
+                  <div className="border-t border-slate-700 bg-slate-950">
+                    <div className="flex items-center justify-between px-6 pt-3">
+                      <h3 className="text-sm font-semibold text-white">Test Results</h3>
+                      <button
+                        onClick={handleRunTests}
+                        disabled={runningTests || isTimedOut || !CodeRunnerService.isLanguageSupported(selectedLanguage)}
+                        className="px-4 py-1.5 bg-green-700 hover:bg-green-600 disabled:bg-slate-700 disabled:text-slate-400 text-white text-sm font-medium rounded-lg transition-all"
+                      >
+                        {runningTests ? 'Running...' : 'Run Tests'}
+                      </button>
+                    </div>
+                    {CodeRunnerService.isLanguageSupported(selectedLanguage) ? (
+                      <TestResultsPanel result={runResult} running={runningTests} error={runError} />
+                    ) : (
+                      <div className="px-6 py-4 text-sm text-slate-500">
+                        Tests can be run for JavaScript and TypeScript. Switch languages to run your code.
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
 
+              {/* Notes Area */}
+              {activeTab === 'notes' && (
+                <div className="flex-1 p-6">
+                  <textarea
+                    value={draft?.notes ?? ''}
+                    onChange={(e) => updateDraft({ notes: e.target.value })}
+                    readOnly={isTimedOut}
+                    className="w-full h-full bg-slate-900 border border-slate-700 rounded-lg p-4 text-slate-200 font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Take notes here...
+
+• Clarifying questions and assumptions
+• Edge cases to handle
+• Ideas you ruled out"
+                  />
+                </div>
+              )}
+
+              {/* Approach Area */}
+              {activeTab === 'approach' && (
+                <div className="flex-1 p-6">
+                  <textarea
+                    value={draft?.approach ?? ''}
+                    onChange={(e) => updateDraft({ approach: e.target.value })}
+                    readOnly={isTimedOut}
+                    className="w-full h-full bg-slate-900 border border-slate-700 rounded-lg p-4 text-slate-200 font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Outline your approach before coding...
+
+1. Brute force idea
+2. Optimized idea
+3. Data structures used
+
+Time: O(?)
+Space: O(?)"
+                  />
+                </div>
+              )}
+
               {/* Bottom Action Bar */}
               <div className="bg-slate-900 border-t border-slate-700 px-6 py-4 flex items-center justify-between">
-                <div className="text-sm text-slate-400">
-                  Auto-saved 2 minutes ago
+                <div className={`text-sm ${saveError ? 'text-red-400' : 'text-slate-400'}`}>
+                  {saveStatus}
                 </div>
                 <button 
                   onClick={handleSubmit}
                   className="px-6 py-2 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-medium rounded-lg transition-all"
                 >
-                  {showSolution ? 'Solution Shown' : 'Submit & Get Feedback'}
+                  {showSolution ? 'Solution Shown' : isPractice ? 'Show Solution' : 'Submit & Get Feedback'}
                 </button>
               </div>
             </div>
           </div>
 
+          {/* Paused Overlay - hides the question while the timer is stopped */}
+          {isPaused && (
+            <div className="fixed inset-0 z-40 bg-slate-950/90 backdrop-blur-sm flex items-center justify-center">
+              <div className="holo-card rounded-xl p-8 glow-border cyber-border text-center max-w-md">
+                <h2 className="text-2xl font-bold text-white mb-2">Session Paused</h2>
+                <p className="text-slate-300 mb-1">
+                  The timer is stopped at {formatTime(timeRemaining)}.
+                </p>
+                <p className="text-sm text-slate-400 mb-6">
+                  It resumes automatically after {pausePolicy.maxPauseSeconds / 60} minutes.
+                  {error && <span className="block text-red-400 mt-2">{error}</span>}
+                </p>
+                <button
+                  onClick={resumeSession}
+                  className="px-6 py-3 neon-button text-white font-medium rounded-lg transition-all"
+                >
+                  Resume Interview
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* 2-Minute Warning */}
           {showWarning && timeRemaining > 0 && (
             <div className="fixed top-24 right-8 bg-red-600 text-white px-6 py-4 rounded-lg shadow-2xl border-2 border-red-500 animate-bounce">
@@ -343,7 +849,7 @@ Space: O(n)"
                   <div className="text-sm text-red-100">Document your thought process in notes!</div>
                 </div>
                 <button 
-                  onClick={() => setShowWarning(false)}
+                  onClick={() => setWarningDismissed(true)}
                   className="ml-4 text-red-200 hover:text-white"
                 >
                   <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
@@ -365,6 +871,14 @@ Space: O(n)"
                   <div className="font-bold">Pressure Mode</div>
                   <div className="text-sm text-orange-100">{pressurePopup}</div>
                 </div>
+                <button
+                  onClick={handleDismissPressurePopup}
+                  className="ml-4 text-orange-200 hover:text-white"
+                >
+                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                  </svg>
+                </button>
               </div>
             </div>
           )}
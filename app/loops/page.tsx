@@ -0,0 +1,230 @@
+'use client';
+
+import { AppLayout } from "@/components/layouts/AppLayout";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { useAuth } from "@/contexts/AuthContext";
+import { StorageService } from "@/services/StorageService";
+import { SessionService, SessionError } from "@/services/SessionService";
+import { LoopService } from "@/services/LoopService";
+import { loopTemplates, getLoopTemplatesByPlan } from "@/lib/loops";
+import { InterviewLoop } from "@/types";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMemo, useState } from "react";
+
+const formatLabel = (value: string) =>
+  value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const formatMinutes = (seconds: number) => `${Math.round(seconds / 60)} min`;
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export default function LoopsPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+
+  // Loop opened from a round's feedback, from /loops?id=...
+  const [selectedId, setSelectedId] = useState<string | null>(() =>
+    typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('id') : null
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [loops, setLoops] = useState<InterviewLoop[]>(() => (user ? StorageService.getLoops(user.id) : []));
+
+  const sessions = useMemo(() => (user ? StorageService.getSessions(user.id) : []), [user]);
+  const summaries = useMemo(() => LoopService.getSummaries(sessions), [sessions]);
+
+  if (!user) return null;
+
+  const activeLoop = loops.find(loop => loop.endedAt === null) ?? null;
+  const selectedLoop = loops.find(loop => loop.id === selectedId) ?? activeLoop;
+  const selectedSummary = summaries.find(summary => summary.loopId === selectedLoop?.id);
+  const available = getLoopTemplatesByPlan(user.plan).map(t => t.id);
+
+  const handleStart = (templateId: string) => {
+    setError(null);
+    try {
+      const loop = SessionService.startLoop(user.id, user.plan, templateId);
+      router.push(`/interview?loop=${encodeURIComponent(loop.id)}`);
+    } catch (err) {
+      setError(err instanceof SessionError ? err.message : 'Unable to start this loop');
+    }
+  };
+
+  const handleAbandon = (loop: InterviewLoop) => {
+    LoopService.abandonLoop(user.id, loop.id);
+    setLoops(StorageService.getLoops(user.id));
+  };
+
+  const nextIndex = selectedLoop ? LoopService.getNextRoundIndex(selectedLoop) : null;
+  const breakEndsAt = selectedLoop ? LoopService.getBreakEndsAt(selectedLoop) : null;
+
+  return (
+    <ProtectedRoute>
+      <AppLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-3xl font-bold text-white neon-text">Interview Loops</h1>
+            <p className="text-slate-400 mt-1 terminal-text">
+              {'// Several rounds back to back, with breaks in between, like an onsite'}
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 text-sm text-red-300">
+              {error}
+            </div>
+          )}
+
+          {/* Current or selected loop */}
+          {selectedLoop && (
+            <div className="holo-card rounded-lg p-6 glow-border cyber-border">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-white">{selectedLoop.title}</h2>
+                  <p className="text-sm text-slate-400">
+                    Started {formatDate(selectedLoop.startedAt)}
+                    {selectedLoop.endedAt && (nextIndex === null ? ', completed' : ', abandoned')}
+                  </p>
+                </div>
+                {selectedSummary && (
+                  <div className="text-right text-sm text-slate-300">
+                    <div>
+                      {selectedSummary.rounds.length} of {selectedSummary.roundCount} rounds
+                      {` · ${selectedSummary.averageRating.toFixed(1)} avg rating`}
+                    </div>
+                    <div className="text-slate-400">
+                      {formatMinutes(selectedSummary.duration)}
+                      {selectedSummary.averagePassRate !== null && ` · ${Math.round(selectedSummary.averagePassRate * 100)}% tests passed`}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <ol className="space-y-2">
+                {selectedLoop.rounds.map((round, index) => {
+                  const session = sessions.find(s => s.id === round.sessionId);
+
+                  return (
+                    <li
+                      key={index}
+                      className="flex items-center justify-between bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-3"
+                    >
+                      <div>
+                        <div className="text-white font-medium">
+                          {index + 1}. {round.title}
+                          <span className="text-slate-400 font-normal">{` · ${round.durationMinutes} min`}</span>
+                        </div>
+                        <div className="text-xs text-slate-400">
+                          {session ? session.questionTitle : round.categories.map(formatLabel).join(', ')}
+                          {round.breakMinutes > 0 && ` · ${round.breakMinutes} min break after`}
+                        </div>
+                      </div>
+                      <div className="text-sm text-right">
+                        {session ? (
+                          <span className="text-green-300">
+                            {session.rating}/5 · {formatMinutes(session.duration)}
+                          </span>
+                        ) : index === nextIndex && selectedLoop.endedAt === null ? (
+                          <Link
+                            href={`/interview?loop=${encodeURIComponent(selectedLoop.id)}`}
+                            className="px-4 py-2 neon-button text-white text-sm font-medium rounded-lg transition-all"
+                          >
+                            {breakEndsAt ? 'Continue After Break' : 'Start Round'}
+                          </Link>
+                        ) : (
+                          <span className="text-slate-500">{selectedLoop.endedAt ? 'Skipped' : 'Upcoming'}</span>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+
+              <div className="flex items-center gap-3 mt-4">
+                {selectedLoop.endedAt === null && (
+                  <button
+                    onClick={() => handleAbandon(selectedLoop)}
+                    className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-medium rounded-lg transition-all"
+                  >
+                    Abandon Loop
+                  </button>
+                )}
+                {selectedLoop !== activeLoop && (
+                  <button
+                    onClick={() => setSelectedId(null)}
+                    className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-medium rounded-lg transition-all"
+                  >
+                    Close
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Templates */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {loopTemplates.map(template => (
+              <div key={template.id} className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 backdrop-blur-sm">
+                <h3 className="text-lg font-semibold text-white">{template.title}</h3>
+                <p className="text-sm text-slate-400 mt-1 mb-4">{template.description}</p>
+                <ul className="text-sm text-slate-300 space-y-1 mb-4">
+                  {template.rounds.map((round, index) => (
+                    <li key={index}>
+                      {round.title}
+                      <span className="text-slate-500">
+                        {` · ${round.durationMinutes} min`}
+                        {round.breakMinutes > 0 && ` + ${round.breakMinutes} min break`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {available.includes(template.id) ? (
+                  <button
+                    onClick={() => handleStart(template.id)}
+                    disabled={activeLoop !== null}
+                    className="px-6 py-2 neon-button text-white font-medium rounded-lg transition-all disabled:opacity-50"
+                  >
+                    Start Loop
+                  </button>
+                ) : (
+                  <Link
+                    href="/pricing"
+                    className="inline-block px-6 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-lg transition-all"
+                  >
+                    {formatLabel(template.planRequired)} Plan
+                  </Link>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Past loops */}
+          {summaries.length > 0 && (
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg backdrop-blur-sm overflow-hidden">
+              <div className="px-6 py-3 border-b border-slate-700 text-sm font-semibold text-slate-200">Past Loops</div>
+              <ul className="divide-y divide-slate-700">
+                {[...summaries].reverse().map(summary => (
+                  <li key={summary.loopId}>
+                    <button
+                      onClick={() => setSelectedId(summary.loopId)}
+                      className="w-full px-6 py-3 flex items-center justify-between text-left hover:bg-slate-700/30 transition-colors"
+                    >
+                      <span className="text-white">
+                        {summary.title}
+                        <span className="text-slate-400">{` · ${formatDate(summary.startTime)}`}</span>
+                      </span>
+                      <span className="text-sm text-slate-300">
+                        {summary.rounds.length}/{summary.roundCount} rounds · {summary.averageRating.toFixed(1)} avg
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </AppLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,349 @@
+'use client';
+
+import { AppLayout } from "@/components/layouts/AppLayout";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { useAuth } from "@/contexts/AuthContext";
+import { UserQuestionService, UserQuestionError } from "@/services/UserQuestionService";
+import { BuiltInQuestionProvider } from "@/services/QuestionProvider";
+import { patterns } from "@/lib/patterns";
+import { Question, QuestionDraft, QuestionFieldIssue, QuestionPattern } from "@/types";
+import { useState } from "react";
+
+const categories = [...new Set(new BuiltInQuestionProvider().list().map(q => q.category))];
+const difficulties: Question['difficulty'][] = ['easy', 'medium', 'hard'];
+
+const formatLabel = (value: string) =>
+  value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const inputClass = "w-full px-3 py-2 bg-slate-900 text-slate-200 rounded-lg text-sm border border-slate-700";
+
+const emptyDraft = (): QuestionDraft => ({
+  title: '',
+  difficulty: 'medium',
+  category: 'arrays',
+  patterns: [],
+  statement: '',
+  hints: [],
+  examples: [],
+  constraints: [],
+  testCases: [],
+  starterCode: {},
+  solution: { approach: '', code: {} },
+});
+
+/**
+ * Non-blank lines of a textarea, trimmed
+ */
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(line => line !== '');
+
+/**
+ * The editable part of a saved question
+ */
+const toDraft = (question: Question): QuestionDraft => ({
+  title: question.title,
+  difficulty: question.difficulty,
+  category: question.category,
+  patterns: question.patterns,
+  statement: question.statement,
+  hints: question.hints,
+  examples: question.examples,
+  constraints: question.constraints,
+  testCases: question.testCases,
+  starterCode: question.starterCode,
+  solution: question.solution,
+});
+
+export default function MyQuestionsPage() {
+  const { user } = useAuth();
+  const [questions, setQuestions] = useState<Question[]>(() =>
+    user ? UserQuestionService.getQuestions(user.id) : []
+  );
+  const [draft, setDraft] = useState<QuestionDraft>(emptyDraft);
+  const [hintsText, setHintsText] = useState('');
+  const [constraintsText, setConstraintsText] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<QuestionFieldIssue[]>([]);
+
+  if (!user) return null;
+
+  const update = (changes: Partial<QuestionDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateExample = (index: number, changes: Partial<QuestionDraft['examples'][number]>) =>
+    update({ examples: draft.examples.map((example, i) => (i === index ? { ...example, ...changes } : example)) });
+
+  const togglePattern = (pattern: QuestionPattern) =>
+    update({
+      patterns: draft.patterns.includes(pattern)
+        ? draft.patterns.filter(p => p !== pattern)
+        : [...draft.patterns, pattern],
+    });
+
+  const resetForm = () => {
+    setDraft(emptyDraft());
+    setHintsText('');
+    setConstraintsText('');
+    setEditingId(null);
+    setError(null);
+    setIssues([]);
+  };
+
+  const handleEdit = (question: Question) => {
+    resetForm();
+    setDraft(toDraft(question));
+    setHintsText(question.hints.join('\n'));
+    setConstraintsText(question.constraints.join('\n'));
+    setEditingId(question.id);
+  };
+
+  const handleSave = () => {
+    const toSave: QuestionDraft = {
+      ...draft,
+      examples: draft.examples.map(({ explanation, ...example }) =>
+        explanation?.trim() ? { ...example, explanation } : example
+      ),
+      hints: toLines(hintsText),
+      constraints: toLines(constraintsText),
+    };
+
+    try {
+      if (editingId) {
+        UserQuestionService.updateQuestion(user.id, editingId, toSave);
+      } else {
+        UserQuestionService.createQuestion(user.id, toSave);
+      }
+      setQuestions(UserQuestionService.getQuestions(user.id));
+      resetForm();
+    } catch (err) {
+      if (err instanceof UserQuestionError) {
+        setError(err.message);
+        setIssues(err.issues);
+      } else {
+        setError('Failed to save question');
+      }
+    }
+  };
+
+  const handleDelete = (questionId: string) => {
+    UserQuestionService.deleteQuestion(user.id, questionId);
+    setQuestions(UserQuestionService.getQuestions(user.id));
+    if (editingId === questionId) {
+      resetForm();
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <AppLayout>
+        <div className="space-y-6 max-w-4xl mx-auto">
+          {/* Header */}
+          <div>
+            <h1 className="text-3xl font-bold text-white neon-text">My Questions</h1>
+            <p className="text-slate-400 mt-1 terminal-text">
+              {'// Questions you were asked elsewhere, private to you'}
+            </p>
+          </div>
+
+          {/* Saved Questions */}
+          <div className="holo-card rounded-lg p-6 glow-border">
+            <h2 className="text-lg font-semibold text-white mb-4">Saved Questions</h2>
+            {questions.length === 0 ? (
+              <p className="text-sm text-slate-400">
+                No questions yet. Add one below, then tick &quot;Include My Questions&quot; when setting up a session.
+              </p>
+            ) : (
+              <ul className="divide-y divide-slate-700">
+                {questions.map(question => (
+                  <li key={question.id} className="py-3 flex items-center justify-between gap-4">
+                    <div>
+                      <div className="text-white font-medium">{question.title}</div>
+                      <div className="text-xs text-slate-400">
+                        {formatLabel(question.difficulty)} · {formatLabel(question.category)}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => handleEdit(question)}
+                        className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-sm font-medium border border-slate-700"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(question.id)}
+                        className="px-3 py-1.5 bg-red-900/40 hover:bg-red-900/60 text-red-300 rounded-lg text-sm font-medium border border-red-700"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Editor */}
+          <div className="holo-card rounded-lg p-6 glow-border space-y-4">
+            <h2 className="text-lg font-semibold text-white">{editingId ? 'Edit Question' : 'New Question'}</h2>
+
+            <input
+              type="text"
+              aria-label="Title"
+              placeholder="Title"
+              value={draft.title}
+              onChange={(e) => update({ title: e.target.value })}
+              className={inputClass}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <select
+                aria-label="Difficulty"
+                value={draft.difficulty}
+                onChange={(e) => update({ difficulty: e.target.value as Question['difficulty'] })}
+                className={inputClass}
+              >
+                {difficulties.map(difficulty => (
+                  <option key={difficulty} value={difficulty}>{formatLabel(difficulty)}</option>
+                ))}
+              </select>
+              <select
+                aria-label="Category"
+                value={draft.category}
+                onChange={(e) => update({ category: e.target.value as Question['category'] })}
+                className={inputClass}
+              >
+                {categories.map(category => (
+                  <option key={category} value={category}>{formatLabel(category)}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {patterns.map(pattern => (
+                <button
+                  key={pattern.id}
+                  type="button"
+                  onClick={() => togglePattern(pattern.id)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                    draft.patterns.includes(pattern.id)
+                      ? 'bg-purple-900/50 text-purple-300 border-purple-700'
+                      : 'bg-slate-800 text-slate-400 border-slate-700 hover:bg-slate-700'
+                  }`}
+                >
+                  {pattern.name}
+                </button>
+              ))}
+            </div>
+
+            <textarea
+              aria-label="Statement"
+              placeholder="Problem statement"
+              rows={5}
+              value={draft.statement}
+              onChange={(e) => update({ statement: e.target.value })}
+              className={inputClass}
+            />
+            <textarea
+              aria-label="Hints"
+              placeholder="Hints, one per line from a gentle nudge to a near-solution (optional)"
+              rows={3}
+              value={hintsText}
+              onChange={(e) => setHintsText(e.target.value)}
+              className={inputClass}
+            />
+
+            {/* Examples */}
+            <div className="space-y-2">
+              {draft.examples.map((example, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                  <input
+                    aria-label={`Example ${index + 1} input`}
+                    placeholder="Input"
+                    value={example.input}
+                    onChange={(e) => updateExample(index, { input: e.target.value })}
+                    className={inputClass}
+                  />
+                  <input
+                    aria-label={`Example ${index + 1} output`}
+                    placeholder="Output"
+                    value={example.output}
+                    onChange={(e) => updateExample(index, { output: e.target.value })}
+                    className={inputClass}
+                  />
+                  <input
+                    aria-label={`Example ${index + 1} explanation`}
+                    placeholder="Explanation (optional)"
+                    value={example.explanation ?? ''}
+                    onChange={(e) => updateExample(index, { explanation: e.target.value })}
+                    className={inputClass}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => update({ examples: draft.examples.filter((_, i) => i !== index) })}
+                    className="px-3 text-slate-400 hover:text-red-300"
+                    aria-label={`Remove example ${index + 1}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => update({ examples: [...draft.examples, { input: '', output: '' }] })}
+                className="text-sm text-blue-300 hover:text-blue-200"
+              >
+                + Add example
+              </button>
+            </div>
+
+            <textarea
+              aria-label="Constraints"
+              placeholder="Constraints, one per line (optional)"
+              rows={3}
+              value={constraintsText}
+              onChange={(e) => setConstraintsText(e.target.value)}
+              className={inputClass}
+            />
+            <textarea
+              aria-label="Approach"
+              placeholder="Your approach to the solution"
+              rows={4}
+              value={draft.solution.approach}
+              onChange={(e) => update({ solution: { ...draft.solution, approach: e.target.value } })}
+              className={inputClass}
+            />
+
+            {error && (
+              <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 text-sm text-red-300">
+                <p className="font-medium">{error}</p>
+                {issues.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-xs">
+                    {issues.map((issue, index) => (
+                      <li key={index}>{issue.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleSave}
+                className="px-6 py-2 neon-button text-white font-medium rounded-lg transition-all"
+              >
+                {editingId ? 'Save Changes' : 'Add Question'}
+              </button>
+              {editingId && (
+                <button
+                  onClick={resetForm}
+                  className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-lg transition-all"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </AppLayout>
+    </ProtectedRoute>
+  );
+}
@@ -37,6 +37,8 @@ export default function ProfilePage() {
       '30+ question bank',
       'Full session history',
       'Advanced streak tracking',
+      '30, 45 or 60-minute sessions by category',
+      'Adaptive questions for weak areas',
     ],
     pro: [
       'Everything in Premium',
@@ -45,6 +47,7 @@ export default function ProfilePage() {
       'Readiness score',
       'Priority support',
       'Custom difficulty settings',
+      '15 to 90-minute sessions',
     ],
   };
 
@@ -205,6 +208,38 @@ export default function ProfilePage() {
               <h4 className="text-lg font-semibold text-white mb-2">Analytics</h4>
               <p className="text-slate-400 text-sm">Track your performance over time</p>
             </Link>
+
+            <Link
+              href="/question-packs"
+              className="holo-card rounded-lg p-6 glow-border hover:scale-105 transition-transform"
+            >
+              <h4 className="text-lg font-semibold text-white mb-2">Question Packs</h4>
+              <p className="text-slate-400 text-sm">Import and export questions as JSON or Markdown</p>
+            </Link>
+
+            <Link
+              href="/my-questions"
+              className="holo-card rounded-lg p-6 glow-border hover:scale-105 transition-transform"
+            >
+              <h4 className="text-lg font-semibold text-white mb-2">My Questions</h4>
+              <p className="text-slate-400 text-sm">Practice questions you were asked in real interviews</p>
+            </Link>
+
+            <Link
+              href="/loops"
+              className="holo-card rounded-lg p-6 glow-border hover:scale-105 transition-transform"
+            >
+              <h4 className="text-lg font-semibold text-white mb-2">Interview Loops</h4>
+              <p className="text-slate-400 text-sm">Run several rounds back to back, like an onsite</p>
+            </Link>
+
+            <Link
+              href="/assessment"
+              className="holo-card rounded-lg p-6 glow-border hover:scale-105 transition-transform"
+            >
+              <h4 className="text-lg font-semibold text-white mb-2">Online Assessments</h4>
+              <p className="text-slate-400 text-sm">Timed, auto-graded problem sets like a company screen</p>
+            </Link>
           </div>
         </div>
       </AppLayout>
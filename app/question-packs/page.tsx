@@ -0,0 +1,200 @@
+'use client';
+
+import { AppLayout } from "@/components/layouts/AppLayout";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { useAuth } from "@/contexts/AuthContext";
+import { QuestionPackService, QuestionPackError } from "@/services/QuestionPackService";
+import { detectQuestionFormat } from "@/lib/questionFormat";
+import { QuestionFileFormat, QuestionFileIssue, QuestionPack } from "@/types";
+import { useState } from "react";
+
+const formatExtensions: Record<QuestionFileFormat, string> = {
+  json: 'json',
+  markdown: 'md',
+};
+
+/**
+ * Offer text as a file download
+ */
+function downloadFile(fileName: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function QuestionPacksPage() {
+  const { user } = useAuth();
+  const [packs, setPacks] = useState<QuestionPack[]>(() => QuestionPackService.getPacks());
+  const [fileName, setFileName] = useState('');
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<QuestionFileIssue[]>([]);
+  const [imported, setImported] = useState<QuestionPack | null>(null);
+
+  if (!user) return null;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setText(await file.text());
+  };
+
+  const handleImport = () => {
+    setError(null);
+    setIssues([]);
+    setImported(null);
+
+    try {
+      const format = detectQuestionFormat(fileName, text);
+      const pack = QuestionPackService.importPack(text, format, fileName.replace(/\.[^.]+$/, ''));
+      setImported(pack);
+      setPacks(QuestionPackService.getPacks());
+      setText('');
+      setFileName('');
+    } catch (err) {
+      if (err instanceof QuestionPackError) {
+        setError(err.message);
+        setIssues(err.issues);
+      } else {
+        setError('Failed to import question pack');
+      }
+    }
+  };
+
+  const handleRemove = (packId: string) => {
+    QuestionPackService.removePack(packId);
+    setPacks(QuestionPackService.getPacks());
+  };
+
+  const exportButtons = (onExport: (format: QuestionFileFormat) => void) => (
+    <div className="flex items-center gap-2">
+      {(['json', 'markdown'] as QuestionFileFormat[]).map(format => (
+        <button
+          key={format}
+          onClick={() => onExport(format)}
+          className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-sm font-medium border border-slate-700"
+        >
+          {format === 'json' ? 'JSON' : 'Markdown'}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <ProtectedRoute>
+      <AppLayout>
+        <div className="space-y-6 max-w-4xl mx-auto">
+          {/* Header */}
+          <div>
+            <h1 className="text-3xl font-bold text-white neon-text">Question Packs</h1>
+            <p className="text-slate-400 mt-1 terminal-text">
+              {'// Share custom questions as JSON or Markdown files'}
+            </p>
+          </div>
+
+          {/* Import */}
+          <div className="holo-card rounded-lg p-6 glow-border space-y-4">
+            <h2 className="text-lg font-semibold text-white">Import a Pack</h2>
+            <div className="flex items-center gap-3">
+              <input
+                type="file"
+                accept=".json,.md,.markdown"
+                aria-label="Question file"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="text-sm text-slate-300"
+              />
+              <input
+                type="text"
+                value={fileName}
+                onChange={(e) => setFileName(e.target.value)}
+                placeholder="Pack name (Markdown files)"
+                className="flex-1 px-3 py-2 bg-slate-900 text-slate-200 rounded-lg text-sm border border-slate-700"
+              />
+            </div>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Or paste a question file here"
+              rows={10}
+              aria-label="Question file contents"
+              className="w-full px-3 py-2 bg-slate-900 text-slate-200 rounded-lg text-sm font-mono border border-slate-700"
+            />
+
+            {error && (
+              <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 text-sm text-red-300">
+                <p className="font-medium">{error}</p>
+                {issues.length > 0 && (
+                  <ul className="mt-2 space-y-1 font-mono text-xs">
+                    {issues.map((issue, index) => (
+                      <li key={index}>Line {issue.line}: {issue.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {imported && (
+              <div className="bg-green-900/30 border border-green-700 rounded-lg p-4 text-sm text-green-300">
+                Imported {imported.questions.length} question{imported.questions.length === 1 ? '' : 's'} into {imported.name}
+              </div>
+            )}
+
+            <button
+              onClick={handleImport}
+              disabled={text.trim() === ''}
+              className="px-6 py-2 neon-button text-white font-medium rounded-lg transition-all disabled:opacity-50"
+            >
+              Import
+            </button>
+          </div>
+
+          {/* Installed Packs */}
+          <div className="holo-card rounded-lg p-6 glow-border">
+            <h2 className="text-lg font-semibold text-white mb-4">Installed Packs</h2>
+            {packs.length === 0 ? (
+              <p className="text-sm text-slate-400">No packs imported yet</p>
+            ) : (
+              <ul className="divide-y divide-slate-700">
+                {packs.map(pack => (
+                  <li key={pack.id} className="py-3 flex items-center justify-between gap-4">
+                    <div>
+                      <div className="text-white font-medium">{pack.name}</div>
+                      <div className="text-xs text-slate-400">
+                        {pack.questions.length} question{pack.questions.length === 1 ? '' : 's'} · imported {pack.importedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {exportButtons(format =>
+                        downloadFile(`${pack.id}.${formatExtensions[format]}`, QuestionPackService.exportPack(pack.id, format))
+                      )}
+                      <button
+                        onClick={() => handleRemove(pack.id)}
+                        className="px-3 py-1.5 bg-red-900/40 hover:bg-red-900/60 text-red-300 rounded-lg text-sm font-medium border border-red-700"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Built-in Bank */}
+          <div className="holo-card rounded-lg p-6 glow-border flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-white">Built-in Question Bank</h2>
+              <p className="text-sm text-slate-400">Export every built-in question as a starting point for your own pack</p>
+            </div>
+            {exportButtons(format =>
+              downloadFile(`interview-buddy-questions.${formatExtensions[format]}`, QuestionPackService.exportBuiltInBank(format))
+            )}
+          </div>
+        </div>
+      </AppLayout>
+    </ProtectedRoute>
+  );
+}
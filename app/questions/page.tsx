@@ -0,0 +1,254 @@
+'use client';
+
+import { AppLayout } from "@/components/layouts/AppLayout";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { useAuth } from "@/contexts/AuthContext";
+import { StorageService } from "@/services/StorageService";
+import { createQuestionProvider } from "@/services/QuestionProvider";
+import { patterns, getPatternName } from "@/lib/patterns";
+import { getQuestionAttempts } from "@/lib/questionQuery";
+import { DateRange, Question, QuestionPattern, QuestionStatus } from "@/types";
+import Link from "next/link";
+import { useMemo, useState } from "react";
+
+const difficultyFilters: Question['difficulty'][] = ['easy', 'medium', 'hard'];
+
+type AttemptedFilter = 'any' | 'week' | 'month' | 'older';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Last-attempted range for a filter option, counted back from now
+ */
+const toDateRange = (filter: AttemptedFilter): DateRange | undefined => {
+  const now = Date.now();
+
+  switch (filter) {
+    case 'week':
+      return { from: new Date(now - 7 * DAY_MS) };
+    case 'month':
+      return { from: new Date(now - 30 * DAY_MS) };
+    case 'older':
+      return { to: new Date(now - 30 * DAY_MS) };
+    default:
+      return undefined;
+  }
+};
+
+const formatLabel = (value: string) =>
+  value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const selectClass = "px-3 py-2 bg-slate-900 text-slate-300 rounded-lg text-sm border border-slate-700";
+
+export default function QuestionsPage() {
+  const { user } = useAuth();
+
+  const questions = useMemo(() => createQuestionProvider(user?.id), [user]);
+  const history = useMemo(() => (user ? StorageService.getSessions(user.id) : []), [user]);
+  const attempts = useMemo(() => getQuestionAttempts(history), [history]);
+  const categories = useMemo(() => [...new Set(questions.list().map(q => q.category))], [questions]);
+
+  const [search, setSearch] = useState('');
+  const [difficulty, setDifficulty] = useState<Question['difficulty'] | null>(null);
+  const [category, setCategory] = useState<Question['category'] | ''>('');
+  const [pattern, setPattern] = useState<QuestionPattern | ''>('');
+  const [status, setStatus] = useState<QuestionStatus | ''>('');
+  const [attempted, setAttempted] = useState<AttemptedFilter>('any');
+  const [onlyMyPlan, setOnlyMyPlan] = useState(true);
+
+  const results = useMemo(() => questions.query({
+    plan: onlyMyPlan ? user?.plan : undefined,
+    categories: category ? [category] : [],
+    patterns: pattern ? [pattern] : [],
+    difficulties: difficulty ? [difficulty] : [],
+    text: search,
+    status: status || undefined,
+    lastAttempted: toDateRange(attempted),
+    history,
+  }), [questions, user, onlyMyPlan, category, pattern, difficulty, search, status, attempted, history]);
+
+  const available = useMemo(
+    () => new Set(user ? questions.getByPlan(user.plan).map(q => q.id) : []),
+    [questions, user]
+  );
+
+  if (!user) return null;
+
+  const difficultyColors = {
+    easy: 'bg-green-900/50 text-green-300 border-green-700',
+    medium: 'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+    hard: 'bg-red-900/50 text-red-300 border-red-700',
+  };
+
+  const clearFilters = () => {
+    setSearch('');
+    setDifficulty(null);
+    setCategory('');
+    setPattern('');
+    setStatus('');
+    setAttempted('any');
+  };
+
+  return (
+    <ProtectedRoute>
+      <AppLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-3xl font-bold text-white neon-text">Question Catalog</h1>
+            <p className="text-slate-400 mt-1 terminal-text">
+              {'// Search the bank, your packs and your own questions, then pick one to practice'}
+            </p>
+          </div>
+
+          {/* Search and Filters */}
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 backdrop-blur-sm space-y-4">
+            <input
+              type="search"
+              aria-label="Search questions"
+              placeholder="Search titles and statements, e.g. binary tree"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full px-4 py-2 bg-slate-900 text-slate-200 rounded-lg text-sm border border-slate-700"
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              {[null, ...difficultyFilters].map(option => (
+                <button
+                  key={option ?? 'all'}
+                  onClick={() => setDifficulty(option)}
+                  className={`px-4 py-2 rounded-lg font-medium text-sm border border-slate-700 ${
+                    difficulty === option
+                      ? 'bg-slate-800 text-white'
+                      : 'bg-slate-900 text-slate-400 hover:text-slate-200'
+                  }`}
+                >
+                  {option === null ? 'All' : formatLabel(option)}
+                </button>
+              ))}
+              <select
+                aria-label="Filter by category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value as Question['category'] | '')}
+                className={selectClass}
+              >
+                <option value="">All categories</option>
+                {categories.map(option => (
+                  <option key={option} value={option}>{formatLabel(option)}</option>
+                ))}
+              </select>
+              <select
+                aria-label="Filter by pattern"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value as QuestionPattern | '')}
+                className={selectClass}
+              >
+                <option value="">All patterns</option>
+                {patterns.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+              <select
+                aria-label="Filter by status"
+                value={status}
+                onChange={(e) => setStatus(e.target.value as QuestionStatus | '')}
+                className={selectClass}
+              >
+                <option value="">Solved or not</option>
+                <option value="solved">Solved</option>
+                <option value="unsolved">Unsolved</option>
+              </select>
+              <select
+                aria-label="Filter by last attempt"
+                value={attempted}
+                onChange={(e) => setAttempted(e.target.value as AttemptedFilter)}
+                className={selectClass}
+              >
+                <option value="any">Attempted any time</option>
+                <option value="week">Attempted in the past week</option>
+                <option value="month">Attempted in the past 30 days</option>
+                <option value="older">Last attempted over 30 days ago</option>
+              </select>
+              <label className="flex items-center gap-2 text-sm text-slate-300 ml-auto">
+                <input
+                  type="checkbox"
+                  checked={onlyMyPlan}
+                  onChange={(e) => setOnlyMyPlan(e.target.checked)}
+                />
+                Only questions on my plan
+              </label>
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg backdrop-blur-sm overflow-hidden">
+            <div className="px-6 py-3 border-b border-slate-700 text-sm text-slate-400">
+              {results.length} {results.length === 1 ? 'question' : 'questions'}
+              {search.trim() !== '' && ', best matches first'}
+            </div>
+            {results.length === 0 ? (
+              <div className="px-6 py-12 text-center text-slate-400">
+                <p>No questions match these filters</p>
+                <button onClick={clearFilters} className="mt-2 text-sm text-blue-300 hover:text-blue-200">
+                  Clear filters
+                </button>
+              </div>
+            ) : (
+              <ul className="divide-y divide-slate-700">
+                {results.map(question => {
+                  const attempt = attempts.get(question.id);
+
+                  return (
+                    <li key={question.id} className="px-6 py-4 flex items-center gap-4 hover:bg-slate-700/30 transition-colors">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-white font-medium">{question.title}</span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs border ${difficultyColors[question.difficulty]}`}>
+                            {formatLabel(question.difficulty)}
+                          </span>
+                          <span className="px-2 py-0.5 bg-blue-900/50 text-blue-300 border border-blue-700 rounded-full text-xs">
+                            {formatLabel(question.category)}
+                          </span>
+                        </div>
+                        <div className="mt-1 text-xs text-slate-400 truncate">
+                          {question.patterns.map(getPatternName).join(', ')}
+                        </div>
+                      </div>
+                      <div className="text-right text-xs text-slate-400 w-40">
+                        {attempt ? (
+                          <>
+                            <div className={attempt.solved ? 'text-green-300' : 'text-yellow-300'}>
+                              {attempt.solved ? 'Solved' : 'Unsolved'}
+                              {` · ${attempt.attempts} ${attempt.attempts === 1 ? 'attempt' : 'attempts'}`}
+                            </div>
+                            <div>Last {attempt.lastAttemptedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</div>
+                          </>
+                        ) : (
+                          <div>Not attempted</div>
+                        )}
+                      </div>
+                      {available.has(question.id) ? (
+                        <Link
+                          href={`/interview?question=${encodeURIComponent(question.id)}`}
+                          className="px-4 py-2 neon-button text-white text-sm font-medium rounded-lg transition-all"
+                        >
+                          Practice
+                        </Link>
+                      ) : (
+                        <Link
+                          href="/pricing"
+                          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-medium rounded-lg transition-all"
+                        >
+                          {formatLabel(question.planRequired)}
+                        </Link>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </AppLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+/**
+ * QuestionOfTheDay Component
+ * Shows today's question for the user's plan tier, the same for everyone on it
+ */
+
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { SessionService } from '@/services/SessionService';
+
+const formatLabel = (value: string) =>
+  value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+export function QuestionOfTheDay() {
+  const { user } = useAuth();
+
+  const daily = useMemo(() => {
+    if (!user) return null;
+    const draw = SessionService.getDailyDraw(user.plan);
+    return { draw, question: SessionService.drawQuestion(draw) };
+  }, [user]);
+
+  if (!user || !daily) {
+    return null;
+  }
+
+  return (
+    <div className="holo-card rounded-lg p-6 glow-border flex items-center justify-between">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-100 terminal-text">&gt; Question of the Day</h2>
+        <p className="text-white font-medium mt-1">{daily.question.title}</p>
+        <p className="text-sm text-slate-400 mt-1">
+          {formatLabel(daily.question.difficulty)} · {formatLabel(daily.question.category)}
+        </p>
+      </div>
+      <Link
+        href={SessionService.getChallengeLink(daily.draw)}
+        className="px-4 py-2 neon-button text-white font-medium rounded-lg transition-all"
+      >
+        Solve It
+      </Link>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@
  * 
  * Requirements:
  * - 7.4: Prominent "Start Mock Interview" button with weekly limit check
+ * - "Next in track" continues the current study track
  * - Secondary navigation to history and analytics
  */
 
@@ -14,6 +15,9 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { StorageService } from '@/services/StorageService';
+import { TrackService } from '@/services/TrackService';
+import { LoopService } from '@/services/LoopService';
+import { createQuestionProvider } from '@/services/QuestionProvider';
 
 export function QuickActions() {
   const { user } = useAuth();
@@ -37,13 +41,27 @@ export function QuickActions() {
       return sessionDate >= weekStart;
     });
 
-    const sessionsThisWeek = weekSessions.length;
+    const sessionsThisWeek = LoopService.countInterviews(weekSessions);
     const limit = 3;
     const canStart = sessionsThisWeek < limit;
 
     return { canStart, sessionsThisWeek, limit };
   }, [user]);
 
+  // Next question in the study track the user is working through
+  const nextInTrack = useMemo(() => {
+    if (!user) return null;
+
+    const next = TrackService.getNextInTrack(StorageService.getSessions(user.id), user.plan);
+    if (!next) return null;
+
+    return {
+      track: next.track,
+      position: next.progress.completedQuestionIds.length + 1,
+      question: createQuestionProvider().getById(next.progress.nextQuestionId!),
+    };
+  }, [user]);
+
   const handleStartInterview = () => {
     if (!weeklyLimitStatus.canStart) {
       // Show upgrade prompt for Basic users who hit the limit
@@ -53,6 +71,15 @@ export function QuickActions() {
     router.push('/interview');
   };
 
+  const handleNextInTrack = () => {
+    if (!nextInTrack) return;
+    if (!weeklyLimitStatus.canStart) {
+      router.push('/pricing');
+      return;
+    }
+    router.push(`/interview?track=${nextInTrack.track.id}`);
+  };
+
   if (!user) {
     return null;
   }
@@ -114,6 +141,31 @@ export function QuickActions() {
           )}
         </div>
 
+        {/* Next in Track */}
+        {nextInTrack && (
+          <button
+            onClick={handleNextInTrack}
+            disabled={!weeklyLimitStatus.canStart}
+            className="w-full flex items-center justify-between px-4 py-3 holo-card text-slate-200 rounded-lg glow-border transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <span className="text-left">
+              <span className="block text-xs text-slate-400 terminal-text">
+                {`// Next in ${nextInTrack.track.title} (${nextInTrack.position} of ${nextInTrack.track.questionIds.length})`}
+              </span>
+              <span className="block font-medium">{nextInTrack.question?.title}</span>
+            </span>
+            <svg
+              className="w-5 h-5 ml-2 flex-shrink-0"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        )}
+
         {/* Secondary Actions */}
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
           {/* View History */}
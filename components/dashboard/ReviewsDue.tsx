@@ -0,0 +1,46 @@
+'use client';
+
+/**
+ * ReviewsDue Component
+ * Shows how many questions are due for spaced-repetition review today
+ * and starts a review session from them
+ */
+
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { ReviewService } from '@/services/ReviewService';
+
+export function ReviewsDue() {
+  const { user } = useAuth();
+
+  const dueCount = useMemo(() => (user ? ReviewService.getDueCount(user.id) : 0), [user]);
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="holo-card rounded-lg p-6 glow-border flex items-center justify-between">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-100 terminal-text">&gt; Reviews Due Today</h2>
+        <p className="text-sm text-slate-400 mt-1">
+          {dueCount === 0
+            ? 'Nothing to review. Questions come back on a schedule based on how each attempt went.'
+            : `${dueCount} ${dueCount === 1 ? 'question is' : 'questions are'} ready to revisit`}
+        </p>
+      </div>
+      <div className="flex items-center gap-4">
+        <span className="text-3xl font-bold gradient-text">{dueCount}</span>
+        {dueCount > 0 && (
+          <Link
+            href="/interview?mode=review"
+            className="px-4 py-2 neon-button text-white font-medium rounded-lg transition-all"
+          >
+            Start Review
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+/**
+ * StudyTracks Component
+ * Shows completion of each curated study track and continues the open ones
+ *
+ * - A track question counts as done once it is rated 3 or higher
+ * - Locked tracks name the tracks to finish first
+ * - Tracks outside the user's plan are shown with the plan they need
+ */
+
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { StorageService } from '@/services/StorageService';
+import { TrackService } from '@/services/TrackService';
+import { studyTracks, getTrackById } from '@/lib/tracks';
+
+const formatLabel = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export function StudyTracks() {
+  const { user } = useAuth();
+
+  const progress = useMemo(
+    () => (user ? TrackService.getProgress(StorageService.getSessions(user.id), user.plan) : []),
+    [user]
+  );
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="holo-card rounded-lg p-6 glow-border">
+      <h2 className="text-lg font-semibold text-slate-100 mb-4 terminal-text">&gt; Study Tracks</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {studyTracks.map((track, index) => {
+          const trackProgress = progress[index];
+          const open = trackProgress.available && trackProgress.unlocked;
+
+          return (
+            <div key={track.id} className={`rounded-lg p-4 border border-slate-700 ${open ? '' : 'opacity-60'}`}>
+              <div className="flex items-center justify-between mb-1">
+                <h3 className="font-semibold text-white">{track.title}</h3>
+                <span className="text-sm text-slate-400">{trackProgress.percentComplete}%</span>
+              </div>
+              <p className="text-xs text-slate-400 mb-3">{track.description}</p>
+              <div
+                role="progressbar"
+                aria-label={`${track.title} progress`}
+                aria-valuenow={trackProgress.percentComplete}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                className="h-2 bg-slate-800 rounded-full overflow-hidden mb-3"
+              >
+                <div
+                  className="h-full bg-gradient-to-r from-blue-500 to-purple-500"
+                  style={{ width: `${trackProgress.percentComplete}%` }}
+                />
+              </div>
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-slate-500">
+                  {trackProgress.completedQuestionIds.length} of {track.questionIds.length} questions
+                </span>
+                {!trackProgress.available ? (
+                  <Link href="/pricing" className="text-blue-300 hover:text-blue-200">
+                    {formatLabel(track.planRequired)} plan
+                  </Link>
+                ) : !trackProgress.unlocked ? (
+                  <span className="text-slate-500">
+                    Finish {track.prerequisites.map(id => getTrackById(id)?.title ?? id).join(' and ')} first
+                  </span>
+                ) : trackProgress.nextQuestionId === null ? (
+                  <span className="text-green-400">Complete</span>
+                ) : (
+                  <Link href={`/interview?track=${track.id}`} className="text-blue-300 hover:text-blue-200 font-medium">
+                    {trackProgress.completedQuestionIds.length > 0 ? 'Continue' : 'Start'}
+                  </Link>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for QuestionOfTheDay component
+ * Tests that the daily question matches the plan's daily draw and links to it
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { QuestionOfTheDay } from '../QuestionOfTheDay';
+import { useAuth } from '@/contexts/AuthContext';
+import { SessionService } from '@/services/SessionService';
+import { User } from '@/types';
+
+jest.mock('@/contexts/AuthContext');
+
+const mockUseAuth = useAuth as jest.MockedFunction<typeof useAuth>;
+
+describe('QuestionOfTheDay', () => {
+  const mockUser: User = {
+    id: 'user-1',
+    email: 'test@example.com',
+    plan: 'premium',
+    createdAt: new Date(),
+    trialEndsAt: null,
+    streak: 0,
+    streakFreezeUsed: false,
+    lastSessionDate: null,
+  };
+
+  const mockAuth = (user: User | null) => {
+    mockUseAuth.mockReturnValue({
+      user,
+      loading: false,
+      error: null,
+      login: jest.fn(),
+      signup: jest.fn(),
+      logout: jest.fn(),
+      updatePlan: jest.fn(),
+      clearError: jest.fn(),
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not render when user is not logged in', () => {
+    mockAuth(null);
+
+    const { container } = render(<QuestionOfTheDay />);
+
+    expect(container.firstChild).toBeNull();
+  });
+
+  it("should show today's question for the plan and link to it", () => {
+    mockAuth(mockUser);
+    const draw = SessionService.getDailyDraw('premium');
+    const question = SessionService.drawQuestion(draw);
+
+    render(<QuestionOfTheDay />);
+
+    expect(screen.getByText(question.title)).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Solve It' }))
+      .toHaveAttribute('href', SessionService.getChallengeLink(draw));
+  });
+});
@@ -554,4 +554,38 @@ describe('QuickActions', () => {
       expect(analyticsLink).toHaveAttribute('href', '/analytics');
     });
   });
+
+  describe('Study Tracks', () => {
+    it('should start the next question in the current track', () => {
+      const mockUser: User = {
+        id: 'user1',
+        email: 'test@example.com',
+        plan: 'premium',
+        createdAt: new Date(),
+        trialEndsAt: null,
+        streak: 5,
+        streakFreezeUsed: false,
+        lastSessionDate: null,
+      };
+
+      mockUseAuth.mockReturnValue({
+        user: mockUser,
+        loading: false,
+        error: null,
+        login: jest.fn(),
+        signup: jest.fn(),
+        logout: jest.fn(),
+        updatePlan: jest.fn(),
+        clearError: jest.fn(),
+      });
+
+      mockStorageService.getSessions.mockReturnValue([]);
+
+      render(<QuickActions />);
+
+      expect(screen.getByText('// Next in Arrays Fundamentals (1 of 8)')).toBeInTheDocument();
+      fireEvent.click(screen.getByText('Two Sum'));
+      expect(mockRouter.push).toHaveBeenCalledWith('/interview?track=arrays-fundamentals');
+    });
+  });
 });
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for ReviewsDue component
+ * Tests the due review count and the link to start a review session
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { ReviewsDue } from '../ReviewsDue';
+import { useAuth } from '@/contexts/AuthContext';
+import { ReviewService } from '@/services/ReviewService';
+import { User } from '@/types';
+
+jest.mock('@/contexts/AuthContext');
+jest.mock('@/services/ReviewService');
+
+const mockUseAuth = useAuth as jest.MockedFunction<typeof useAuth>;
+const mockReviewService = ReviewService as jest.Mocked<typeof ReviewService>;
+
+describe('ReviewsDue', () => {
+  const mockUser: User = {
+    id: 'user-1',
+    email: 'test@example.com',
+    plan: 'premium',
+    createdAt: new Date(),
+    trialEndsAt: null,
+    streak: 0,
+    streakFreezeUsed: false,
+    lastSessionDate: null,
+  };
+
+  const mockAuth = (user: User | null) => {
+    mockUseAuth.mockReturnValue({
+      user,
+      loading: false,
+      error: null,
+      login: jest.fn(),
+      signup: jest.fn(),
+      logout: jest.fn(),
+      updatePlan: jest.fn(),
+      clearError: jest.fn(),
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not render when user is not logged in', () => {
+    mockAuth(null);
+
+    const { container } = render(<ReviewsDue />);
+
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('should show the number of reviews due and link to a review session', () => {
+    mockAuth(mockUser);
+    mockReviewService.getDueCount.mockReturnValue(3);
+
+    render(<ReviewsDue />);
+
+    expect(mockReviewService.getDueCount).toHaveBeenCalledWith('user-1');
+    expect(screen.getByText('3')).toBeInTheDocument();
+    expect(screen.getByText('3 questions are ready to revisit')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Start Review' })).toHaveAttribute('href', '/interview?mode=review');
+  });
+
+  it('should hide the review link when nothing is due', () => {
+    mockAuth(mockUser);
+    mockReviewService.getDueCount.mockReturnValue(0);
+
+    render(<ReviewsDue />);
+
+    expect(screen.getByText(/Nothing to review/)).toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: 'Start Review' })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for StudyTracks component
+ * Tests track completion, locked tracks and plan availability
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { StudyTracks } from '../StudyTracks';
+import { useAuth } from '@/contexts/AuthContext';
+import { StorageService } from '@/services/StorageService';
+import { CompletedSession, User } from '@/types';
+
+jest.mock('@/contexts/AuthContext');
+jest.mock('@/services/StorageService');
+
+const mockUseAuth = useAuth as jest.MockedFunction<typeof useAuth>;
+const mockStorageService = StorageService as jest.Mocked<typeof StorageService>;
+
+describe('StudyTracks', () => {
+  const mockUser: User = {
+    id: 'user-1',
+    email: 'test@example.com',
+    plan: 'premium',
+    createdAt: new Date(),
+    trialEndsAt: null,
+    streak: 0,
+    streakFreezeUsed: false,
+    lastSessionDate: null,
+  };
+
+  const mockAuth = (user: User | null) => {
+    mockUseAuth.mockReturnValue({
+      user,
+      loading: false,
+      error: null,
+      login: jest.fn(),
+      signup: jest.fn(),
+      logout: jest.fn(),
+      updatePlan: jest.fn(),
+      clearError: jest.fn(),
+    });
+  };
+
+  const attempt = (questionId: string, rating: 1 | 2 | 3 | 4 | 5): CompletedSession => ({
+    id: `session-${questionId}`,
+    userId: 'user-1',
+    questionId,
+    questionTitle: 'Question',
+    category: 'arrays',
+    difficulty: 'easy',
+    startTime: new Date(),
+    endTime: new Date(),
+    duration: 1800,
+    rating,
+    perceivedDifficulty: 'medium',
+    notes: '',
+    pressureModeUsed: false,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not render when user is not logged in', () => {
+    mockAuth(null);
+
+    const { container } = render(<StudyTracks />);
+
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('should show completion from questions rated 3 or higher', () => {
+    mockAuth(mockUser);
+    mockStorageService.getSessions.mockReturnValue([
+      attempt('basic-array-1', 5),
+      attempt('basic-array-3', 4),
+      attempt('basic-array-2', 2),
+    ]);
+
+    render(<StudyTracks />);
+
+    expect(mockStorageService.getSessions).toHaveBeenCalledWith('user-1');
+    expect(screen.getByRole('progressbar', { name: 'Arrays Fundamentals progress' }))
+      .toHaveAttribute('aria-valuenow', '25');
+    expect(screen.getByText('2 of 8 questions')).toBeInTheDocument();
+  });
+
+  it('should link open tracks and explain locked and unavailable ones', () => {
+    mockAuth(mockUser);
+    mockStorageService.getSessions.mockReturnValue([]);
+
+    render(<StudyTracks />);
+
+    expect(screen.getAllByRole('link', { name: 'Start' })[0])
+      .toHaveAttribute('href', '/interview?track=arrays-fundamentals');
+    expect(screen.getByText('Finish Tree Foundations first')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Pro plan' })).toHaveAttribute('href', '/pricing');
+  });
+});
@@ -0,0 +1,159 @@
+'use client';
+
+/**
+ * ReplayPlayer Component
+ * Plays back a session's editor and notes snapshots, with a scrubber marked
+ * where hints were revealed and code was run
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { SessionEvent, SessionReplay } from '@/types';
+import { ReplayService } from '@/services/ReplayService';
+import { getLanguageName } from '@/lib/languages';
+
+interface ReplayPlayerProps {
+  replay: SessionReplay;
+  events: SessionEvent[];
+  duration: number;  // in seconds
+}
+
+const SPEEDS = [10, 30, 60];
+
+const TICK_MS = 100;
+
+const formatOffset = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export function ReplayPlayer({ replay, events, duration }: ReplayPlayerProps) {
+  const frames = useMemo(() => ReplayService.getFrames(replay), [replay]);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[1]);
+
+  const atEnd = position >= duration;
+  const isPlaying = playing && !atEnd;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setPosition(current => Math.min(duration, current + (speed * TICK_MS) / 1000));
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, duration]);
+
+  const offsetOf = (at: Date) => Math.max(0, (at.getTime() - replay.startTime.getTime()) / 1000);
+
+  // The latest snapshot at the scrubbed time; the first one before any was taken
+  const frameIndex = Math.max(0, frames.filter(frame => offsetOf(frame.at) <= position).length - 1);
+  const frame = frames[frameIndex];
+
+  const markers = events.filter(
+    (event): event is Extract<SessionEvent, { type: 'hint-revealed' | 'code-run' }> =>
+      event.type === 'hint-revealed' || event.type === 'code-run'
+  );
+
+  const handlePlay = () => {
+    if (atEnd) setPosition(0);
+    setPlaying(!isPlaying);
+  };
+
+  if (!frame) {
+    return <p className="text-sm text-slate-400">No edits were recorded for this session.</p>;
+  }
+
+  const { typed } = frame;
+
+  return (
+    <div className="space-y-4">
+      {/* Controls */}
+      <div className="flex items-center gap-4">
+        <button
+          onClick={handlePlay}
+          className="px-4 py-2 neon-button text-white text-sm font-medium rounded-lg transition-all w-24"
+        >
+          {isPlaying ? 'Pause' : atEnd ? 'Replay' : 'Play'}
+        </button>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200"
+        >
+          {SPEEDS.map(option => (
+            <option key={option} value={option}>{option}x</option>
+          ))}
+        </select>
+        <span className="text-sm font-mono text-slate-300">
+          {formatOffset(position)} / {formatOffset(duration)}
+        </span>
+        <span className="text-xs text-slate-400 ml-auto">{getLanguageName(frame.language)}</span>
+      </div>
+
+      {/* Scrubber with hint and run markers */}
+      <div className="relative pt-4">
+        {markers.map((event, index) => {
+          const offset = Math.min(duration, offsetOf(event.at));
+          const passed = event.type === 'code-run' && event.passedCount === event.totalCount && !event.error;
+
+          return (
+            <button
+              key={index}
+              onClick={() => setPosition(offset)}
+              title={event.type === 'hint-revealed'
+                ? `Hint ${event.level} at ${formatOffset(offset)}`
+                : `Run at ${formatOffset(offset)}: ${event.passedCount}/${event.totalCount} passed`}
+              className={`absolute top-0 w-2 h-3 -ml-1 rounded-sm ${
+                event.type === 'hint-revealed' ? 'bg-yellow-400' : passed ? 'bg-green-400' : 'bg-cyan-400'
+              }`}
+              style={{ left: `${duration > 0 ? (offset / duration) * 100 : 0}%` }}
+            />
+          );
+        })}
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={1}
+          value={position}
+          onChange={(e) => setPosition(Number(e.target.value))}
+          className="w-full accent-blue-500"
+        />
+        <div className="flex gap-4 text-xs text-slate-500 mt-1">
+          <span><span className="inline-block w-2 h-2 rounded-sm bg-yellow-400 mr-1" />Hint</span>
+          <span><span className="inline-block w-2 h-2 rounded-sm bg-cyan-400 mr-1" />Run</span>
+          <span><span className="inline-block w-2 h-2 rounded-sm bg-green-400 mr-1" />All tests passed</span>
+        </div>
+      </div>
+
+      {/* Buffers at the scrubbed time, with the latest typing highlighted */}
+      <pre className="text-xs text-slate-200 bg-slate-900 rounded-lg p-4 overflow-x-auto max-h-96">
+        {typed ? (
+          <>
+            {frame.code.slice(0, typed.start)}
+            <mark className="bg-green-500/30 text-green-100 rounded-sm">{frame.code.slice(typed.start, typed.end)}</mark>
+            {frame.code.slice(typed.end)}
+          </>
+        ) : (
+          frame.code
+        )}
+      </pre>
+
+      {frame.notes && (
+        <div>
+          <div className="text-sm text-slate-400 terminal-text mb-1">{'// Notes'}</div>
+          <p className="text-sm text-slate-300 whitespace-pre-wrap">{frame.notes}</p>
+        </div>
+      )}
+
+      {replay.intervalSeconds > ReplayService.SNAPSHOT_INTERVAL_SECONDS && (
+        <p className="text-xs text-slate-500">
+          Compacted to save space: edits are shown about every {replay.intervalSeconds} seconds.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+/**
+ * SessionTimeline Component
+ * A session's event log as a vertical timeline, each event placed by the
+ * time since the session started
+ */
+
+import React from 'react';
+import { SessionEvent, SessionEventType } from '@/types';
+import { getLanguageName } from '@/lib/languages';
+
+interface SessionTimelineProps {
+  events: SessionEvent[];
+  startTime: Date;
+}
+
+const formatOffset = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const dotColors: Record<SessionEventType, string> = {
+  'started': 'bg-blue-400',
+  'hint-revealed': 'bg-yellow-400',
+  'pressure-popup-shown': 'bg-orange-400',
+  'pressure-popup-dismissed': 'bg-orange-700',
+  'language-switched': 'bg-purple-400',
+  'code-run': 'bg-cyan-400',
+  'paused': 'bg-slate-400',
+  'resumed': 'bg-slate-400',
+  'warning-shown': 'bg-red-400',
+  'timed-out': 'bg-red-500',
+  'ended': 'bg-green-400',
+};
+
+/**
+ * Headline and optional detail line for an event
+ */
+const describe = (event: SessionEvent): { label: string; detail?: string } => {
+  switch (event.type) {
+    case 'started':
+      return { label: 'Session started' };
+    case 'hint-revealed':
+      return { label: `Hint ${event.level} revealed` };
+    case 'pressure-popup-shown':
+      return { label: 'Pressure prompt', detail: event.message };
+    case 'pressure-popup-dismissed':
+      return { label: 'Pressure prompt dismissed' };
+    case 'language-switched':
+      return { label: `Switched from ${getLanguageName(event.from)} to ${getLanguageName(event.to)}` };
+    case 'code-run':
+      return {
+        label: `Ran ${getLanguageName(event.language)} code: ${event.passedCount}/${event.totalCount} tests passed`,
+        detail: event.error,
+      };
+    case 'paused':
+      return { label: 'Timer paused' };
+    case 'resumed':
+      return { label: 'Timer resumed' };
+    case 'warning-shown':
+      return { label: 'Time warning shown', detail: `${formatOffset(event.secondsRemaining)} remaining` };
+    case 'timed-out':
+      return { label: 'Time ran out' };
+    case 'ended':
+      return { label: 'Session ended' };
+  }
+};
+
+export function SessionTimeline({ events, startTime }: SessionTimelineProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-slate-400">No events were recorded for this session.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-slate-700 ml-2 space-y-4">
+      {events.map((event, index) => {
+        const { label, detail } = describe(event);
+        const offset = Math.max(0, Math.floor((event.at.getTime() - startTime.getTime()) / 1000));
+
+        return (
+          <li key={index} className="ml-6">
+            <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${dotColors[event.type]}`} />
+            <div className="flex items-baseline gap-3">
+              <span className="text-xs font-mono text-slate-500 w-12 shrink-0">{formatOffset(offset)}</span>
+              <div>
+                <div className={`text-sm ${event.type === 'code-run' && event.passedCount === event.totalCount && !event.error ? 'text-green-300' : 'text-slate-200'}`}>
+                  {label}
+                </div>
+                {detail && <div className="text-xs text-slate-400 mt-0.5">{detail}</div>}
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
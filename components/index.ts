@@ -14,3 +14,14 @@ export { LandingLayout } from './layouts/LandingLayout';
 
 // Dashboard components
 export { DashboardHeader } from './dashboard/DashboardHeader';
+export { ReviewsDue } from './dashboard/ReviewsDue';
+export { QuestionOfTheDay } from './dashboard/QuestionOfTheDay';
+export { StudyTracks } from './dashboard/StudyTracks';
+
+// Interview components
+export { CodeEditor } from './interview/CodeEditor';
+export { TestResultsPanel } from './interview/TestResultsPanel';
+export { SessionRecoveryPrompt } from './interview/SessionRecoveryPrompt';
+export { SessionSetup } from './interview/SessionSetup';
+export { SharedQuestionPrompt } from './interview/SharedQuestionPrompt';
+export { TrackStartPrompt } from './interview/TrackStartPrompt';
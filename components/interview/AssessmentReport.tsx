@@ -0,0 +1,97 @@
+'use client';
+
+/**
+ * AssessmentReport Component
+ * Score report for a graded online assessment: the overall score, then each
+ * problem's hidden test cases passed and when it was solved
+ */
+
+import React from 'react';
+import { AssessmentResult } from '@/types';
+
+interface AssessmentReportProps {
+  result: AssessmentResult;
+}
+
+const formatMinutes = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  return mins === 1 ? '1 minute' : `${mins} minutes`;
+};
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-green-400' : score >= 50 ? 'text-yellow-400' : 'text-red-400';
+
+const difficultyStyles = {
+  easy: 'bg-green-900/50 text-green-300 border-green-700',
+  medium: 'bg-yellow-900/50 text-yellow-300 border-yellow-700',
+  hard: 'bg-red-900/50 text-red-300 border-red-700',
+};
+
+export function AssessmentReport({ result }: AssessmentReportProps) {
+  const solvedCount = result.problems.filter(p => p.solvedAtSeconds !== null).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Overall score */}
+      <div className="holo-card rounded-lg p-6 glow-border cyber-border">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-sm text-slate-400 terminal-text">{'// Score'}</div>
+            <div className={`text-5xl font-bold font-mono ${scoreColor(result.score)}`}>
+              {result.score}
+              <span className="text-xl text-slate-500">/100</span>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-6 text-sm text-right">
+            <div>
+              <div className="text-slate-400">Solved</div>
+              <div className="text-white font-medium">{solvedCount} of {result.problems.length}</div>
+            </div>
+            <div>
+              <div className="text-slate-400">Test Cases</div>
+              <div className="text-white font-medium">{result.passedCount} of {result.totalCount}</div>
+            </div>
+            <div>
+              <div className="text-slate-400">Time Used</div>
+              <div className="text-white font-medium">
+                {formatMinutes(result.timeUsed)}
+                <span className="text-slate-400"> of {result.durationMinutes}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+        {result.timedOut && (
+          <p className="text-sm text-slate-400 mt-4">Time ran out; submissions made before then were graded.</p>
+        )}
+      </div>
+
+      {/* Per-problem breakdown */}
+      <div className="bg-slate-800/50 border border-slate-700 rounded-lg backdrop-blur-sm overflow-hidden">
+        <div className="px-6 py-3 border-b border-slate-700 text-sm font-semibold text-slate-200">Problems</div>
+        <ul className="divide-y divide-slate-700">
+          {result.problems.map((problem, index) => (
+            <li key={problem.questionId} className="px-6 py-4 flex items-center justify-between">
+              <div>
+                <div className="text-white font-medium">
+                  {index + 1}. {problem.questionTitle}
+                  <span className={`ml-2 px-2 py-0.5 border rounded-full text-xs font-medium ${difficultyStyles[problem.difficulty]}`}>
+                    {problem.difficulty}
+                  </span>
+                </div>
+                <div className="text-xs text-slate-400 mt-1">
+                  {problem.submissionCount === 0
+                    ? 'Not submitted'
+                    : `${problem.submissionCount} submission${problem.submissionCount === 1 ? '' : 's'}`}
+                  {problem.solvedAtSeconds !== null && ` · solved after ${formatMinutes(problem.solvedAtSeconds)}`}
+                </div>
+              </div>
+              <div className={`text-sm font-mono ${problem.passedCount === problem.totalCount ? 'text-green-300' : 'text-slate-300'}`}>
+                {problem.passedCount}/{problem.totalCount} passed
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+/**
+ * CodeEditor Component
+ * CodeMirror editor with syntax highlighting, auto-indent and bracket matching
+ *
+ * - Keeps a separate editor state (text and undo history) per language
+ * - Reports every edit through onChange; the parent owns the buffers
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { basicSetup } from 'codemirror';
+import { Compartment, EditorState, Extension } from '@codemirror/state';
+import { EditorView, keymap } from '@codemirror/view';
+import { indentWithTab } from '@codemirror/commands';
+import { javascript } from '@codemirror/lang-javascript';
+import { python } from '@codemirror/lang-python';
+import { java } from '@codemirror/lang-java';
+import { cpp } from '@codemirror/lang-cpp';
+import { go } from '@codemirror/lang-go';
+import { oneDark } from '@codemirror/theme-one-dark';
+import { LanguageId } from '@/types';
+
+const languageSupport: Record<LanguageId, () => Extension> = {
+  javascript: () => javascript(),
+  typescript: () => javascript({ typescript: true }),
+  python: () => python(),
+  java: () => java(),
+  cpp: () => cpp(),
+  go: () => go(),
+};
+
+const editorTheme = EditorView.theme({
+  '&': { height: '100%', fontSize: '14px' },
+  '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' },
+});
+
+interface CodeEditorProps {
+  language: LanguageId;
+  value: string;
+  onChange: (value: string) => void;
+  readOnly?: boolean;
+}
+
+export function CodeEditor({ language, value, onChange, readOnly = false }: CodeEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const statesRef = useRef<Partial<Record<LanguageId, EditorState>>>({});
+  const languageRef = useRef(language);
+  const latestRef = useRef({ value, onChange, readOnly });
+  const readOnlyCompartment = useRef(new Compartment());
+
+  useEffect(() => {
+    latestRef.current = { value, onChange, readOnly };
+  }, [value, onChange, readOnly]);
+
+  const createState = (doc: string, lang: LanguageId) =>
+    EditorState.create({
+      doc,
+      extensions: [
+        basicSetup,
+        keymap.of([indentWithTab]),
+        languageSupport[lang](),
+        oneDark,
+        editorTheme,
+        readOnlyCompartment.current.of(EditorState.readOnly.of(latestRef.current.readOnly)),
+        EditorView.updateListener.of(update => {
+          if (update.docChanged) {
+            latestRef.current.onChange(update.state.doc.toString());
+          }
+        }),
+      ],
+    });
+
+  // Mount the editor once; language and value changes are applied below
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const view = new EditorView({
+      state: createState(latestRef.current.value, languageRef.current),
+      parent: containerRef.current,
+    });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  // Swap in the buffer for the selected language, keeping the previous one's history
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || languageRef.current === language) return;
+
+    statesRef.current[languageRef.current] = view.state;
+    languageRef.current = language;
+    view.setState(statesRef.current[language] ?? createState(latestRef.current.value, language));
+    view.dispatch({
+      effects: readOnlyCompartment.current.reconfigure(EditorState.readOnly.of(latestRef.current.readOnly)),
+    });
+  }, [language]);
+
+  // Apply buffer changes made outside the editor (e.g. restoring a draft)
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+
+    const current = view.state.doc.toString();
+    if (current !== value) {
+      view.dispatch({ changes: { from: 0, to: current.length, insert: value } });
+    }
+  }, [value, language]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: readOnlyCompartment.current.reconfigure(EditorState.readOnly.of(readOnly)),
+    });
+  }, [readOnly]);
+
+  return <div ref={containerRef} className="h-full overflow-hidden rounded-lg border border-slate-700" />;
+}
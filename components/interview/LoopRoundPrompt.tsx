@@ -0,0 +1,108 @@
+'use client';
+
+/**
+ * LoopRoundPrompt Component
+ * Start screen for the next round of an interview loop, opened from
+ * /interview?loop=... Counts down the break after the previous round.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { LoopService, LoopError } from '@/services/LoopService';
+
+interface LoopRoundPromptProps {
+  userId: string;
+  loopId: string;
+  starting: boolean;
+  error: string | null;
+  onStart: (loopId: string) => void;
+  onDismiss: () => void;
+}
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+export function LoopRoundPrompt({ userId, loopId, starting, error, onStart, onDismiss }: LoopRoundPromptProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  const next = useMemo(() => {
+    try {
+      const loop = LoopService.getLoop(userId, loopId);
+      const index = LoopService.getNextRoundIndex(loop);
+      return loop.endedAt === null && index !== null
+        ? { loop, index, breakEndsAt: LoopService.getBreakEndsAt(loop), problem: null }
+        : { loop, index: null, breakEndsAt: null, problem: 'This interview loop has ended' };
+    } catch (err) {
+      return { loop: null, index: null, breakEndsAt: null, problem: err instanceof LoopError ? err.message : 'Unable to open this loop' };
+    }
+  }, [userId, loopId]);
+
+  const breakLeft = next.breakEndsAt ? next.breakEndsAt.getTime() - now : 0;
+
+  // Tick the break countdown
+  useEffect(() => {
+    if (!next.breakEndsAt) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [next.breakEndsAt]);
+
+  const round = next.loop && next.index !== null ? next.loop.rounds[next.index] : null;
+
+  return (
+    <div className="max-w-xl mx-auto py-16">
+      <div className="holo-card rounded-lg p-6 glow-border cyber-border">
+        <h2 className="text-xl font-semibold text-white mb-2">{next.loop?.title ?? 'Interview Loop'}</h2>
+        {round && next.loop && next.index !== null ? (
+          <div className="mb-6">
+            <p className="text-slate-300 mb-3">
+              Round {next.index + 1} of {next.loop.rounds.length}
+            </p>
+            <p className="text-white font-medium">
+              {round.title} <span className="text-slate-400 font-normal">{`· ${round.durationMinutes} minutes`}</span>
+            </p>
+            {breakLeft > 0 && (
+              <div className="mt-4 bg-slate-800/50 border border-slate-700 rounded-lg p-4 text-sm text-slate-300">
+                Break time: <span className="font-mono text-white">{formatCountdown(breakLeft)}</span> left.
+                Stretch, get some water, then start the next round.
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 mb-6 text-sm text-slate-300">
+            {next.problem}
+            <Link href="/loops" className="ml-2 underline text-blue-300 hover:text-white">
+              Interview Loops
+            </Link>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 mb-6 text-sm text-red-300">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          {round && (
+            <button
+              onClick={() => onStart(loopId)}
+              disabled={starting}
+              className="px-6 py-2 neon-button text-white font-medium rounded-lg transition-all disabled:opacity-50"
+            >
+              {starting ? 'Starting...' : breakLeft > 0 ? 'Skip Break and Start' : 'Start Round'}
+            </button>
+          )}
+          <button
+            onClick={onDismiss}
+            className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-lg transition-all"
+          >
+            Set Up My Own Instead
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+/**
+ * QuestionStartPrompt Component
+ * Start screen for a question picked from the catalog, opened from /interview?question=...
+ */
+
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { Plan } from '@/types';
+import { createQuestionProvider } from '@/services/QuestionProvider';
+
+const formatLabel = (value: string) =>
+  value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+interface QuestionStartPromptProps {
+  userId: string;
+  plan: Plan;
+  questionId: string;
+  starting: boolean;
+  error: string | null;
+  onStart: (questionId: string) => void;
+  onDismiss: () => void;
+}
+
+export function QuestionStartPrompt({ userId, plan, questionId, starting, error, onStart, onDismiss }: QuestionStartPromptProps) {
+  const { question, available } = useMemo(() => {
+    const questions = createQuestionProvider(userId);
+    return {
+      question: questions.getById(questionId),
+      available: questions.getByPlan(plan).some(q => q.id === questionId),
+    };
+  }, [userId, plan, questionId]);
+
+  return (
+    <div className="max-w-xl mx-auto py-16">
+      <div className="holo-card rounded-lg p-6 glow-border cyber-border">
+        <h2 className="text-xl font-semibold text-white mb-2">Practice a Question</h2>
+        {question ? (
+          <div className="mb-6">
+            <p className="text-slate-300 mb-3">
+              A 45-minute session on the question you picked from the catalog.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-white font-medium">{question.title}</span>
+              <span className="px-2 py-0.5 bg-slate-800 text-slate-300 border border-slate-700 rounded-full text-xs">
+                {formatLabel(question.difficulty)}
+              </span>
+              <span className="px-2 py-0.5 bg-blue-900/50 text-blue-300 border border-blue-700 rounded-full text-xs">
+                {formatLabel(question.category)}
+              </span>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 mb-6 text-sm text-slate-300">
+            This question could not be found.
+            <Link href="/questions" className="ml-2 underline text-blue-300 hover:text-white">
+              Browse Questions
+            </Link>
+          </div>
+        )}
+
+        {question && !available && (
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 mb-6 text-sm text-slate-300">
+            This question is not available on your plan.
+            <Link href="/pricing" className="ml-2 underline text-blue-300 hover:text-white">
+              Upgrade Plan
+            </Link>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 mb-6 text-sm text-red-300">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          {question && available && (
+            <button
+              onClick={() => onStart(questionId)}
+              disabled={starting}
+              className="px-6 py-2 neon-button text-white font-medium rounded-lg transition-all disabled:opacity-50"
+            >
+              {starting ? 'Starting...' : 'Start Question'}
+            </button>
+          )}
+          <button
+            onClick={onDismiss}
+            className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-lg transition-all"
+          >
+            Set Up My Own Instead
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
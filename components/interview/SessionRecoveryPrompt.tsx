@@ -0,0 +1,54 @@
+'use client';
+
+/**
+ * SessionRecoveryPrompt Component
+ * Offers to finish or discard an unfinished session that ran past its time limit
+ * while the app was closed. Renders nothing when there is no such session.
+ */
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from '@/contexts/SessionContext';
+
+export function SessionRecoveryPrompt() {
+  const { expiredSession, recoverExpiredSession, discardExpiredSession } = useSession();
+  const router = useRouter();
+
+  if (!expiredSession) return null;
+
+  const handleRecover = () => {
+    recoverExpiredSession();
+    router.push('/interview/feedback');
+  };
+
+  const startedAt = expiredSession.startTime.toLocaleString([], {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+
+  return (
+    <div className="holo-card rounded-lg p-6 glow-border cyber-border">
+      <h2 className="text-xl font-semibold text-white mb-2">Unfinished Interview Found</h2>
+      <p className="text-slate-300 mb-6">
+        Your interview started {startedAt} ran out of time before it was submitted.
+        {expiredSession.assessment
+          ? 'Your submissions were saved. Submit it for grading, or discard it.'
+          : 'Your code and notes were saved. Submit feedback to record it, or discard it.'}
+      </p>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleRecover}
+          className="px-6 py-2 neon-button text-white font-medium rounded-lg transition-all"
+        >
+          {expiredSession.assessment ? 'Submit for Grading' : 'Submit Feedback'}
+        </button>
+        <button
+          onClick={discardExpiredSession}
+          className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-lg transition-all"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
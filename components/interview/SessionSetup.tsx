@@ -0,0 +1,328 @@
+'use client';
+
+/**
+ * SessionSetup Component
+ * Pre-session screen for choosing duration, categories, patterns and difficulty mix
+ *
+ * - Practice mode is untimed, so the duration is hidden
+ * - Options the plan does not include are shown locked
+ * - Opening /interview?mode=review preselects questions due for review
+ * - Adaptive selection picks the category and difficulty from past sessions
+ * - The user's own questions join the pool only when they opt in
+ * - The chosen setup is checked again by SessionService when the session starts
+ */
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Plan, Question, QuestionPattern, SessionConfig, SessionDurationMinutes, SessionMode } from '@/types';
+import { SessionService } from '@/services/SessionService';
+import { createQuestionProvider, UserQuestionProvider } from '@/services/QuestionProvider';
+import { patterns } from '@/lib/patterns';
+
+const durationOptions: SessionDurationMinutes[] = [15, 30, 45, 60, 90];
+const difficultyOptions: Question['difficulty'][] = ['easy', 'medium', 'hard'];
+const modeOptions: { mode: SessionMode; label: string; description: string }[] = [
+  { mode: 'interview', label: 'Mock Interview', description: 'Timed; hints count against your readiness' },
+  { mode: 'practice', label: 'Practice', description: 'Untimed; hints and solutions any time, kept out of readiness' },
+];
+const MAX_WEIGHT = 4;
+
+const formatLabel = (value: string) =>
+  value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+interface SessionSetupProps {
+  userId: string;
+  plan: Plan;
+  dueReviewCount: number;
+  starting: boolean;
+  error: string | null;
+  onStart: (config: SessionConfig) => void;
+}
+
+export function SessionSetup({ userId, plan, dueReviewCount, starting, error, onStart }: SessionSetupProps) {
+  const entitlements = SessionService.SETUP_ENTITLEMENTS[plan];
+  const [config, setConfig] = useState<SessionConfig>(() => {
+    const reviewRequested = typeof window !== 'undefined'
+      && new URLSearchParams(window.location.search).get('mode') === 'review';
+    return {
+      ...SessionService.DEFAULT_CONFIG,
+      selectionMode: reviewRequested && dueReviewCount > 0 ? 'review' : 'random',
+    };
+  });
+
+  const myQuestions = useMemo(() => new UserQuestionProvider(userId).list(), [userId]);
+  const planQuestions = useMemo(
+    () => createQuestionProvider(config.includeMyQuestions ? userId : undefined).getByPlan(plan),
+    [plan, userId, config.includeMyQuestions]
+  );
+  const categories = [...new Set(planQuestions.map(q => q.category))];
+  const planPatterns = patterns.filter(pattern => planQuestions.some(q => q.patterns.includes(pattern.id)));
+  const selectedPatterns = config.patterns ?? [];
+  const totalWeight = difficultyOptions.reduce((sum, d) => sum + config.difficultyMix[d], 0);
+
+  const toggleCategory = (category: Question['category']) => {
+    setConfig(prev => ({
+      ...prev,
+      categories: prev.categories.includes(category)
+        ? prev.categories.filter(c => c !== category)
+        : [...prev.categories, category],
+    }));
+  };
+
+  const togglePattern = (pattern: QuestionPattern) => {
+    setConfig(prev => {
+      const current = prev.patterns ?? [];
+      return {
+        ...prev,
+        patterns: current.includes(pattern) ? current.filter(p => p !== pattern) : [...current, pattern],
+      };
+    });
+  };
+
+  const setWeight = (difficulty: Question['difficulty'], weight: number) => {
+    setConfig(prev => ({
+      ...prev,
+      difficultyMix: { ...prev.difficultyMix, [difficulty]: weight },
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onStart(config);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-2xl mx-auto py-8 space-y-6">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-white mb-2">Set Up Your Interview</h1>
+        <p className="text-slate-400">Choose how long to practice and what to practice on</p>
+      </div>
+
+      {/* Mode */}
+      <div className="holo-card rounded-lg p-6 glow-border">
+        <h2 className="text-lg font-semibold text-white mb-4">Mode</h2>
+        <div className="grid grid-cols-2 gap-2">
+          {modeOptions.map(option => (
+            <button
+              key={option.mode}
+              type="button"
+              onClick={() => setConfig(prev => ({ ...prev, mode: option.mode }))}
+              className={`px-4 py-3 rounded-lg text-left transition-all ${
+                (config.mode ?? 'interview') === option.mode
+                  ? 'neon-button text-white'
+                  : 'bg-slate-800 text-slate-200 hover:bg-slate-700 border border-slate-700'
+              }`}
+            >
+              <div className="font-medium">{option.label}</div>
+              <div className="text-xs opacity-80 mt-1">{option.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Duration */}
+      {config.mode !== 'practice' && (
+        <div className="holo-card rounded-lg p-6 glow-border">
+          <h2 className="text-lg font-semibold text-white mb-4">Duration</h2>
+          <div className="grid grid-cols-5 gap-2">
+            {durationOptions.map(minutes => {
+              const allowed = entitlements.durations.includes(minutes);
+              const selected = config.durationMinutes === minutes;
+              return (
+                <button
+                  key={minutes}
+                  type="button"
+                  disabled={!allowed}
+                  onClick={() => setConfig(prev => ({ ...prev, durationMinutes: minutes }))}
+                  className={`px-3 py-3 rounded-lg font-medium transition-all ${
+                    selected
+                      ? 'neon-button text-white'
+                      : allowed
+                        ? 'bg-slate-800 text-slate-200 hover:bg-slate-700 border border-slate-700'
+                        : 'bg-slate-800/50 text-slate-600 border border-slate-800 cursor-not-allowed'
+                  }`}
+                >
+                  {minutes} min
+                </button>
+              );
+            })}
+          </div>
+          {entitlements.durations.length < durationOptions.length && (
+            <p className="text-xs text-slate-500 mt-3">More durations are available on higher plans.</p>
+          )}
+        </div>
+      )}
+
+      {/* Question Selection */}
+      <div className="holo-card rounded-lg p-6 glow-border">
+        <h2 className="text-lg font-semibold text-white mb-4">Question</h2>
+        <div className="grid grid-cols-3 gap-2">
+          {([
+            { mode: 'random', label: 'New random question', disabled: false },
+            { mode: 'review', label: `Due for review (${dueReviewCount})`, disabled: dueReviewCount === 0 },
+            { mode: 'adaptive', label: 'Adaptive: weak areas first', disabled: !entitlements.adaptiveSelection },
+          ] as const).map(option => (
+            <button
+              key={option.mode}
+              type="button"
+              disabled={option.disabled}
+              onClick={() => setConfig(prev => ({ ...prev, selectionMode: option.mode }))}
+              className={`px-3 py-3 rounded-lg font-medium transition-all ${
+                config.selectionMode === option.mode
+                  ? 'neon-button text-white'
+                  : option.disabled
+                    ? 'bg-slate-800/50 text-slate-600 border border-slate-800 cursor-not-allowed'
+                    : 'bg-slate-800 text-slate-200 hover:bg-slate-700 border border-slate-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {dueReviewCount === 0 && (
+          <p className="text-xs text-slate-500 mt-3">
+            Questions come back for review on a schedule based on how each attempt went.
+          </p>
+        )}
+        {config.selectionMode === 'adaptive' && (
+          <p className="text-xs text-slate-500 mt-3">
+            Favors categories you rate low, haven&apos;t practiced lately or haven&apos;t tried yet,
+            and steps difficulty up or down from your recent ratings there.
+          </p>
+        )}
+        {!entitlements.adaptiveSelection && (
+          <p className="text-xs text-slate-500 mt-3">Adaptive selection is available on Premium and Pro.</p>
+        )}
+        <div className="flex items-center gap-3 mt-4 pt-4 border-t border-slate-700 text-sm">
+          <label className={`flex items-center gap-2 ${myQuestions.length === 0 ? 'text-slate-500' : 'text-slate-300'}`}>
+            <input
+              type="checkbox"
+              checked={!!config.includeMyQuestions}
+              disabled={myQuestions.length === 0}
+              onChange={(e) => setConfig(prev => ({ ...prev, includeMyQuestions: e.target.checked }))}
+            />
+            Include My Questions ({myQuestions.length})
+          </label>
+          <Link href="/my-questions" className="text-blue-300 hover:text-blue-200">
+            {myQuestions.length === 0 ? 'Add your own' : 'Manage'}
+          </Link>
+        </div>
+      </div>
+
+      {/* Categories */}
+      <div className="holo-card rounded-lg p-6 glow-border">
+        <h2 className="text-lg font-semibold text-white mb-1">Categories</h2>
+        <p className="text-sm text-slate-400 mb-4">
+          {config.categories.length === 0 ? 'Any category' : `${config.categories.length} selected`}
+        </p>
+        {entitlements.chooseCategories ? (
+          <div className="flex flex-wrap gap-2">
+            {categories.map(category => (
+              <button
+                key={category}
+                type="button"
+                onClick={() => toggleCategory(category)}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-all ${
+                  config.categories.includes(category)
+                    ? 'bg-blue-900/50 text-blue-300 border-blue-700'
+                    : 'bg-slate-800 text-slate-300 border-slate-700 hover:bg-slate-700'
+                }`}
+              >
+                {formatLabel(category)}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">Choosing categories is available on Premium and Pro.</p>
+        )}
+      </div>
+
+      {/* Patterns */}
+      <div className="holo-card rounded-lg p-6 glow-border">
+        <h2 className="text-lg font-semibold text-white mb-1">Patterns</h2>
+        <p className="text-sm text-slate-400 mb-4">
+          {selectedPatterns.length === 0 ? 'Any pattern' : `Questions using any of ${selectedPatterns.length} selected`}
+        </p>
+        {entitlements.chooseCategories ? (
+          <div className="flex flex-wrap gap-2">
+            {planPatterns.map(pattern => (
+              <button
+                key={pattern.id}
+                type="button"
+                title={pattern.description}
+                onClick={() => togglePattern(pattern.id)}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-all ${
+                  selectedPatterns.includes(pattern.id)
+                    ? 'bg-purple-900/50 text-purple-300 border-purple-700'
+                    : 'bg-slate-800 text-slate-300 border-slate-700 hover:bg-slate-700'
+                }`}
+              >
+                {pattern.name}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">Choosing patterns is available on Premium and Pro.</p>
+        )}
+      </div>
+
+      {/* Difficulty Mix */}
+      <div className="holo-card rounded-lg p-6 glow-border">
+        <h2 className="text-lg font-semibold text-white mb-4">Difficulty Mix</h2>
+        {config.selectionMode === 'adaptive' ? (
+          <p className="text-sm text-slate-500">Adaptive selection sets the difficulty from your recent ratings.</p>
+        ) : entitlements.customDifficultyMix ? (
+          <div className="space-y-3">
+            {difficultyOptions.map(difficulty => (
+              <label key={difficulty} className="flex items-center gap-4">
+                <span className="w-20 text-sm text-slate-300">{formatLabel(difficulty)}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_WEIGHT}
+                  value={config.difficultyMix[difficulty]}
+                  onChange={(e) => setWeight(difficulty, Number(e.target.value))}
+                  className="flex-1"
+                />
+                <span className="w-12 text-right text-sm text-slate-400">
+                  {totalWeight > 0 ? Math.round((config.difficultyMix[difficulty] / totalWeight) * 100) : 0}%
+                </span>
+              </label>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">
+            Even mix of easy, medium and hard. Custom difficulty settings are available on Pro.
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 text-sm text-red-300">
+          {error}
+          {plan === 'basic' && (
+            <Link href="/pricing" className="ml-2 underline text-red-200 hover:text-white">
+              Upgrade Plan
+            </Link>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Link
+          href="/dashboard"
+          className="px-6 py-3 bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-lg transition-all"
+        >
+          Back to Dashboard
+        </Link>
+        <button
+          type="submit"
+          disabled={starting || totalWeight === 0}
+          className="px-8 py-3 neon-button text-white font-medium rounded-lg transition-all disabled:opacity-50"
+        >
+          {starting ? 'Starting...' : `Start ${config.durationMinutes}-Minute Interview`}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+/**
+ * SharedQuestionPrompt Component
+ * Start screen for a shared draw: the question of the day or a friend's
+ * challenge link. Shows the drawn question before the session starts.
+ */
+
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { Plan, QuestionDraw } from '@/types';
+import { SessionService } from '@/services/SessionService';
+import { createQuestionProvider } from '@/services/QuestionProvider';
+
+const formatLabel = (value: string) =>
+  value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+interface SharedQuestionPromptProps {
+  plan: Plan;
+  draw: QuestionDraw;
+  starting: boolean;
+  error: string | null;
+  onStart: (draw: QuestionDraw) => void;
+  onDismiss: () => void;
+}
+
+export function SharedQuestionPrompt({ plan, draw, starting, error, onStart, onDismiss }: SharedQuestionPromptProps) {
+  const question = useMemo(() => {
+    try {
+      return SessionService.drawQuestion(draw);
+    } catch {
+      return null;
+    }
+  }, [draw]);
+
+  const available = question !== null && createQuestionProvider().getByPlan(plan).some(q => q.id === question.id);
+  const isDaily = SessionService.isDailyDraw(draw);
+
+  return (
+    <div className="max-w-xl mx-auto py-16">
+      <div className="holo-card rounded-lg p-6 glow-border cyber-border">
+        <h2 className="text-xl font-semibold text-white mb-2">
+          {isDaily ? 'Question of the Day' : "You've Been Challenged"}
+        </h2>
+        {question ? (
+          <div className="mb-6">
+            <p className="text-slate-300 mb-3">
+              {isDaily
+                ? 'Everyone on your plan gets this question today.'
+                : 'Someone shared this exact question with you. Solve it and compare notes.'}
+            </p>
+            <div className="flex items-center gap-2">
+              <span className="text-white font-medium">{question.title}</span>
+              <span className="px-2 py-0.5 bg-slate-800 text-slate-300 border border-slate-700 rounded-full text-xs">
+                {formatLabel(question.difficulty)}
+              </span>
+              <span className="px-2 py-0.5 bg-blue-900/50 text-blue-300 border border-blue-700 rounded-full text-xs">
+                {formatLabel(question.category)}
+              </span>
+            </div>
+          </div>
+        ) : (
+          <p className="text-slate-300 mb-6">This link doesn&apos;t match any question.</p>
+        )}
+
+        {question && !available && (
+          <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 mb-6 text-sm text-red-300">
+            This question is not available on your plan.
+            <Link href="/pricing" className="ml-2 underline text-red-200 hover:text-white">
+              Upgrade Plan
+            </Link>
+          </div>
+        )}
+
+        {error && available && (
+          <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 mb-6 text-sm text-red-300">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          {available && (
+            <button
+              onClick={() => onStart(draw)}
+              disabled={starting}
+              className="px-6 py-2 neon-button text-white font-medium rounded-lg transition-all disabled:opacity-50"
+            >
+              {starting ? 'Starting...' : 'Start This Question'}
+            </button>
+          )}
+          <button
+            onClick={onDismiss}
+            className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-lg transition-all"
+          >
+            Set Up My Own Instead
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+/**
+ * TestResultsPanel Component
+ * Shows the outcome of running the candidate's code against hidden test cases
+ *
+ * - Per-case pass/fail, runtime and thrown errors
+ * - Overall pass rate, time-limit and compile errors
+ */
+
+import React from 'react';
+import { CodeRunResult } from '@/types';
+
+interface TestResultsPanelProps {
+  result: CodeRunResult | null;
+  running: boolean;
+  error: string | null;
+}
+
+export function TestResultsPanel({ result, running, error }: TestResultsPanelProps) {
+  if (running) {
+    return (
+      <div className="px-6 py-4 text-sm text-slate-400 terminal-text">
+        Running tests...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="px-6 py-4 text-sm text-red-300">
+        {error}
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <div className="px-6 py-4 text-sm text-slate-500">
+        Run your code to check it against the hidden test cases.
+      </div>
+    );
+  }
+
+  const allPassed = result.passedCount === result.totalCount;
+
+  return (
+    <div className="px-6 py-4 space-y-3 max-h-56 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <span className={`text-sm font-semibold ${allPassed ? 'text-green-300' : 'text-red-300'}`}>
+          {result.passedCount}/{result.totalCount} test cases passed
+        </span>
+        <span className="text-xs text-slate-400">
+          {Math.round(result.passRate * 100)}% pass rate
+        </span>
+      </div>
+
+      {result.error && (
+        <pre className="bg-red-900/20 border border-red-700/50 rounded-lg p-3 text-xs text-red-200 whitespace-pre-wrap">
+          {result.error}
+        </pre>
+      )}
+
+      {result.timedOut && (
+        <p className="text-xs text-yellow-300">
+          Time limit exceeded. Check for infinite loops or an inefficient approach.
+        </p>
+      )}
+
+      <ul className="space-y-1">
+        {result.results.map((testCase) => (
+          <li
+            key={testCase.index}
+            className="flex items-start justify-between gap-4 bg-slate-900 border border-slate-700 rounded px-3 py-2 text-xs"
+          >
+            <div className="min-w-0">
+              <span className={testCase.passed ? 'text-green-300' : 'text-red-300'}>
+                {testCase.passed ? '✓' : '✗'} Case {testCase.index + 1}
+              </span>
+              {testCase.error && (
+                <div className="mt-1 text-red-200 font-mono break-words">{testCase.error}</div>
+              )}
+            </div>
+            <span className="text-slate-500 font-mono whitespace-nowrap">
+              {testCase.runtimeMs.toFixed(1)} ms
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
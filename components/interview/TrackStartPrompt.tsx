@@ -0,0 +1,88 @@
+'use client';
+
+/**
+ * TrackStartPrompt Component
+ * Start screen for the next question of a study track, opened from /interview?track=...
+ */
+
+import React, { useMemo } from 'react';
+import Link from 'next/link';
+import { Plan } from '@/types';
+import { StorageService } from '@/services/StorageService';
+import { TrackService, TrackError } from '@/services/TrackService';
+import { getTrackById, getTracksByPlan } from '@/lib/tracks';
+import { createQuestionProvider } from '@/services/QuestionProvider';
+
+interface TrackStartPromptProps {
+  userId: string;
+  plan: Plan;
+  trackId: string;
+  starting: boolean;
+  error: string | null;
+  onStart: (trackId: string) => void;
+  onDismiss: () => void;
+}
+
+export function TrackStartPrompt({ userId, plan, trackId, starting, error, onStart, onDismiss }: TrackStartPromptProps) {
+  const track = getTrackById(trackId);
+
+  const next = useMemo(() => {
+    const sessions = StorageService.getSessions(userId);
+    try {
+      const questionId = TrackService.getNextQuestionId(trackId, sessions, plan);
+      const progress = TrackService.getProgress(sessions, plan).find(p => p.trackId === trackId)!;
+      return { question: createQuestionProvider().getById(questionId), position: progress.completedQuestionIds.length + 1, problem: null };
+    } catch (err) {
+      return { question: undefined, position: 0, problem: err instanceof TrackError ? err.message : 'Unable to open this track' };
+    }
+  }, [userId, plan, trackId]);
+
+  return (
+    <div className="max-w-xl mx-auto py-16">
+      <div className="holo-card rounded-lg p-6 glow-border cyber-border">
+        <h2 className="text-xl font-semibold text-white mb-2">{track?.title ?? 'Study Track'}</h2>
+        {next.question && track ? (
+          <div className="mb-6">
+            <p className="text-slate-300 mb-3">
+              Question {next.position} of {track.questionIds.length}
+            </p>
+            <p className="text-white font-medium">{next.question.title}</p>
+          </div>
+        ) : (
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 mb-6 text-sm text-slate-300">
+            {next.problem}
+            {track && !getTracksByPlan(plan).some(t => t.id === trackId) && (
+              <Link href="/pricing" className="ml-2 underline text-blue-300 hover:text-white">
+                Upgrade Plan
+              </Link>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 mb-6 text-sm text-red-300">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          {next.question && (
+            <button
+              onClick={() => onStart(trackId)}
+              disabled={starting}
+              className="px-6 py-2 neon-button text-white font-medium rounded-lg transition-all disabled:opacity-50"
+            >
+              {starting ? 'Starting...' : 'Start Question'}
+            </button>
+          )}
+          <button
+            onClick={onDismiss}
+            className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium rounded-lg transition-all"
+          >
+            Set Up My Own Instead
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
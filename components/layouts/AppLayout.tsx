@@ -64,6 +64,12 @@ export function AppLayout({ children }: AppLayoutProps) {
               >
                 Dashboard
               </Link>
+              <Link
+                href="/questions"
+                className="px-4 py-2 text-slate-200 hover:text-white hover:bg-slate-800/50 rounded-lg transition-all font-medium"
+              >
+                Questions
+              </Link>
               <Link
                 href="/history"
                 className="px-4 py-2 text-slate-200 hover:text-white hover:bg-slate-800/50 rounded-lg transition-all font-medium"
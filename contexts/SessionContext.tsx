@@ -3,11 +3,18 @@
 /**
  * SessionContext - React Context for active session state management
  * Provides session state, timer logic with drift correction, and session control methods
+ * Autosaves the session and its drafts, and restores them after a reload
+ * Pausing stops the timer; paused time never counts against the session
+ * Practice sessions have no timer at all
+ * When the timer reaches zero the session is frozen and expiry listeners are notified
+ * Finishing a session stops its timer while feedback is given
+ * The editor and notes are snapshotted periodically for the session's replay
  */
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
-import { Session, Question, Feedback, CompletedSession } from '@/types';
+import { User, Session, SessionConfig, QuestionDraw, SessionDraft, SessionEvent, CodeSnapshot, ReplayBuffers, Question, Feedback, CompletedSession, AssessmentDurationMinutes, AssessmentResult, CodeRunResult } from '@/types';
 import { SessionService } from '@/services/SessionService';
+import { ReplayService } from '@/services/ReplayService';
 import { useAuth } from './AuthContext';
 
 /**
@@ -16,15 +23,82 @@ import { useAuth } from './AuthContext';
 interface SessionContextValue {
   activeSession: Session | null;
   currentQuestion: Question | null;
+  draft: SessionDraft | null;
   timeRemaining: number;
   isRunning: boolean;
+  isPaused: boolean;
+  isTimedOut: boolean;  // Timer reached zero; the work is frozen until feedback is submitted
+  isFinished: boolean;  // The user ended the session; the timer is stopped until feedback is submitted
+  loading: boolean;  // True until a saved session has been looked for
+  expiredSession: Session | null;  // Unfinished session found past its time limit
+  lastSavedAt: Date | null;
+  hasUnsavedChanges: boolean;
+  saveError: string | null;
   error: string | null;
-  startSession: () => Promise<void>;
+  startSession: (config?: SessionConfig, draw?: QuestionDraw) => Promise<void>;
+  startTrackSession: (trackId: string) => Promise<void>;
+  startQuestionSession: (questionId: string) => Promise<void>;
+  startLoopRound: (loopId: string) => Promise<void>;
+  startAssessment: (problemCount: number, durationMinutes: AssessmentDurationMinutes) => Promise<void>;
+  submitAssessmentProblem: (questionId: string, result: CodeRunResult) => void;
+  finishSession: () => void;
   endSession: (feedback: Feedback) => Promise<CompletedSession>;
+  endAssessment: () => Promise<AssessmentResult>;
   updateSession: (updates: Partial<Session>) => void;
+  updateDraft: (updates: Partial<Omit<SessionDraft, 'sessionId'>>) => void;
+  recordEvent: (event: SessionEvent) => void;
+  revealHint: () => void;
+  pauseSession: () => void;
+  resumeSession: () => void;
+  onSessionExpired: (listener: (session: Session) => void) => () => void;
+  recoverExpiredSession: () => void;
+  discardExpiredSession: () => void;
   clearError: () => void;
 }
 
+/**
+ * Delay after the last change before progress is saved
+ */
+const AUTOSAVE_DELAY_MS = 1000;
+
+const createDraft = (sessionId: string): SessionDraft => ({
+  sessionId,
+  language: 'javascript',
+  code: {},
+  notes: '',
+  approach: '',
+});
+
+/**
+ * Code in the editor's selected language, falling back to the starter signature
+ */
+const takeCodeSnapshot = (draft: SessionDraft | null, question: Question | null): CodeSnapshot | undefined => {
+  if (!draft) return undefined;
+
+  return {
+    language: draft.language,
+    code: draft.code[draft.language] ?? question?.starterCode[draft.language] ?? '',
+  };
+};
+
+/**
+ * The editor's selected buffer and the notes, as the replay records them
+ */
+const takeReplayBuffers = (draft: SessionDraft | null, question: Question | null): ReplayBuffers | null => {
+  const code = takeCodeSnapshot(draft, question);
+  if (!draft || !code) return null;
+
+  return { language: code.language, code: { [code.language]: code.code }, notes: draft.notes };
+};
+
+/**
+ * Add a snapshot of the draft to the session's replay when it changed
+ */
+const withSnapshot = (session: Session, draft: SessionDraft | null, question: Question | null): Session => {
+  const buffers = takeReplayBuffers(draft, question);
+  return buffers ? ReplayService.recordSnapshot(session, buffers) : session;
+};
+
 /**
  * Create the session context
  */
@@ -45,15 +119,106 @@ export function SessionProvider({ children }: SessionProviderProps) {
   const { user } = useAuth();
   const [activeSession, setActiveSession] = useState<Session | null>(null);
   const [currentQuestion, setCurrentQuestion] = useState<Question | null>(null);
+  const [draft, setDraft] = useState<SessionDraft | null>(null);
   const [timeRemaining, setTimeRemaining] = useState<number>(0);
   const [isRunning, setIsRunning] = useState(false);
+  const [restoredUserId, setRestoredUserId] = useState<string | null>(null);
+  const [expiredSession, setExpiredSession] = useState<Session | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Latest session and draft for saves that run outside a render
+  const activeSessionRef = useRef<Session | null>(null);
+  const draftRef = useRef<SessionDraft | null>(null);
+  const questionRef = useRef<Question | null>(null);
+  const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const expiryListenersRef = useRef(new Set<(session: Session) => void>());
+
   // Refs for timer management with drift correction
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const startTimeRef = useRef<number | null>(null);
   const expectedTimeRef = useRef<number | null>(null);
 
+  useEffect(() => {
+    activeSessionRef.current = activeSession;
+    draftRef.current = draft;
+    questionRef.current = currentQuestion;
+  }, [activeSession, draft, currentQuestion]);
+
+  /**
+   * Save the latest session and draft now
+   */
+  const saveProgress = useCallback(() => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+
+    const session = activeSessionRef.current;
+    if (!session) return;
+
+    try {
+      setLastSavedAt(SessionService.saveProgress(session, draftRef.current));
+      setHasUnsavedChanges(false);
+      setSaveError(null);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save progress');
+    }
+  }, []);
+
+  /**
+   * Save once changes have settled
+   */
+  const scheduleSave = useCallback(() => {
+    setHasUnsavedChanges(true);
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    saveTimeoutRef.current = setTimeout(saveProgress, AUTOSAVE_DELAY_MS);
+  }, [saveProgress]);
+
+  /**
+   * Freeze the session when time runs out: snapshot the code, save, and
+   * tell listeners (the interview page routes to feedback)
+   */
+  const expireSession = useCallback(() => {
+    const session = activeSessionRef.current;
+    if (!session || session.timedOut || session.endTime) return;
+
+    const expired: Session = SessionService.recordEvent(
+      {
+        ...withSnapshot(session, draftRef.current, questionRef.current),
+        timeRemaining: 0,
+        timedOut: true,
+        finalCode: takeCodeSnapshot(draftRef.current, questionRef.current),
+      },
+      { type: 'timed-out', at: new Date() }
+    );
+
+    setActiveSession(expired);
+    setTimeRemaining(0);
+    setIsRunning(false);
+
+    activeSessionRef.current = expired;
+    saveProgress();
+
+    expiryListenersRef.current.forEach(listener => listener(expired));
+  }, [saveProgress]);
+
+  /**
+   * Subscribe to the timer running out
+   * @returns Unsubscribe function
+   */
+  const onSessionExpired = useCallback((listener: (session: Session) => void) => {
+    const listeners = expiryListenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
   /**
    * Timer logic with drift correction
    * Uses actual elapsed time to prevent drift from setInterval delays
@@ -81,19 +246,27 @@ export function SessionProvider({ children }: SessionProviderProps) {
       
       setTimeRemaining(newTimeRemaining);
 
-      // Update session state
+      // Update session state, logging the time warning once it shows
       setActiveSession(prev => {
         if (!prev) return null;
-        return {
+        const updated = {
           ...prev,
           timeRemaining: newTimeRemaining,
         };
+        const warned = prev.events?.some(event => event.type === 'warning-shown') ?? false;
+        if (newTimeRemaining > 0 && newTimeRemaining <= SessionService.WARNING_SECONDS && !warned && !prev.assessment) {
+          return SessionService.recordEvent(updated, {
+            type: 'warning-shown',
+            at: new Date(now),
+            secondsRemaining: newTimeRemaining,
+          });
+        }
+        return updated;
       });
 
       // Auto-end session when timer reaches zero (Requirement 2.5)
       if (newTimeRemaining === 0) {
-        setIsRunning(false);
-        // Note: Auto-redirect to feedback page should be handled by the interview page component
+        expireSession();
       }
     };
 
@@ -108,13 +281,100 @@ export function SessionProvider({ children }: SessionProviderProps) {
         intervalRef.current = null;
       }
     };
-  }, [isRunning, activeSession]);
+  }, [isRunning, activeSession, expireSession]);
 
   /**
-   * Start a new interview session
-   * Initializes session with 45-minute timer (Requirement 2.1)
+   * Snapshot the editor and notes for the replay while the session is open
+   * Reads the latest draft, so the interval lasts the whole session
    */
-  const startSession = useCallback(async () => {
+  const takeSnapshot = useCallback(() => {
+    const session = activeSessionRef.current;
+    if (!session) return;
+
+    const updated = withSnapshot(session, draftRef.current, questionRef.current);
+    if (updated === session) return;
+
+    const snapshot = updated.snapshots!.slice(-1)[0];
+    setActiveSession(prev => (prev && prev.id === session.id
+      ? { ...prev, snapshots: [...(prev.snapshots ?? []), snapshot] }
+      : prev));
+    scheduleSave();
+  }, [scheduleSave]);
+
+  const snapshotSessionId =
+    activeSession && !activeSession.assessment && !activeSession.timedOut && !activeSession.endTime
+      ? activeSession.id
+      : null;
+
+  useEffect(() => {
+    if (!snapshotSessionId) return;
+
+    const interval = setInterval(takeSnapshot, ReplayService.SNAPSHOT_INTERVAL_SECONDS * 1000);
+    return () => clearInterval(interval);
+  }, [snapshotSessionId, takeSnapshot]);
+
+  // Flush pending changes when the page is hidden or closed
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (saveTimeoutRef.current) {
+        saveProgress();
+      }
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      if (saveTimeoutRef.current) {
+        clearTimeout(saveTimeoutRef.current);
+      }
+    };
+  }, [saveProgress]);
+
+  /**
+   * Restore a saved session for the logged-in user
+   * Sessions past their time limit are held for the recovery prompt instead
+   */
+  useEffect(() => {
+    const restoreSession = () => {
+      if (!user) return;
+      if (activeSessionRef.current) {
+        setRestoredUserId(user.id);
+        return;
+      }
+
+      try {
+        const session = SessionService.getCurrentSession(user.id);
+        if (!session) return;
+
+        if (session.timeRemaining === 0) {
+          setExpiredSession(session);
+          return;
+        }
+
+        const question = SessionService.getQuestion(session.questionId, session.userId);
+        const savedDraft = SessionService.getSavedDraft(user.id);
+
+        setActiveSession(session);
+        setCurrentQuestion(question);
+        setDraft(savedDraft ?? createDraft(session.id));
+        setTimeRemaining(session.timeRemaining);
+        setIsRunning(!SessionService.isPaused(session) && session.mode !== 'practice' && !session.endTime);
+      } catch (err) {
+        console.error('Failed to restore session:', err);
+      } finally {
+        setRestoredUserId(user.id);
+      }
+    };
+
+    restoreSession();
+  }, [user]);
+
+  /**
+   * Make a session active and save it
+   * Initializes the timer from the session's duration, 45 minutes by default (Requirement 2.1);
+   * practice sessions are untimed, so their timer never starts
+   */
+  const launchSession = useCallback(async (create: (user: User) => Session) => {
     if (!user) {
       const errorMessage = 'No user logged in';
       setError(errorMessage);
@@ -125,21 +385,88 @@ export function SessionProvider({ children }: SessionProviderProps) {
 
     try {
       // Start session through service
-      const session = SessionService.startSession(user.id, user.plan);
+      const session = create(user);
       
-      // Get the question for this session
-      const question = SessionService.getRandomQuestion(user.plan, []);
+      // Load the question that was drawn for this session
+      const question = SessionService.getQuestion(session.questionId, session.userId);
+      const newDraft = createDraft(session.id);
       
       setActiveSession(session);
       setCurrentQuestion(question);
+      setDraft(newDraft);
       setTimeRemaining(session.timeRemaining);
-      setIsRunning(true);
+      setIsRunning(session.mode !== 'practice');
+
+      // Save straight away so a reload right after starting can resume
+      activeSessionRef.current = session;
+      draftRef.current = newDraft;
+      saveProgress();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to start session';
       setError(errorMessage);
       throw err;
     }
-  }, [user]);
+  }, [user, saveProgress]);
+
+  /**
+   * Start a new interview session from a setup, or on a shared draw's question
+   */
+  const startSession = useCallback((config?: SessionConfig, draw?: QuestionDraw) => {
+    return launchSession(user => draw
+      ? SessionService.startSessionFromDraw(user.id, user.plan, draw)
+      : SessionService.startSession(user.id, user.plan, config));
+  }, [launchSession]);
+
+  /**
+   * Start a session on the next question of a study track
+   */
+  const startTrackSession = useCallback((trackId: string) => {
+    return launchSession(user => SessionService.startTrackSession(user.id, user.plan, trackId));
+  }, [launchSession]);
+
+  /**
+   * Start a session on a question picked from the catalog
+   */
+  const startQuestionSession = useCallback((questionId: string) => {
+    return launchSession(user => SessionService.startQuestionSession(user.id, user.plan, questionId));
+  }, [launchSession]);
+
+  /**
+   * Start a session on the next round of an interview loop
+   */
+  const startLoopRound = useCallback((loopId: string) => {
+    return launchSession(user => SessionService.startLoopRound(user.id, user.plan, loopId));
+  }, [launchSession]);
+
+  /**
+   * Start a timed online assessment
+   */
+  const startAssessment = useCallback((problemCount: number, durationMinutes: AssessmentDurationMinutes) => {
+    return launchSession(user => SessionService.startAssessment(user.id, user.plan, problemCount, durationMinutes));
+  }, [launchSession]);
+
+  /**
+   * Stop the timer when the user ends the session, so time spent giving
+   * feedback is not counted and the session cannot time out meanwhile
+   */
+  const finishSession = useCallback(() => {
+    const session = activeSessionRef.current;
+    if (!session) return;
+
+    setError(null);
+
+    try {
+      const finished = SessionService.finishSession(withSnapshot(session, draftRef.current, questionRef.current));
+      setActiveSession(finished);
+      setIsRunning(false);
+
+      activeSessionRef.current = finished;
+      saveProgress();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to finish session';
+      setError(errorMessage);
+    }
+  }, [saveProgress]);
 
   /**
    * End the active session with feedback
@@ -155,16 +482,26 @@ export function SessionProvider({ children }: SessionProviderProps) {
     setError(null);
 
     try {
-      // Stop the timer
+      // Stop the timer and any pending save
       setIsRunning(false);
+      if (saveTimeoutRef.current) {
+        clearTimeout(saveTimeoutRef.current);
+        saveTimeoutRef.current = null;
+      }
 
-      // End session through service
-      const completedSession = SessionService.endSession(activeSession, feedback);
+      // End session through service, with the last edits in its replay
+      const completedSession = SessionService.endSession(
+        withSnapshot(activeSession, draftRef.current, questionRef.current),
+        feedback
+      );
 
       // Clear active session state
       setActiveSession(null);
       setCurrentQuestion(null);
+      setDraft(null);
       setTimeRemaining(0);
+      setLastSavedAt(null);
+      setHasUnsavedChanges(false);
 
       return completedSession;
     } catch (err) {
@@ -175,7 +512,45 @@ export function SessionProvider({ children }: SessionProviderProps) {
   }, [activeSession]);
 
   /**
-   * Update session properties (e.g., pressure mode, hint revealed)
+   * Grade and save the active online assessment
+   */
+  const endAssessment = useCallback(async (): Promise<AssessmentResult> => {
+    if (!activeSession) {
+      const errorMessage = 'No active session to end';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    setError(null);
+
+    try {
+      // Stop the timer and any pending save
+      setIsRunning(false);
+      if (saveTimeoutRef.current) {
+        clearTimeout(saveTimeoutRef.current);
+        saveTimeoutRef.current = null;
+      }
+
+      const result = SessionService.endAssessment(activeSession);
+
+      // Clear active session state
+      setActiveSession(null);
+      setCurrentQuestion(null);
+      setDraft(null);
+      setTimeRemaining(0);
+      setLastSavedAt(null);
+      setHasUnsavedChanges(false);
+
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to end assessment';
+      setError(errorMessage);
+      throw err;
+    }
+  }, [activeSession]);
+
+  /**
+   * Update session properties (e.g., pressure mode, test pass rate)
    */
   const updateSession = useCallback((updates: Partial<Session>) => {
     setActiveSession(prev => {
@@ -185,7 +560,175 @@ export function SessionProvider({ children }: SessionProviderProps) {
         ...updates,
       };
     });
-  }, []);
+    scheduleSave();
+  }, [scheduleSave]);
+
+  /**
+   * Add an event from the workspace (language switches, code runs, pressure popups) to the session's timeline
+   */
+  const recordEvent = useCallback((event: SessionEvent) => {
+    setActiveSession(prev => (prev ? SessionService.recordEvent(prev, event) : null));
+    scheduleSave();
+  }, [scheduleSave]);
+
+  /**
+   * Update the editor and notes drafts for the active session
+   */
+  const updateDraft = useCallback((updates: Partial<Omit<SessionDraft, 'sessionId'>>) => {
+    setDraft(prev => {
+      if (!prev) return null;
+      return {
+        ...prev,
+        ...updates,
+        // Code arrives one language at a time
+        code: { ...prev.code, ...updates.code },
+      };
+    });
+    scheduleSave();
+  }, [scheduleSave]);
+
+  /**
+   * Record an online assessment submission's hidden test results, saving straight away
+   * Reads the latest session since tests finish after the render that started them
+   */
+  const submitAssessmentProblem = useCallback((questionId: string, result: CodeRunResult) => {
+    const session = activeSessionRef.current;
+    if (!session) return;
+
+    setError(null);
+
+    try {
+      const updated = SessionService.recordAssessmentSubmission(session, questionId, result);
+      setActiveSession(updated);
+
+      activeSessionRef.current = updated;
+      saveProgress();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to record submission';
+      setError(errorMessage);
+    }
+  }, [saveProgress]);
+
+  /**
+   * Show the next hint for the active question
+   */
+  const revealHint = useCallback(() => {
+    if (!activeSession) return;
+
+    setError(null);
+
+    try {
+      setActiveSession(SessionService.revealHint(activeSession));
+      scheduleSave();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to show hint';
+      setError(errorMessage);
+    }
+  }, [activeSession, scheduleSave]);
+
+  /**
+   * Pause the timer for a real-world interruption, within the plan's pause allowance
+   */
+  const pauseSession = useCallback(() => {
+    if (!activeSession || !user) return;
+
+    setError(null);
+
+    try {
+      const paused = SessionService.pauseSession(activeSession, user.plan);
+      setActiveSession(paused);
+      setIsRunning(false);
+
+      // Save now so a reload while paused does not count the time away
+      activeSessionRef.current = paused;
+      saveProgress();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to pause session';
+      setError(errorMessage);
+    }
+  }, [activeSession, user, saveProgress]);
+
+  /**
+   * Resume a paused session's timer
+   * Time paused past the plan's limit comes off the clock, and can run it out
+   */
+  const resumeSession = useCallback(() => {
+    if (!activeSession || !user) return;
+
+    setError(null);
+
+    try {
+      const resumed = SessionService.resumeSession(activeSession, user.plan);
+      setActiveSession(resumed);
+      setTimeRemaining(resumed.timeRemaining);
+      setIsRunning(resumed.timeRemaining > 0);
+
+      activeSessionRef.current = resumed;
+      if (resumed.timeRemaining === 0) {
+        expireSession();
+      } else {
+        saveProgress();
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to resume session';
+      setError(errorMessage);
+    }
+  }, [activeSession, user, saveProgress, expireSession]);
+
+  const isPaused = activeSession !== null && SessionService.isPaused(activeSession);
+  const openPauseStart = isPaused ? activeSession?.pauses?.find(pause => pause.end === null)?.start : undefined;
+
+  // Resume automatically once the plan's pause length runs out
+  useEffect(() => {
+    if (!openPauseStart || !user) return;
+
+    const maxPauseMs = SessionService.PAUSE_POLICIES[user.plan].maxPauseSeconds * 1000;
+    const remainingMs = Math.max(0, openPauseStart.getTime() + maxPauseMs - Date.now());
+    const timeout = setTimeout(resumeSession, remainingMs);
+
+    return () => clearTimeout(timeout);
+  }, [openPauseStart, user, resumeSession]);
+
+  /**
+   * Reopen a session found past its time limit so feedback can be submitted
+   */
+  const recoverExpiredSession = useCallback(() => {
+    if (!expiredSession || !user) return;
+
+    try {
+      const question = SessionService.getQuestion(expiredSession.questionId, expiredSession.userId);
+      const savedDraft = SessionService.getSavedDraft(user.id);
+
+      setActiveSession({
+        ...expiredSession,
+        timedOut: true,
+        finalCode: expiredSession.finalCode ?? takeCodeSnapshot(savedDraft, question),
+      });
+      setCurrentQuestion(question);
+      setDraft(savedDraft ?? createDraft(expiredSession.id));
+      setTimeRemaining(0);
+      setIsRunning(false);
+      setExpiredSession(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to recover session';
+      setError(errorMessage);
+    }
+  }, [expiredSession, user]);
+
+  /**
+   * Drop a session found past its time limit without recording it
+   */
+  const discardExpiredSession = useCallback(() => {
+    if (!expiredSession) return;
+
+    try {
+      SessionService.discardCurrentSession(expiredSession.userId);
+      setExpiredSession(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to discard session';
+      setError(errorMessage);
+    }
+  }, [expiredSession]);
 
   /**
    * Clear error handler
@@ -194,15 +737,42 @@ export function SessionProvider({ children }: SessionProviderProps) {
     setError(null);
   }, []);
 
+  // Look for a saved session before the user can start a new one
+  const loading = user !== null && restoredUserId !== user.id;
+
   const value: SessionContextValue = {
     activeSession,
     currentQuestion,
+    draft,
     timeRemaining,
     isRunning,
+    isPaused,
+    isTimedOut: activeSession?.timedOut ?? false,
+    isFinished: !!activeSession?.endTime,
+    loading,
+    expiredSession,
+    lastSavedAt,
+    hasUnsavedChanges,
+    saveError,
     error,
     startSession,
+    startTrackSession,
+    startQuestionSession,
+    startLoopRound,
+    startAssessment,
+    submitAssessmentProblem,
+    finishSession,
     endSession,
+    endAssessment,
     updateSession,
+    updateDraft,
+    recordEvent,
+    revealHint,
+    pauseSession,
+    resumeSession,
+    onSessionExpired,
+    recoverExpiredSession,
+    discardExpiredSession,
     clearError,
   };
 
@@ -45,6 +45,11 @@ describe('SessionContext', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     jest.useFakeTimers();
+
+    // Event logging only appends to the session, so use the real one
+    (SessionService.recordEvent as jest.Mock).mockImplementation(
+      jest.requireActual('@/services/SessionService').SessionService.recordEvent
+    );
   });
 
   afterEach(() => {
@@ -77,12 +82,13 @@ describe('SessionContext', () => {
         difficulty: 'medium' as const,
         category: 'arrays' as const,
         statement: 'Test statement',
-        hint: 'Test hint',
+        hints: ['Test hint'],
+        starterCode: {},
         planRequired: 'basic' as Plan,
       };
 
       (SessionService.startSession as jest.Mock).mockReturnValue(mockSession);
-      (SessionService.getRandomQuestion as jest.Mock).mockReturnValue(mockQuestion);
+      (SessionService.getQuestion as jest.Mock).mockReturnValue(mockQuestion);
 
       const { result } = renderHook(() => useSession(), { wrapper });
 
@@ -92,6 +98,7 @@ describe('SessionContext', () => {
 
       expect(result.current.activeSession).toEqual(mockSession);
       expect(result.current.currentQuestion).toEqual(mockQuestion);
+      expect(SessionService.getQuestion).toHaveBeenCalledWith('q1', mockSession.userId);
       expect(result.current.timeRemaining).toBe(2700);
       expect(result.current.isRunning).toBe(true);
     });
@@ -116,12 +123,13 @@ describe('SessionContext', () => {
         difficulty: 'medium' as const,
         category: 'arrays' as const,
         statement: 'Test statement',
-        hint: 'Test hint',
+        hints: ['Test hint'],
+        starterCode: {},
         planRequired: 'basic' as Plan,
       };
 
       (SessionService.startSession as jest.Mock).mockReturnValue(mockSession);
-      (SessionService.getRandomQuestion as jest.Mock).mockReturnValue(mockQuestion);
+      (SessionService.getQuestion as jest.Mock).mockReturnValue(mockQuestion);
 
       const { result } = renderHook(() => useSession(), { wrapper });
 
@@ -168,12 +176,13 @@ describe('SessionContext', () => {
         difficulty: 'medium' as const,
         category: 'arrays' as const,
         statement: 'Test statement',
-        hint: 'Test hint',
+        hints: ['Test hint'],
+        starterCode: { javascript: 'function solve() {}' },
         planRequired: 'basic' as Plan,
       };
 
       (SessionService.startSession as jest.Mock).mockReturnValue(mockSession);
-      (SessionService.getRandomQuestion as jest.Mock).mockReturnValue(mockQuestion);
+      (SessionService.getQuestion as jest.Mock).mockReturnValue(mockQuestion);
 
       const { result } = renderHook(() => useSession(), { wrapper });
 
@@ -193,6 +202,55 @@ describe('SessionContext', () => {
         expect(result.current.isRunning).toBe(false);
       });
     });
+
+    it('should freeze the session and notify expiry listeners at zero', async () => {
+      const mockSession = {
+        id: 'session-1',
+        userId: 'test-user-id',
+        questionId: 'q1',
+        startTime: new Date(),
+        endTime: null,
+        timeRemaining: 2,
+        pressureModeEnabled: false,
+        hintRevealed: false,
+      };
+
+      (SessionService.startSession as jest.Mock).mockReturnValue(mockSession);
+      (SessionService.getQuestion as jest.Mock).mockReturnValue({
+        id: 'q1',
+        starterCode: { javascript: 'function solve() {}' },
+      });
+
+      const listener = jest.fn();
+      const { result } = renderHook(() => useSession(), { wrapper });
+
+      await act(async () => {
+        await result.current.startSession();
+      });
+
+      act(() => {
+        result.current.onSessionExpired(listener);
+        result.current.updateDraft({ code: { javascript: 'function solve() { return 1; }' } });
+      });
+
+      act(() => {
+        jest.advanceTimersByTime(3000);
+      });
+
+      const expected = {
+        timeRemaining: 0,
+        timedOut: true,
+        finalCode: { language: 'javascript', code: 'function solve() { return 1; }' },
+      };
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining(expected));
+      expect(result.current.activeSession).toEqual(expect.objectContaining(expected));
+      expect(result.current.isTimedOut).toBe(true);
+      expect(SessionService.saveProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining(expected),
+        expect.anything()
+      );
+    });
   });
 
   describe('endSession', () => {
@@ -214,7 +272,8 @@ describe('SessionContext', () => {
         difficulty: 'medium' as const,
         category: 'arrays' as const,
         statement: 'Test statement',
-        hint: 'Test hint',
+        hints: ['Test hint'],
+        starterCode: {},
         planRequired: 'basic' as Plan,
       };
 
@@ -235,7 +294,7 @@ describe('SessionContext', () => {
       };
 
       (SessionService.startSession as jest.Mock).mockReturnValue(mockSession);
-      (SessionService.getRandomQuestion as jest.Mock).mockReturnValue(mockQuestion);
+      (SessionService.getQuestion as jest.Mock).mockReturnValue(mockQuestion);
       (SessionService.endSession as jest.Mock).mockReturnValue(mockCompletedSession);
 
       const { result } = renderHook(() => useSession(), { wrapper });
@@ -262,6 +321,51 @@ describe('SessionContext', () => {
       expect(result.current.isRunning).toBe(false);
     });
 
+    it('should stop the timer when the session is finished, before feedback', async () => {
+      const mockSession = {
+        id: 'session-1',
+        userId: 'test-user-id',
+        questionId: 'q1',
+        startTime: new Date(),
+        endTime: null,
+        timeRemaining: 2,
+        pressureModeEnabled: false,
+        hintRevealed: false,
+      };
+
+      (SessionService.startSession as jest.Mock).mockReturnValue(mockSession);
+      (SessionService.getQuestion as jest.Mock).mockReturnValue({ id: 'q1', starterCode: {} });
+      (SessionService.finishSession as jest.Mock).mockImplementation(
+        jest.requireActual('@/services/SessionService').SessionService.finishSession
+      );
+
+      const listener = jest.fn();
+      const { result } = renderHook(() => useSession(), { wrapper });
+
+      await act(async () => {
+        await result.current.startSession();
+      });
+
+      act(() => {
+        result.current.onSessionExpired(listener);
+        result.current.finishSession();
+      });
+
+      act(() => {
+        jest.advanceTimersByTime(3000);
+      });
+
+      expect(result.current.isFinished).toBe(true);
+      expect(result.current.isRunning).toBe(false);
+      expect(result.current.isTimedOut).toBe(false);
+      expect(result.current.timeRemaining).toBe(2);
+      expect(listener).not.toHaveBeenCalled();
+      expect(SessionService.saveProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ endTime: expect.any(Date) }),
+        expect.anything()
+      );
+    });
+
     it('should throw error when no active session', async () => {
       const { result } = renderHook(() => useSession(), { wrapper });
 
@@ -302,12 +406,13 @@ describe('SessionContext', () => {
         difficulty: 'medium' as const,
         category: 'arrays' as const,
         statement: 'Test statement',
-        hint: 'Test hint',
+        hints: ['Test hint'],
+        starterCode: {},
         planRequired: 'basic' as Plan,
       };
 
       (SessionService.startSession as jest.Mock).mockReturnValue(mockSession);
-      (SessionService.getRandomQuestion as jest.Mock).mockReturnValue(mockQuestion);
+      (SessionService.getQuestion as jest.Mock).mockReturnValue(mockQuestion);
 
       const { result } = renderHook(() => useSession(), { wrapper });
 
@@ -329,6 +434,258 @@ describe('SessionContext', () => {
     });
   });
 
+  describe('autosave', () => {
+    const mockSession = {
+      id: 'session-1',
+      userId: 'test-user-id',
+      questionId: 'q1',
+      startTime: new Date(),
+      endTime: null,
+      timeRemaining: 2700,
+      pressureModeEnabled: false,
+      hintRevealed: false,
+    };
+
+    it('should save as soon as a session starts', async () => {
+      const savedAt = new Date();
+      (SessionService.startSession as jest.Mock).mockReturnValue(mockSession);
+      (SessionService.saveProgress as jest.Mock).mockReturnValue(savedAt);
+
+      const { result } = renderHook(() => useSession(), { wrapper });
+
+      await act(async () => {
+        await result.current.startSession();
+      });
+
+      expect(SessionService.saveProgress).toHaveBeenCalledWith(
+        mockSession,
+        expect.objectContaining({ sessionId: 'session-1', notes: '' })
+      );
+      expect(result.current.lastSavedAt).toBe(savedAt);
+      expect(result.current.hasUnsavedChanges).toBe(false);
+    });
+
+    it('should save draft changes once they settle', async () => {
+      (SessionService.startSession as jest.Mock).mockReturnValue(mockSession);
+      (SessionService.saveProgress as jest.Mock).mockReturnValue(new Date());
+
+      const { result } = renderHook(() => useSession(), { wrapper });
+
+      await act(async () => {
+        await result.current.startSession();
+      });
+      (SessionService.saveProgress as jest.Mock).mockClear();
+
+      act(() => {
+        result.current.updateDraft({ notes: 'Use a hash map' });
+        result.current.updateDraft({ code: { javascript: 'function twoSum() {}' } });
+      });
+
+      expect(result.current.hasUnsavedChanges).toBe(true);
+      expect(SessionService.saveProgress).not.toHaveBeenCalled();
+
+      act(() => {
+        jest.advanceTimersByTime(1000);
+      });
+
+      expect(SessionService.saveProgress).toHaveBeenCalledTimes(1);
+      expect(SessionService.saveProgress).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'session-1' }),
+        expect.objectContaining({
+          notes: 'Use a hash map',
+          code: { javascript: 'function twoSum() {}' },
+        })
+      );
+      expect(result.current.hasUnsavedChanges).toBe(false);
+    });
+
+    it('should surface save failures', async () => {
+      (SessionService.startSession as jest.Mock).mockReturnValue(mockSession);
+      (SessionService.saveProgress as jest.Mock).mockImplementation(() => {
+        throw new Error('Storage quota exceeded. Please clear old data.');
+      });
+
+      const { result } = renderHook(() => useSession(), { wrapper });
+
+      await act(async () => {
+        await result.current.startSession();
+      });
+
+      expect(result.current.saveError).toBe('Storage quota exceeded. Please clear old data.');
+      expect(result.current.activeSession).toEqual(mockSession);
+    });
+  });
+
+  describe('pause and resume', () => {
+    it('should stop the timer while paused and restart it on resume', async () => {
+      const mockSession = {
+        id: 'session-1',
+        userId: 'test-user-id',
+        questionId: 'q1',
+        startTime: new Date(),
+        endTime: null,
+        timeRemaining: 2700,
+        pressureModeEnabled: false,
+        hintRevealed: false,
+      };
+      const pausedSession = { ...mockSession, pauses: [{ start: new Date(), end: null }] };
+      const resumedSession = { ...mockSession, pauses: [{ start: new Date(), end: new Date() }] };
+
+      (SessionService.startSession as jest.Mock).mockReturnValue(mockSession);
+      (SessionService.pauseSession as jest.Mock).mockReturnValue(pausedSession);
+      (SessionService.resumeSession as jest.Mock).mockReturnValue(resumedSession);
+      (SessionService.isPaused as jest.Mock).mockImplementation(
+        session => session.pauses?.some((pause: { end: Date | null }) => pause.end === null) ?? false
+      );
+      (SessionService as unknown as { PAUSE_POLICIES: unknown }).PAUSE_POLICIES = {
+        premium: { maxPauses: 2, maxPauseSeconds: 600, allowedInPressureMode: false },
+      };
+
+      const { result } = renderHook(() => useSession(), { wrapper });
+
+      await act(async () => {
+        await result.current.startSession();
+      });
+
+      act(() => {
+        result.current.pauseSession();
+      });
+
+      expect(SessionService.pauseSession).toHaveBeenCalledWith(mockSession, 'premium');
+      expect(result.current.isPaused).toBe(true);
+      expect(result.current.isRunning).toBe(false);
+
+      act(() => {
+        jest.advanceTimersByTime(5000);
+      });
+
+      expect(result.current.timeRemaining).toBe(2700);
+
+      act(() => {
+        result.current.resumeSession();
+      });
+
+      expect(SessionService.resumeSession).toHaveBeenCalledWith(pausedSession, 'premium');
+      expect(result.current.isPaused).toBe(false);
+      expect(result.current.isRunning).toBe(true);
+    });
+
+    it('should surface pause errors', async () => {
+      const mockSession = {
+        id: 'session-1',
+        userId: 'test-user-id',
+        questionId: 'q1',
+        startTime: new Date(),
+        endTime: null,
+        timeRemaining: 2700,
+        pressureModeEnabled: true,
+        hintRevealed: false,
+      };
+
+      (SessionService.startSession as jest.Mock).mockReturnValue(mockSession);
+      (SessionService.pauseSession as jest.Mock).mockImplementation(() => {
+        throw new Error('Sessions cannot be paused in pressure mode');
+      });
+
+      const { result } = renderHook(() => useSession(), { wrapper });
+
+      await act(async () => {
+        await result.current.startSession();
+      });
+
+      act(() => {
+        result.current.pauseSession();
+      });
+
+      expect(result.current.error).toBe('Sessions cannot be paused in pressure mode');
+      expect(result.current.isRunning).toBe(true);
+    });
+  });
+
+  describe('restore', () => {
+    const savedSession = {
+      id: 'session-1',
+      userId: 'test-user-id',
+      questionId: 'q1',
+      startTime: new Date(),
+      endTime: null,
+      timeRemaining: 1200,
+      pressureModeEnabled: true,
+      hintRevealed: false,
+    };
+
+    const savedDraft = {
+      sessionId: 'session-1',
+      language: 'python' as const,
+      code: { python: 'def two_sum(nums, target):' },
+      notes: 'Saved notes',
+      approach: '',
+    };
+
+    it('should restore a saved session with its remaining time and drafts', async () => {
+      (SessionService.getCurrentSession as jest.Mock).mockReturnValue(savedSession);
+      (SessionService.getSavedDraft as jest.Mock).mockReturnValue(savedDraft);
+
+      const { result } = renderHook(() => useSession(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      expect(SessionService.getCurrentSession).toHaveBeenCalledWith('test-user-id');
+      expect(result.current.activeSession).toEqual(savedSession);
+      expect(result.current.draft).toEqual(savedDraft);
+      expect(result.current.timeRemaining).toBe(1200);
+      expect(result.current.isRunning).toBe(true);
+      expect(result.current.expiredSession).toBeNull();
+    });
+
+    it('should hold a session past its time limit for recovery', async () => {
+      const expired = { ...savedSession, timeRemaining: 0 };
+      (SessionService.getCurrentSession as jest.Mock).mockReturnValue(expired);
+      (SessionService.getSavedDraft as jest.Mock).mockReturnValue(savedDraft);
+
+      const { result } = renderHook(() => useSession(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      expect(result.current.activeSession).toBeNull();
+      expect(result.current.expiredSession).toEqual(expired);
+
+      act(() => {
+        result.current.recoverExpiredSession();
+      });
+
+      expect(result.current.activeSession).toEqual({
+        ...expired,
+        timedOut: true,
+        finalCode: { language: 'python', code: 'def two_sum(nums, target):' },
+      });
+      expect(result.current.draft).toEqual(savedDraft);
+      expect(result.current.isRunning).toBe(false);
+      expect(result.current.expiredSession).toBeNull();
+    });
+
+    it('should discard a session past its time limit', async () => {
+      (SessionService.getCurrentSession as jest.Mock).mockReturnValue({ ...savedSession, timeRemaining: 0 });
+
+      const { result } = renderHook(() => useSession(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.expiredSession).not.toBeNull();
+      });
+
+      act(() => {
+        result.current.discardExpiredSession();
+      });
+
+      expect(SessionService.discardCurrentSession).toHaveBeenCalledWith('test-user-id');
+      expect(result.current.expiredSession).toBeNull();
+    });
+  });
+
   describe('clearError', () => {
     it('should clear error state', () => {
       const { result } = renderHook(() => useSession(), { wrapper });
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for the code runner test harness
+ */
+
+import {
+  transpile,
+  buildTree,
+  serializeTree,
+  buildGraph,
+  serializeGraph,
+  resultsMatch,
+  loadEntryPoints,
+  runTestCase,
+  summarizeRun,
+} from '../codeRunner';
+import { questionBank } from '../questions';
+import { LanguageId, Question } from '@/types';
+
+describe('Code Runner Harness', () => {
+  describe('transpile', () => {
+    it('should strip TypeScript type annotations', () => {
+      const source = transpile('function add(a: number, b: number): number { return a + b; }', 'typescript');
+      const [add] = loadEntryPoints(source, { entryPoint: 'add' });
+
+      expect(add(2, 3)).toBe(5);
+    });
+
+    it('should leave JavaScript unchanged', () => {
+      const code = 'function add(a, b) { return a + b; }';
+      expect(transpile(code, 'javascript')).toBe(code);
+    });
+
+    it('should throw on TypeScript that does not parse', () => {
+      expect(() => transpile('function (', 'typescript')).toThrow();
+    });
+  });
+
+  describe('trees', () => {
+    it('should round-trip level-order arrays with gaps', () => {
+      const values = [6, 2, 8, 0, 4, 7, 9, null, null, 3, 5];
+      expect(serializeTree(buildTree(values))).toEqual(values);
+    });
+
+    it('should treat an empty array as an empty tree', () => {
+      expect(buildTree([])).toBeNull();
+      expect(serializeTree(null)).toEqual([]);
+    });
+  });
+
+  describe('graphs', () => {
+    it('should round-trip 1-indexed adjacency lists', () => {
+      const adjacency = [[2, 4], [1, 3], [2, 4], [1, 3]];
+      expect(serializeGraph(buildGraph(adjacency))).toEqual(adjacency);
+    });
+
+    it('should treat an empty list as an empty graph', () => {
+      expect(buildGraph([])).toBeNull();
+      expect(serializeGraph(null)).toEqual([]);
+    });
+  });
+
+  describe('resultsMatch', () => {
+    it('should compare nested values structurally', () => {
+      expect(resultsMatch([0, 1], [0, 1])).toBe(true);
+      expect(resultsMatch([1, 0], [0, 1])).toBe(false);
+      expect(resultsMatch(undefined, 0)).toBe(false);
+    });
+
+    it('should ignore order at every level when unordered', () => {
+      expect(resultsMatch([['tea', 'eat'], ['bat']], [['bat'], ['eat', 'tea']], true)).toBe(true);
+      expect(resultsMatch([['tea'], ['bat']], [['bat'], ['eat', 'tea']], true)).toBe(false);
+    });
+  });
+
+  describe('loadEntryPoints', () => {
+    it('should report missing entry points by name', () => {
+      expect(() => loadEntryPoints('function foo() {}', { entryPoint: ['encode', 'decode'] }))
+        .toThrow('Define a function named encode and decode');
+    });
+
+    it('should refuse entry point names that are not identifiers', () => {
+      expect(() => loadEntryPoints('function foo() {}', { entryPoint: ['foo', 'foo; globalThis.x = 1'] }))
+        .toThrow("Invalid entry point name 'foo; globalThis.x = 1'");
+    });
+  });
+
+  describe('runTestCase', () => {
+    const runner = { entryPoint: 'solve' };
+
+    it('should pass when the result matches', () => {
+      const functions = loadEntryPoints('function solve(a, b) { return a + b; }', runner);
+      const result = runTestCase(functions, runner, { args: [1, 2], expected: 3 }, 0);
+
+      expect(result.passed).toBe(true);
+      expect(result.index).toBe(0);
+      expect(result.runtimeMs).toBeGreaterThanOrEqual(0);
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should report thrown errors as failures', () => {
+      const functions = loadEntryPoints('function solve() { throw new RangeError("boom"); }', runner);
+      const result = runTestCase(functions, runner, { args: [], expected: 1 }, 2);
+
+      expect(result.passed).toBe(false);
+      expect(result.index).toBe(2);
+      expect(result.error).toBe('RangeError: boom');
+    });
+
+    it('should not let one case mutate the arguments of the next', () => {
+      const functions = loadEntryPoints('function solve(nums) { nums.push(0); return nums.length; }', runner);
+      const testCase = { args: [[1, 2]], expected: 3 };
+
+      expect(runTestCase(functions, runner, testCase, 0).passed).toBe(true);
+      expect(runTestCase(functions, runner, testCase, 1).passed).toBe(true);
+    });
+  });
+
+  describe('summarizeRun', () => {
+    it('should compute the pass rate over all test cases', () => {
+      const summary = summarizeRun('javascript', [
+        { index: 0, passed: true, runtimeMs: 1 },
+        { index: 1, passed: false, runtimeMs: 1 },
+      ], 4);
+
+      expect(summary.passedCount).toBe(1);
+      expect(summary.totalCount).toBe(4);
+      expect(summary.passRate).toBe(0.25);
+      expect(summary.timedOut).toBe(false);
+      expect(summary.error).toBeUndefined();
+    });
+  });
+
+  describe('reference solutions', () => {
+    const runnable = questionBank.filter(
+      (q): q is Question & { runner: NonNullable<Question['runner']> } => q.runner !== undefined
+    );
+
+    it('should define a runner for every question with test cases', () => {
+      questionBank.forEach(question => {
+        expect(question.runner !== undefined).toBe(question.testCases.length > 0);
+      });
+    });
+
+    (['javascript', 'typescript'] as LanguageId[]).forEach(language => {
+      it(`should define the entry points in the ${language} starter code`, () => {
+        runnable.forEach(question => {
+          const starter = question.starterCode[language] ?? '';
+          expect(() => loadEntryPoints(transpile(starter, language), question.runner)).not.toThrow();
+        });
+      });
+
+      it(`should pass every test case with the ${language} reference solution`, () => {
+        runnable.forEach(question => {
+          const code = question.solution.code[language];
+          if (!code) return;
+
+          const functions = loadEntryPoints(transpile(code, language), question.runner);
+          question.testCases.forEach((testCase, index) => {
+            const result = runTestCase(functions, question.runner, testCase, index);
+            expect({ id: question.id, index, passed: result.passed, error: result.error })
+              .toEqual({ id: question.id, index, passed: true, error: undefined });
+          });
+        });
+      });
+    });
+  });
+});
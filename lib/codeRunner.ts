@@ -0,0 +1,275 @@
+/**
+ * Test harness for running candidate code against question test cases
+ * Pure functions shared by the code runner worker and its tests
+ */
+
+import { transform } from 'sucrase';
+import {
+  LanguageId,
+  QuestionRunner,
+  QuestionTestCase,
+  RunnerValueKind,
+  TestCaseResult,
+  CodeRunResult,
+} from '@/types';
+
+export interface TreeNode {
+  val: unknown;
+  left: TreeNode | null;
+  right: TreeNode | null;
+}
+
+export interface GraphNode {
+  val: number;
+  neighbors: GraphNode[];
+}
+
+type CandidateFunction = (...args: unknown[]) => unknown;
+
+/**
+ * Entry points are looked up by name in the candidate's code, so a name must
+ * be a plain JavaScript identifier
+ */
+export const ENTRY_POINT_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Convert candidate source to plain JavaScript
+ * @throws Error with the compiler message if the source does not parse
+ */
+export function transpile(code: string, language: LanguageId): string {
+  if (language === 'typescript') {
+    return transform(code, { transforms: ['typescript'] }).code;
+  }
+  return code;
+}
+
+/**
+ * Build a binary tree from its level-order array form (null for missing nodes)
+ */
+export function buildTree(values: unknown[]): TreeNode | null {
+  if (values.length === 0 || values[0] === null) {
+    return null;
+  }
+
+  const root: TreeNode = { val: values[0], left: null, right: null };
+  const queue: TreeNode[] = [root];
+  let i = 1;
+
+  while (queue.length > 0 && i < values.length) {
+    const node = queue.shift()!;
+
+    if (i < values.length && values[i] !== null) {
+      node.left = { val: values[i], left: null, right: null };
+      queue.push(node.left);
+    }
+    i++;
+
+    if (i < values.length && values[i] !== null) {
+      node.right = { val: values[i], left: null, right: null };
+      queue.push(node.right);
+    }
+    i++;
+  }
+
+  return root;
+}
+
+/**
+ * Serialize a binary tree to level-order form with trailing nulls trimmed
+ */
+export function serializeTree(root: TreeNode | null): unknown[] {
+  const values: unknown[] = [];
+  const queue: (TreeNode | null)[] = [root];
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (node) {
+      values.push(node.val);
+      queue.push(node.left, node.right);
+    } else {
+      values.push(null);
+    }
+  }
+
+  while (values.length > 0 && values[values.length - 1] === null) {
+    values.pop();
+  }
+
+  return values;
+}
+
+/**
+ * Build an undirected graph from a 1-indexed adjacency list and return node 1
+ */
+export function buildGraph(adjacency: number[][]): GraphNode | null {
+  if (adjacency.length === 0) {
+    return null;
+  }
+
+  const nodes = adjacency.map((_, i) => ({ val: i + 1, neighbors: [] as GraphNode[] }));
+  adjacency.forEach((neighbors, i) => {
+    nodes[i].neighbors = neighbors.map(val => nodes[val - 1]);
+  });
+
+  return nodes[0];
+}
+
+/**
+ * Serialize a graph reachable from the given node to a 1-indexed adjacency list
+ */
+export function serializeGraph(node: GraphNode | null): number[][] {
+  if (!node) {
+    return [];
+  }
+
+  const visited = new Map<number, GraphNode>();
+  const stack = [node];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (visited.has(current.val)) continue;
+    visited.set(current.val, current);
+    stack.push(...current.neighbors);
+  }
+
+  const adjacency: number[][] = [];
+  for (let val = 1; val <= visited.size; val++) {
+    adjacency.push((visited.get(val)?.neighbors ?? []).map(neighbor => neighbor.val));
+  }
+  return adjacency;
+}
+
+function toRuntimeValue(value: unknown, kind: RunnerValueKind = 'value'): unknown {
+  switch (kind) {
+    case 'tree':
+      return buildTree(value as unknown[]);
+    case 'graph':
+      return buildGraph(value as number[][]);
+    default:
+      return value;
+  }
+}
+
+function fromRuntimeValue(value: unknown, kind: RunnerValueKind = 'value'): unknown {
+  switch (kind) {
+    case 'tree':
+      return serializeTree((value ?? null) as TreeNode | null);
+    case 'graph':
+      return serializeGraph((value ?? null) as GraphNode | null);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Reduce a value to a canonical JSON form, sorting nested arrays when order
+ * does not matter
+ */
+function canonicalize(value: unknown, unordered: boolean): unknown {
+  if (Array.isArray(value)) {
+    const items = value.map(item => canonicalize(item, unordered));
+    return unordered
+      ? items.sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)))
+      : items;
+  }
+  return value;
+}
+
+/**
+ * Check whether an actual result matches a test case's expected value
+ */
+export function resultsMatch(actual: unknown, expected: unknown, unordered = false): boolean {
+  return (
+    JSON.stringify(canonicalize(actual, unordered)) ===
+    JSON.stringify(canonicalize(expected, unordered))
+  );
+}
+
+/**
+ * Evaluate candidate JavaScript and pick out the entry point functions
+ * @throws Error if the code throws on load or an entry point is missing
+ */
+export function loadEntryPoints(source: string, runner: QuestionRunner): CandidateFunction[] {
+  const names = Array.isArray(runner.entryPoint) ? runner.entryPoint : [runner.entryPoint];
+  const invalid = names.filter(name => !ENTRY_POINT_PATTERN.test(name));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid entry point name ${invalid.map(name => `'${name}'`).join(' and ')}`);
+  }
+
+  const lookups = names.map(name => `typeof ${name} === 'function' ? ${name} : undefined`);
+  const functions = new Function(`${source}\nreturn [${lookups.join(', ')}];`)() as (
+    CandidateFunction | undefined
+  )[];
+
+  const missing = names.filter((_, i) => !functions[i]);
+  if (missing.length > 0) {
+    throw new Error(`Define a function named ${missing.join(' and ')}`);
+  }
+
+  return functions as CandidateFunction[];
+}
+
+/**
+ * Run a single test case against the loaded entry points
+ */
+export function runTestCase(
+  functions: CandidateFunction[],
+  runner: QuestionRunner,
+  testCase: QuestionTestCase,
+  index: number
+): TestCaseResult {
+  // Fresh copy so in-place mutation cannot leak between cases
+  const args = (JSON.parse(JSON.stringify(testCase.args)) as unknown[]).map((arg, i) =>
+    toRuntimeValue(arg, runner.argKinds?.[i])
+  );
+
+  const start = performance.now();
+  try {
+    let result = functions[0](...args);
+    for (const fn of functions.slice(1)) {
+      result = fn(result);
+    }
+    const runtimeMs = performance.now() - start;
+    const actual = fromRuntimeValue(result, runner.returnKind);
+
+    return {
+      index,
+      passed: resultsMatch(actual, testCase.expected, testCase.unordered),
+      runtimeMs,
+    };
+  } catch (error) {
+    return {
+      index,
+      passed: false,
+      runtimeMs: performance.now() - start,
+      error: error instanceof Error ? `${error.name}: ${error.message}` : String(error),
+    };
+  }
+}
+
+/**
+ * Combine per-case results into a run summary
+ */
+export function summarizeRun(
+  language: LanguageId,
+  results: TestCaseResult[],
+  totalCount: number,
+  timedOut = false,
+  error?: string
+): CodeRunResult {
+  const passedCount = results.filter(r => r.passed).length;
+
+  const summary: CodeRunResult = {
+    language,
+    results,
+    passedCount,
+    totalCount,
+    passRate: totalCount > 0 ? passedCount / totalCount : 0,
+    timedOut,
+  };
+
+  if (error !== undefined) {
+    summary.error = error;
+  }
+
+  return summary;
+}
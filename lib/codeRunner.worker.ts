@@ -0,0 +1,40 @@
+/**
+ * Web Worker that runs candidate code against question test cases
+ * Runs off the main thread so the runner can terminate it on time out
+ */
+
+import { transpile, loadEntryPoints, runTestCase } from './codeRunner';
+import { LanguageId, QuestionRunner, QuestionTestCase, TestCaseResult } from '@/types';
+
+export interface CodeRunRequest {
+  code: string;
+  language: LanguageId;
+  runner: QuestionRunner;
+  testCases: QuestionTestCase[];
+}
+
+export type CodeRunMessage =
+  | { type: 'case'; result: TestCaseResult }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
+const post = (message: CodeRunMessage) => self.postMessage(message);
+
+self.addEventListener('message', (event: MessageEvent<CodeRunRequest>) => {
+  const { code, language, runner, testCases } = event.data;
+
+  let functions: ReturnType<typeof loadEntryPoints>;
+  try {
+    functions = loadEntryPoints(transpile(code, language), runner);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+
+  // Report each case as it finishes so results survive a later time out
+  testCases.forEach((testCase, index) => {
+    post({ type: 'case', result: runTestCase(functions, runner, testCase, index) });
+  });
+
+  post({ type: 'done' });
+});
@@ -4,5 +4,12 @@
  */
 
 export * from './questions';
+export * from './languages';
 export * from './mockUsers';
 export * from './demoUsers';
+export * from './random';
+export * from './tracks';
+export * from './patterns';
+export * from './questionFormat';
+export * from './questionQuery';
+export * from './loops';
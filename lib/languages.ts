@@ -0,0 +1,29 @@
+/**
+ * Programming languages offered in the interview workspace
+ */
+
+import { LanguageId } from '@/types';
+
+export interface Language {
+  id: LanguageId;
+  name: string;
+}
+
+/**
+ * Languages in the order they appear in the language selector
+ */
+export const languages: Language[] = [
+  { id: 'javascript', name: 'JavaScript' },
+  { id: 'python', name: 'Python' },
+  { id: 'java', name: 'Java' },
+  { id: 'cpp', name: 'C++' },
+  { id: 'typescript', name: 'TypeScript' },
+  { id: 'go', name: 'Go' },
+];
+
+/**
+ * Get the display name for a language id
+ */
+export function getLanguageName(id: LanguageId): string {
+  return languages.find(lang => lang.id === id)?.name ?? id;
+}
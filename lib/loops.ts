@@ -0,0 +1,61 @@
+/**
+ * Interview loop templates for Interview Buddy Platform
+ * Ordered rounds modelled on onsite loops, each drawing its question from a
+ * category pool with its own time budget and a break before the next round
+ */
+
+import { LoopTemplate, Plan, Question } from '@/types';
+
+const codingCategories: Question['category'][] = ['arrays', 'strings', 'trees', 'graphs', 'dynamic-programming'];
+
+/**
+ * Loop templates, shortest first:
+ * - 1 Premium loop (three coding rounds)
+ * - 1 Pro loop (a full onsite with system design and behavioral rounds)
+ */
+export const loopTemplates: LoopTemplate[] = [
+  {
+    id: 'coding-loop',
+    title: 'Coding Loop',
+    description: 'Three back-to-back coding rounds, from arrays and strings up to dynamic programming.',
+    rounds: [
+      { title: 'Coding 1', categories: ['arrays', 'strings'], durationMinutes: 45, breakMinutes: 10 },
+      { title: 'Coding 2', categories: ['trees', 'graphs'], durationMinutes: 45, breakMinutes: 10 },
+      { title: 'Coding 3', categories: ['dynamic-programming'], durationMinutes: 45, breakMinutes: 0 },
+    ],
+    planRequired: 'premium',
+  },
+  {
+    id: 'onsite-loop',
+    title: 'Onsite Loop',
+    description: 'Two coding rounds, one system design and one behavioral, like a full onsite day.',
+    rounds: [
+      { title: 'Coding 1', categories: codingCategories, durationMinutes: 45, breakMinutes: 10 },
+      { title: 'Coding 2', categories: codingCategories, durationMinutes: 45, breakMinutes: 15 },
+      { title: 'System Design', categories: ['system-design'], durationMinutes: 60, breakMinutes: 10 },
+      { title: 'Behavioral', categories: ['behavioral'], durationMinutes: 30, breakMinutes: 0 },
+    ],
+    planRequired: 'pro',
+  },
+];
+
+/**
+ * Get loop templates available to a specific plan tier
+ */
+export function getLoopTemplatesByPlan(plan: Plan): LoopTemplate[] {
+  if (plan === 'basic') {
+    return loopTemplates.filter(t => t.planRequired === 'basic');
+  } else if (plan === 'premium') {
+    return loopTemplates.filter(t => t.planRequired === 'basic' || t.planRequired === 'premium');
+  } else {
+    // Pro users get all loops
+    return loopTemplates;
+  }
+}
+
+/**
+ * Get a loop template by ID
+ */
+export function getLoopTemplateById(id: string): LoopTemplate | undefined {
+  return loopTemplates.find(t => t.id === id);
+}
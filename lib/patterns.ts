@@ -0,0 +1,44 @@
+/**
+ * Problem patterns used to tag questions in the bank
+ */
+
+import { QuestionPattern } from '@/types';
+
+export interface Pattern {
+  id: QuestionPattern;
+  name: string;
+  description: string;
+}
+
+/**
+ * Patterns in the order they appear in filters
+ */
+export const patterns: Pattern[] = [
+  { id: 'hash-map', name: 'Hash Map', description: 'Constant-time lookups to count, group or find complements' },
+  { id: 'two-pointers', name: 'Two Pointers', description: 'Walk inward or in step over a sequence' },
+  { id: 'sliding-window', name: 'Sliding Window', description: 'Grow and shrink a range while tracking its contents' },
+  { id: 'prefix-sum', name: 'Prefix Sum', description: 'Precompute running totals or products' },
+  { id: 'binary-search', name: 'Binary Search', description: 'Halve a sorted or monotonic search space' },
+  { id: 'sorting', name: 'Sorting', description: 'Order the input first to expose structure' },
+  { id: 'greedy', name: 'Greedy', description: 'Commit to the locally best choice at each step' },
+  { id: 'stack', name: 'Stack', description: 'Match and unwind nested structure' },
+  { id: 'recursion', name: 'Recursion', description: 'Solve a problem through smaller copies of itself' },
+  { id: 'dfs', name: 'DFS', description: 'Explore as deep as possible before backtracking' },
+  { id: 'bfs', name: 'BFS', description: 'Explore level by level with a queue' },
+  { id: 'topological-sort', name: 'Topological Sort', description: 'Order a directed graph by its dependencies' },
+  { id: 'union-find', name: 'Union Find', description: 'Merge and query connected components' },
+  { id: 'memoization', name: 'Memoization', description: 'Cache recursive subproblem results' },
+  { id: 'tabulation', name: 'Tabulation', description: 'Fill a table of subproblems bottom-up' },
+  { id: 'serialization', name: 'Serialization', description: 'Encode structure into a flat format and back' },
+  { id: 'caching', name: 'Caching', description: 'Keep hot data close to avoid repeated work' },
+  { id: 'sharding', name: 'Sharding', description: 'Split data across machines by key' },
+  { id: 'fan-out', name: 'Fan-out', description: 'Distribute writes or reads to many consumers' },
+  { id: 'star-method', name: 'STAR Method', description: 'Situation, task, action, result' },
+];
+
+/**
+ * Get the display name for a pattern id
+ */
+export function getPatternName(id: QuestionPattern): string {
+  return patterns.find(pattern => pattern.id === id)?.name ?? id;
+}
@@ -0,0 +1,842 @@
+/**
+ * Portable question files for Interview Buddy Platform
+ * Questions are exported to and imported from JSON or Markdown with frontmatter,
+ * and every import problem is reported with the line it was found on
+ */
+
+import { Question, QuestionFieldIssue, QuestionFileFormat, QuestionFileIssue } from '@/types';
+import { ENTRY_POINT_PATTERN } from './codeRunner';
+import { languages } from './languages';
+import { patterns } from './patterns';
+
+/**
+ * Value of the `format` field that identifies a JSON question file
+ */
+export const QUESTION_FILE_FORMAT = 'interview-buddy/questions';
+
+export const QUESTION_FILE_VERSION = 1;
+
+export interface ParsedQuestionFile {
+  name: string | null;  // Pack name from a JSON file; Markdown files carry none
+  questions: Question[];  // Only filled when there are no issues
+  idLines: number[];  // Line of each question's id, in question order
+  issues: QuestionFileIssue[];  // Sorted by line
+}
+
+type Report = (path: string, message: string) => void;
+
+const QUESTION_FIELDS = [
+  'id', 'title', 'difficulty', 'category', 'patterns', 'statement', 'hints', 'hint', 'examples',
+  'constraints', 'testCases', 'runner', 'starterCode', 'solution', 'planRequired',
+];
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+const CATEGORIES = ['arrays', 'trees', 'graphs', 'dynamic-programming', 'strings', 'system-design', 'behavioral'];
+const PLANS = ['basic', 'premium', 'pro'];
+const RUNNER_KINDS = ['value', 'tree', 'graph'];
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+// ============================================================================
+// Line-aware JSON parsing
+// ============================================================================
+
+class JsonSyntaxError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+/**
+ * Parse JSON, recording the line each value starts on by its path
+ * (e.g. `questions[2].examples[0].input`)
+ * @throws JsonSyntaxError with the line of the first syntax error
+ */
+function parseJsonWithLines(
+  text: string,
+  rootPath = '',
+  firstLine = 1
+): { value: unknown; lines: Map<string, number> } {
+  const lines = new Map<string, number>();
+  let pos = 0;
+  let line = firstLine;
+
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, line);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) {
+      if (text[pos] === '\n') line++;
+      pos++;
+    }
+  };
+
+  const parseString = (): string => {
+    const start = pos;
+    pos++;
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === '\n') fail('Unterminated string');
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    if (pos >= text.length) fail('Unterminated string');
+    pos++;
+    try {
+      return JSON.parse(text.slice(start, pos));
+    } catch {
+      return fail('Invalid escape sequence in string');
+    }
+  };
+
+  const parseValue = (path: string): unknown => {
+    skipWhitespace();
+    lines.set(path, line);
+
+    const char = text[pos];
+    if (char === undefined) {
+      return fail('Unexpected end of input');
+    }
+
+    if (char === '{') {
+      pos++;
+      const result: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+        return result;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[pos] !== '"') fail('Expected a property name in double quotes');
+        const key = parseString();
+        skipWhitespace();
+        if (text[pos] !== ':') fail(`Expected ':' after "${key}"`);
+        pos++;
+        // defineProperty keeps keys such as __proto__ as plain data
+        Object.defineProperty(result, key, {
+          value: parseValue(path ? `${path}.${key}` : key),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+        } else if (text[pos] === '}') {
+          pos++;
+          return result;
+        } else {
+          fail("Expected ',' or '}' after a property");
+        }
+      }
+    }
+
+    if (char === '[') {
+      pos++;
+      const result: unknown[] = [];
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+        return result;
+      }
+      for (;;) {
+        result.push(parseValue(`${path}[${result.length}]`));
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+        } else if (text[pos] === ']') {
+          pos++;
+          return result;
+        } else {
+          fail("Expected ',' or ']' after an array item");
+        }
+      }
+    }
+
+    if (char === '"') {
+      return parseString();
+    }
+
+    const literal = text.slice(pos).match(/^(true|false|null)/);
+    if (literal) {
+      pos += literal[0].length;
+      return JSON.parse(literal[0]);
+    }
+
+    const number = text.slice(pos).match(/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/);
+    if (number) {
+      pos += number[0].length;
+      return Number(number[0]);
+    }
+
+    return fail(`Unexpected character '${char}'`);
+  };
+
+  const value = parseValue(rootPath);
+  skipWhitespace();
+  if (pos < text.length) {
+    fail('Unexpected content after the end of the JSON value');
+  }
+
+  return { value, lines };
+}
+
+/**
+ * Line of the closest recorded path, walking up from `path` to its parents
+ */
+function lineFor(lines: Map<string, number>, path: string, fallback: number): number {
+  let current = path;
+  for (;;) {
+    const line = lines.get(current);
+    if (line !== undefined) return line;
+    const parent = current.replace(/(\.[^.[\]]+|\[\d+\]|^[^.[\]]+)$/, '');
+    if (current === '' || parent === current) return fallback;
+    current = parent;
+  }
+}
+
+const joinPath = (base: string, path: string) =>
+  !path ? base : !base ? path : path.startsWith('[') ? `${base}${path}` : `${base}.${path}`;
+
+// ============================================================================
+// Schema validation
+// ============================================================================
+
+function checkUnknownFields(value: Record<string, unknown>, allowed: string[], path: string, problem: Report) {
+  Object.keys(value)
+    .filter(key => !allowed.includes(key))
+    .forEach(key => problem(joinPath(path, key), `Unknown field '${joinPath(path, key)}'`));
+}
+
+function checkOneOf(value: unknown, allowed: string[], path: string, problem: Report) {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    problem(path, `${path} must be one of ${allowed.join(', ')}`);
+  }
+}
+
+function checkStringList(value: unknown, path: string, problem: Report, allowed?: string[]) {
+  if (!Array.isArray(value)) {
+    problem(path, `${path} must be a list`);
+    return;
+  }
+  value.forEach((item, index) => {
+    if (allowed) {
+      checkOneOf(item, allowed, `${path}[${index}]`, problem);
+    } else if (!isText(item)) {
+      problem(`${path}[${index}]`, `${path}[${index}] must be a non-empty string`);
+    }
+  });
+}
+
+function checkCode(value: unknown, path: string, problem: Report) {
+  if (!isRecord(value)) {
+    problem(path, `${path} must be an object keyed by language`);
+    return;
+  }
+  Object.entries(value).forEach(([language, code]) => {
+    if (!languages.some(lang => lang.id === language)) {
+      problem(`${path}.${language}`, `${path}.${language} is not a supported language`);
+    } else if (!isText(code)) {
+      problem(`${path}.${language}`, `${path}.${language} must be non-empty code`);
+    }
+  });
+}
+
+/**
+ * Check a parsed value against the `Question` schema; list fields and starter
+ * code may be left out and default to empty
+ * A single `hint` string, as written before hints were a list, reads as one hint
+ * @returns The question, or null when any problem was reported
+ */
+function checkQuestion(raw: unknown, report: Report): Question | null {
+  let valid = true;
+  const problem: Report = (path, message) => {
+    valid = false;
+    report(path, message);
+  };
+
+  if (!isRecord(raw)) {
+    problem('', 'Each question must be an object');
+    return null;
+  }
+
+  checkUnknownFields(raw, QUESTION_FIELDS, '', problem);
+
+  if (typeof raw.id !== 'string' || !ID_PATTERN.test(raw.id)) {
+    problem('id', 'id must use only lowercase letters, digits and hyphens');
+  }
+  if (!isText(raw.title)) problem('title', 'title must be a non-empty string');
+  checkOneOf(raw.difficulty, DIFFICULTIES, 'difficulty', problem);
+  checkOneOf(raw.category, CATEGORIES, 'category', problem);
+  checkOneOf(raw.planRequired, PLANS, 'planRequired', problem);
+  if (raw.patterns !== undefined) checkStringList(raw.patterns, 'patterns', problem, patterns.map(p => p.id));
+  if (!isText(raw.statement)) problem('statement', 'statement must be a non-empty string');
+  if (raw.hints !== undefined) checkStringList(raw.hints, 'hints', problem);
+  if (raw.hint !== undefined) {
+    if (raw.hints !== undefined) problem('hint', 'Use hints or hint, not both');
+    else if (typeof raw.hint !== 'string') problem('hint', 'hint must be a string');
+  }
+  if (raw.constraints !== undefined) checkStringList(raw.constraints, 'constraints', problem);
+
+  if (raw.examples !== undefined) {
+    if (!Array.isArray(raw.examples)) {
+      problem('examples', 'examples must be a list');
+    } else {
+      raw.examples.forEach((example, index) => {
+        const path = `examples[${index}]`;
+        if (!isRecord(example)) {
+          problem(path, `${path} must be an object`);
+          return;
+        }
+        checkUnknownFields(example, ['input', 'output', 'explanation'], path, problem);
+        if (!isText(example.input)) problem(`${path}.input`, `${path}.input must be a non-empty string`);
+        if (!isText(example.output)) problem(`${path}.output`, `${path}.output must be a non-empty string`);
+        if (example.explanation !== undefined && typeof example.explanation !== 'string') {
+          problem(`${path}.explanation`, `${path}.explanation must be a string`);
+        }
+      });
+    }
+  }
+
+  if (raw.testCases !== undefined) {
+    if (!Array.isArray(raw.testCases)) {
+      problem('testCases', 'testCases must be a list');
+    } else {
+      raw.testCases.forEach((testCase, index) => {
+        const path = `testCases[${index}]`;
+        if (!isRecord(testCase)) {
+          problem(path, `${path} must be an object`);
+          return;
+        }
+        checkUnknownFields(testCase, ['args', 'expected', 'unordered'], path, problem);
+        if (!Array.isArray(testCase.args)) problem(`${path}.args`, `${path}.args must be a list of arguments`);
+        if (!('expected' in testCase)) problem(path, `${path} needs an expected value`);
+        if (testCase.unordered !== undefined && typeof testCase.unordered !== 'boolean') {
+          problem(`${path}.unordered`, `${path}.unordered must be true or false`);
+        }
+      });
+    }
+  }
+
+  if (raw.runner !== undefined) {
+    const runner = raw.runner;
+    if (!isRecord(runner)) {
+      problem('runner', 'runner must be an object');
+    } else {
+      checkUnknownFields(runner, ['entryPoint', 'argKinds', 'returnKind'], 'runner', problem);
+      const entryPoint = runner.entryPoint;
+      if (Array.isArray(entryPoint) ? entryPoint.length === 0 || !entryPoint.every(isText) : !isText(entryPoint)) {
+        problem('runner.entryPoint', 'runner.entryPoint must be a function name or a list of them');
+      } else {
+        const names = Array.isArray(entryPoint)
+          ? entryPoint.map((name, index) => ({ name, path: `runner.entryPoint[${index}]` }))
+          : [{ name: entryPoint, path: 'runner.entryPoint' }];
+        names
+          .filter(({ name }) => !ENTRY_POINT_PATTERN.test(name))
+          .forEach(({ name, path }) => problem(path, `${path} '${name}' is not a valid function name`));
+      }
+      if (runner.argKinds !== undefined) checkStringList(runner.argKinds, 'runner.argKinds', problem, RUNNER_KINDS);
+      if (runner.returnKind !== undefined) checkOneOf(runner.returnKind, RUNNER_KINDS, 'runner.returnKind', problem);
+    }
+  }
+
+  if (raw.starterCode !== undefined) checkCode(raw.starterCode, 'starterCode', problem);
+
+  const solution = raw.solution;
+  if (!isRecord(solution)) {
+    problem('solution', 'solution must be an object with an approach');
+  } else {
+    checkUnknownFields(solution, ['approach', 'timeComplexity', 'spaceComplexity', 'code'], 'solution', problem);
+    if (!isText(solution.approach)) problem('solution.approach', 'solution.approach must be a non-empty string');
+    (['timeComplexity', 'spaceComplexity'] as const).forEach(field => {
+      if (solution[field] !== undefined && !isText(solution[field])) {
+        problem(`solution.${field}`, `solution.${field} must be a non-empty string`);
+      }
+    });
+    if (solution.code !== undefined) checkCode(solution.code, 'solution.code', problem);
+  }
+
+  if (!valid || !isRecord(solution)) {
+    return null;
+  }
+
+  const { hint, ...fields } = raw;
+  return {
+    ...fields,
+    patterns: raw.patterns ?? [],
+    hints: raw.hints ?? (isText(hint) ? [hint] : []),
+    examples: raw.examples ?? [],
+    constraints: raw.constraints ?? [],
+    testCases: raw.testCases ?? [],
+    starterCode: raw.starterCode ?? {},
+    solution: { ...solution, code: solution.code ?? {} },
+  } as Question;
+}
+
+/**
+ * Validate every raw question and flag ids used more than once
+ */
+function collectQuestions(
+  entries: { raw: unknown; lineOf: (path: string) => number }[],
+  issues: QuestionFileIssue[]
+): { questions: Question[]; idLines: number[] } {
+  const questions: Question[] = [];
+  const idLines: number[] = [];
+  const seen = new Set<string>();
+
+  entries.forEach(({ raw, lineOf }) => {
+    const question = checkQuestion(raw, (path, message) => issues.push({ line: lineOf(path), message }));
+    if (!question) return;
+
+    if (seen.has(question.id)) {
+      issues.push({ line: lineOf('id'), message: `Duplicate question id '${question.id}'` });
+    }
+    seen.add(question.id);
+    questions.push(question);
+    idLines.push(lineOf('id'));
+  });
+
+  return { questions, idLines };
+}
+
+const toParsedFile = (
+  name: string | null,
+  collected: { questions: Question[]; idLines: number[] },
+  issues: QuestionFileIssue[]
+): ParsedQuestionFile => ({
+  name,
+  questions: issues.length > 0 ? [] : collected.questions,
+  idLines: issues.length > 0 ? [] : collected.idLines,
+  issues: [...issues].sort((a, b) => a.line - b.line),
+});
+
+// ============================================================================
+// JSON format
+// ============================================================================
+
+function parseJsonFile(text: string): ParsedQuestionFile {
+  let parsed: { value: unknown; lines: Map<string, number> };
+  try {
+    parsed = parseJsonWithLines(text);
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) {
+      return toParsedFile(null, { questions: [], idLines: [] }, [{ line: error.line, message: error.message }]);
+    }
+    throw error;
+  }
+
+  const { value, lines } = parsed;
+  const issues: QuestionFileIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ line: lineFor(lines, path, 1), message });
+
+  if (!isRecord(value)) {
+    report('', 'Expected an object with format, version, name and questions');
+    return toParsedFile(null, { questions: [], idLines: [] }, issues);
+  }
+
+  checkUnknownFields(value, ['format', 'version', 'name', 'questions'], '', report);
+  if (value.format !== QUESTION_FILE_FORMAT) report('format', `format must be "${QUESTION_FILE_FORMAT}"`);
+  if (value.version !== QUESTION_FILE_VERSION) report('version', `version must be ${QUESTION_FILE_VERSION}`);
+  if (!isText(value.name)) report('name', 'name must be a non-empty string');
+
+  if (!Array.isArray(value.questions)) {
+    report('questions', 'questions must be a list');
+    return toParsedFile(null, { questions: [], idLines: [] }, issues);
+  }
+
+  const collected = collectQuestions(
+    value.questions.map((raw, index) => ({
+      raw,
+      lineOf: (path: string) => lineFor(lines, joinPath(`questions[${index}]`, path), 1),
+    })),
+    issues
+  );
+
+  return toParsedFile(isText(value.name) ? value.name.trim() : null, collected, issues);
+}
+
+// ============================================================================
+// Markdown format
+// ============================================================================
+
+const FRONTMATTER_FIELDS = [
+  'id', 'title', 'difficulty', 'category', 'patterns', 'planRequired', 'timeComplexity', 'spaceComplexity', 'runner',
+];
+
+const SECTIONS: Record<string, string> = {
+  'Statement': 'statement',
+  'Hints': 'hints',
+  'Hint': 'hint',
+  'Examples': 'examples',
+  'Constraints': 'constraints',
+  'Test Cases': 'testCases',
+  'Starter Code': 'starterCode',
+  'Solution': 'solution',
+};
+
+interface SourceLine {
+  text: string;
+  line: number;
+}
+
+interface Section {
+  name: string;
+  line: number;
+  content: SourceLine[];
+  subsections: { name: string; line: number; content: SourceLine[] }[];
+}
+
+const FENCE_OPEN = /^(`{3,})\s*[\w+-]*\s*$/;
+
+const joinText = (content: SourceLine[]) =>
+  content.map(l => l.text).join('\n').replace(/^\n+|\n+$/g, '');
+
+/**
+ * Encode a frontmatter scalar, quoting it when a plain value would read differently
+ */
+function frontmatterValue(value: string): string {
+  return value === '' || value !== value.trim() || /^["[{]/.test(value) || value.includes('\n')
+    ? JSON.stringify(value)
+    : value;
+}
+
+function fenced(code: string, language: string): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${code}\n${fence}`;
+}
+
+function questionToMarkdown(question: Question): string {
+  const { solution } = question;
+  const frontmatter = [
+    `id: ${question.id}`,
+    `title: ${frontmatterValue(question.title)}`,
+    `difficulty: ${question.difficulty}`,
+    `category: ${question.category}`,
+    `patterns: [${question.patterns.join(', ')}]`,
+    `planRequired: ${question.planRequired}`,
+    ...(solution.timeComplexity !== undefined ? [`timeComplexity: ${frontmatterValue(solution.timeComplexity)}`] : []),
+    ...(solution.spaceComplexity !== undefined ? [`spaceComplexity: ${frontmatterValue(solution.spaceComplexity)}`] : []),
+    ...(question.runner ? [`runner: ${JSON.stringify(question.runner)}`] : []),
+  ];
+
+  const sections = [`## Statement\n\n${question.statement}`];
+  if (question.hints.length > 0) {
+    sections.push(`## Hints\n\n${question.hints.map(h => `- ${h}`).join('\n')}`);
+  }
+  if (question.examples.length > 0) {
+    sections.push(`## Examples\n\n${fenced(JSON.stringify(question.examples, null, 2), 'json')}`);
+  }
+  if (question.constraints.length > 0) {
+    sections.push(`## Constraints\n\n${question.constraints.map(c => `- ${c}`).join('\n')}`);
+  }
+  if (question.testCases.length > 0) {
+    sections.push(`## Test Cases\n\n${fenced(JSON.stringify(question.testCases, null, 2), 'json')}`);
+  }
+  const starter = Object.entries(question.starterCode);
+  if (starter.length > 0) {
+    sections.push(`## Starter Code\n\n${starter.map(([lang, code]) => `### ${lang}\n\n${fenced(code!, lang)}`).join('\n\n')}`);
+  }
+  sections.push([
+    `## Solution\n\n${solution.approach}`,
+    ...Object.entries(solution.code).map(([lang, code]) => `### ${lang}\n\n${fenced(code!, lang)}`),
+  ].join('\n\n'));
+
+  return `---\n${frontmatter.join('\n')}\n---\n\n${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Read a section that holds exactly one fenced code block
+ * @returns The code and the line its first row is on, or null if the content is anything else
+ */
+function readFence(content: SourceLine[]): { code: string; line: number } | null {
+  const filled = content.filter(l => l.text.trim() !== '');
+  if (filled.length < 2) return null;
+
+  const first = content.indexOf(filled[0]);
+  const last = content.indexOf(filled[filled.length - 1]);
+  const open = content[first].text.match(FENCE_OPEN);
+  const body = content.slice(first + 1, last);
+  if (!open || content[last].text.trim() !== open[1] || body.some(l => l.text.trim() === open[1])) {
+    return null;
+  }
+
+  return { code: body.map(l => l.text).join('\n'), line: content[first].line + 1 };
+}
+
+function parseMarkdownQuestion(
+  frontmatter: SourceLine[],
+  body: SourceLine[],
+  openLine: number,
+  issues: QuestionFileIssue[]
+): { raw: unknown; lineOf: (path: string) => number } {
+  const raw: Record<string, unknown> = {};
+  const solution: Record<string, unknown> = {};
+  const lines = new Map<string, number>([['', openLine]]);
+  const report = (line: number, message: string) => issues.push({ line, message });
+
+  frontmatter.forEach(({ text, line }) => {
+    if (text.trim() === '') return;
+
+    const match = text.match(/^([A-Za-z]+):\s*(.*)$/);
+    if (!match) {
+      report(line, "Expected 'field: value' in frontmatter");
+      return;
+    }
+
+    const [, key, value] = match;
+    if (!FRONTMATTER_FIELDS.includes(key)) {
+      report(line, `Unknown field '${key}'`);
+      return;
+    }
+    if (lines.has(key) || lines.has(`solution.${key}`)) {
+      report(line, `Field '${key}' is set more than once`);
+      return;
+    }
+
+    let decoded: unknown = value.trim();
+    if (key === 'runner') {
+      try {
+        const parsed = parseJsonWithLines(value, 'runner', line);
+        decoded = parsed.value;
+        parsed.lines.forEach((l, path) => lines.set(path, l));
+      } catch (error) {
+        if (!(error instanceof JsonSyntaxError)) throw error;
+        report(line, `runner: ${error.message}`);
+        return;
+      }
+    } else if (key === 'patterns') {
+      const list = value.trim().match(/^\[(.*)\]$/);
+      if (!list) {
+        report(line, 'patterns must be a list such as [hash-map, two-pointers]');
+        return;
+      }
+      decoded = list[1].split(',').map(item => item.trim()).filter(item => item !== '');
+    } else if (value.trim().startsWith('"')) {
+      try {
+        decoded = JSON.parse(value.trim());
+      } catch {
+        report(line, `${key} has an unterminated or invalid quoted value`);
+        return;
+      }
+    }
+
+    if (key === 'timeComplexity' || key === 'spaceComplexity') {
+      solution[key] = decoded;
+      lines.set(`solution.${key}`, line);
+    } else {
+      raw[key] = decoded;
+      lines.set(key, line);
+    }
+  });
+
+  // Split the body into ## sections and ### subsections, ignoring headings inside code fences
+  const sections: Section[] = [];
+  let fence: string | null = null;
+  body.forEach(source => {
+    const { text, line } = source;
+    const current = sections[sections.length - 1];
+
+    if (fence === null) {
+      const heading = text.match(/^(#{2,3}) (.+?)\s*$/);
+      if (heading?.[1] === '##') {
+        sections.push({ name: heading[2], line, content: [], subsections: [] });
+        return;
+      }
+      if (heading?.[1] === '###' && current) {
+        current.subsections.push({ name: heading[2], line, content: [] });
+        return;
+      }
+      fence = text.match(FENCE_OPEN)?.[1] ?? null;
+    } else if (text.trim() === fence) {
+      fence = null;
+    }
+
+    if (!current) {
+      if (text.trim() !== '') report(line, "Expected a '## Statement' section after the frontmatter");
+      return;
+    }
+    const target = current.subsections[current.subsections.length - 1]?.content ?? current.content;
+    target.push(source);
+  });
+
+  const readJsonSection = (section: Section, field: string) => {
+    const block = readFence(section.content);
+    if (!block) {
+      report(section.line, `${section.name} must be a single fenced JSON code block`);
+      return;
+    }
+    try {
+      const parsed = parseJsonWithLines(block.code, field, block.line);
+      raw[field] = parsed.value;
+      parsed.lines.forEach((l, path) => lines.set(path, l));
+    } catch (error) {
+      if (!(error instanceof JsonSyntaxError)) throw error;
+      report(error.line, error.message);
+    }
+  };
+
+  const readCodeSubsections = (section: Section, path: string): Record<string, string> => {
+    const code: Record<string, string> = {};
+    section.subsections.forEach(subsection => {
+      const block = readFence(subsection.content);
+      if (!block) {
+        report(subsection.line, `${subsection.name} code must be a single fenced code block`);
+        return;
+      }
+      code[subsection.name] = block.code;
+      lines.set(`${path}.${subsection.name}`, subsection.line);
+    });
+    return code;
+  };
+
+  const seenSections = new Set<string>();
+  sections.forEach(section => {
+    const field = SECTIONS[section.name];
+    if (!field) {
+      report(section.line, `Unknown section '${section.name}'`);
+      return;
+    }
+    if (seenSections.has(field)) {
+      report(section.line, `Section '${section.name}' appears more than once`);
+      return;
+    }
+    seenSections.add(field);
+    lines.set(field, section.line);
+
+    if (field !== 'starterCode' && field !== 'solution' && section.subsections.length > 0) {
+      report(section.subsections[0].line, `${section.name} cannot have subsections`);
+    }
+
+    if (field === 'statement' || field === 'hint') {
+      raw[field] = joinText(section.content);
+    } else if (field === 'examples' || field === 'testCases') {
+      readJsonSection(section, field);
+    } else if (field === 'constraints' || field === 'hints') {
+      const items = section.content.filter(l => l.text.trim() !== '');
+      raw[field] = items.map((item, index) => {
+        lines.set(`${field}[${index}]`, item.line);
+        if (!item.text.startsWith('- ')) report(item.line, `${section.name} must be a bulleted list`);
+        return item.text.replace(/^- /, '');
+      });
+    } else if (field === 'starterCode') {
+      if (joinText(section.content) !== '') report(section.line, 'Starter Code may only hold ### language subsections');
+      raw.starterCode = readCodeSubsections(section, 'starterCode');
+    } else {
+      solution.approach = joinText(section.content);
+      solution.code = readCodeSubsections(section, 'solution.code');
+    }
+  });
+
+  if (seenSections.has('solution') || Object.keys(solution).length > 0) {
+    raw.solution = solution;
+  }
+
+  return { raw, lineOf: (path: string) => lineFor(lines, path, openLine) };
+}
+
+function parseMarkdownFile(text: string): ParsedQuestionFile {
+  const sourceLines: SourceLine[] = text.split(/\r?\n/).map((line, index) => ({ text: line, line: index + 1 }));
+  const issues: QuestionFileIssue[] = [];
+  const entries: { raw: unknown; lineOf: (path: string) => number }[] = [];
+
+  let index = 0;
+  const skipBlank = () => {
+    while (index < sourceLines.length && sourceLines[index].text.trim() === '') index++;
+  };
+
+  skipBlank();
+  while (index < sourceLines.length) {
+    const open = sourceLines[index];
+    if (open.text.trim() !== '---') {
+      issues.push({ line: open.line, message: "Expected '---' to start a question's frontmatter" });
+      break;
+    }
+
+    const close = sourceLines.findIndex((l, i) => i > index && l.text.trim() === '---');
+    if (close === -1) {
+      issues.push({ line: open.line, message: "Frontmatter is not closed with '---'" });
+      break;
+    }
+
+    // The body runs until the next '---' outside a code fence
+    let end = close + 1;
+    let fence: string | null = null;
+    for (; end < sourceLines.length; end++) {
+      const line = sourceLines[end].text;
+      if (fence === null && line.trim() === '---') break;
+      if (fence === null) {
+        fence = line.match(FENCE_OPEN)?.[1] ?? null;
+      } else if (line.trim() === fence) {
+        fence = null;
+      }
+    }
+
+    entries.push(parseMarkdownQuestion(
+      sourceLines.slice(index + 1, close),
+      sourceLines.slice(close + 1, end),
+      open.line,
+      issues
+    ));
+    index = end;
+    skipBlank();
+  }
+
+  if (entries.length === 0 && issues.length === 0) {
+    issues.push({ line: 1, message: 'The file contains no questions' });
+  }
+
+  return toParsedFile(null, collectQuestions(entries, issues), issues);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Write questions to a question file
+ * @param name - Pack name, stored in JSON files; Markdown packs take their name from the file name
+ */
+export function serializeQuestions(questions: Question[], format: QuestionFileFormat, name: string): string {
+  if (format === 'markdown') {
+    return questions.map(questionToMarkdown).join('\n');
+  }
+
+  return `${JSON.stringify({
+    format: QUESTION_FILE_FORMAT,
+    version: QUESTION_FILE_VERSION,
+    name,
+    questions,
+  }, null, 2)}\n`;
+}
+
+/**
+ * Check a single question against the schema question files are held to
+ * @returns The question with empty defaults filled in, or null and every issue by field
+ */
+export function validateQuestion(raw: unknown): { question: Question | null; issues: QuestionFieldIssue[] } {
+  const issues: QuestionFieldIssue[] = [];
+  const question = checkQuestion(raw, (field, message) => issues.push({ field, message }));
+  return { question, issues };
+}
+
+/**
+ * Read and validate a question file
+ * @returns The questions when the file is valid, otherwise every issue found with its line
+ */
+export function parseQuestionFile(text: string, format: QuestionFileFormat): ParsedQuestionFile {
+  return format === 'json' ? parseJsonFile(text) : parseMarkdownFile(text);
+}
+
+/**
+ * Work out a file's format from its extension, falling back to its first character
+ */
+export function detectQuestionFormat(fileName: string, text: string): QuestionFileFormat {
+  if (/\.json$/i.test(fileName)) return 'json';
+  if (/\.(md|markdown)$/i.test(fileName)) return 'markdown';
+  return text.trimStart().startsWith('{') ? 'json' : 'markdown';
+}
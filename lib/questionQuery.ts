@@ -0,0 +1,141 @@
+/**
+ * Question search and filtering for Interview Buddy Platform
+ * Combines the plan, category, pattern and difficulty filters with a user's
+ * attempt history and a ranked full-text search over titles and statements
+ */
+
+import { CompletedSession, DateRange, Question, QuestionAttempts, QuestionQuery } from '@/types';
+import { filterQuestionsByPlan } from './questions';
+
+/**
+ * Lowercase words of a text, split on anything that is not a letter or digit
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word !== '');
+}
+
+function isInRange(date: Date, range: DateRange): boolean {
+  return (range.from === undefined || date.getTime() >= range.from.getTime())
+    && (range.to === undefined || date.getTime() <= range.to.getTime());
+}
+
+/**
+ * Whether a session solved its question: every test passed, or a rating of
+ * 4 or more when code was never run (behavioral and system-design answers)
+ */
+export function isSolvedSession(session: CompletedSession): boolean {
+  return session.testPassRate !== undefined ? session.testPassRate === 1 : session.rating >= 4;
+}
+
+/**
+ * A user's attempts on each question they have practiced, keyed by question id
+ */
+export function getQuestionAttempts(history: CompletedSession[]): Map<string, QuestionAttempts> {
+  const attempts = new Map<string, QuestionAttempts>();
+
+  for (const session of history) {
+    const entry = attempts.get(session.questionId);
+
+    if (!entry) {
+      attempts.set(session.questionId, {
+        questionId: session.questionId,
+        attempts: 1,
+        lastAttemptedAt: session.endTime,
+        solved: isSolvedSession(session),
+      });
+      continue;
+    }
+
+    entry.attempts += 1;
+    entry.solved = entry.solved || isSolvedSession(session);
+    if (session.endTime.getTime() > entry.lastAttemptedAt.getTime()) {
+      entry.lastAttemptedAt = session.endTime;
+    }
+  }
+
+  return attempts;
+}
+
+/**
+ * How well a question matches a search, or 0 when it does not match
+ * Every search word has to start a word of the title or statement. Title
+ * words outweigh statement words, whole words outweigh prefixes, and the
+ * whole search appearing in the title outweighs both.
+ */
+export function getSearchScore(question: Question, text: string): number {
+  const terms = tokenize(text);
+  if (terms.length === 0) {
+    return 0;
+  }
+
+  const titleWords = tokenize(question.title);
+  const statementWords = tokenize(question.statement);
+  let score = 0;
+
+  for (const term of terms) {
+    if (titleWords.includes(term)) {
+      score += 4;
+    } else if (titleWords.some(word => word.startsWith(term))) {
+      score += 2;
+    } else if (statementWords.includes(term)) {
+      score += 1;
+    } else if (statementWords.some(word => word.startsWith(term))) {
+      score += 0.5;
+    } else {
+      return 0;
+    }
+  }
+
+  if (` ${titleWords.join(' ')} `.includes(` ${terms.join(' ')} `)) {
+    score += 5;
+  }
+
+  return score;
+}
+
+/**
+ * Order questions best search match first; ties keep their order
+ * Questions are returned as given when the search is blank
+ */
+export function rankBySearch(questions: Question[], text = ''): Question[] {
+  if (tokenize(text).length === 0) {
+    return questions;
+  }
+
+  return questions
+    .map(question => ({ question, score: getSearchScore(question, text) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ question }) => question);
+}
+
+/**
+ * Whether a question passes every filter a query sets; the plan filter is
+ * left to `queryQuestions`, which also knows about plan tiers
+ * @param attempts - The query's history, grouped; pass it to avoid regrouping per question
+ */
+export function matchesQuery(
+  question: Question,
+  query: QuestionQuery,
+  attempts: Map<string, QuestionAttempts> = getQuestionAttempts(query.history ?? [])
+): boolean {
+  const { categories = [], patterns = [], difficulties = [], text = '', status, lastAttempted } = query;
+  const attempt = attempts.get(question.id);
+
+  return (categories.length === 0 || categories.includes(question.category))
+    && (patterns.length === 0 || question.patterns.some(pattern => patterns.includes(pattern)))
+    && (difficulties.length === 0 || difficulties.includes(question.difficulty))
+    && (status === undefined || (status === 'solved') === (attempt?.solved ?? false))
+    && (lastAttempted === undefined || (attempt !== undefined && isInRange(attempt.lastAttemptedAt, lastAttempted)))
+    && (tokenize(text).length === 0 || getSearchScore(question, text) > 0);
+}
+
+/**
+ * The questions that pass every filter of a query, best search match first
+ * when the query searches, otherwise in their original order
+ */
+export function queryQuestions(questions: Question[], query: QuestionQuery): Question[] {
+  const candidates = query.plan ? filterQuestionsByPlan(questions, query.plan) : questions;
+  const attempts = getQuestionAttempts(query.history ?? []);
+
+  return rankBySearch(candidates.filter(q => matchesQuery(q, query, attempts)), query.text);
+}
@@ -3,7 +3,7 @@
  * Contains categorized coding questions for different subscription tiers
  */
 
-import { Question } from '@/types';
+import { Question, QuestionPattern } from '@/types';
 
 /**
  * Complete question bank with 35 questions:
@@ -22,8 +22,144 @@ export const questionBank: Question[] = [
     title: 'Two Sum',
     difficulty: 'easy',
     category: 'arrays',
+    patterns: ['hash-map'],
     statement: 'Given an array of integers nums and an integer target, return indices of the two numbers such that they add up to target. You may assume that each input would have exactly one solution, and you may not use the same element twice.',
-    hint: 'Try using a hash map to store the complement of each number as you iterate through the array.',
+    hints: [
+      'For each number, which other value would complete the pair?',
+      'Try using a hash map to store the complement of each number as you iterate through the array.',
+      'In one pass, check whether target - nums[i] is already in the map; if it is, return both indices, otherwise store nums[i] -> i.'
+    ],
+    examples: [
+      { input: 'nums = [2,7,11,15], target = 9', output: '[0,1]', explanation: 'Because nums[0] + nums[1] == 9, we return [0, 1].' },
+      { input: 'nums = [3,2,4], target = 6', output: '[1,2]' }
+    ],
+    constraints: [
+      '2 <= nums.length <= 10^4',
+      '-10^9 <= nums[i] <= 10^9',
+      '-10^9 <= target <= 10^9',
+      'Only one valid answer exists.'
+    ],
+    testCases: [
+      { args: [[2, 7, 11, 15], 9], expected: [0, 1] },
+      { args: [[3, 2, 4], 6], expected: [1, 2] },
+      { args: [[3, 3], 6], expected: [0, 1] },
+      { args: [[1, 5, 3, 7], 10], expected: [2, 3] }
+    ],
+    runner: { entryPoint: 'twoSum' },
+    starterCode: {
+      javascript: `/**
+ * @param {number[]} nums
+ * @param {number} target
+ * @return {number[]}
+ */
+function twoSum(nums, target) {
+
+}`,
+      typescript: `function twoSum(nums: number[], target: number): number[] {
+
+}`,
+      python: `def two_sum(nums: list[int], target: int) -> list[int]:
+    pass`,
+      java: `class Solution {
+    public int[] twoSum(int[] nums, int target) {
+        
+    }
+}`,
+      cpp: `vector<int> twoSum(vector<int>& nums, int target) {
+
+}`,
+      go: `func twoSum(nums []int, target int) []int {
+
+}`
+    },
+    solution: {
+      approach: 'Walk the array once while storing each value and its index in a hash map. For every number, check whether its complement (target - number) is already in the map; if it is, the two indices are the answer.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(n)',
+      code: {
+        javascript: `function twoSum(nums, target) {
+  const seen = new Map();
+
+  for (let i = 0; i < nums.length; i++) {
+    const complement = target - nums[i];
+
+    if (seen.has(complement)) {
+      return [seen.get(complement), i];
+    }
+
+    seen.set(nums[i], i);
+  }
+
+  return [];
+}`,
+        typescript: `function twoSum(nums: number[], target: number): number[] {
+  const seen = new Map<number, number>();
+
+  for (let i = 0; i < nums.length; i++) {
+    const complement = target - nums[i];
+
+    if (seen.has(complement)) {
+      return [seen.get(complement)!, i];
+    }
+
+    seen.set(nums[i], i);
+  }
+
+  return [];
+}`,
+        python: `def two_sum(nums, target):
+    seen = {}
+
+    for i, num in enumerate(nums):
+        complement = target - num
+        if complement in seen:
+            return [seen[complement], i]
+        seen[num] = i
+
+    return []`,
+        java: `class Solution {
+    public int[] twoSum(int[] nums, int target) {
+        Map<Integer, Integer> seen = new HashMap<>();
+
+        for (int i = 0; i < nums.length; i++) {
+            int complement = target - nums[i];
+            if (seen.containsKey(complement)) {
+                return new int[] { seen.get(complement), i };
+            }
+            seen.put(nums[i], i);
+        }
+
+        return new int[0];
+    }
+}`,
+        cpp: `vector<int> twoSum(vector<int>& nums, int target) {
+    unordered_map<int, int> seen;
+
+    for (int i = 0; i < (int)nums.size(); i++) {
+        int complement = target - nums[i];
+        auto it = seen.find(complement);
+        if (it != seen.end()) {
+            return {it->second, i};
+        }
+        seen[nums[i]] = i;
+    }
+
+    return {};
+}`,
+        go: `func twoSum(nums []int, target int) []int {
+	seen := make(map[int]int)
+
+	for i, num := range nums {
+		if j, ok := seen[target-num]; ok {
+			return []int{j, i}
+		}
+		seen[num] = i
+	}
+
+	return nil
+}`
+      }
+    },
     planRequired: 'basic'
   },
   {
@@ -31,8 +167,80 @@ export const questionBank: Question[] = [
     title: 'Best Time to Buy and Sell Stock',
     difficulty: 'easy',
     category: 'arrays',
+    patterns: ['greedy'],
     statement: 'You are given an array prices where prices[i] is the price of a given stock on the ith day. You want to maximize your profit by choosing a single day to buy one stock and choosing a different day in the future to sell that stock. Return the maximum profit you can achieve from this transaction.',
-    hint: 'Keep track of the minimum price seen so far and calculate the profit at each step.',
+    hints: [
+      'You must buy before you sell, so for each day only earlier prices matter.',
+      'Keep track of the minimum price seen so far and calculate the profit at each step.',
+      'Walk the prices once: update minPrice = min(minPrice, price), then maxProfit = max(maxProfit, price - minPrice).'
+    ],
+    examples: [
+      { input: 'prices = [7,1,5,3,6,4]', output: '5', explanation: 'Buy on day 2 (price = 1) and sell on day 5 (price = 6), profit = 6 - 1 = 5.' },
+      { input: 'prices = [7,6,4,3,1]', output: '0', explanation: 'No transaction is done, so the max profit is 0.' }
+    ],
+    constraints: [
+      '1 <= prices.length <= 10^5',
+      '0 <= prices[i] <= 10^4'
+    ],
+    testCases: [
+      { args: [[7, 1, 5, 3, 6, 4]], expected: 5 },
+      { args: [[7, 6, 4, 3, 1]], expected: 0 },
+      { args: [[2, 4, 1]], expected: 2 },
+      { args: [[1, 2]], expected: 1 }
+    ],
+    runner: { entryPoint: 'maxProfit' },
+    starterCode: {
+      javascript: `/**
+ * @param {number[]} prices
+ * @return {number}
+ */
+function maxProfit(prices) {
+
+}`,
+      typescript: `function maxProfit(prices: number[]): number {
+
+}`,
+      python: `def max_profit(prices: list[int]) -> int:
+    pass`,
+      java: `class Solution {
+    public int maxProfit(int[] prices) {
+        
+    }
+}`,
+      cpp: `int maxProfit(vector<int>& prices) {
+
+}`,
+      go: `func maxProfit(prices []int) int {
+
+}`
+    },
+    solution: {
+      approach: 'Scan the prices once, tracking the lowest price seen so far. Selling today yields price - lowest, so the best profit is the maximum of that difference over all days.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(1)',
+      code: {
+        javascript: `function maxProfit(prices) {
+  let minPrice = Infinity;
+  let best = 0;
+
+  for (const price of prices) {
+    minPrice = Math.min(minPrice, price);
+    best = Math.max(best, price - minPrice);
+  }
+
+  return best;
+}`,
+        python: `def max_profit(prices):
+    min_price = float('inf')
+    best = 0
+
+    for price in prices:
+        min_price = min(min_price, price)
+        best = max(best, price - min_price)
+
+    return best`
+      }
+    },
     planRequired: 'basic'
   },
   {
@@ -40,8 +248,81 @@ export const questionBank: Question[] = [
     title: 'Contains Duplicate',
     difficulty: 'easy',
     category: 'arrays',
+    patterns: ['hash-map'],
     statement: 'Given an integer array nums, return true if any value appears at least twice in the array, and return false if every element is distinct.',
-    hint: 'Consider using a Set data structure to track elements you\'ve seen.',
+    hints: [
+      'Comparing every pair works but is O(n^2). What lets you check \'seen before?\' in O(1)?',
+      'Consider using a Set data structure to track elements you\'ve seen.',
+      'Add each number to the set; if it is already there, return true. Return false after the loop.'
+    ],
+    examples: [
+      { input: 'nums = [1,2,3,1]', output: 'true', explanation: 'The element 1 occurs at indices 0 and 3.' },
+      { input: 'nums = [1,2,3,4]', output: 'false', explanation: 'All elements are distinct.' }
+    ],
+    constraints: [
+      '1 <= nums.length <= 10^5',
+      '-10^9 <= nums[i] <= 10^9'
+    ],
+    testCases: [
+      { args: [[1, 2, 3, 1]], expected: true },
+      { args: [[1, 2, 3, 4]], expected: false },
+      { args: [[1, 1, 1, 3, 3, 4, 3, 2, 4, 2]], expected: true },
+      { args: [[5]], expected: false }
+    ],
+    runner: { entryPoint: 'containsDuplicate' },
+    starterCode: {
+      javascript: `/**
+ * @param {number[]} nums
+ * @return {boolean}
+ */
+function containsDuplicate(nums) {
+
+}`,
+      typescript: `function containsDuplicate(nums: number[]): boolean {
+
+}`,
+      python: `def contains_duplicate(nums: list[int]) -> bool:
+    pass`,
+      java: `class Solution {
+    public boolean containsDuplicate(int[] nums) {
+        
+    }
+}`,
+      cpp: `bool containsDuplicate(vector<int>& nums) {
+
+}`,
+      go: `func containsDuplicate(nums []int) bool {
+
+}`
+    },
+    solution: {
+      approach: 'Insert each number into a set. If a number is already in the set when it is reached, the array contains a duplicate.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(n)',
+      code: {
+        javascript: `function containsDuplicate(nums) {
+  const seen = new Set();
+
+  for (const num of nums) {
+    if (seen.has(num)) {
+      return true;
+    }
+    seen.add(num);
+  }
+
+  return false;
+}`,
+        python: `def contains_duplicate(nums):
+    seen = set()
+
+    for num in nums:
+        if num in seen:
+            return True
+        seen.add(num)
+
+    return False`
+      }
+    },
     planRequired: 'basic'
   },
   {
@@ -49,8 +330,93 @@ export const questionBank: Question[] = [
     title: 'Product of Array Except Self',
     difficulty: 'medium',
     category: 'arrays',
+    patterns: ['prefix-sum'],
     statement: 'Given an integer array nums, return an array answer such that answer[i] is equal to the product of all the elements of nums except nums[i]. You must write an algorithm that runs in O(n) time and without using the division operation.',
-    hint: 'Think about calculating prefix products and suffix products separately.',
+    hints: [
+      'Division is not allowed, but the answer for i is everything to its left times everything to its right.',
+      'Think about calculating prefix products and suffix products separately.',
+      'Fill answer[i] with the product of everything left of i in a forward pass, then multiply in a running product of everything to the right in a backward pass.'
+    ],
+    examples: [
+      { input: 'nums = [1,2,3,4]', output: '[24,12,8,6]' },
+      { input: 'nums = [-1,1,0,-3,3]', output: '[0,0,9,0,0]' }
+    ],
+    constraints: [
+      '2 <= nums.length <= 10^5',
+      '-30 <= nums[i] <= 30',
+      'The product of any prefix or suffix of nums fits in a 32-bit integer.'
+    ],
+    testCases: [
+      { args: [[1, 2, 3, 4]], expected: [24, 12, 8, 6] },
+      { args: [[-1, 1, 0, -3, 3]], expected: [0, 0, 9, 0, 0] },
+      { args: [[2, 3]], expected: [3, 2] }
+    ],
+    runner: { entryPoint: 'productExceptSelf' },
+    starterCode: {
+      javascript: `/**
+ * @param {number[]} nums
+ * @return {number[]}
+ */
+function productExceptSelf(nums) {
+
+}`,
+      typescript: `function productExceptSelf(nums: number[]): number[] {
+
+}`,
+      python: `def product_except_self(nums: list[int]) -> list[int]:
+    pass`,
+      java: `class Solution {
+    public int[] productExceptSelf(int[] nums) {
+        
+    }
+}`,
+      cpp: `vector<int> productExceptSelf(vector<int>& nums) {
+
+}`,
+      go: `func productExceptSelf(nums []int) []int {
+
+}`
+    },
+    solution: {
+      approach: 'The answer for index i is the product of everything to its left times everything to its right. Fill the output with running prefix products in a forward pass, then multiply in running suffix products in a backward pass.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(1) extra (output array excluded)',
+      code: {
+        javascript: `function productExceptSelf(nums) {
+  const n = nums.length;
+  const answer = new Array(n).fill(1);
+
+  let prefix = 1;
+  for (let i = 0; i < n; i++) {
+    answer[i] = prefix;
+    prefix *= nums[i];
+  }
+
+  let suffix = 1;
+  for (let i = n - 1; i >= 0; i--) {
+    answer[i] *= suffix;
+    suffix *= nums[i];
+  }
+
+  return answer;
+}`,
+        python: `def product_except_self(nums):
+    n = len(nums)
+    answer = [1] * n
+
+    prefix = 1
+    for i in range(n):
+        answer[i] = prefix
+        prefix *= nums[i]
+
+    suffix = 1
+    for i in range(n - 1, -1, -1):
+        answer[i] *= suffix
+        suffix *= nums[i]
+
+    return answer`
+      }
+    },
     planRequired: 'basic'
   },
   {
@@ -58,8 +424,79 @@ export const questionBank: Question[] = [
     title: 'Maximum Subarray',
     difficulty: 'medium',
     category: 'arrays',
+    patterns: ['greedy'],
     statement: 'Given an integer array nums, find the subarray with the largest sum, and return its sum.',
-    hint: 'Use Kadane\'s algorithm - keep track of the maximum sum ending at the current position.',
+    hints: [
+      'When does carrying a running sum forward stop helping you?',
+      'Use Kadane\'s algorithm - keep track of the maximum sum ending at the current position.',
+      'current = max(num, current + num); best = max(best, current). Start both at nums[0].'
+    ],
+    examples: [
+      { input: 'nums = [-2,1,-3,4,-1,2,1,-5,4]', output: '6', explanation: 'The subarray [4,-1,2,1] has the largest sum 6.' },
+      { input: 'nums = [5,4,-1,7,8]', output: '23', explanation: 'The whole array has the largest sum 23.' }
+    ],
+    constraints: [
+      '1 <= nums.length <= 10^5',
+      '-10^4 <= nums[i] <= 10^4'
+    ],
+    testCases: [
+      { args: [[-2, 1, -3, 4, -1, 2, 1, -5, 4]], expected: 6 },
+      { args: [[1]], expected: 1 },
+      { args: [[5, 4, -1, 7, 8]], expected: 23 },
+      { args: [[-3, -1, -2]], expected: -1 }
+    ],
+    runner: { entryPoint: 'maxSubArray' },
+    starterCode: {
+      javascript: `/**
+ * @param {number[]} nums
+ * @return {number}
+ */
+function maxSubArray(nums) {
+
+}`,
+      typescript: `function maxSubArray(nums: number[]): number {
+
+}`,
+      python: `def max_sub_array(nums: list[int]) -> int:
+    pass`,
+      java: `class Solution {
+    public int maxSubArray(int[] nums) {
+        
+    }
+}`,
+      cpp: `int maxSubArray(vector<int>& nums) {
+
+}`,
+      go: `func maxSubArray(nums []int) int {
+
+}`
+    },
+    solution: {
+      approach: 'Kadane\'s algorithm: the best subarray ending at index i either extends the best subarray ending at i - 1 or starts fresh at i. Track that running sum and the best value seen.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(1)',
+      code: {
+        javascript: `function maxSubArray(nums) {
+  let current = nums[0];
+  let best = nums[0];
+
+  for (let i = 1; i < nums.length; i++) {
+    current = Math.max(nums[i], current + nums[i]);
+    best = Math.max(best, current);
+  }
+
+  return best;
+}`,
+        python: `def max_sub_array(nums):
+    current = best = nums[0]
+
+    for num in nums[1:]:
+        current = max(num, current + num)
+        best = max(best, current)
+
+    return best`
+      }
+    },
     planRequired: 'basic'
   },
   {
@@ -67,8 +504,89 @@ export const questionBank: Question[] = [
     title: 'Find Minimum in Rotated Sorted Array',
     difficulty: 'medium',
     category: 'arrays',
+    patterns: ['binary-search'],
     statement: 'Suppose an array of length n sorted in ascending order is rotated between 1 and n times. Given the rotated array nums, return the minimum element of this array. You must write an algorithm that runs in O(log n) time.',
-    hint: 'Use binary search. Compare the middle element with the rightmost element to determine which half contains the minimum.',
+    hints: [
+      'The array is two sorted runs. An O(log n) bound suggests halving the search space each step.',
+      'Use binary search. Compare the middle element with the rightmost element to determine which half contains the minimum.',
+      'If nums[mid] > nums[right], set left = mid + 1; otherwise set right = mid. Stop when left === right and return nums[left].'
+    ],
+    examples: [
+      { input: 'nums = [3,4,5,1,2]', output: '1', explanation: 'The original array was [1,2,3,4,5] rotated 3 times.' },
+      { input: 'nums = [11,13,15,17]', output: '11', explanation: 'The original array was [11,13,15,17] rotated 4 times.' }
+    ],
+    constraints: [
+      '1 <= n <= 5000',
+      '-5000 <= nums[i] <= 5000',
+      'All the integers of nums are unique.',
+      'nums is sorted and rotated between 1 and n times.'
+    ],
+    testCases: [
+      { args: [[3, 4, 5, 1, 2]], expected: 1 },
+      { args: [[4, 5, 6, 7, 0, 1, 2]], expected: 0 },
+      { args: [[11, 13, 15, 17]], expected: 11 },
+      { args: [[2, 1]], expected: 1 }
+    ],
+    runner: { entryPoint: 'findMin' },
+    starterCode: {
+      javascript: `/**
+ * @param {number[]} nums
+ * @return {number}
+ */
+function findMin(nums) {
+
+}`,
+      typescript: `function findMin(nums: number[]): number {
+
+}`,
+      python: `def find_min(nums: list[int]) -> int:
+    pass`,
+      java: `class Solution {
+    public int findMin(int[] nums) {
+        
+    }
+}`,
+      cpp: `int findMin(vector<int>& nums) {
+
+}`,
+      go: `func findMin(nums []int) int {
+
+}`
+    },
+    solution: {
+      approach: 'Binary search on the rotation point. If the middle element is greater than the rightmost element, the minimum lies to the right of mid; otherwise it is at mid or to its left.',
+      timeComplexity: 'O(log n)',
+      spaceComplexity: 'O(1)',
+      code: {
+        javascript: `function findMin(nums) {
+  let left = 0;
+  let right = nums.length - 1;
+
+  while (left < right) {
+    const mid = Math.floor((left + right) / 2);
+
+    if (nums[mid] > nums[right]) {
+      left = mid + 1;
+    } else {
+      right = mid;
+    }
+  }
+
+  return nums[left];
+}`,
+        python: `def find_min(nums):
+    left, right = 0, len(nums) - 1
+
+    while left < right:
+        mid = (left + right) // 2
+        if nums[mid] > nums[right]:
+            left = mid + 1
+        else:
+            right = mid
+
+    return nums[left]`
+      }
+    },
     planRequired: 'basic'
   },
 
@@ -78,8 +596,85 @@ export const questionBank: Question[] = [
     title: 'Valid Anagram',
     difficulty: 'easy',
     category: 'strings',
+    patterns: ['hash-map'],
     statement: 'Given two strings s and t, return true if t is an anagram of s, and false otherwise. An Anagram is a word or phrase formed by rearranging the letters of a different word or phrase, typically using all the original letters exactly once.',
-    hint: 'Count the frequency of each character in both strings and compare.',
+    hints: [
+      'Two strings are anagrams when they use the same letters the same number of times.',
+      'Count the frequency of each character in both strings and compare.',
+      'Return false if the lengths differ. Increment counts for s, decrement for t, and check every count ends at zero.'
+    ],
+    examples: [
+      { input: 's = "anagram", t = "nagaram"', output: 'true' },
+      { input: 's = "rat", t = "car"', output: 'false' }
+    ],
+    constraints: [
+      '1 <= s.length, t.length <= 5 * 10^4',
+      's and t consist of lowercase English letters.'
+    ],
+    testCases: [
+      { args: ["anagram", "nagaram"], expected: true },
+      { args: ["rat", "car"], expected: false },
+      { args: ["a", "ab"], expected: false },
+      { args: ["listen", "silent"], expected: true }
+    ],
+    runner: { entryPoint: 'isAnagram' },
+    starterCode: {
+      javascript: `/**
+ * @param {string} s
+ * @param {string} t
+ * @return {boolean}
+ */
+function isAnagram(s, t) {
+
+}`,
+      typescript: `function isAnagram(s: string, t: string): boolean {
+
+}`,
+      python: `def is_anagram(s: str, t: str) -> bool:
+    pass`,
+      java: `class Solution {
+    public boolean isAnagram(String s, String t) {
+        
+    }
+}`,
+      cpp: `bool isAnagram(string s, string t) {
+
+}`,
+      go: `func isAnagram(s string, t string) bool {
+
+}`
+    },
+    solution: {
+      approach: 'Two strings are anagrams when every character appears the same number of times in both. Count characters of s, then decrement the counts while walking t; any missing character means they differ.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(k) for k distinct characters',
+      code: {
+        javascript: `function isAnagram(s, t) {
+  if (s.length !== t.length) {
+    return false;
+  }
+
+  const counts = new Map();
+  for (const ch of s) {
+    counts.set(ch, (counts.get(ch) || 0) + 1);
+  }
+
+  for (const ch of t) {
+    const count = counts.get(ch);
+    if (!count) {
+      return false;
+    }
+    counts.set(ch, count - 1);
+  }
+
+  return true;
+}`,
+        python: `from collections import Counter
+
+def is_anagram(s, t):
+    return Counter(s) == Counter(t)`
+      }
+    },
     planRequired: 'basic'
   },
   {
@@ -87,8 +682,95 @@ export const questionBank: Question[] = [
     title: 'Valid Palindrome',
     difficulty: 'easy',
     category: 'strings',
+    patterns: ['two-pointers'],
     statement: 'A phrase is a palindrome if, after converting all uppercase letters into lowercase letters and removing all non-alphanumeric characters, it reads the same forward and backward. Given a string s, return true if it is a palindrome, or false otherwise.',
-    hint: 'Use two pointers, one at the start and one at the end, and move them towards each other.',
+    hints: [
+      'Only letters and digits matter, and case does not.',
+      'Use two pointers, one at the start and one at the end, and move them towards each other.',
+      'Skip non-alphanumeric characters from both ends, compare lowercase characters, and return false on the first mismatch.'
+    ],
+    examples: [
+      { input: 's = "A man, a plan, a canal: Panama"', output: 'true', explanation: '"amanaplanacanalpanama" is a palindrome.' },
+      { input: 's = "race a car"', output: 'false', explanation: '"raceacar" is not a palindrome.' }
+    ],
+    constraints: [
+      '1 <= s.length <= 2 * 10^5',
+      's consists only of printable ASCII characters.'
+    ],
+    testCases: [
+      { args: ["A man, a plan, a canal: Panama"], expected: true },
+      { args: ["race a car"], expected: false },
+      { args: [" "], expected: true },
+      { args: ["0P"], expected: false }
+    ],
+    runner: { entryPoint: 'isPalindrome' },
+    starterCode: {
+      javascript: `/**
+ * @param {string} s
+ * @return {boolean}
+ */
+function isPalindrome(s) {
+
+}`,
+      typescript: `function isPalindrome(s: string): boolean {
+
+}`,
+      python: `def is_palindrome(s: str) -> bool:
+    pass`,
+      java: `class Solution {
+    public boolean isPalindrome(String s) {
+        
+    }
+}`,
+      cpp: `bool isPalindrome(string s) {
+
+}`,
+      go: `func isPalindrome(s string) bool {
+
+}`
+    },
+    solution: {
+      approach: 'Use two pointers moving inwards from both ends, skipping characters that are not letters or digits and comparing the rest case-insensitively.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(1)',
+      code: {
+        javascript: `function isPalindrome(s) {
+  const isAlphanumeric = (ch) => /[a-z0-9]/i.test(ch);
+  let left = 0;
+  let right = s.length - 1;
+
+  while (left < right) {
+    while (left < right && !isAlphanumeric(s[left])) left++;
+    while (left < right && !isAlphanumeric(s[right])) right--;
+
+    if (s[left].toLowerCase() !== s[right].toLowerCase()) {
+      return false;
+    }
+
+    left++;
+    right--;
+  }
+
+  return true;
+}`,
+        python: `def is_palindrome(s):
+    left, right = 0, len(s) - 1
+
+    while left < right:
+        while left < right and not s[left].isalnum():
+            left += 1
+        while left < right and not s[right].isalnum():
+            right -= 1
+
+        if s[left].lower() != s[right].lower():
+            return False
+
+        left += 1
+        right -= 1
+
+    return True`
+      }
+    },
     planRequired: 'basic'
   },
   {
@@ -96,8 +778,90 @@ export const questionBank: Question[] = [
     title: 'Longest Substring Without Repeating Characters',
     difficulty: 'medium',
     category: 'strings',
+    patterns: ['sliding-window', 'hash-map'],
     statement: 'Given a string s, find the length of the longest substring without repeating characters.',
-    hint: 'Use a sliding window approach with a hash set to track characters in the current window.',
+    hints: [
+      'Brute force checks every substring. Can you grow and shrink one window instead?',
+      'Use a sliding window approach with a hash set to track characters in the current window.',
+      'Move right one step at a time; while s[right] is already in the set, remove s[left] and advance left. Track the largest right - left + 1.'
+    ],
+    examples: [
+      { input: 's = "abcabcbb"', output: '3', explanation: 'The answer is "abc", with the length of 3.' },
+      { input: 's = "pwwkew"', output: '3', explanation: 'The answer is "wke", with the length of 3.' }
+    ],
+    constraints: [
+      '0 <= s.length <= 5 * 10^4',
+      's consists of English letters, digits, symbols and spaces.'
+    ],
+    testCases: [
+      { args: ["abcabcbb"], expected: 3 },
+      { args: ["bbbbb"], expected: 1 },
+      { args: ["pwwkew"], expected: 3 },
+      { args: [""], expected: 0 },
+      { args: ["dvdf"], expected: 3 }
+    ],
+    runner: { entryPoint: 'lengthOfLongestSubstring' },
+    starterCode: {
+      javascript: `/**
+ * @param {string} s
+ * @return {number}
+ */
+function lengthOfLongestSubstring(s) {
+
+}`,
+      typescript: `function lengthOfLongestSubstring(s: string): number {
+
+}`,
+      python: `def length_of_longest_substring(s: str) -> int:
+    pass`,
+      java: `class Solution {
+    public int lengthOfLongestSubstring(String s) {
+        
+    }
+}`,
+      cpp: `int lengthOfLongestSubstring(string s) {
+
+}`,
+      go: `func lengthOfLongestSubstring(s string) int {
+
+}`
+    },
+    solution: {
+      approach: 'Sliding window: remember the last index of each character. When a repeated character falls inside the window, move the window start just past its previous occurrence.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(k) for k distinct characters',
+      code: {
+        javascript: `function lengthOfLongestSubstring(s) {
+  const lastSeen = new Map();
+  let start = 0;
+  let best = 0;
+
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+
+    if (lastSeen.has(ch) && lastSeen.get(ch) >= start) {
+      start = lastSeen.get(ch) + 1;
+    }
+
+    lastSeen.set(ch, i);
+    best = Math.max(best, i - start + 1);
+  }
+
+  return best;
+}`,
+        python: `def length_of_longest_substring(s):
+    last_seen = {}
+    start = best = 0
+
+    for i, ch in enumerate(s):
+        if last_seen.get(ch, -1) >= start:
+            start = last_seen[ch] + 1
+        last_seen[ch] = i
+        best = max(best, i - start + 1)
+
+    return best`
+      }
+    },
     planRequired: 'basic'
   },
   {
@@ -105,8 +869,98 @@ export const questionBank: Question[] = [
     title: 'Longest Palindromic Substring',
     difficulty: 'medium',
     category: 'strings',
+    patterns: ['two-pointers'],
     statement: 'Given a string s, return the longest palindromic substring in s.',
-    hint: 'Expand around each possible center (both single characters and pairs of characters).',
+    hints: [
+      'A palindrome mirrors around its center. How many possible centers does a string have?',
+      'Expand around each possible center (both single characters and pairs of characters).',
+      'For each i, expand from (i, i) and (i, i + 1) while the ends match, and keep the longest span found.'
+    ],
+    examples: [
+      { input: 's = "babad"', output: '"bab"', explanation: '"aba" is also a valid answer.' },
+      { input: 's = "cbbd"', output: '"bb"' }
+    ],
+    constraints: [
+      '1 <= s.length <= 1000',
+      's consists of only digits and English letters.'
+    ],
+    testCases: [
+      { args: ["cbbd"], expected: "bb" },
+      { args: ["a"], expected: "a" },
+      { args: ["racecar"], expected: "racecar" },
+      { args: ["forgeeksskeegfor"], expected: "geeksskeeg" }
+    ],
+    runner: { entryPoint: 'longestPalindrome' },
+    starterCode: {
+      javascript: `/**
+ * @param {string} s
+ * @return {string}
+ */
+function longestPalindrome(s) {
+
+}`,
+      typescript: `function longestPalindrome(s: string): string {
+
+}`,
+      python: `def longest_palindrome(s: str) -> str:
+    pass`,
+      java: `class Solution {
+    public String longestPalindrome(String s) {
+        
+    }
+}`,
+      cpp: `string longestPalindrome(string s) {
+
+}`,
+      go: `func longestPalindrome(s string) string {
+
+}`
+    },
+    solution: {
+      approach: 'Every palindrome mirrors around a center, which is either a single character or a gap between two characters. Expand outwards from each of the 2n - 1 centers and keep the longest match.',
+      timeComplexity: 'O(n^2)',
+      spaceComplexity: 'O(1)',
+      code: {
+        javascript: `function longestPalindrome(s) {
+  let start = 0;
+  let maxLength = 0;
+
+  const expand = (left, right) => {
+    while (left >= 0 && right < s.length && s[left] === s[right]) {
+      left--;
+      right++;
+    }
+
+    if (right - left - 1 > maxLength) {
+      start = left + 1;
+      maxLength = right - left - 1;
+    }
+  };
+
+  for (let i = 0; i < s.length; i++) {
+    expand(i, i);
+    expand(i, i + 1);
+  }
+
+  return s.slice(start, start + maxLength);
+}`,
+        python: `def longest_palindrome(s):
+    best = ''
+
+    def expand(left, right):
+        while left >= 0 and right < len(s) and s[left] == s[right]:
+            left -= 1
+            right += 1
+        return s[left + 1:right]
+
+    for i in range(len(s)):
+        for candidate in (expand(i, i), expand(i, i + 1)):
+            if len(candidate) > len(best):
+                best = candidate
+
+    return best`
+      }
+    },
     planRequired: 'basic'
   },
   {
@@ -114,8 +968,82 @@ export const questionBank: Question[] = [
     title: 'Group Anagrams',
     difficulty: 'medium',
     category: 'strings',
+    patterns: ['hash-map', 'sorting'],
     statement: 'Given an array of strings strs, group the anagrams together. You can return the answer in any order.',
-    hint: 'Use a hash map where the key is the sorted version of each string.',
+    hints: [
+      'Anagrams become identical once you normalize them somehow.',
+      'Use a hash map where the key is the sorted version of each string.',
+      'For each word, push it into groups[word.split(\'\').sort().join(\'\')], then return the map\'s values.'
+    ],
+    examples: [
+      { input: 'strs = ["eat","tea","tan","ate","nat","bat"]', output: '[["bat"],["nat","tan"],["ate","eat","tea"]]' },
+      { input: 'strs = [""]', output: '[[""]]' }
+    ],
+    constraints: [
+      '1 <= strs.length <= 10^4',
+      '0 <= strs[i].length <= 100',
+      'strs[i] consists of lowercase English letters.'
+    ],
+    testCases: [
+      { args: [["eat", "tea", "tan", "ate", "nat", "bat"]], expected: [["bat"], ["nat", "tan"], ["ate", "eat", "tea"]], unordered: true },
+      { args: [[""]], expected: [[""]], unordered: true },
+      { args: [["a"]], expected: [["a"]], unordered: true }
+    ],
+    runner: { entryPoint: 'groupAnagrams' },
+    starterCode: {
+      javascript: `/**
+ * @param {string[]} strs
+ * @return {string[][]}
+ */
+function groupAnagrams(strs) {
+
+}`,
+      typescript: `function groupAnagrams(strs: string[]): string[][] {
+
+}`,
+      python: `def group_anagrams(strs: list[str]) -> list[list[str]]:
+    pass`,
+      java: `class Solution {
+    public List<List<String>> groupAnagrams(List<String> strs) {
+        
+    }
+}`,
+      cpp: `vector<vector<string>> groupAnagrams(vector<string>& strs) {
+
+}`,
+      go: `func groupAnagrams(strs []string) [][]string {
+
+}`
+    },
+    solution: {
+      approach: 'Anagrams share the same sorted form. Group the strings in a hash map keyed by their sorted characters and return the groups.',
+      timeComplexity: 'O(n * k log k) for strings of length k',
+      spaceComplexity: 'O(n * k)',
+      code: {
+        javascript: `function groupAnagrams(strs) {
+  const groups = new Map();
+
+  for (const str of strs) {
+    const key = str.split('').sort().join('');
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key).push(str);
+  }
+
+  return Array.from(groups.values());
+}`,
+        python: `from collections import defaultdict
+
+def group_anagrams(strs):
+    groups = defaultdict(list)
+
+    for s in strs:
+        groups[''.join(sorted(s))].append(s)
+
+    return list(groups.values())`
+      }
+    },
     planRequired: 'basic'
   },
   {
@@ -123,8 +1051,89 @@ export const questionBank: Question[] = [
     title: 'Valid Parentheses',
     difficulty: 'easy',
     category: 'strings',
+    patterns: ['stack'],
     statement: 'Given a string s containing just the characters \'(\', \')\', \'{\', \'}\', \'[\' and \']\', determine if the input string is valid. An input string is valid if: Open brackets must be closed by the same type of brackets, and open brackets must be closed in the correct order.',
-    hint: 'Use a stack to keep track of opening brackets.',
+    hints: [
+      'The most recently opened bracket must be the first one closed.',
+      'Use a stack to keep track of opening brackets.',
+      'Push opening brackets; on a closing bracket, pop and check it matches. The string is valid if the stack is empty at the end.'
+    ],
+    examples: [
+      { input: 's = "()[]{}"', output: 'true' },
+      { input: 's = "(]"', output: 'false' }
+    ],
+    constraints: [
+      '1 <= s.length <= 10^4',
+      's consists of parentheses only \'()[]{}\'.'
+    ],
+    testCases: [
+      { args: ["()"], expected: true },
+      { args: ["()[]{}"], expected: true },
+      { args: ["(]"], expected: false },
+      { args: ["([)]"], expected: false },
+      { args: ["{[]}"], expected: true }
+    ],
+    runner: { entryPoint: 'isValid' },
+    starterCode: {
+      javascript: `/**
+ * @param {string} s
+ * @return {boolean}
+ */
+function isValid(s) {
+
+}`,
+      typescript: `function isValid(s: string): boolean {
+
+}`,
+      python: `def is_valid(s: str) -> bool:
+    pass`,
+      java: `class Solution {
+    public boolean isValid(String s) {
+        
+    }
+}`,
+      cpp: `bool isValid(string s) {
+
+}`,
+      go: `func isValid(s string) bool {
+
+}`
+    },
+    solution: {
+      approach: 'Push opening brackets onto a stack. Each closing bracket must match the bracket on top of the stack, and the stack must be empty at the end.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(n)',
+      code: {
+        javascript: `function isValid(s) {
+  const pairs = { ')': '(', ']': '[', '}': '{' };
+  const stack = [];
+
+  for (const ch of s) {
+    if (ch in pairs) {
+      if (stack.pop() !== pairs[ch]) {
+        return false;
+      }
+    } else {
+      stack.push(ch);
+    }
+  }
+
+  return stack.length === 0;
+}`,
+        python: `def is_valid(s):
+    pairs = {')': '(', ']': '[', '}': '{'}
+    stack = []
+
+    for ch in s:
+        if ch in pairs:
+            if not stack or stack.pop() != pairs[ch]:
+                return False
+        else:
+            stack.append(ch)
+
+    return not stack`
+      }
+    },
     planRequired: 'basic'
   },
   {
@@ -132,8 +1141,120 @@ export const questionBank: Question[] = [
     title: 'Encode and Decode Strings',
     difficulty: 'medium',
     category: 'strings',
+    patterns: ['serialization'],
     statement: 'Design an algorithm to encode a list of strings to a single string. The encoded string is then decoded back to the original list of strings.',
-    hint: 'Use a delimiter with length prefix for each string to handle special characters.',
+    hints: [
+      'Any delimiter you choose could appear inside a string. How can the decoder know where each string ends?',
+      'Use a delimiter with length prefix for each string to handle special characters.',
+      'Encode each string as length + \'#\' + string. To decode, read digits up to \'#\', then take exactly that many characters.'
+    ],
+    examples: [
+      { input: 'strs = ["lint","code","love","you"]', output: '["lint","code","love","you"]', explanation: 'Decoding the encoded string returns the original list.' },
+      { input: 'strs = ["we","say",":","yes"]', output: '["we","say",":","yes"]' }
+    ],
+    constraints: [
+      '0 <= strs.length <= 200',
+      '0 <= strs[i].length <= 200',
+      'strs[i] may contain any of the 256 valid ASCII characters.'
+    ],
+    testCases: [
+      { args: [["lint", "code", "love", "you"]], expected: ["lint", "code", "love", "you"] },
+      { args: [["we", "say", ":", "yes"]], expected: ["we", "say", ":", "yes"] },
+      { args: [[""]], expected: [""] },
+      { args: [[]], expected: [] }
+    ],
+    runner: { entryPoint: ['encode', 'decode'] },
+    starterCode: {
+      javascript: `/**
+ * @param {string[]} strs
+ * @return {string}
+ */
+function encode(strs) {
+
+}
+
+/**
+ * @param {string} encoded
+ * @return {string[]}
+ */
+function decode(encoded) {
+
+}`,
+      typescript: `function encode(strs: string[]): string {
+
+}
+
+function decode(encoded: string): string[] {
+
+}`,
+      python: `def encode(strs: list[str]) -> str:
+    pass
+
+
+def decode(encoded: str) -> list[str]:
+    pass`,
+      java: `class Solution {
+    public String encode(List<String> strs) {
+        
+    }
+
+    public List<String> decode(String encoded) {
+        
+    }
+}`,
+      cpp: `string encode(vector<string>& strs) {
+
+}
+
+vector<string> decode(string encoded) {
+
+}`,
+      go: `func encode(strs []string) string {
+
+}
+
+func decode(encoded string) []string {
+
+}`
+    },
+    solution: {
+      approach: 'Prefix every string with its length and a separator, e.g. "4#lint". The decoder reads the length up to the separator and then slices exactly that many characters, so strings may contain the separator themselves.',
+      timeComplexity: 'O(n) in the total length',
+      spaceComplexity: 'O(n)',
+      code: {
+        javascript: `function encode(strs) {
+  return strs.map(str => str.length + '#' + str).join('');
+}
+
+function decode(encoded) {
+  const result = [];
+  let i = 0;
+
+  while (i < encoded.length) {
+    const separator = encoded.indexOf('#', i);
+    const length = Number(encoded.slice(i, separator));
+    result.push(encoded.slice(separator + 1, separator + 1 + length));
+    i = separator + 1 + length;
+  }
+
+  return result;
+}`,
+        python: `def encode(strs):
+    return ''.join(f'{len(s)}#{s}' for s in strs)
+
+def decode(encoded):
+    result = []
+    i = 0
+
+    while i < len(encoded):
+        separator = encoded.index('#', i)
+        length = int(encoded[i:separator])
+        result.append(encoded[separator + 1:separator + 1 + length])
+        i = separator + 1 + length
+
+    return result`
+      }
+    },
     planRequired: 'basic'
   },
   {
@@ -141,8 +1262,91 @@ export const questionBank: Question[] = [
     title: 'Container With Most Water',
     difficulty: 'medium',
     category: 'arrays',
+    patterns: ['two-pointers', 'greedy'],
     statement: 'You are given an integer array height of length n. There are n vertical lines drawn such that the two endpoints of the ith line are (i, 0) and (i, height[i]). Find two lines that together with the x-axis form a container, such that the container contains the most water.',
-    hint: 'Use two pointers starting from both ends. Move the pointer with the smaller height inward.',
+    hints: [
+      'The area is limited by the shorter line. Start with the widest container.',
+      'Use two pointers starting from both ends. Move the pointer with the smaller height inward.',
+      'left = 0, right = n - 1: record min(h[left], h[right]) * (right - left), then move whichever side is shorter until they meet.'
+    ],
+    examples: [
+      { input: 'height = [1,8,6,2,5,4,8,3,7]', output: '49', explanation: 'The lines at index 1 and 8 form a container holding min(8, 7) * 7 = 49 units of water.' },
+      { input: 'height = [1,1]', output: '1' }
+    ],
+    constraints: [
+      'n == height.length',
+      '2 <= n <= 10^5',
+      '0 <= height[i] <= 10^4'
+    ],
+    testCases: [
+      { args: [[1, 8, 6, 2, 5, 4, 8, 3, 7]], expected: 49 },
+      { args: [[1, 1]], expected: 1 },
+      { args: [[4, 3, 2, 1, 4]], expected: 16 },
+      { args: [[1, 2, 1]], expected: 2 }
+    ],
+    runner: { entryPoint: 'maxArea' },
+    starterCode: {
+      javascript: `/**
+ * @param {number[]} height
+ * @return {number}
+ */
+function maxArea(height) {
+
+}`,
+      typescript: `function maxArea(height: number[]): number {
+
+}`,
+      python: `def max_area(height: list[int]) -> int:
+    pass`,
+      java: `class Solution {
+    public int maxArea(int[] height) {
+        
+    }
+}`,
+      cpp: `int maxArea(vector<int>& height) {
+
+}`,
+      go: `func maxArea(height []int) int {
+
+}`
+    },
+    solution: {
+      approach: 'Start with pointers at both ends. The area is limited by the shorter line, so moving the taller one can never help; always move the shorter line inwards and track the best area.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(1)',
+      code: {
+        javascript: `function maxArea(height) {
+  let left = 0;
+  let right = height.length - 1;
+  let best = 0;
+
+  while (left < right) {
+    const area = Math.min(height[left], height[right]) * (right - left);
+    best = Math.max(best, area);
+
+    if (height[left] < height[right]) {
+      left++;
+    } else {
+      right--;
+    }
+  }
+
+  return best;
+}`,
+        python: `def max_area(height):
+    left, right = 0, len(height) - 1
+    best = 0
+
+    while left < right:
+        best = max(best, min(height[left], height[right]) * (right - left))
+        if height[left] < height[right]:
+            left += 1
+        else:
+            right -= 1
+
+    return best`
+      }
+    },
     planRequired: 'basic'
   },
   {
@@ -150,8 +1354,113 @@ export const questionBank: Question[] = [
     title: '3Sum',
     difficulty: 'medium',
     category: 'arrays',
+    patterns: ['two-pointers', 'sorting'],
     statement: 'Given an integer array nums, return all the triplets [nums[i], nums[j], nums[k]] such that i != j, i != k, and j != k, and nums[i] + nums[j] + nums[k] == 0. Notice that the solution set must not contain duplicate triplets.',
-    hint: 'Sort the array first, then use a two-pointer approach for each element.',
+    hints: [
+      'Fix one number; the rest becomes a Two Sum on the remaining numbers.',
+      'Sort the array first, then use a two-pointer approach for each element.',
+      'After sorting, for each i run left/right pointers on i+1..n-1, moving by the sign of the sum, and skip equal values to avoid duplicate triplets.'
+    ],
+    examples: [
+      { input: 'nums = [-1,0,1,2,-1,-4]', output: '[[-1,-1,2],[-1,0,1]]', explanation: 'The order of the output and the order of the triplets does not matter.' },
+      { input: 'nums = [0,1,1]', output: '[]', explanation: 'The only possible triplet does not sum up to 0.' }
+    ],
+    constraints: [
+      '3 <= nums.length <= 3000',
+      '-10^5 <= nums[i] <= 10^5'
+    ],
+    testCases: [
+      { args: [[-1, 0, 1, 2, -1, -4]], expected: [[-1, -1, 2], [-1, 0, 1]], unordered: true },
+      { args: [[0, 1, 1]], expected: [], unordered: true },
+      { args: [[0, 0, 0]], expected: [[0, 0, 0]], unordered: true }
+    ],
+    runner: { entryPoint: 'threeSum' },
+    starterCode: {
+      javascript: `/**
+ * @param {number[]} nums
+ * @return {number[][]}
+ */
+function threeSum(nums) {
+
+}`,
+      typescript: `function threeSum(nums: number[]): number[][] {
+
+}`,
+      python: `def three_sum(nums: list[int]) -> list[list[int]]:
+    pass`,
+      java: `class Solution {
+    public List<List<Integer>> threeSum(int[] nums) {
+        
+    }
+}`,
+      cpp: `vector<vector<int>> threeSum(vector<int>& nums) {
+
+}`,
+      go: `func threeSum(nums []int) [][]int {
+
+}`
+    },
+    solution: {
+      approach: 'Sort the array, fix the first element, and find pairs for the remainder with two pointers. Skip equal neighbours at every level so each triplet is produced once.',
+      timeComplexity: 'O(n^2)',
+      spaceComplexity: 'O(1) extra (sorting aside)',
+      code: {
+        javascript: `function threeSum(nums) {
+  const sorted = [...nums].sort((a, b) => a - b);
+  const result = [];
+
+  for (let i = 0; i < sorted.length - 2; i++) {
+    if (i > 0 && sorted[i] === sorted[i - 1]) continue;
+
+    let left = i + 1;
+    let right = sorted.length - 1;
+
+    while (left < right) {
+      const sum = sorted[i] + sorted[left] + sorted[right];
+
+      if (sum === 0) {
+        result.push([sorted[i], sorted[left], sorted[right]]);
+        while (left < right && sorted[left] === sorted[left + 1]) left++;
+        while (left < right && sorted[right] === sorted[right - 1]) right--;
+        left++;
+        right--;
+      } else if (sum < 0) {
+        left++;
+      } else {
+        right--;
+      }
+    }
+  }
+
+  return result;
+}`,
+        python: `def three_sum(nums):
+    nums = sorted(nums)
+    result = []
+
+    for i in range(len(nums) - 2):
+        if i > 0 and nums[i] == nums[i - 1]:
+            continue
+
+        left, right = i + 1, len(nums) - 1
+        while left < right:
+            total = nums[i] + nums[left] + nums[right]
+            if total == 0:
+                result.append([nums[i], nums[left], nums[right]])
+                while left < right and nums[left] == nums[left + 1]:
+                    left += 1
+                while left < right and nums[right] == nums[right - 1]:
+                    right -= 1
+                left += 1
+                right -= 1
+            elif total < 0:
+                left += 1
+            else:
+                right -= 1
+
+    return result`
+      }
+    },
     planRequired: 'basic'
   },
 
@@ -165,8 +1474,83 @@ export const questionBank: Question[] = [
     title: 'Maximum Depth of Binary Tree',
     difficulty: 'easy',
     category: 'trees',
+    patterns: ['dfs', 'recursion'],
     statement: 'Given the root of a binary tree, return its maximum depth. A binary tree\'s maximum depth is the number of nodes along the longest path from the root node down to the farthest leaf node.',
-    hint: 'Use recursion: the depth is 1 + max(left subtree depth, right subtree depth).',
+    hints: [
+      'How does the depth of a tree relate to the depths of its subtrees?',
+      'Use recursion: the depth is 1 + max(left subtree depth, right subtree depth).',
+      'Return 0 for a null node; otherwise return 1 + Math.max(maxDepth(root.left), maxDepth(root.right)).'
+    ],
+    examples: [
+      { input: 'root = [3,9,20,null,null,15,7]', output: '3' },
+      { input: 'root = [1,null,2]', output: '2' }
+    ],
+    constraints: [
+      'The number of nodes in the tree is in the range [0, 10^4].',
+      '-100 <= Node.val <= 100'
+    ],
+    testCases: [
+      { args: [[3, 9, 20, null, null, 15, 7]], expected: 3 },
+      { args: [[1, null, 2]], expected: 2 },
+      { args: [[]], expected: 0 }
+    ],
+    runner: { entryPoint: 'maxDepth', argKinds: ['tree'] },
+    starterCode: {
+      javascript: `// Tree nodes have the shape { val, left, right }
+/**
+ * @param {TreeNode | null} root
+ * @return {number}
+ */
+function maxDepth(root) {
+
+}`,
+      typescript: `interface TreeNode {
+  val: number;
+  left: TreeNode | null;
+  right: TreeNode | null;
+}
+
+function maxDepth(root: TreeNode | null): number {
+
+}`,
+      python: `from typing import Optional
+
+# class TreeNode:
+#     def __init__(self, val=0, left=None, right=None): ...
+
+def max_depth(root: Optional['TreeNode']) -> int:
+    pass`,
+      java: `class Solution {
+    public int maxDepth(TreeNode root) {
+        
+    }
+}`,
+      cpp: `int maxDepth(TreeNode* root) {
+
+}`,
+      go: `func maxDepth(root *TreeNode) int {
+
+}`
+    },
+    solution: {
+      approach: 'The depth of a tree is one more than the deeper of its two subtrees; an empty tree has depth 0. Recurse on both children.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(h) for tree height h',
+      code: {
+        javascript: `function maxDepth(root) {
+  if (!root) {
+    return 0;
+  }
+
+  return 1 + Math.max(maxDepth(root.left), maxDepth(root.right));
+}`,
+        python: `def max_depth(root):
+    if not root:
+        return 0
+
+    return 1 + max(max_depth(root.left), max_depth(root.right))`
+      }
+    },
     planRequired: 'premium'
   },
   {
@@ -174,8 +1558,88 @@ export const questionBank: Question[] = [
     title: 'Invert Binary Tree',
     difficulty: 'easy',
     category: 'trees',
+    patterns: ['dfs', 'recursion'],
     statement: 'Given the root of a binary tree, invert the tree, and return its root. Inverting means swapping the left and right children of all nodes.',
-    hint: 'Recursively swap the left and right children of each node.',
+    hints: [
+      'Inverting a tree means inverting every subtree too.',
+      'Recursively swap the left and right children of each node.',
+      'If root is null, return it. Swap root.left and root.right, invert both children recursively, then return root.'
+    ],
+    examples: [
+      { input: 'root = [4,2,7,1,3,6,9]', output: '[4,7,2,9,6,3,1]' },
+      { input: 'root = [2,1,3]', output: '[2,3,1]' }
+    ],
+    constraints: [
+      'The number of nodes in the tree is in the range [0, 100].',
+      '-100 <= Node.val <= 100'
+    ],
+    testCases: [
+      { args: [[4, 2, 7, 1, 3, 6, 9]], expected: [4, 7, 2, 9, 6, 3, 1] },
+      { args: [[2, 1, 3]], expected: [2, 3, 1] },
+      { args: [[]], expected: [] }
+    ],
+    runner: { entryPoint: 'invertTree', argKinds: ['tree'], returnKind: 'tree' },
+    starterCode: {
+      javascript: `// Tree nodes have the shape { val, left, right }
+/**
+ * @param {TreeNode | null} root
+ * @return {TreeNode | null}
+ */
+function invertTree(root) {
+
+}`,
+      typescript: `interface TreeNode {
+  val: number;
+  left: TreeNode | null;
+  right: TreeNode | null;
+}
+
+function invertTree(root: TreeNode | null): TreeNode | null {
+
+}`,
+      python: `from typing import Optional
+
+# class TreeNode:
+#     def __init__(self, val=0, left=None, right=None): ...
+
+def invert_tree(root: Optional['TreeNode']) -> Optional['TreeNode']:
+    pass`,
+      java: `class Solution {
+    public TreeNode invertTree(TreeNode root) {
+        
+    }
+}`,
+      cpp: `TreeNode* invertTree(TreeNode* root) {
+
+}`,
+      go: `func invertTree(root *TreeNode) *TreeNode {
+
+}`
+    },
+    solution: {
+      approach: 'Invert both subtrees recursively, then swap the left and right children of the current node.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(h) for tree height h',
+      code: {
+        javascript: `function invertTree(root) {
+  if (!root) {
+    return null;
+  }
+
+  const left = invertTree(root.left);
+  root.left = invertTree(root.right);
+  root.right = left;
+
+  return root;
+}`,
+        python: `def invert_tree(root):
+    if not root:
+        return None
+
+    root.left, root.right = invert_tree(root.right), invert_tree(root.left)
+    return root`
+      }
+    },
     planRequired: 'premium'
   },
   {
@@ -183,8 +1647,90 @@ export const questionBank: Question[] = [
     title: 'Validate Binary Search Tree',
     difficulty: 'medium',
     category: 'trees',
+    patterns: ['dfs', 'recursion'],
     statement: 'Given the root of a binary tree, determine if it is a valid binary search tree (BST). A valid BST is defined as follows: The left subtree of a node contains only nodes with keys less than the node\'s key. The right subtree of a node contains only nodes with keys greater than the node\'s key. Both the left and right subtrees must also be binary search trees.',
-    hint: 'Pass down the valid range (min, max) for each node as you traverse.',
+    hints: [
+      'Checking each node only against its direct children is not enough. Why?',
+      'Pass down the valid range (min, max) for each node as you traverse.',
+      'Recurse with validate(node, low, high): fail if node.val <= low or node.val >= high, then check left with (low, node.val) and right with (node.val, high).'
+    ],
+    examples: [
+      { input: 'root = [2,1,3]', output: 'true' },
+      { input: 'root = [5,1,4,null,null,3,6]', output: 'false', explanation: 'The root node\'s value is 5 but its right child\'s value is 4.' }
+    ],
+    constraints: [
+      'The number of nodes in the tree is in the range [1, 10^4].',
+      '-2^31 <= Node.val <= 2^31 - 1'
+    ],
+    testCases: [
+      { args: [[2, 1, 3]], expected: true },
+      { args: [[5, 1, 4, null, null, 3, 6]], expected: false },
+      { args: [[5, 4, 6, null, null, 3, 7]], expected: false }
+    ],
+    runner: { entryPoint: 'isValidBST', argKinds: ['tree'] },
+    starterCode: {
+      javascript: `// Tree nodes have the shape { val, left, right }
+/**
+ * @param {TreeNode | null} root
+ * @return {boolean}
+ */
+function isValidBST(root) {
+
+}`,
+      typescript: `interface TreeNode {
+  val: number;
+  left: TreeNode | null;
+  right: TreeNode | null;
+}
+
+function isValidBST(root: TreeNode | null): boolean {
+
+}`,
+      python: `from typing import Optional
+
+# class TreeNode:
+#     def __init__(self, val=0, left=None, right=None): ...
+
+def is_valid_bst(root: Optional['TreeNode']) -> bool:
+    pass`,
+      java: `class Solution {
+    public boolean isValidBST(TreeNode root) {
+        
+    }
+}`,
+      cpp: `bool isValidBST(TreeNode* root) {
+
+}`,
+      go: `func isValidBST(root *TreeNode) bool {
+
+}`
+    },
+    solution: {
+      approach: 'Pass down the open interval each node must fall within. Going left tightens the upper bound to the parent value; going right tightens the lower bound.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(h) for tree height h',
+      code: {
+        javascript: `function isValidBST(root, low = -Infinity, high = Infinity) {
+  if (!root) {
+    return true;
+  }
+
+  if (root.val <= low || root.val >= high) {
+    return false;
+  }
+
+  return isValidBST(root.left, low, root.val) && isValidBST(root.right, root.val, high);
+}`,
+        python: `def is_valid_bst(root, low=float('-inf'), high=float('inf')):
+    if not root:
+        return True
+
+    if not low < root.val < high:
+        return False
+
+    return is_valid_bst(root.left, low, root.val) and is_valid_bst(root.right, root.val, high)`
+      }
+    },
     planRequired: 'premium'
   },
   {
@@ -192,8 +1738,98 @@ export const questionBank: Question[] = [
     title: 'Binary Tree Level Order Traversal',
     difficulty: 'medium',
     category: 'trees',
+    patterns: ['bfs'],
     statement: 'Given the root of a binary tree, return the level order traversal of its nodes\' values. (i.e., from left to right, level by level).',
-    hint: 'Use a queue for breadth-first search (BFS).',
+    hints: [
+      'You need every node of one depth before any node of the next.',
+      'Use a queue for breadth-first search (BFS).',
+      'While the queue is not empty, take its current size, dequeue that many nodes into one level and enqueue their children.'
+    ],
+    examples: [
+      { input: 'root = [3,9,20,null,null,15,7]', output: '[[3],[9,20],[15,7]]' },
+      { input: 'root = [1]', output: '[[1]]' }
+    ],
+    constraints: [
+      'The number of nodes in the tree is in the range [0, 2000].',
+      '-1000 <= Node.val <= 1000'
+    ],
+    testCases: [
+      { args: [[3, 9, 20, null, null, 15, 7]], expected: [[3], [9, 20], [15, 7]] },
+      { args: [[1]], expected: [[1]] },
+      { args: [[]], expected: [] }
+    ],
+    runner: { entryPoint: 'levelOrder', argKinds: ['tree'] },
+    starterCode: {
+      javascript: `// Tree nodes have the shape { val, left, right }
+/**
+ * @param {TreeNode | null} root
+ * @return {number[][]}
+ */
+function levelOrder(root) {
+
+}`,
+      typescript: `interface TreeNode {
+  val: number;
+  left: TreeNode | null;
+  right: TreeNode | null;
+}
+
+function levelOrder(root: TreeNode | null): number[][] {
+
+}`,
+      python: `from typing import Optional
+
+# class TreeNode:
+#     def __init__(self, val=0, left=None, right=None): ...
+
+def level_order(root: Optional['TreeNode']) -> list[list[int]]:
+    pass`,
+      java: `class Solution {
+    public List<List<Integer>> levelOrder(TreeNode root) {
+        
+    }
+}`,
+      cpp: `vector<vector<int>> levelOrder(TreeNode* root) {
+
+}`,
+      go: `func levelOrder(root *TreeNode) [][]int {
+
+}`
+    },
+    solution: {
+      approach: 'Breadth-first search one level at a time: record the values of the current level, then build the next level from their children.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(w) for maximum level width w',
+      code: {
+        javascript: `function levelOrder(root) {
+  if (!root) {
+    return [];
+  }
+
+  const levels = [];
+  let queue = [root];
+
+  while (queue.length > 0) {
+    levels.push(queue.map(node => node.val));
+    queue = queue.flatMap(node => [node.left, node.right].filter(Boolean));
+  }
+
+  return levels;
+}`,
+        python: `def level_order(root):
+    if not root:
+        return []
+
+    levels = []
+    queue = [root]
+
+    while queue:
+        levels.append([node.val for node in queue])
+        queue = [child for node in queue for child in (node.left, node.right) if child]
+
+    return levels`
+      }
+    },
     planRequired: 'premium'
   },
   {
@@ -201,8 +1837,103 @@ export const questionBank: Question[] = [
     title: 'Lowest Common Ancestor of a Binary Search Tree',
     difficulty: 'medium',
     category: 'trees',
+    patterns: ['binary-search', 'recursion'],
     statement: 'Given a binary search tree (BST), find the lowest common ancestor (LCA) node of two given nodes in the BST. The lowest common ancestor is defined between two nodes p and q as the lowest node in T that has both p and q as descendants.',
-    hint: 'Use the BST property: if both nodes are smaller, go left; if both are larger, go right; otherwise, you\'ve found the LCA.',
+    hints: [
+      'In a BST, the values of p and q tell you which side of a node they are on.',
+      'Use the BST property: if both nodes are smaller, go left; if both are larger, go right; otherwise, you\'ve found the LCA.',
+      'Start at the root and walk left or right while both values are on the same side; the first node that splits them, or equals one of them, is the answer.'
+    ],
+    examples: [
+      { input: 'root = [6,2,8,0,4,7,9,null,null,3,5], p = 2, q = 8', output: '6', explanation: 'The LCA of nodes 2 and 8 is 6.' },
+      { input: 'root = [6,2,8,0,4,7,9,null,null,3,5], p = 2, q = 4', output: '2', explanation: 'A node can be a descendant of itself according to the LCA definition.' }
+    ],
+    constraints: [
+      'The number of nodes in the tree is in the range [2, 10^5].',
+      '-10^9 <= Node.val <= 10^9',
+      'All Node.val are unique.',
+      'p != q',
+      'p and q will exist in the BST.'
+    ],
+    testCases: [
+      { args: [[6, 2, 8, 0, 4, 7, 9, null, null, 3, 5], 2, 8], expected: 6 },
+      { args: [[6, 2, 8, 0, 4, 7, 9, null, null, 3, 5], 2, 4], expected: 2 },
+      { args: [[2, 1], 2, 1], expected: 2 }
+    ],
+    runner: { entryPoint: 'lowestCommonAncestor', argKinds: ['tree', 'value', 'value'] },
+    starterCode: {
+      javascript: `// Tree nodes have the shape { val, left, right }
+/**
+ * @param {TreeNode | null} root
+ * @param {number} p
+ * @param {number} q
+ * @return {number}
+ */
+function lowestCommonAncestor(root, p, q) {
+
+}`,
+      typescript: `interface TreeNode {
+  val: number;
+  left: TreeNode | null;
+  right: TreeNode | null;
+}
+
+function lowestCommonAncestor(root: TreeNode | null, p: number, q: number): number {
+
+}`,
+      python: `from typing import Optional
+
+# class TreeNode:
+#     def __init__(self, val=0, left=None, right=None): ...
+
+def lowest_common_ancestor(root: Optional['TreeNode'], p: int, q: int) -> int:
+    pass`,
+      java: `class Solution {
+    public int lowestCommonAncestor(TreeNode root, int p, int q) {
+        
+    }
+}`,
+      cpp: `int lowestCommonAncestor(TreeNode* root, int p, int q) {
+
+}`,
+      go: `func lowestCommonAncestor(root *TreeNode, p int, q int) int {
+
+}`
+    },
+    solution: {
+      approach: 'Use the BST ordering: while both values are smaller than the current node go left, while both are larger go right. The first node where they split (or that equals one of them) is the lowest common ancestor.',
+      timeComplexity: 'O(h) for tree height h',
+      spaceComplexity: 'O(1)',
+      code: {
+        javascript: `function lowestCommonAncestor(root, p, q) {
+  let node = root;
+
+  while (node) {
+    if (p < node.val && q < node.val) {
+      node = node.left;
+    } else if (p > node.val && q > node.val) {
+      node = node.right;
+    } else {
+      return node.val;
+    }
+  }
+
+  return null;
+}`,
+        python: `def lowest_common_ancestor(root, p, q):
+    node = root
+
+    while node:
+        if p < node.val and q < node.val:
+            node = node.left
+        elif p > node.val and q > node.val:
+            node = node.right
+        else:
+            return node.val
+
+    return None`
+      }
+    },
     planRequired: 'premium'
   },
 
@@ -212,8 +1943,106 @@ export const questionBank: Question[] = [
     title: 'Number of Islands',
     difficulty: 'medium',
     category: 'graphs',
+    patterns: ['dfs', 'bfs'],
     statement: 'Given an m x n 2D binary grid which represents a map of \'1\'s (land) and \'0\'s (water), return the number of islands. An island is surrounded by water and is formed by connecting adjacent lands horizontally or vertically.',
-    hint: 'Use DFS or BFS to mark all connected land cells as visited when you find an island.',
+    hints: [
+      'Each island is a group of connected land cells. How would you count connected groups?',
+      'Use DFS or BFS to mark all connected land cells as visited when you find an island.',
+      'Scan the grid; on each \'1\', add one to the count and flood fill its neighbours to \'0\' so the island is not counted again.'
+    ],
+    examples: [
+      { input: 'grid = [["1","1","1","1","0"],["1","1","0","1","0"],["1","1","0","0","0"],["0","0","0","0","0"]]', output: '1' },
+      { input: 'grid = [["1","1","0","0","0"],["1","1","0","0","0"],["0","0","1","0","0"],["0","0","0","1","1"]]', output: '3' }
+    ],
+    constraints: [
+      'm == grid.length',
+      'n == grid[i].length',
+      '1 <= m, n <= 300',
+      'grid[i][j] is \'0\' or \'1\'.'
+    ],
+    testCases: [
+      { args: [[["1", "1", "1", "1", "0"], ["1", "1", "0", "1", "0"], ["1", "1", "0", "0", "0"], ["0", "0", "0", "0", "0"]]], expected: 1 },
+      { args: [[["1", "1", "0", "0", "0"], ["1", "1", "0", "0", "0"], ["0", "0", "1", "0", "0"], ["0", "0", "0", "1", "1"]]], expected: 3 },
+      { args: [[["0"]]], expected: 0 }
+    ],
+    runner: { entryPoint: 'numIslands' },
+    starterCode: {
+      javascript: `/**
+ * @param {string[][]} grid
+ * @return {number}
+ */
+function numIslands(grid) {
+
+}`,
+      typescript: `function numIslands(grid: string[][]): number {
+
+}`,
+      python: `def num_islands(grid: list[list[str]]) -> int:
+    pass`,
+      java: `class Solution {
+    public int numIslands(char[][] grid) {
+        
+    }
+}`,
+      cpp: `int numIslands(vector<vector<char>>& grid) {
+
+}`,
+      go: `func numIslands(grid [][]byte) int {
+
+}`
+    },
+    solution: {
+      approach: 'Scan every cell. Each time an unvisited land cell is found, count a new island and flood-fill (DFS) its connected land to water so it is not counted again.',
+      timeComplexity: 'O(m * n)',
+      spaceComplexity: 'O(m * n) recursion in the worst case',
+      code: {
+        javascript: `function numIslands(grid) {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  let count = 0;
+
+  const sink = (r, c) => {
+    if (r < 0 || c < 0 || r >= rows || c >= cols || grid[r][c] !== '1') return;
+    grid[r][c] = '0';
+    sink(r + 1, c);
+    sink(r - 1, c);
+    sink(r, c + 1);
+    sink(r, c - 1);
+  };
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (grid[r][c] === '1') {
+        count++;
+        sink(r, c);
+      }
+    }
+  }
+
+  return count;
+}`,
+        python: `def num_islands(grid):
+    rows, cols = len(grid), len(grid[0])
+
+    def sink(r, c):
+        if r < 0 or c < 0 or r >= rows or c >= cols or grid[r][c] != '1':
+            return
+        grid[r][c] = '0'
+        sink(r + 1, c)
+        sink(r - 1, c)
+        sink(r, c + 1)
+        sink(r, c - 1)
+
+    count = 0
+    for r in range(rows):
+        for c in range(cols):
+            if grid[r][c] == '1':
+                count += 1
+                sink(r, c)
+
+    return count`
+      }
+    },
     planRequired: 'premium'
   },
   {
@@ -221,8 +2050,104 @@ export const questionBank: Question[] = [
     title: 'Clone Graph',
     difficulty: 'medium',
     category: 'graphs',
+    patterns: ['dfs', 'hash-map'],
     statement: 'Given a reference of a node in a connected undirected graph, return a deep copy (clone) of the graph. Each node in the graph contains a value (int) and a list of its neighbors.',
-    hint: 'Use a hash map to track original nodes to their clones, and perform DFS or BFS.',
+    hints: [
+      'The graph can have cycles, so you must not clone the same node twice.',
+      'Use a hash map to track original nodes to their clones, and perform DFS or BFS.',
+      'clone(node): return map.get(node) if present; otherwise create the copy, store it in the map first, then set its neighbors to the clones of node\'s neighbors.'
+    ],
+    examples: [
+      { input: 'adjList = [[2,4],[1,3],[2,4],[1,3]]', output: '[[2,4],[1,3],[2,4],[1,3]]', explanation: 'Node 1 is connected to nodes 2 and 4, node 2 to nodes 1 and 3, and so on.' },
+      { input: 'adjList = [[]]', output: '[[]]', explanation: 'The graph has a single node with no neighbors.' }
+    ],
+    constraints: [
+      'The number of nodes in the graph is in the range [0, 100].',
+      '1 <= Node.val <= 100',
+      'Node.val is unique for each node.',
+      'There are no repeated edges and no self-loops in the graph.'
+    ],
+    testCases: [
+      { args: [[[2, 4], [1, 3], [2, 4], [1, 3]]], expected: [[2, 4], [1, 3], [2, 4], [1, 3]] },
+      { args: [[[]]], expected: [[]] },
+      { args: [[]], expected: [] }
+    ],
+    runner: { entryPoint: 'cloneGraph', argKinds: ['graph'], returnKind: 'graph' },
+    starterCode: {
+      javascript: `// Graph nodes have the shape { val, neighbors }
+/**
+ * @param {Node | null} node
+ * @return {Node | null}
+ */
+function cloneGraph(node) {
+
+}`,
+      typescript: `interface Node {
+  val: number;
+  neighbors: Node[];
+}
+
+function cloneGraph(node: Node | null): Node | null {
+
+}`,
+      python: `from typing import Optional
+
+# class Node:
+#     def __init__(self, val=0, neighbors=None): ...
+
+def clone_graph(node: Optional['Node']) -> Optional['Node']:
+    pass`,
+      java: `class Solution {
+    public Node cloneGraph(Node node) {
+        
+    }
+}`,
+      cpp: `Node* cloneGraph(Node* node) {
+
+}`,
+      go: `func cloneGraph(node *Node) *Node {
+
+}`
+    },
+    solution: {
+      approach: 'Depth-first traversal with a map from original node to its copy. Create the copy before visiting neighbours so cycles resolve to the already-created clone.',
+      timeComplexity: 'O(V + E)',
+      spaceComplexity: 'O(V)',
+      code: {
+        javascript: `function cloneGraph(node, clones = new Map()) {
+  if (!node) {
+    return null;
+  }
+
+  if (clones.has(node)) {
+    return clones.get(node);
+  }
+
+  const copy = { val: node.val, neighbors: [] };
+  clones.set(node, copy);
+
+  for (const neighbor of node.neighbors) {
+    copy.neighbors.push(cloneGraph(neighbor, clones));
+  }
+
+  return copy;
+}`,
+        python: `def clone_graph(node, clones=None):
+    if node is None:
+        return None
+
+    if clones is None:
+        clones = {}
+    if node in clones:
+        return clones[node]
+
+    copy = Node(node.val)
+    clones[node] = copy
+    copy.neighbors = [clone_graph(neighbor, clones) for neighbor in node.neighbors]
+
+    return copy`
+      }
+    },
     planRequired: 'premium'
   },
   {
@@ -230,8 +2155,116 @@ export const questionBank: Question[] = [
     title: 'Pacific Atlantic Water Flow',
     difficulty: 'medium',
     category: 'graphs',
+    patterns: ['dfs', 'bfs'],
     statement: 'There is an m x n rectangular island that borders both the Pacific Ocean and Atlantic Ocean. Given an m x n matrix of non-negative integers representing the height of each unit cell, return a list of grid coordinates where water can flow to both the Pacific and Atlantic oceans.',
-    hint: 'Run DFS from both ocean borders and find cells reachable from both.',
+    hints: [
+      'Checking where water flows from every cell is slow. Try reversing the direction of flow.',
+      'Run DFS from both ocean borders and find cells reachable from both.',
+      'Flood fill from each ocean\'s border cells, moving only to neighbours of equal or greater height, and return the cells both searches reached.'
+    ],
+    examples: [
+      { input: 'heights = [[1,2,2,3,5],[3,2,3,4,4],[2,4,5,3,1],[6,7,1,4,5],[5,1,1,2,4]]', output: '[[0,4],[1,3],[1,4],[2,2],[3,0],[3,1],[4,0]]' },
+      { input: 'heights = [[1]]', output: '[[0,0]]', explanation: 'Water can flow from the only cell to both oceans.' }
+    ],
+    constraints: [
+      'm == heights.length',
+      'n == heights[r].length',
+      '1 <= m, n <= 200',
+      '0 <= heights[r][c] <= 10^5'
+    ],
+    testCases: [
+      { args: [[[1, 2, 2, 3, 5], [3, 2, 3, 4, 4], [2, 4, 5, 3, 1], [6, 7, 1, 4, 5], [5, 1, 1, 2, 4]]], expected: [[0, 4], [1, 3], [1, 4], [2, 2], [3, 0], [3, 1], [4, 0]], unordered: true },
+      { args: [[[1]]], expected: [[0, 0]], unordered: true }
+    ],
+    runner: { entryPoint: 'pacificAtlantic' },
+    starterCode: {
+      javascript: `/**
+ * @param {number[][]} heights
+ * @return {number[][]}
+ */
+function pacificAtlantic(heights) {
+
+}`,
+      typescript: `function pacificAtlantic(heights: number[][]): number[][] {
+
+}`,
+      python: `def pacific_atlantic(heights: list[list[int]]) -> list[list[int]]:
+    pass`,
+      java: `class Solution {
+    public List<List<Integer>> pacificAtlantic(int[][] heights) {
+        
+    }
+}`,
+      cpp: `vector<vector<int>> pacificAtlantic(vector<vector<int>>& heights) {
+
+}`,
+      go: `func pacificAtlantic(heights [][]int) [][]int {
+
+}`
+    },
+    solution: {
+      approach: 'Work backwards from the oceans: flood uphill from every Pacific-border cell and, separately, from every Atlantic-border cell. Cells reached by both searches can drain to both oceans.',
+      timeComplexity: 'O(m * n)',
+      spaceComplexity: 'O(m * n)',
+      code: {
+        javascript: `function pacificAtlantic(heights) {
+  const rows = heights.length;
+  const cols = heights[0].length;
+  const pacific = Array.from({ length: rows }, () => new Array(cols).fill(false));
+  const atlantic = Array.from({ length: rows }, () => new Array(cols).fill(false));
+
+  const flood = (r, c, reachable, previousHeight) => {
+    if (r < 0 || c < 0 || r >= rows || c >= cols) return;
+    if (reachable[r][c] || heights[r][c] < previousHeight) return;
+    reachable[r][c] = true;
+    flood(r + 1, c, reachable, heights[r][c]);
+    flood(r - 1, c, reachable, heights[r][c]);
+    flood(r, c + 1, reachable, heights[r][c]);
+    flood(r, c - 1, reachable, heights[r][c]);
+  };
+
+  for (let r = 0; r < rows; r++) {
+    flood(r, 0, pacific, -Infinity);
+    flood(r, cols - 1, atlantic, -Infinity);
+  }
+  for (let c = 0; c < cols; c++) {
+    flood(0, c, pacific, -Infinity);
+    flood(rows - 1, c, atlantic, -Infinity);
+  }
+
+  const result = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (pacific[r][c] && atlantic[r][c]) {
+        result.push([r, c]);
+      }
+    }
+  }
+
+  return result;
+}`,
+        python: `def pacific_atlantic(heights):
+    rows, cols = len(heights), len(heights[0])
+
+    def flood(starts):
+        reachable = set()
+        stack = list(starts)
+        while stack:
+            r, c = stack.pop()
+            if (r, c) in reachable:
+                continue
+            reachable.add((r, c))
+            for nr, nc in ((r + 1, c), (r - 1, c), (r, c + 1), (r, c - 1)):
+                if 0 <= nr < rows and 0 <= nc < cols and heights[nr][nc] >= heights[r][c]:
+                    stack.append((nr, nc))
+        return reachable
+
+    pacific = flood([(r, 0) for r in range(rows)] + [(0, c) for c in range(cols)])
+    atlantic = flood([(r, cols - 1) for r in range(rows)] + [(rows - 1, c) for c in range(cols)])
+
+    return [[r, c] for r, c in sorted(pacific & atlantic)]`
+      }
+    },
     planRequired: 'premium'
   },
   {
@@ -239,8 +2272,113 @@ export const questionBank: Question[] = [
     title: 'Course Schedule',
     difficulty: 'medium',
     category: 'graphs',
+    patterns: ['topological-sort'],
     statement: 'There are a total of numCourses courses you have to take, labeled from 0 to numCourses - 1. You are given an array prerequisites where prerequisites[i] = [ai, bi] indicates that you must take course bi first if you want to take course ai. Return true if you can finish all courses. Otherwise, return false.',
-    hint: 'This is a cycle detection problem in a directed graph. Use DFS with a visited state tracking.',
+    hints: [
+      'Model courses as nodes and prerequisites as directed edges. When is finishing impossible?',
+      'This is a cycle detection problem in a directed graph. Use DFS with a visited state tracking.',
+      'Use Kahn\'s algorithm: count in-degrees, queue courses with none, remove their edges as you take them, and check you took all numCourses.'
+    ],
+    examples: [
+      { input: 'numCourses = 2, prerequisites = [[1,0]]', output: 'true', explanation: 'Take course 0 first, then course 1.' },
+      { input: 'numCourses = 2, prerequisites = [[1,0],[0,1]]', output: 'false', explanation: 'Each course requires the other, which is impossible.' }
+    ],
+    constraints: [
+      '1 <= numCourses <= 2000',
+      '0 <= prerequisites.length <= 5000',
+      'prerequisites[i].length == 2',
+      '0 <= ai, bi < numCourses',
+      'All the pairs prerequisites[i] are unique.'
+    ],
+    testCases: [
+      { args: [2, [[1, 0]]], expected: true },
+      { args: [2, [[1, 0], [0, 1]]], expected: false },
+      { args: [3, [[1, 0], [2, 1]]], expected: true },
+      { args: [1, []], expected: true }
+    ],
+    runner: { entryPoint: 'canFinish' },
+    starterCode: {
+      javascript: `/**
+ * @param {number} numCourses
+ * @param {number[][]} prerequisites
+ * @return {boolean}
+ */
+function canFinish(numCourses, prerequisites) {
+
+}`,
+      typescript: `function canFinish(numCourses: number, prerequisites: number[][]): boolean {
+
+}`,
+      python: `def can_finish(num_courses: int, prerequisites: list[list[int]]) -> bool:
+    pass`,
+      java: `class Solution {
+    public boolean canFinish(int numCourses, int[][] prerequisites) {
+        
+    }
+}`,
+      cpp: `bool canFinish(int numCourses, vector<vector<int>>& prerequisites) {
+
+}`,
+      go: `func canFinish(numCourses int, prerequisites [][]int) bool {
+
+}`
+    },
+    solution: {
+      approach: 'Model courses as a directed graph and run Kahn\'s topological sort. If every course can be removed from the queue, there is no cycle and all courses can be finished.',
+      timeComplexity: 'O(V + E)',
+      spaceComplexity: 'O(V + E)',
+      code: {
+        javascript: `function canFinish(numCourses, prerequisites) {
+  const graph = Array.from({ length: numCourses }, () => []);
+  const inDegree = new Array(numCourses).fill(0);
+
+  for (const [course, prerequisite] of prerequisites) {
+    graph[prerequisite].push(course);
+    inDegree[course]++;
+  }
+
+  const queue = [];
+  for (let i = 0; i < numCourses; i++) {
+    if (inDegree[i] === 0) queue.push(i);
+  }
+
+  let taken = 0;
+  while (queue.length > 0) {
+    const course = queue.shift();
+    taken++;
+
+    for (const next of graph[course]) {
+      inDegree[next]--;
+      if (inDegree[next] === 0) queue.push(next);
+    }
+  }
+
+  return taken === numCourses;
+}`,
+        python: `from collections import deque
+
+def can_finish(num_courses, prerequisites):
+    graph = [[] for _ in range(num_courses)]
+    in_degree = [0] * num_courses
+
+    for course, prerequisite in prerequisites:
+        graph[prerequisite].append(course)
+        in_degree[course] += 1
+
+    queue = deque(i for i in range(num_courses) if in_degree[i] == 0)
+    taken = 0
+
+    while queue:
+        course = queue.popleft()
+        taken += 1
+        for nxt in graph[course]:
+            in_degree[nxt] -= 1
+            if in_degree[nxt] == 0:
+                queue.append(nxt)
+
+    return taken == num_courses`
+      }
+    },
     planRequired: 'premium'
   },
   {
@@ -248,8 +2386,108 @@ export const questionBank: Question[] = [
     title: 'Graph Valid Tree',
     difficulty: 'medium',
     category: 'graphs',
+    patterns: ['union-find', 'dfs'],
     statement: 'Given n nodes labeled from 0 to n-1 and a list of undirected edges, write a function to check whether these edges make up a valid tree. A valid tree must be connected and have no cycles.',
-    hint: 'A tree with n nodes must have exactly n-1 edges, be connected, and have no cycles.',
+    hints: [
+      'What must be true of the edges of any tree with n nodes?',
+      'A tree with n nodes must have exactly n-1 edges, be connected, and have no cycles.',
+      'Return false unless edges.length === n - 1; then union the endpoints of each edge and return false if any edge joins two nodes already connected.'
+    ],
+    examples: [
+      { input: 'n = 5, edges = [[0,1],[0,2],[0,3],[1,4]]', output: 'true' },
+      { input: 'n = 5, edges = [[0,1],[1,2],[2,3],[1,3],[1,4]]', output: 'false', explanation: 'The edges 1-2, 2-3 and 1-3 form a cycle.' }
+    ],
+    constraints: [
+      '1 <= n <= 2000',
+      '0 <= edges.length <= 5000',
+      'edges[i].length == 2',
+      '0 <= ai, bi < n',
+      'There are no self-loops or repeated edges.'
+    ],
+    testCases: [
+      { args: [5, [[0, 1], [0, 2], [0, 3], [1, 4]]], expected: true },
+      { args: [5, [[0, 1], [1, 2], [2, 3], [1, 3], [1, 4]]], expected: false },
+      { args: [4, [[0, 1], [2, 3]]], expected: false },
+      { args: [1, []], expected: true }
+    ],
+    runner: { entryPoint: 'validTree' },
+    starterCode: {
+      javascript: `/**
+ * @param {number} n
+ * @param {number[][]} edges
+ * @return {boolean}
+ */
+function validTree(n, edges) {
+
+}`,
+      typescript: `function validTree(n: number, edges: number[][]): boolean {
+
+}`,
+      python: `def valid_tree(n: int, edges: list[list[int]]) -> bool:
+    pass`,
+      java: `class Solution {
+    public boolean validTree(int n, int[][] edges) {
+        
+    }
+}`,
+      cpp: `bool validTree(int n, vector<vector<int>>& edges) {
+
+}`,
+      go: `func validTree(n int, edges [][]int) bool {
+
+}`
+    },
+    solution: {
+      approach: 'A tree on n nodes has exactly n - 1 edges and no cycles. Check the edge count, then union the endpoints of every edge; joining two nodes that already share a root means a cycle.',
+      timeComplexity: 'O(n * α(n))',
+      spaceComplexity: 'O(n)',
+      code: {
+        javascript: `function validTree(n, edges) {
+  if (edges.length !== n - 1) {
+    return false;
+  }
+
+  const parent = Array.from({ length: n }, (_, i) => i);
+  const find = (x) => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+
+  for (const [a, b] of edges) {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) {
+      return false;
+    }
+    parent[rootA] = rootB;
+  }
+
+  return true;
+}`,
+        python: `def valid_tree(n, edges):
+    if len(edges) != n - 1:
+        return False
+
+    parent = list(range(n))
+
+    def find(x):
+        while parent[x] != x:
+            parent[x] = parent[parent[x]]
+            x = parent[x]
+        return x
+
+    for a, b in edges:
+        root_a, root_b = find(a), find(b)
+        if root_a == root_b:
+            return False
+        parent[root_a] = root_b
+
+    return True`
+      }
+    },
     planRequired: 'premium'
   },
 
@@ -259,8 +2497,78 @@ export const questionBank: Question[] = [
     title: 'Climbing Stairs',
     difficulty: 'easy',
     category: 'dynamic-programming',
+    patterns: ['memoization', 'tabulation'],
     statement: 'You are climbing a staircase. It takes n steps to reach the top. Each time you can either climb 1 or 2 steps. In how many distinct ways can you climb to the top?',
-    hint: 'This is a Fibonacci sequence problem. The number of ways to reach step n is the sum of ways to reach step n-1 and n-2.',
+    hints: [
+      'To stand on step n, what was your last move?',
+      'This is a Fibonacci sequence problem. The number of ways to reach step n is the sum of ways to reach step n-1 and n-2.',
+      'Keep two variables for the ways to reach the previous two steps and roll them forward n times: next = a + b.'
+    ],
+    examples: [
+      { input: 'n = 2', output: '2', explanation: '1 step + 1 step, or 2 steps.' },
+      { input: 'n = 3', output: '3', explanation: '1 + 1 + 1, 1 + 2, or 2 + 1.' }
+    ],
+    constraints: [
+      '1 <= n <= 45'
+    ],
+    testCases: [
+      { args: [1], expected: 1 },
+      { args: [2], expected: 2 },
+      { args: [3], expected: 3 },
+      { args: [5], expected: 8 }
+    ],
+    runner: { entryPoint: 'climbStairs' },
+    starterCode: {
+      javascript: `/**
+ * @param {number} n
+ * @return {number}
+ */
+function climbStairs(n) {
+
+}`,
+      typescript: `function climbStairs(n: number): number {
+
+}`,
+      python: `def climb_stairs(n: int) -> int:
+    pass`,
+      java: `class Solution {
+    public int climbStairs(int n) {
+        
+    }
+}`,
+      cpp: `int climbStairs(int n) {
+
+}`,
+      go: `func climbStairs(n int) int {
+
+}`
+    },
+    solution: {
+      approach: 'The number of ways to reach step n is ways(n - 1) + ways(n - 2), the Fibonacci recurrence. Keep only the last two values.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(1)',
+      code: {
+        javascript: `function climbStairs(n) {
+  let oneBack = 1;
+  let twoBack = 1;
+
+  for (let i = 2; i <= n; i++) {
+    const current = oneBack + twoBack;
+    twoBack = oneBack;
+    oneBack = current;
+  }
+
+  return oneBack;
+}`,
+        python: `def climb_stairs(n):
+    one_back, two_back = 1, 1
+
+    for _ in range(2, n + 1):
+        one_back, two_back = one_back + two_back, one_back
+
+    return one_back`
+      }
+    },
     planRequired: 'premium'
   },
   {
@@ -268,8 +2576,85 @@ export const questionBank: Question[] = [
     title: 'Coin Change',
     difficulty: 'medium',
     category: 'dynamic-programming',
+    patterns: ['tabulation'],
     statement: 'You are given an integer array coins representing coins of different denominations and an integer amount representing a total amount of money. Return the fewest number of coins that you need to make up that amount. If that amount of money cannot be made up by any combination of the coins, return -1.',
-    hint: 'Use dynamic programming: dp[i] = minimum coins needed for amount i.',
+    hints: [
+      'Greedily taking the largest coin can fail. Try building answers up from smaller amounts.',
+      'Use dynamic programming: dp[i] = minimum coins needed for amount i.',
+      'dp[0] = 0 and the rest Infinity; for each amount i and coin c <= i, dp[i] = min(dp[i], dp[i - c] + 1). Return -1 if dp[amount] is still Infinity.'
+    ],
+    examples: [
+      { input: 'coins = [1,2,5], amount = 11', output: '3', explanation: '11 = 5 + 5 + 1' },
+      { input: 'coins = [2], amount = 3', output: '-1' }
+    ],
+    constraints: [
+      '1 <= coins.length <= 12',
+      '1 <= coins[i] <= 2^31 - 1',
+      '0 <= amount <= 10^4'
+    ],
+    testCases: [
+      { args: [[1, 2, 5], 11], expected: 3 },
+      { args: [[2], 3], expected: -1 },
+      { args: [[1], 0], expected: 0 },
+      { args: [[2, 5, 10, 1], 27], expected: 4 }
+    ],
+    runner: { entryPoint: 'coinChange' },
+    starterCode: {
+      javascript: `/**
+ * @param {number[]} coins
+ * @param {number} amount
+ * @return {number}
+ */
+function coinChange(coins, amount) {
+
+}`,
+      typescript: `function coinChange(coins: number[], amount: number): number {
+
+}`,
+      python: `def coin_change(coins: list[int], amount: int) -> int:
+    pass`,
+      java: `class Solution {
+    public int coinChange(int[] coins, int amount) {
+        
+    }
+}`,
+      cpp: `int coinChange(vector<int>& coins, int amount) {
+
+}`,
+      go: `func coinChange(coins []int, amount int) int {
+
+}`
+    },
+    solution: {
+      approach: 'Bottom-up DP where dp[total] is the fewest coins summing to total. For each total, try every coin and extend the best answer for total - coin.',
+      timeComplexity: 'O(amount * coins)',
+      spaceComplexity: 'O(amount)',
+      code: {
+        javascript: `function coinChange(coins, amount) {
+  const dp = new Array(amount + 1).fill(Infinity);
+  dp[0] = 0;
+
+  for (let total = 1; total <= amount; total++) {
+    for (const coin of coins) {
+      if (coin <= total) {
+        dp[total] = Math.min(dp[total], dp[total - coin] + 1);
+      }
+    }
+  }
+
+  return dp[amount] === Infinity ? -1 : dp[amount];
+}`,
+        python: `def coin_change(coins, amount):
+    dp = [0] + [float('inf')] * amount
+
+    for total in range(1, amount + 1):
+        for coin in coins:
+            if coin <= total:
+                dp[total] = min(dp[total], dp[total - coin] + 1)
+
+    return -1 if dp[amount] == float('inf') else dp[amount]`
+      }
+    },
     planRequired: 'premium'
   },
   {
@@ -277,8 +2662,93 @@ export const questionBank: Question[] = [
     title: 'Longest Increasing Subsequence',
     difficulty: 'medium',
     category: 'dynamic-programming',
+    patterns: ['tabulation', 'binary-search'],
     statement: 'Given an integer array nums, return the length of the longest strictly increasing subsequence.',
-    hint: 'Use dp[i] to store the length of the longest increasing subsequence ending at index i.',
+    hints: [
+      'Think about the best subsequence that ends exactly at each index.',
+      'Use dp[i] to store the length of the longest increasing subsequence ending at index i.',
+      'dp[i] = 1 + max(dp[j]) over j < i with nums[j] < nums[i], or 1 if there is none. The answer is the largest dp[i].'
+    ],
+    examples: [
+      { input: 'nums = [10,9,2,5,3,7,101,18]', output: '4', explanation: 'The longest increasing subsequence is [2,3,7,101], therefore the length is 4.' },
+      { input: 'nums = [7,7,7,7]', output: '1' }
+    ],
+    constraints: [
+      '1 <= nums.length <= 2500',
+      '-10^4 <= nums[i] <= 10^4'
+    ],
+    testCases: [
+      { args: [[10, 9, 2, 5, 3, 7, 101, 18]], expected: 4 },
+      { args: [[0, 1, 0, 3, 2, 3]], expected: 4 },
+      { args: [[7, 7, 7, 7]], expected: 1 }
+    ],
+    runner: { entryPoint: 'lengthOfLIS' },
+    starterCode: {
+      javascript: `/**
+ * @param {number[]} nums
+ * @return {number}
+ */
+function lengthOfLIS(nums) {
+
+}`,
+      typescript: `function lengthOfLIS(nums: number[]): number {
+
+}`,
+      python: `def length_of_lis(nums: list[int]) -> int:
+    pass`,
+      java: `class Solution {
+    public int lengthOfLIS(int[] nums) {
+        
+    }
+}`,
+      cpp: `int lengthOfLIS(vector<int>& nums) {
+
+}`,
+      go: `func lengthOfLIS(nums []int) int {
+
+}`
+    },
+    solution: {
+      approach: 'Patience sorting: keep tails[k] as the smallest tail of any increasing subsequence of length k + 1. Binary search where each number fits and replace that tail; the length of tails is the answer.',
+      timeComplexity: 'O(n log n)',
+      spaceComplexity: 'O(n)',
+      code: {
+        javascript: `function lengthOfLIS(nums) {
+  const tails = [];
+
+  for (const num of nums) {
+    let left = 0;
+    let right = tails.length;
+
+    while (left < right) {
+      const mid = Math.floor((left + right) / 2);
+      if (tails[mid] < num) {
+        left = mid + 1;
+      } else {
+        right = mid;
+      }
+    }
+
+    tails[left] = num;
+  }
+
+  return tails.length;
+}`,
+        python: `from bisect import bisect_left
+
+def length_of_lis(nums):
+    tails = []
+
+    for num in nums:
+        i = bisect_left(tails, num)
+        if i == len(tails):
+            tails.append(num)
+        else:
+            tails[i] = num
+
+    return len(tails)`
+      }
+    },
     planRequired: 'premium'
   },
   {
@@ -286,8 +2756,87 @@ export const questionBank: Question[] = [
     title: 'Word Break',
     difficulty: 'medium',
     category: 'dynamic-programming',
+    patterns: ['memoization', 'tabulation'],
     statement: 'Given a string s and a dictionary of strings wordDict, return true if s can be segmented into a space-separated sequence of one or more dictionary words.',
-    hint: 'Use dp[i] to indicate whether the substring s[0...i] can be segmented.',
+    hints: [
+      'If a prefix can be segmented, what has to be true about the rest of the string?',
+      'Use dp[i] to indicate whether the substring s[0...i] can be segmented.',
+      'dp[0] = true; dp[i] is true when some j < i has dp[j] true and s.slice(j, i) in the dictionary. Put the words in a Set for fast lookups.'
+    ],
+    examples: [
+      { input: 's = "leetcode", wordDict = ["leet","code"]', output: 'true', explanation: '"leetcode" can be segmented as "leet code".' },
+      { input: 's = "catsandog", wordDict = ["cats","dog","sand","and","cat"]', output: 'false' }
+    ],
+    constraints: [
+      '1 <= s.length <= 300',
+      '1 <= wordDict.length <= 1000',
+      '1 <= wordDict[i].length <= 20',
+      's and wordDict[i] consist of only lowercase English letters.',
+      'All the strings of wordDict are unique.'
+    ],
+    testCases: [
+      { args: ["leetcode", ["leet", "code"]], expected: true },
+      { args: ["applepenapple", ["apple", "pen"]], expected: true },
+      { args: ["catsandog", ["cats", "dog", "sand", "and", "cat"]], expected: false }
+    ],
+    runner: { entryPoint: 'wordBreak' },
+    starterCode: {
+      javascript: `/**
+ * @param {string} s
+ * @param {string[]} wordDict
+ * @return {boolean}
+ */
+function wordBreak(s, wordDict) {
+
+}`,
+      typescript: `function wordBreak(s: string, wordDict: string[]): boolean {
+
+}`,
+      python: `def word_break(s: str, word_dict: list[str]) -> bool:
+    pass`,
+      java: `class Solution {
+    public boolean wordBreak(String s, List<String> wordDict) {
+        
+    }
+}`,
+      cpp: `bool wordBreak(string s, vector<string>& wordDict) {
+
+}`,
+      go: `func wordBreak(s string, wordDict []string) bool {
+
+}`
+    },
+    solution: {
+      approach: 'dp[i] is true when the prefix s[0..i) can be segmented. A prefix is segmentable if some shorter segmentable prefix is followed by a dictionary word.',
+      timeComplexity: 'O(n^2) substring checks',
+      spaceComplexity: 'O(n)',
+      code: {
+        javascript: `function wordBreak(s, wordDict) {
+  const words = new Set(wordDict);
+  const dp = new Array(s.length + 1).fill(false);
+  dp[0] = true;
+
+  for (let end = 1; end <= s.length; end++) {
+    for (let start = 0; start < end; start++) {
+      if (dp[start] && words.has(s.slice(start, end))) {
+        dp[end] = true;
+        break;
+      }
+    }
+  }
+
+  return dp[s.length];
+}`,
+        python: `def word_break(s, word_dict):
+    words = set(word_dict)
+    dp = [True] + [False] * len(s)
+
+    for end in range(1, len(s) + 1):
+        dp[end] = any(dp[start] and s[start:end] in words for start in range(end))
+
+    return dp[len(s)]`
+      }
+    },
     planRequired: 'premium'
   },
   {
@@ -295,8 +2844,79 @@ export const questionBank: Question[] = [
     title: 'House Robber',
     difficulty: 'medium',
     category: 'dynamic-programming',
+    patterns: ['tabulation'],
     statement: 'You are a professional robber planning to rob houses along a street. Each house has a certain amount of money stashed. Adjacent houses have security systems connected and it will automatically contact the police if two adjacent houses were broken into on the same night. Given an integer array nums representing the amount of money of each house, return the maximum amount of money you can rob tonight without alerting the police.',
-    hint: 'At each house, decide whether to rob it (and skip the previous) or skip it (and keep the max from previous).',
+    hints: [
+      'You cannot rob two neighbours. What choice do you face at each house?',
+      'At each house, decide whether to rob it (and skip the previous) or skip it (and keep the max from previous).',
+      'Track rob and skip totals: newRob = skip + nums[i], newSkip = max(rob, skip). The answer is max(rob, skip) at the end.'
+    ],
+    examples: [
+      { input: 'nums = [1,2,3,1]', output: '4', explanation: 'Rob house 1 (money = 1) and then house 3 (money = 3) for a total of 4.' },
+      { input: 'nums = [2,7,9,3,1]', output: '12', explanation: 'Rob houses 1, 3 and 5 for a total of 2 + 9 + 1 = 12.' }
+    ],
+    constraints: [
+      '1 <= nums.length <= 100',
+      '0 <= nums[i] <= 400'
+    ],
+    testCases: [
+      { args: [[1, 2, 3, 1]], expected: 4 },
+      { args: [[2, 7, 9, 3, 1]], expected: 12 },
+      { args: [[2, 1, 1, 2]], expected: 4 },
+      { args: [[5]], expected: 5 }
+    ],
+    runner: { entryPoint: 'rob' },
+    starterCode: {
+      javascript: `/**
+ * @param {number[]} nums
+ * @return {number}
+ */
+function rob(nums) {
+
+}`,
+      typescript: `function rob(nums: number[]): number {
+
+}`,
+      python: `def rob(nums: list[int]) -> int:
+    pass`,
+      java: `class Solution {
+    public int rob(int[] nums) {
+        
+    }
+}`,
+      cpp: `int rob(vector<int>& nums) {
+
+}`,
+      go: `func rob(nums []int) int {
+
+}`
+    },
+    solution: {
+      approach: 'At each house choose between robbing it (best total two houses back plus this one) and skipping it (best total so far). Two rolling values are enough.',
+      timeComplexity: 'O(n)',
+      spaceComplexity: 'O(1)',
+      code: {
+        javascript: `function rob(nums) {
+  let skip = 0;
+  let take = 0;
+
+  for (const num of nums) {
+    const nextTake = skip + num;
+    skip = Math.max(skip, take);
+    take = nextTake;
+  }
+
+  return Math.max(skip, take);
+}`,
+        python: `def rob(nums):
+    skip = take = 0
+
+    for num in nums:
+        skip, take = max(skip, take), skip + num
+
+    return max(skip, take)`
+      }
+    },
     planRequired: 'premium'
   },
 
@@ -309,8 +2929,21 @@ export const questionBank: Question[] = [
     title: 'Tell Me About a Time You Failed',
     difficulty: 'medium',
     category: 'behavioral',
+    patterns: ['star-method'],
     statement: 'Describe a situation where you failed to meet a deadline or deliver on a commitment. What happened, what did you learn, and how did you apply those lessons moving forward?',
-    hint: 'Use the STAR method (Situation, Task, Action, Result). Be honest, focus on learning and growth.',
+    hints: [
+      'Pick a real failure with stakes, not a disguised strength.',
+      'Use the STAR method (Situation, Task, Action, Result). Be honest, focus on learning and growth.',
+      'Spend most of the answer on what you did and learned, and close with a later situation where you applied that lesson.'
+    ],
+    examples: [],
+    constraints: [],
+    testCases: [],
+    starterCode: {},
+    solution: {
+      approach: 'Answer with the STAR structure. Situation and Task: set up the commitment and why it mattered in two or three sentences. Action: own your part of the miss without blaming others and explain what you did once you saw it slipping. Result: share the outcome honestly, then spend most of the time on what you changed afterwards (planning, communication, scoping) and a later example where that change paid off.',
+      code: {}
+    },
     planRequired: 'pro'
   },
   {
@@ -318,8 +2951,21 @@ export const questionBank: Question[] = [
     title: 'Describe a Technical Disagreement',
     difficulty: 'medium',
     category: 'behavioral',
+    patterns: ['star-method'],
     statement: 'Tell me about a time when you disagreed with a team member or manager about a technical decision. How did you handle the disagreement, and what was the outcome?',
-    hint: 'Show your ability to communicate technical ideas, listen to others, and find compromise or data-driven solutions.',
+    hints: [
+      'Choose a disagreement where both sides had reasonable arguments.',
+      'Show your ability to communicate technical ideas, listen to others, and find compromise or data-driven solutions.',
+      'Explain how you understood the other view, the data or prototype that settled it, the outcome, and how the working relationship went afterwards.'
+    ],
+    examples: [],
+    constraints: [],
+    testCases: [],
+    starterCode: {},
+    solution: {
+      approach: 'Answer with the STAR structure. Describe the decision and both positions fairly, showing you understood the other side. Explain how you moved the discussion to evidence: data, prototypes, written trade-offs, or a time-boxed experiment. Close with the outcome, how the relationship held up, and what you would repeat or do differently, including cases where you disagreed and committed.',
+      code: {}
+    },
     planRequired: 'pro'
   },
   {
@@ -327,8 +2973,26 @@ export const questionBank: Question[] = [
     title: 'Design a URL Shortener',
     difficulty: 'hard',
     category: 'system-design',
+    patterns: ['caching', 'sharding'],
     statement: 'Design a URL shortening service like bit.ly. The system should take long URLs and generate short, unique aliases. When users visit the short URL, they should be redirected to the original URL. Consider scalability, storage, and collision handling.',
-    hint: 'Think about: hash function for generating short codes, database schema, caching strategy, and handling high traffic.',
+    hints: [
+      'Start from the requirements: the read and write volume, and how short the codes must be.',
+      'Think about: hash function for generating short codes, database schema, caching strategy, and handling high traffic.',
+      'Generate codes by base62-encoding a unique id, store code -> URL in a key-value store, cache popular codes, and redirect with a 301 or 302 depending on whether you need analytics.'
+    ],
+    examples: [],
+    constraints: [
+      '100 million new URLs are shortened per day',
+      'Reads outnumber writes roughly 100 to 1',
+      'Short codes should be as short as possible and hard to guess',
+      'Redirects should complete in under 100 ms'
+    ],
+    testCases: [],
+    starterCode: {},
+    solution: {
+      approach: 'Clarify scale (writes vs. reads) and features such as custom aliases and expiry. Generate short codes with a base62-encoded counter or ID range allocation to avoid collisions, or hash and retry on conflict. Store code -> URL in a key-value store partitioned by code, and put a cache (e.g. Redis) in front for hot links. Serve redirects with 301/302 from stateless app servers behind a load balancer, and record click analytics asynchronously through a queue.',
+      code: {}
+    },
     planRequired: 'pro'
   },
   {
@@ -336,8 +3000,26 @@ export const questionBank: Question[] = [
     title: 'Design a Rate Limiter',
     difficulty: 'hard',
     category: 'system-design',
+    patterns: ['sliding-window', 'caching'],
     statement: 'Design a rate limiting system that restricts the number of requests a user can make to an API within a time window. The system should be scalable and handle distributed environments.',
-    hint: 'Consider algorithms like token bucket, leaky bucket, or sliding window. Think about storage (Redis), distributed systems, and edge cases.',
+    hints: [
+      'Decide what you limit by (user, IP or API key) and what should happen when a client is over the limit.',
+      'Consider algorithms like token bucket, leaky bucket, or sliding window. Think about storage (Redis), distributed systems, and edge cases.',
+      'Keep a token bucket per key in Redis, refill and take a token atomically with a Lua script, and return 429 with a Retry-After header when the bucket is empty.'
+    ],
+    examples: [],
+    constraints: [
+      'Limits are configurable per user and per API endpoint',
+      'Multiple API servers must share limit state',
+      'The limiter should add minimal latency to each request',
+      'Throttled clients receive a clear error response (HTTP 429)'
+    ],
+    testCases: [],
+    starterCode: {},
+    solution: {
+      approach: 'Clarify the limit granularity (user, IP, endpoint) and whether limits are hard or soft. Compare token bucket, leaky bucket, fixed window, and sliding window log/counter algorithms and pick one (token bucket or sliding window counter are common). Keep counters in a shared low-latency store such as Redis with atomic operations or Lua scripts, and run the check in middleware or an API gateway. Discuss race conditions, clock skew, graceful failure when the store is down, and returning 429 with Retry-After headers.',
+      code: {}
+    },
     planRequired: 'pro'
   },
   {
@@ -345,8 +3027,26 @@ export const questionBank: Question[] = [
     title: 'Design a News Feed System',
     difficulty: 'hard',
     category: 'system-design',
+    patterns: ['fan-out', 'caching'],
     statement: 'Design a news feed system like Facebook or Twitter where users can post updates and see posts from people they follow. The system should handle millions of users and provide real-time updates.',
-    hint: 'Consider: fan-out on write vs read, caching strategies, database design (SQL vs NoSQL), and how to handle celebrity users with millions of followers.',
+    hints: [
+      'Separate how posts are written from how feeds are read, and estimate the ratio of reads to writes.',
+      'Consider: fan-out on write vs read, caching strategies, database design (SQL vs NoSQL), and how to handle celebrity users with millions of followers.',
+      'Push post ids into followers\' cached feeds on write for most users, pull posts from celebrity accounts at read time, and merge and rank the two when a feed is loaded.'
+    ],
+    examples: [],
+    constraints: [
+      '300 million daily active users',
+      'Feeds should load in under 200 ms',
+      'Some users have tens of millions of followers',
+      'New posts should appear in followers\' feeds within a few seconds'
+    ],
+    testCases: [],
+    starterCode: {},
+    solution: {
+      approach: 'Separate the write path (publishing posts) from the read path (loading feeds). Use fan-out on write to push post IDs into followers\' precomputed feed caches for most users, and fan-out on read for celebrity accounts whose follower lists are too large. Store posts in a partitioned database, feeds as capped lists in a cache, and rank or merge at read time. Cover pagination with cursors, media served from a CDN, and real-time updates via WebSockets or long polling.',
+      code: {}
+    },
     planRequired: 'pro'
   }
 ];
@@ -355,13 +3055,20 @@ export const questionBank: Question[] = [
  * Get questions accessible to a specific plan tier
  */
 export function getQuestionsByPlan(plan: 'basic' | 'premium' | 'pro'): Question[] {
+  return filterQuestionsByPlan(questionBank, plan);
+}
+
+/**
+ * Keep the questions a plan tier can access, from any list of questions
+ */
+export function filterQuestionsByPlan(questions: Question[], plan: 'basic' | 'premium' | 'pro'): Question[] {
   if (plan === 'basic') {
-    return questionBank.filter(q => q.planRequired === 'basic');
+    return questions.filter(q => q.planRequired === 'basic');
   } else if (plan === 'premium') {
-    return questionBank.filter(q => q.planRequired === 'basic' || q.planRequired === 'premium');
+    return questions.filter(q => q.planRequired === 'basic' || q.planRequired === 'premium');
   } else {
     // Pro users get all questions
-    return questionBank;
+    return questions;
   }
 }
 
@@ -372,6 +3079,13 @@ export function getQuestionsByCategory(category: Question['category']): Question
   return questionBank.filter(q => q.category === category);
 }
 
+/**
+ * Get questions tagged with a pattern
+ */
+export function getQuestionsByPattern(pattern: QuestionPattern): Question[] {
+  return questionBank.filter(q => q.patterns.includes(pattern));
+}
+
 /**
  * Get a question by ID
  */
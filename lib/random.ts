@@ -0,0 +1,42 @@
+/**
+ * Random number sources for reproducible question selection
+ */
+
+/**
+ * Returns a number in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hash a seed string to a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a random source that always produces the same sequence for a seed (mulberry32)
+ */
+export function createSeededRandom(seed: string | number): RandomSource {
+  let state = hashSeed(String(seed));
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Create a short seed string from a random source
+ */
+export function generateSeed(random: RandomSource = Math.random): string {
+  return Math.floor(random() * 4294967296).toString(36).padStart(7, '0');
+}
@@ -0,0 +1,123 @@
+/**
+ * Study tracks for Interview Buddy Platform
+ * Curated, ordered sequences of questions from the question bank
+ */
+
+import { Plan, StudyTrack } from '@/types';
+
+/**
+ * Study tracks, easiest entry points first:
+ * - 2 Basic tracks (arrays, strings)
+ * - 3 Premium tracks (trees, graphs, dynamic programming)
+ * - 1 Pro track (system design)
+ */
+export const studyTracks: StudyTrack[] = [
+  {
+    id: 'arrays-fundamentals',
+    title: 'Arrays Fundamentals',
+    description: 'Hashing, prefix products and two pointers, from lookups to 3Sum.',
+    questionIds: [
+      'basic-array-1',
+      'basic-array-3',
+      'basic-array-2',
+      'basic-array-5',
+      'basic-array-4',
+      'basic-array-6',
+      'basic-array-7',
+      'basic-array-8',
+    ],
+    prerequisites: [],
+    planRequired: 'basic',
+  },
+  {
+    id: 'string-essentials',
+    title: 'String Essentials',
+    description: 'Counting, stacks and sliding windows over strings.',
+    questionIds: [
+      'basic-string-2',
+      'basic-string-1',
+      'basic-string-6',
+      'basic-string-5',
+      'basic-string-3',
+      'basic-string-4',
+      'basic-string-7',
+    ],
+    prerequisites: [],
+    planRequired: 'basic',
+  },
+  {
+    id: 'tree-foundations',
+    title: 'Tree Foundations',
+    description: 'Recursion and traversal on binary trees and BSTs.',
+    questionIds: [
+      'premium-tree-1',
+      'premium-tree-2',
+      'premium-tree-4',
+      'premium-tree-3',
+      'premium-tree-5',
+    ],
+    prerequisites: ['arrays-fundamentals'],
+    planRequired: 'premium',
+  },
+  {
+    id: 'graph-mastery',
+    title: 'Graph Mastery',
+    description: 'BFS, DFS, cycle detection and union-find.',
+    questionIds: [
+      'premium-graph-1',
+      'premium-graph-2',
+      'premium-graph-4',
+      'premium-graph-5',
+      'premium-graph-3',
+    ],
+    prerequisites: ['tree-foundations'],
+    planRequired: 'premium',
+  },
+  {
+    id: 'dynamic-programming-foundations',
+    title: 'Dynamic Programming Foundations',
+    description: 'From one-dimensional recurrences to subsequences and segmentation.',
+    questionIds: [
+      'premium-dp-1',
+      'premium-dp-5',
+      'premium-dp-2',
+      'premium-dp-3',
+      'premium-dp-4',
+    ],
+    prerequisites: ['arrays-fundamentals'],
+    planRequired: 'premium',
+  },
+  {
+    id: 'system-design-primer',
+    title: 'System Design Primer',
+    description: 'Hashing, throttling and fan-out at scale.',
+    questionIds: [
+      'pro-system-design-1',
+      'pro-system-design-2',
+      'pro-system-design-3',
+    ],
+    prerequisites: [],
+    planRequired: 'pro',
+  },
+];
+
+/**
+ * Get tracks available to a specific plan tier
+ */
+export function getTracksByPlan(plan: Plan): StudyTrack[] {
+  if (plan === 'basic') {
+    return studyTracks.filter(t => t.planRequired === 'basic');
+  } else if (plan === 'premium') {
+    return studyTracks.filter(t => t.planRequired === 'basic' || t.planRequired === 'premium');
+  } else {
+    // Pro users get all tracks
+    return studyTracks;
+  }
+}
+
+/**
+ * Get a track by ID
+ */
+export function getTrackById(id: string): StudyTrack | undefined {
+  return studyTracks.find(t => t.id === id);
+}
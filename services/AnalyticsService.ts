@@ -3,7 +3,23 @@
  * Handles analytics calculations including streaks, weekly stats, and performance metrics
  */
 
-import { CompletedSession, WeeklyStats, CategoryPerformance, ReadinessScore } from '@/types';
+import {
+  CompletedSession,
+  WeeklyStats,
+  CategoryPerformance,
+  PatternPerformance,
+  HintDependence,
+  QuestionPattern,
+  CategoryWeight,
+  DifficultyStep,
+  ReadinessScore,
+  QuestionProvider,
+} from '@/types';
+import { createQuestionProvider } from './QuestionProvider';
+import { LoopService } from './LoopService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DIFFICULTY_LADDER = ['easy', 'medium', 'hard'] as const;
 
 /**
  * Custom error class for analytics-related errors
@@ -20,6 +36,31 @@ export class AnalyticsError extends Error {
  * Provides methods for calculating user analytics and performance metrics
  */
 export class AnalyticsService {
+  /**
+   * Days without practice after which a category counts as fully stale
+   */
+  static readonly STALE_AFTER_DAYS = 14;
+
+  /**
+   * Weight for a category that has never been practiced
+   */
+  static readonly COVERAGE_GAP_WEIGHT = 3;
+
+  /**
+   * Number of recent attempts in a category used to step difficulty
+   */
+  static readonly RECENT_ATTEMPTS = 3;
+
+  /**
+   * How much an untimed practice session counts toward recent activity, relative to a mock interview
+   */
+  static readonly PRACTICE_ACTIVITY_WEIGHT = 0.5;
+
+  /**
+   * Rating points taken off a mock interview for each hint shown, when scoring readiness
+   */
+  static readonly HINT_PENALTY = 0.5;
+
   /**
    * Calculate the current streak for a user based on their session history
    * 
@@ -74,12 +115,15 @@ export class AnalyticsService {
 
   /**
    * Get weekly statistics for a user
+   * Only mock interviews count; practice sessions are left out
    * 
    * @param userId - The user's ID
    * @param sessions - Array of completed sessions
    * @returns Weekly statistics
    */
   static getWeeklyStats(userId: string, sessions: CompletedSession[]): WeeklyStats {
+    const interviews = sessions.filter(s => !this.isPractice(s));
+
     const now = new Date();
     const weekStart = new Date(now);
     weekStart.setDate(now.getDate() - now.getDay()); // Start of current week (Sunday)
@@ -96,7 +140,7 @@ export class AnalyticsService {
     previousWeekEnd.setMilliseconds(-1);
 
     // Filter sessions for current week
-    const currentWeekSessions = sessions.filter(s => {
+    const currentWeekSessions = interviews.filter(s => {
       const sessionDate = new Date(s.startTime);
       return (
         s.userId === userId &&
@@ -106,7 +150,7 @@ export class AnalyticsService {
     });
 
     // Filter sessions for previous week
-    const previousWeekSessions = sessions.filter(s => {
+    const previousWeekSessions = interviews.filter(s => {
       const sessionDate = new Date(s.startTime);
       return (
         s.userId === userId &&
@@ -115,11 +159,12 @@ export class AnalyticsService {
       );
     });
 
-    // Calculate current week stats
-    const sessionsCompleted = currentWeekSessions.length;
+    // Calculate current week stats; a loop counts as one session, but each
+    // of its rounds is rated
+    const sessionsCompleted = LoopService.countInterviews(currentWeekSessions);
     const averageRating =
-      sessionsCompleted > 0
-        ? currentWeekSessions.reduce((sum, s) => sum + s.rating, 0) / sessionsCompleted
+      currentWeekSessions.length > 0
+        ? currentWeekSessions.reduce((sum, s) => sum + s.rating, 0) / currentWeekSessions.length
         : 0;
 
     const categoriesPracticed = [
@@ -127,10 +172,10 @@ export class AnalyticsService {
     ];
 
     // Calculate previous week stats for comparison
-    const previousSessionsCompleted = previousWeekSessions.length;
+    const previousSessionsCompleted = LoopService.countInterviews(previousWeekSessions);
     const previousAverageRating =
-      previousSessionsCompleted > 0
-        ? previousWeekSessions.reduce((sum, s) => sum + s.rating, 0) / previousSessionsCompleted
+      previousWeekSessions.length > 0
+        ? previousWeekSessions.reduce((sum, s) => sum + s.rating, 0) / previousWeekSessions.length
         : 0;
 
     return {
@@ -154,23 +199,31 @@ export class AnalyticsService {
    */
   static getPerformanceByCategory(sessions: CompletedSession[]): CategoryPerformance[] {
     // Group sessions by category
-    const categoryMap = new Map<string, { ratings: number[]; count: number }>();
+    const categoryMap = new Map<string, { ratings: number[]; passRates: number[]; count: number }>();
 
     sessions.forEach(session => {
-      const existing = categoryMap.get(session.category) || { ratings: [], count: 0 };
+      const existing = categoryMap.get(session.category) || { ratings: [], passRates: [], count: 0 };
       existing.ratings.push(session.rating);
+      if (session.testPassRate !== undefined) {
+        existing.passRates.push(session.testPassRate);
+      }
       existing.count++;
       categoryMap.set(session.category, existing);
     });
 
-    // Calculate average rating per category
+    // Calculate average rating and test pass rate per category
     const performances: CategoryPerformance[] = [];
     categoryMap.forEach((data, category) => {
       const averageRating = data.ratings.reduce((sum, r) => sum + r, 0) / data.count;
+      const averagePassRate =
+        data.passRates.length > 0
+          ? data.passRates.reduce((sum, r) => sum + r, 0) / data.passRates.length
+          : null;
       performances.push({
         category,
         sessionsCount: data.count,
         averageRating,
+        averagePassRate,
         isWeakest: false,
       });
     });
@@ -186,8 +239,106 @@ export class AnalyticsService {
     return performances;
   }
 
+  /**
+   * Get performance breakdown by problem pattern
+   * A session counts toward every pattern its question is tagged with; sessions
+   * saved before pattern tags use the tags of the question as the provider has it
+   * 
+   * @param sessions - Array of completed sessions
+   * @param questions - Where to look up untagged sessions' questions; defaults to
+   * every question the sessions' user can see
+   * @returns Array of pattern performance data
+   */
+  static getPerformanceByPattern(
+    sessions: CompletedSession[],
+    questions: QuestionProvider = createQuestionProvider(sessions[0]?.userId)
+  ): PatternPerformance[] {
+    // Group sessions by pattern
+    const patternMap = new Map<QuestionPattern, { ratings: number[]; passRates: number[] }>();
+
+    sessions.forEach(session => {
+      const sessionPatterns = session.patterns ?? questions.getById(session.questionId)?.patterns ?? [];
+
+      new Set(sessionPatterns).forEach(pattern => {
+        const existing = patternMap.get(pattern) || { ratings: [], passRates: [] };
+        existing.ratings.push(session.rating);
+        if (session.testPassRate !== undefined) {
+          existing.passRates.push(session.testPassRate);
+        }
+        patternMap.set(pattern, existing);
+      });
+    });
+
+    // Calculate average rating and test pass rate per pattern
+    const performances: PatternPerformance[] = [];
+    patternMap.forEach((data, pattern) => {
+      performances.push({
+        pattern,
+        sessionsCount: data.ratings.length,
+        averageRating: data.ratings.reduce((sum, r) => sum + r, 0) / data.ratings.length,
+        averagePassRate:
+          data.passRates.length > 0
+            ? data.passRates.reduce((sum, r) => sum + r, 0) / data.passRates.length
+            : null,
+        isWeakest: false,
+      });
+    });
+
+    // Identify weakest pattern (lowest average rating)
+    if (performances.length > 0) {
+      const weakest = performances.reduce((min, p) =>
+        p.averageRating < min.averageRating ? p : min
+      );
+      weakest.isWeakest = true;
+    }
+
+    return performances;
+  }
+
+  /**
+   * Get how much the user leans on hints in each category
+   * Sessions saved before progressive hints count one hint when a hint was
+   * used; sessions saved before hint tracking are left out
+   *
+   * @param sessions - Array of completed sessions
+   * @returns One entry per category with tracked sessions
+   */
+  static getHintDependenceByCategory(sessions: CompletedSession[]): HintDependence[] {
+    const categoryMap = new Map<string, { hintCounts: number[]; firstHintSeconds: number[] }>();
+
+    sessions.forEach(session => {
+      const hintCount = session.hintCount ?? (session.hintUsed === undefined ? undefined : Number(session.hintUsed));
+      if (hintCount === undefined) return;
+
+      const existing = categoryMap.get(session.category) || { hintCounts: [], firstHintSeconds: [] };
+      existing.hintCounts.push(hintCount);
+      if (session.firstHintSeconds !== undefined) {
+        existing.firstHintSeconds.push(session.firstHintSeconds);
+      }
+      categoryMap.set(session.category, existing);
+    });
+
+    const dependence: HintDependence[] = [];
+    categoryMap.forEach((data, category) => {
+      dependence.push({
+        category,
+        sessionsCount: data.hintCounts.length,
+        hintRate: data.hintCounts.filter(count => count > 0).length / data.hintCounts.length,
+        averageHints: data.hintCounts.reduce((sum, count) => sum + count, 0) / data.hintCounts.length,
+        averageSecondsToFirstHint:
+          data.firstHintSeconds.length > 0
+            ? data.firstHintSeconds.reduce((sum, seconds) => sum + seconds, 0) / data.firstHintSeconds.length
+            : null,
+      });
+    });
+
+    return dependence;
+  }
+
   /**
    * Calculate interview readiness score
+   * Practice sessions count toward recent activity at a reduced weight but
+   * not toward performance, which rates mock interviews less each hint shown
    * 
    * @param userId - The user's ID
    * @param sessions - Array of completed sessions
@@ -207,12 +358,16 @@ export class AnalyticsService {
     const recentSessions = userSessions.filter(
       s => new Date(s.startTime) >= sevenDaysAgo
     );
-    const recentActivity = Math.min(100, (recentSessions.length / 7) * 100);
+    const recentWeight = recentSessions.reduce(
+      (sum, s) => sum + (this.isPractice(s) ? this.PRACTICE_ACTIVITY_WEIGHT : 1), 0
+    );
+    const recentActivity = Math.min(100, (recentWeight / 7) * 100);
 
-    // Calculate performance score (average rating)
+    // Calculate performance score (average rating of mock interviews, less hint penalties)
+    const interviews = userSessions.filter(s => !this.isPractice(s));
     const averageRating =
-      userSessions.length > 0
-        ? userSessions.reduce((sum, s) => sum + s.rating, 0) / userSessions.length
+      interviews.length > 0
+        ? interviews.reduce((sum, s) => sum + this.getPenalizedRating(s), 0) / interviews.length
         : 0;
     const performance = (averageRating / 5) * 100;
 
@@ -235,6 +390,9 @@ export class AnalyticsService {
     if (consistency < 50) {
       recommendations.push('Build a daily practice habit for better retention');
     }
+    if (userSessions.length > 0 && interviews.length === 0) {
+      recommendations.push('Take a timed mock interview to measure your performance');
+    }
     if (overall >= 80) {
       recommendations.push("You're interview ready! Keep up the great work");
     }
@@ -266,4 +424,109 @@ export class AnalyticsService {
     const weakest = performances.find(p => p.isWeakest);
     return weakest?.category || '';
   }
+
+  /**
+   * Get the weakest problem pattern for a user
+   * 
+   * @param sessions - Array of completed sessions
+   * @returns The pattern with the lowest average rating
+   */
+  static getWeakestPattern(sessions: CompletedSession[]): QuestionPattern {
+    const weakest = this.getPerformanceByPattern(sessions).find(p => p.isWeakest);
+
+    if (!weakest) {
+      throw new AnalyticsError('No sessions available to determine weakest pattern');
+    }
+
+    return weakest.pattern;
+  }
+
+  /**
+   * Weight categories for adaptive question selection
+   * Unpracticed categories get a fixed coverage-gap weight; practiced ones start
+   * at 1 and gain up to 2 for a low average rating and up to 1 for staleness
+   *
+   * @param sessions - The user's completed sessions
+   * @param categories - Categories that can be picked
+   * @param now - When the selection happens
+   * @returns One weight per category, in the given order
+   */
+  static getCategoryWeights(
+    sessions: CompletedSession[],
+    categories: string[],
+    now: Date = new Date()
+  ): CategoryWeight[] {
+    const performances = this.getPerformanceByCategory(sessions);
+
+    return categories.map(category => {
+      const performance = performances.find(p => p.category === category);
+
+      if (!performance) {
+        return { category, weight: this.COVERAGE_GAP_WEIGHT, reason: `new area: ${category}` };
+      }
+
+      const lastPracticed = Math.max(
+        ...sessions.filter(s => s.category === category).map(s => new Date(s.endTime).getTime())
+      );
+      const daysSince = Math.max(0, Math.floor((now.getTime() - lastPracticed) / DAY_MS));
+
+      const weakness = 2 * ((5 - performance.averageRating) / 4);
+      const staleness = Math.min(1, daysSince / this.STALE_AFTER_DAYS);
+
+      let reason = `keeping up: ${category}`;
+      if (weakness > 0 && weakness >= staleness) {
+        reason = `weak area: ${category}`;
+      } else if (daysSince > 0) {
+        reason = `not practiced in ${daysSince} ${daysSince === 1 ? 'day' : 'days'}: ${category}`;
+      }
+
+      return { category, weight: 1 + weakness + staleness, reason };
+    });
+  }
+
+  /**
+   * Pick the difficulty to practice next in a category
+   * Steps up from the latest attempt when recent ratings average 4 or more,
+   * down when they average 2 or less, and starts at medium without history
+   *
+   * @param sessions - The user's completed sessions
+   * @param category - The category being practiced
+   * @returns The target difficulty and which way it moved
+   */
+  static getDifficultyStep(sessions: CompletedSession[], category: string): DifficultyStep {
+    const recent = sessions
+      .filter(s => s.category === category)
+      .sort((a, b) => new Date(b.endTime).getTime() - new Date(a.endTime).getTime())
+      .slice(0, this.RECENT_ATTEMPTS);
+
+    if (recent.length === 0) {
+      return { difficulty: 'medium', direction: 'hold' };
+    }
+
+    const level = DIFFICULTY_LADDER.indexOf(recent[0].difficulty);
+    const averageRating = recent.reduce((sum, s) => sum + s.rating, 0) / recent.length;
+
+    if (averageRating >= 4 && level < DIFFICULTY_LADDER.length - 1) {
+      return { difficulty: DIFFICULTY_LADDER[level + 1], direction: 'up' };
+    }
+    if (averageRating <= 2 && level > 0) {
+      return { difficulty: DIFFICULTY_LADDER[level - 1], direction: 'down' };
+    }
+    return { difficulty: recent[0].difficulty, direction: 'hold' };
+  }
+
+  /**
+   * Whether a session was untimed practice; sessions saved before modes were mock interviews
+   */
+  private static isPractice(session: CompletedSession): boolean {
+    return session.mode === 'practice';
+  }
+
+  /**
+   * A mock interview's rating less the hint penalty, never below 1
+   */
+  private static getPenalizedRating(session: CompletedSession): number {
+    const hints = session.hintCount ?? (session.hintUsed ? 1 : 0);
+    return Math.max(1, session.rating - this.HINT_PENALTY * hints);
+  }
 }
@@ -0,0 +1,114 @@
+/**
+ * CodeRunnerService
+ * Runs candidate JavaScript/TypeScript against question test cases in a Web Worker
+ */
+
+import { CodeRunResult, LanguageId, Question, TestCaseResult } from '@/types';
+import { summarizeRun } from '@/lib/codeRunner';
+import type { CodeRunMessage, CodeRunRequest } from '@/lib/codeRunner.worker';
+
+/**
+ * Custom error class for code runner errors
+ */
+export class CodeRunnerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodeRunnerError';
+  }
+}
+
+/**
+ * CodeRunnerService class
+ * Sandboxes each run in a fresh worker and enforces a time limit
+ */
+export class CodeRunnerService {
+  static readonly TIME_LIMIT_MS = 5000;
+  static readonly SUPPORTED_LANGUAGES: LanguageId[] = ['javascript', 'typescript'];
+
+  /**
+   * Check whether code in the given language can be run
+   */
+  static isLanguageSupported(language: LanguageId): boolean {
+    return this.SUPPORTED_LANGUAGES.includes(language);
+  }
+
+  /**
+   * Check whether a question has test cases the runner can execute
+   */
+  static canRun(question: Question): boolean {
+    return question.runner !== undefined && question.testCases.length > 0;
+  }
+
+  /**
+   * Run code against every test case of a question
+   * Cases still running when the time limit expires are reported as failed
+   *
+   * @throws CodeRunnerError if the language or question cannot be run
+   */
+  static runTests(
+    code: string,
+    language: LanguageId,
+    question: Question,
+    timeLimitMs: number = this.TIME_LIMIT_MS
+  ): Promise<CodeRunResult> {
+    if (!this.isLanguageSupported(language)) {
+      throw new CodeRunnerError(`Running ${language} code is not supported`);
+    }
+    if (!this.canRun(question) || !question.runner) {
+      throw new CodeRunnerError('This question has no runnable test cases');
+    }
+
+    const request: CodeRunRequest = {
+      code,
+      language,
+      runner: question.runner,
+      testCases: question.testCases,
+    };
+    const totalCount = question.testCases.length;
+
+    return new Promise(resolve => {
+      const worker = this.createWorker();
+      const results: TestCaseResult[] = [];
+
+      const finish = (result: CodeRunResult) => {
+        clearTimeout(timer);
+        worker.terminate();
+        resolve(result);
+      };
+
+      const timer = setTimeout(() => {
+        const interrupted = results.length;
+        for (let index = interrupted; index < totalCount; index++) {
+          results.push({
+            index,
+            passed: false,
+            runtimeMs: 0,
+            error: index === interrupted ? 'Time limit exceeded' : 'Not run',
+          });
+        }
+        finish(summarizeRun(language, results, totalCount, true));
+      }, timeLimitMs);
+
+      worker.onmessage = (event: MessageEvent<CodeRunMessage>) => {
+        const message = event.data;
+        if (message.type === 'case') {
+          results.push(message.result);
+        } else if (message.type === 'error') {
+          finish(summarizeRun(language, [], totalCount, false, message.message));
+        } else {
+          finish(summarizeRun(language, results, totalCount));
+        }
+      };
+
+      worker.onerror = (event: ErrorEvent) => {
+        finish(summarizeRun(language, results, totalCount, false, event.message || 'Code runner crashed'));
+      };
+
+      worker.postMessage(request);
+    });
+  }
+
+  private static createWorker(): Worker {
+    return new Worker(new URL('../lib/codeRunner.worker.ts', import.meta.url));
+  }
+}
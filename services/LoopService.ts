@@ -0,0 +1,197 @@
+/**
+ * LoopService - Multi-round interview loops
+ * Tracks each loop's rounds and breaks, and rolls the rounds' completed
+ * sessions up into one result for history and analytics
+ */
+
+import { CompletedSession, InterviewLoop, LoopRoundRef, LoopSummary } from '@/types';
+import { StorageService } from './StorageService';
+
+/**
+ * Error types for interview loop operations
+ */
+export class LoopError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoopError';
+  }
+}
+
+/**
+ * Interview loop service
+ */
+export class LoopService {
+  /**
+   * The user's loop that has not ended yet, if any
+   */
+  static getActiveLoop(userId: string): InterviewLoop | null {
+    return StorageService.getLoops(userId).find(loop => loop.endedAt === null) ?? null;
+  }
+
+  /**
+   * @throws LoopError if the user has no loop with the id
+   */
+  static getLoop(userId: string, loopId: string): InterviewLoop {
+    const loop = StorageService.getLoops(userId).find(l => l.id === loopId);
+
+    if (!loop) {
+      throw new LoopError('Interview loop not found');
+    }
+
+    return loop;
+  }
+
+  /**
+   * Position of the first round without saved feedback, or null when every
+   * round has it
+   */
+  static getNextRoundIndex(loop: InterviewLoop): number | null {
+    const index = loop.rounds.findIndex(round => round.sessionId === null);
+    return index === -1 ? null : index;
+  }
+
+  /**
+   * When the break after the previous round ends; null before the first round,
+   * after the last one, or when the previous round has no break
+   */
+  static getBreakEndsAt(loop: InterviewLoop): Date | null {
+    const index = this.getNextRoundIndex(loop);
+    if (index === null || index === 0) {
+      return null;
+    }
+
+    const previous = loop.rounds[index - 1];
+    if (!previous.completedAt || previous.breakMinutes === 0) {
+      return null;
+    }
+
+    return new Date(previous.completedAt.getTime() + previous.breakMinutes * 60 * 1000);
+  }
+
+  /**
+   * The reference a round's session carries back to its loop
+   */
+  static getRoundRef(loop: InterviewLoop, round: number): LoopRoundRef {
+    return {
+      loopId: loop.id,
+      loopTitle: loop.title,
+      round,
+      roundCount: loop.rounds.length,
+      roundTitle: loop.rounds[round].title,
+    };
+  }
+
+  /**
+   * Link a round's completed session to its loop; the loop ends with its last round
+   * @throws LoopError if the session is not a round of one of the user's loops
+   */
+  static recordRound(session: CompletedSession): InterviewLoop {
+    if (!session.loop) {
+      throw new LoopError('Session is not part of an interview loop');
+    }
+
+    const loop = this.getLoop(session.userId, session.loop.loopId);
+    const rounds = loop.rounds.map((round, index) =>
+      index === session.loop!.round ? { ...round, sessionId: session.id, completedAt: session.endTime } : round
+    );
+    const updated: InterviewLoop = {
+      ...loop,
+      rounds,
+      endedAt: rounds.every(round => round.sessionId !== null) ? session.endTime : loop.endedAt,
+    };
+
+    StorageService.saveLoop(updated);
+    return updated;
+  }
+
+  /**
+   * End a loop early; rounds already done stay in history
+   * @throws LoopError if the user has no loop with the id
+   */
+  static abandonLoop(userId: string, loopId: string, now: Date = new Date()): InterviewLoop {
+    const loop = this.getLoop(userId, loopId);
+    const updated = { ...loop, endedAt: loop.endedAt ?? now };
+
+    StorageService.saveLoop(updated);
+    return updated;
+  }
+
+  /**
+   * One summary per loop with saved rounds, in the order the loops started
+   *
+   * @param sessions - The user's completed sessions
+   */
+  static getSummaries(sessions: CompletedSession[]): LoopSummary[] {
+    const rounds = new Map<string, CompletedSession[]>();
+
+    for (const session of sessions) {
+      if (session.loop) {
+        rounds.set(session.loop.loopId, [...(rounds.get(session.loop.loopId) ?? []), session]);
+      }
+    }
+
+    return [...rounds.values()]
+      .map(loopRounds => this.summarize(loopRounds))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  /**
+   * A history with each loop's rounds replaced by the loop's summary, placed
+   * where its first round was
+   */
+  static groupHistory(sessions: CompletedSession[]): (CompletedSession | LoopSummary)[] {
+    const summaries = new Map(this.getSummaries(sessions).map(summary => [summary.loopId, summary]));
+    const placed = new Set<string>();
+
+    return sessions.flatMap<CompletedSession | LoopSummary>(session => {
+      if (!session.loop) {
+        return [session];
+      }
+
+      if (placed.has(session.loop.loopId)) {
+        return [];
+      }
+
+      placed.add(session.loop.loopId);
+      return [summaries.get(session.loop.loopId)!];
+    });
+  }
+
+  /**
+   * How many interviews a set of sessions holds, with each loop's rounds
+   * counted as one
+   */
+  static countInterviews(sessions: CompletedSession[]): number {
+    return this.groupHistory(sessions).length;
+  }
+
+  /**
+   * Whether a history entry is a loop summary rather than a single session
+   */
+  static isSummary(entry: CompletedSession | LoopSummary): entry is LoopSummary {
+    return 'loopId' in entry;
+  }
+
+  /**
+   * Roll one loop's round sessions up into its summary
+   */
+  private static summarize(rounds: CompletedSession[]): LoopSummary {
+    const ordered = [...rounds].sort((a, b) => a.loop!.round - b.loop!.round);
+    const [first] = ordered;
+    const run = ordered.filter(s => s.testPassRate !== undefined);
+
+    return {
+      loopId: first.loop!.loopId,
+      title: first.loop!.loopTitle,
+      rounds: ordered,
+      roundCount: first.loop!.roundCount,
+      startTime: new Date(Math.min(...ordered.map(s => s.startTime.getTime()))),
+      endTime: new Date(Math.max(...ordered.map(s => s.endTime.getTime()))),
+      duration: ordered.reduce((total, s) => total + s.duration, 0),
+      averageRating: ordered.reduce((total, s) => total + s.rating, 0) / ordered.length,
+      averagePassRate: run.length > 0
+        ? run.reduce((total, s) => total + s.testPassRate!, 0) / run.length
+        : null,
+    };
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * QuestionPackService - Import, export and lookup of custom question packs
+ * Packs are validated question files kept in localStorage, so teams can share
+ * questions without a code change
+ */
+
+import { Question, QuestionFileFormat, QuestionFileIssue, QuestionPack } from '@/types';
+import { StorageService } from './StorageService';
+import { UserQuestionService } from './UserQuestionService';
+import { questionBank, getQuestionById as getBuiltInQuestion } from '@/lib/questions';
+import { parseQuestionFile, serializeQuestions } from '@/lib/questionFormat';
+
+/**
+ * Error types for question pack operations
+ */
+export class QuestionPackError extends Error {
+  constructor(message: string, public readonly issues: QuestionFileIssue[] = []) {
+    super(message);
+    this.name = 'QuestionPackError';
+  }
+}
+
+/**
+ * Question pack service
+ */
+export class QuestionPackService {
+  /**
+   * Name written into exports of the built-in question bank
+   */
+  static readonly BUILT_IN_NAME = 'Interview Buddy Question Bank';
+
+  /**
+   * Validate a question file and save it as a pack
+   * Re-importing a pack with the same name replaces the earlier import
+   *
+   * @param text - Contents of the question file
+   * @param format - The file's format
+   * @param fallbackName - Pack name when the file has none, e.g. a Markdown file's name
+   * @throws QuestionPackError listing every issue with its line when the file is
+   * invalid or its question ids are already taken
+   */
+  static importPack(text: string, format: QuestionFileFormat, fallbackName: string, now: Date = new Date()): QuestionPack {
+    const parsed = parseQuestionFile(text, format);
+
+    if (parsed.issues.length > 0) {
+      throw new QuestionPackError(
+        `The file has ${parsed.issues.length} problem${parsed.issues.length === 1 ? '' : 's'}`,
+        parsed.issues
+      );
+    }
+
+    const name = parsed.name ?? fallbackName.trim();
+    const id = this.toPackId(name);
+    if (!id) {
+      throw new QuestionPackError('Question packs need a name');
+    }
+
+    const otherPacks = this.getPacks().filter(pack => pack.id !== id);
+    const collisions = parsed.questions.flatMap((question, index): QuestionFileIssue[] => {
+      const line = parsed.idLines[index];
+      if (UserQuestionService.isUserQuestionId(question.id)) {
+        return [{ line, message: `Question ids starting with '${UserQuestionService.ID_PREFIX}' are reserved for My Questions` }];
+      }
+
+      const owner = getBuiltInQuestion(question.id)
+        ? 'the built-in question bank'
+        : otherPacks.find(pack => pack.questions.some(q => q.id === question.id))?.name;
+      return owner ? [{ line, message: `Question id '${question.id}' is already used by ${owner}` }] : [];
+    });
+
+    if (collisions.length > 0) {
+      throw new QuestionPackError('Some question ids are already taken', collisions);
+    }
+
+    const pack: QuestionPack = { id, name, questions: parsed.questions, importedAt: now };
+    StorageService.saveQuestionPack(pack);
+
+    return pack;
+  }
+
+  /**
+   * All imported packs, oldest first
+   */
+  static getPacks(): QuestionPack[] {
+    return StorageService.getQuestionPacks();
+  }
+
+  /**
+   * Remove an imported pack and its questions
+   */
+  static removePack(packId: string): void {
+    StorageService.deleteQuestionPack(packId);
+  }
+
+  /**
+   * Questions from every imported pack
+   */
+  static getQuestions(): Question[] {
+    return this.getPacks().flatMap(pack => pack.questions);
+  }
+
+  /**
+   * Write an imported pack back out as a question file
+   * @throws QuestionPackError if the pack does not exist
+   */
+  static exportPack(packId: string, format: QuestionFileFormat): string {
+    const pack = this.getPacks().find(p => p.id === packId);
+
+    if (!pack) {
+      throw new QuestionPackError('Question pack not found');
+    }
+
+    return serializeQuestions(pack.questions, format, pack.name);
+  }
+
+  /**
+   * Write the built-in question bank as a question file
+   */
+  static exportBuiltInBank(format: QuestionFileFormat): string {
+    return serializeQuestions(questionBank, format, this.BUILT_IN_NAME);
+  }
+
+  /**
+   * Slug used as a pack's id, e.g. "Team Graphs #2" becomes "team-graphs-2"
+   */
+  private static toPackId(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * QuestionProvider - Question sources behind one interface
+ * Session logic and pages read questions through a provider, so a new content
+ * source plugs in by joining the composite rather than by changing its callers
+ */
+
+import { Plan, Question, QuestionProvider, QuestionQuery } from '@/types';
+import { questionBank, filterQuestionsByPlan } from '@/lib/questions';
+import { queryQuestions, rankBySearch } from '@/lib/questionQuery';
+import { QuestionPackService } from './QuestionPackService';
+import { UserQuestionService } from './UserQuestionService';
+
+/**
+ * Provider over a list of questions; subclasses only say where the list comes from
+ */
+abstract class ListQuestionProvider implements QuestionProvider {
+  abstract list(): Question[];
+
+  getById(id: string): Question | undefined {
+    return this.list().find(q => q.id === id);
+  }
+
+  query(query: QuestionQuery): Question[] {
+    return queryQuestions(this.list(), query);
+  }
+
+  getByPlan(plan: Plan): Question[] {
+    return filterQuestionsByPlan(this.list(), plan);
+  }
+}
+
+/**
+ * The questions shipped in `lib/questions.ts`
+ */
+export class BuiltInQuestionProvider extends ListQuestionProvider {
+  list(): Question[] {
+    return questionBank;
+  }
+}
+
+/**
+ * Questions from every imported question pack
+ */
+export class PackQuestionProvider extends ListQuestionProvider {
+  list(): Question[] {
+    return QuestionPackService.getQuestions();
+  }
+}
+
+/**
+ * One user's own questions
+ */
+export class UserQuestionProvider extends ListQuestionProvider {
+  constructor(private readonly userId: string) {
+    super();
+  }
+
+  list(): Question[] {
+    return UserQuestionService.getQuestions(this.userId);
+  }
+}
+
+/**
+ * A fixed list of questions, e.g. to pin selection in tests
+ */
+export class InMemoryQuestionProvider extends ListQuestionProvider {
+  constructor(private readonly questions: Question[]) {
+    super();
+  }
+
+  list(): Question[] {
+    return this.questions;
+  }
+}
+
+/**
+ * Several providers read as one, in order
+ * Lookups by id stop at the first provider that has the question, and search
+ * results are ranked across every provider
+ */
+export class CompositeQuestionProvider implements QuestionProvider {
+  constructor(private readonly providers: QuestionProvider[]) {}
+
+  list(): Question[] {
+    return this.providers.flatMap(provider => provider.list());
+  }
+
+  getById(id: string): Question | undefined {
+    for (const provider of this.providers) {
+      const question = provider.getById(id);
+      if (question) {
+        return question;
+      }
+    }
+
+    return undefined;
+  }
+
+  query(query: QuestionQuery): Question[] {
+    return rankBySearch(this.providers.flatMap(provider => provider.query(query)), query.text);
+  }
+
+  getByPlan(plan: Plan): Question[] {
+    return this.providers.flatMap(provider => provider.getByPlan(plan));
+  }
+}
+
+/**
+ * Every question the app can offer: the built-in bank and imported packs, plus
+ * a user's own questions when a user is given
+ */
+export function createQuestionProvider(userId?: string): QuestionProvider {
+  const providers: QuestionProvider[] = [new BuiltInQuestionProvider(), new PackQuestionProvider()];
+
+  if (userId) {
+    providers.push(new UserQuestionProvider(userId));
+  }
+
+  return new CompositeQuestionProvider(providers);
+}
@@ -0,0 +1,233 @@
+/**
+ * ReplayService - Code evolution replays
+ * Records periodic, diff-compressed snapshots of the editor and notes during
+ * a session, and keeps finished sessions' replays within a storage budget by
+ * thinning older replays before dropping them
+ */
+
+import {
+  CompletedSession,
+  ReplayBuffers,
+  ReplayFrame,
+  ReplaySnapshot,
+  Session,
+  SessionReplay,
+  TextPatch,
+} from '@/types';
+import { StorageService } from './StorageService';
+
+/**
+ * Session replay service
+ */
+export class ReplayService {
+  /**
+   * Seconds between snapshots while a session runs
+   */
+  static readonly SNAPSHOT_INTERVAL_SECONDS = 15;
+
+  /**
+   * Coarsest spacing compaction thins a replay to before dropping it
+   */
+  static readonly MAX_INTERVAL_SECONDS = 120;
+
+  /**
+   * Serialized characters a user's replays may take up in localStorage
+   */
+  static readonly STORAGE_BUDGET = 500_000;
+
+  /**
+   * The single edit turning `before` into `after`, found by trimming their
+   * common prefix and suffix, or null when they are the same
+   */
+  static diff(before: string, after: string): TextPatch | null {
+    if (before === after) return null;
+
+    let start = 0;
+    const maxPrefix = Math.min(before.length, after.length);
+    while (start < maxPrefix && before[start] === after[start]) {
+      start++;
+    }
+
+    let suffix = 0;
+    const maxSuffix = maxPrefix - start;
+    while (suffix < maxSuffix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+      suffix++;
+    }
+
+    return {
+      start,
+      deleteCount: before.length - start - suffix,
+      insert: after.slice(start, after.length - suffix),
+    };
+  }
+
+  static applyPatch(text: string, patch: TextPatch): string {
+    return text.slice(0, patch.start) + patch.insert + text.slice(patch.start + patch.deleteCount);
+  }
+
+  /**
+   * Buffers after each snapshot, replaying the patches from empty buffers
+   */
+  static getStates(snapshots: ReplaySnapshot[]): ReplayBuffers[] {
+    let current: ReplayBuffers = { language: 'javascript', code: {}, notes: '' };
+
+    return snapshots.map(snapshot => {
+      const code = snapshot.code
+        ? { ...current.code, [snapshot.language]: this.applyPatch(current.code[snapshot.language] ?? '', snapshot.code) }
+        : current.code;
+      const notes = snapshot.notes ? this.applyPatch(current.notes, snapshot.notes) : current.notes;
+
+      current = { language: snapshot.language, code, notes };
+      return current;
+    });
+  }
+
+  /**
+   * A snapshot of the workspace's buffers, or null when nothing changed
+   * since the session's last snapshot
+   */
+  static takeSnapshot(snapshots: ReplaySnapshot[], buffers: ReplayBuffers, at: Date): ReplaySnapshot | null {
+    const previous = this.getStates(snapshots).slice(-1)[0];
+    const code = this.diff(previous?.code[buffers.language] ?? '', buffers.code[buffers.language] ?? '');
+    const notes = this.diff(previous?.notes ?? '', buffers.notes);
+
+    if (!code && !notes && previous?.language === buffers.language) {
+      return null;
+    }
+
+    const snapshot: ReplaySnapshot = { at, language: buffers.language };
+    if (code) snapshot.code = code;
+    if (notes) snapshot.notes = notes;
+    return snapshot;
+  }
+
+  /**
+   * Add a snapshot of the workspace to the session when its buffers changed
+   * Online assessments keep a buffer per problem and are not replayed
+   */
+  static recordSnapshot(session: Session, buffers: ReplayBuffers, at: Date = new Date()): Session {
+    if (session.assessment) return session;
+
+    const snapshot = this.takeSnapshot(session.snapshots ?? [], buffers, at);
+    if (!snapshot) return session;
+
+    return {
+      ...session,
+      snapshots: [...(session.snapshots ?? []), snapshot],
+    };
+  }
+
+  /**
+   * What the workspace showed at each snapshot, for the replay player
+   */
+  static getFrames(replay: SessionReplay): ReplayFrame[] {
+    const states = this.getStates(replay.snapshots);
+
+    return replay.snapshots.map((snapshot, index) => ({
+      at: snapshot.at,
+      language: snapshot.language,
+      code: states[index].code[snapshot.language] ?? '',
+      notes: states[index].notes,
+      typed: snapshot.code && snapshot.code.insert.length > 0
+        ? { start: snapshot.code.start, end: snapshot.code.start + snapshot.code.insert.length }
+        : null,
+    }));
+  }
+
+  /**
+   * Keep snapshots at least `intervalSeconds` apart, merging the edits in
+   * between. The first and last snapshots, and the last one before each
+   * language switch, are always kept so no buffer loses an edit.
+   */
+  static thin(replay: SessionReplay, intervalSeconds: number): SessionReplay {
+    const { snapshots } = replay;
+    const states = this.getStates(snapshots);
+
+    let lastKeptAt = -Infinity;
+    const kept = snapshots
+      .map((snapshot, index) => ({ snapshot, state: states[index], index }))
+      .filter(({ snapshot, index }) => {
+        const isLast = index === snapshots.length - 1;
+        const beforeSwitch = !isLast && snapshots[index + 1].language !== snapshot.language;
+
+        if (index === 0 || isLast || beforeSwitch || snapshot.at.getTime() - lastKeptAt >= intervalSeconds * 1000) {
+          lastKeptAt = snapshot.at.getTime();
+          return true;
+        }
+        return false;
+      });
+
+    let previous: ReplayBuffers = { language: 'javascript', code: {}, notes: '' };
+    const thinned = kept.map(({ snapshot, state }) => {
+      const merged: ReplaySnapshot = { at: snapshot.at, language: snapshot.language };
+      const code = this.diff(previous.code[snapshot.language] ?? '', state.code[snapshot.language] ?? '');
+      const notes = this.diff(previous.notes, state.notes);
+      if (code) merged.code = code;
+      if (notes) merged.notes = notes;
+
+      previous = state;
+      return merged;
+    });
+
+    return { ...replay, intervalSeconds, snapshots: thinned };
+  }
+
+  /**
+   * Serialized size of replays in characters, as localStorage counts them
+   */
+  static getSize(replays: SessionReplay[]): number {
+    return JSON.stringify(replays).length;
+  }
+
+  /**
+   * Fit replays within a budget: thin the oldest replay that can still be
+   * thinned, halving its detail each time, and drop the oldest replay once
+   * every one is at the coarsest spacing
+   * @returns The replays that fit, oldest first
+   */
+  static compact(replays: SessionReplay[], budget: number = this.STORAGE_BUDGET): SessionReplay[] {
+    let kept = [...replays].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    while (kept.length > 0 && this.getSize(kept) > budget) {
+      const index = kept.findIndex(replay => replay.intervalSeconds < this.MAX_INTERVAL_SECONDS);
+
+      if (index === -1) {
+        kept = kept.slice(1);
+      } else {
+        const replay = kept[index];
+        kept[index] = this.thin(replay, Math.min(this.MAX_INTERVAL_SECONDS, replay.intervalSeconds * 2));
+      }
+    }
+
+    return kept;
+  }
+
+  /**
+   * Save a finished session's snapshots as its replay, compacting the user's
+   * replays to the storage budget
+   * @returns The saved replay, or null when it did not fit the budget
+   * @throws StorageError if the replays cannot be saved
+   */
+  static saveReplay(session: CompletedSession, snapshots: ReplaySnapshot[]): SessionReplay | null {
+    const replay: SessionReplay = {
+      sessionId: session.id,
+      userId: session.userId,
+      startTime: session.startTime,
+      intervalSeconds: this.SNAPSHOT_INTERVAL_SECONDS,
+      snapshots,
+    };
+
+    const others = StorageService.getReplays(session.userId).filter(r => r.sessionId !== session.id);
+    const kept = this.compact([...others, replay]);
+    StorageService.saveReplays(session.userId, kept);
+
+    return kept.find(r => r.sessionId === session.id) ?? null;
+  }
+
+  /**
+   * A session's replay, or null when none was recorded or it was compacted away
+   */
+  static getReplay(userId: string, sessionId: string): SessionReplay | null {
+    return StorageService.getReplays(userId).find(replay => replay.sessionId === sessionId) ?? null;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * ReviewService - Spaced-repetition scheduling for revisiting questions
+ * Uses the SM-2 algorithm, grading each completed session by its rating
+ * and perceived difficulty, to decide when a question should come back
+ */
+
+import { CompletedSession, ReviewSchedule } from '@/types';
+import { StorageService } from './StorageService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Review scheduling service
+ */
+export class ReviewService {
+  static readonly INITIAL_EASE_FACTOR = 2.5;
+  static readonly MIN_EASE_FACTOR = 1.3;
+  private static readonly PASSING_QUALITY = 3;
+
+  /**
+   * Grade a session on SM-2's 0-5 recall scale
+   * The self-rating is the grade, one lower when the question felt hard
+   */
+  static getQuality(session: CompletedSession): number {
+    const penalty = session.perceivedDifficulty === 'hard' ? 1 : 0;
+    return Math.max(0, Math.min(5, session.rating - penalty));
+  }
+
+  /**
+   * Compute a question's next review from its previous schedule and the latest session
+   * A failing grade starts the question over at a one-day interval
+   */
+  static scheduleReview(previous: ReviewSchedule | null, session: CompletedSession): ReviewSchedule {
+    const quality = this.getQuality(session);
+    const easeFactor = Math.max(
+      this.MIN_EASE_FACTOR,
+      (previous?.easeFactor ?? this.INITIAL_EASE_FACTOR) + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    let repetitions = 0;
+    let intervalDays = 1;
+
+    if (quality >= this.PASSING_QUALITY) {
+      repetitions = (previous?.repetitions ?? 0) + 1;
+      if (repetitions === 1) {
+        intervalDays = 1;
+      } else if (repetitions === 2) {
+        intervalDays = 6;
+      } else {
+        intervalDays = Math.round((previous?.intervalDays ?? 6) * easeFactor);
+      }
+    }
+
+    return {
+      questionId: session.questionId,
+      repetitions,
+      easeFactor,
+      intervalDays,
+      lastReviewedAt: session.endTime,
+      nextReviewAt: new Date(session.endTime.getTime() + intervalDays * DAY_MS),
+    };
+  }
+
+  /**
+   * Reschedule the session's question for its user and save it
+   * @throws StorageError if the schedule cannot be saved
+   */
+  static recordSession(session: CompletedSession): ReviewSchedule {
+    const previous = StorageService.getReviewSchedules(session.userId)
+      .find(schedule => schedule.questionId === session.questionId) ?? null;
+
+    const schedule = this.scheduleReview(previous, session);
+    StorageService.saveReviewSchedule(session.userId, schedule);
+    return schedule;
+  }
+
+  /**
+   * Questions whose next review falls on or before the given day
+   * @returns Question ids, most overdue first
+   */
+  static getDueQuestionIds(userId: string, date: Date = new Date()): string[] {
+    const endOfDay = new Date(date);
+    endOfDay.setHours(23, 59, 59, 999);
+
+    return StorageService.getReviewSchedules(userId)
+      .filter(schedule => schedule.nextReviewAt.getTime() <= endOfDay.getTime())
+      .sort((a, b) => a.nextReviewAt.getTime() - b.nextReviewAt.getTime())
+      .map(schedule => schedule.questionId);
+  }
+
+  /**
+   * Number of reviews due today
+   */
+  static getDueCount(userId: string, date: Date = new Date()): number {
+    return this.getDueQuestionIds(userId, date).length;
+  }
+}
@@ -3,9 +3,33 @@
  * Handles session creation, question selection, and session completion
  */
 
-import { Session, CompletedSession, Feedback, Plan, Question } from '@/types';
-import { getQuestionsByPlan } from '@/lib/questions';
+import {
+  Session,
+  SessionDraft,
+  SessionEvent,
+  SessionConfig,
+  SetupEntitlements,
+  CompletedSession,
+  Feedback,
+  Plan,
+  PausePolicy,
+  Question,
+  QuestionDraw,
+  QuestionProvider,
+  InterviewLoop,
+  AssessmentDurationMinutes,
+  AssessmentResult,
+  CodeRunResult,
+} from '@/types';
+import { RandomSource, createSeededRandom, generateSeed } from '@/lib/random';
+import { getLoopTemplateById, getLoopTemplatesByPlan } from '@/lib/loops';
 import { StorageService } from './StorageService';
+import { ReviewService } from './ReviewService';
+import { AnalyticsService } from './AnalyticsService';
+import { TrackService, TrackError } from './TrackService';
+import { LoopService, LoopError } from './LoopService';
+import { ReplayService } from './ReplayService';
+import { createQuestionProvider, CompositeQuestionProvider, UserQuestionProvider } from './QuestionProvider';
 
 /**
  * Error types for session operations
@@ -21,29 +45,125 @@ export class SessionError extends Error {
  * Session management service
  */
 export class SessionService {
-  private static readonly TIMER_DURATION = 2700; // 45 minutes in seconds
   private static readonly WEEKLY_LIMIT_BASIC = 3;
 
   /**
-   * Start a new interview session
-   * @throws SessionError if weekly limit exceeded for Basic plan
+   * Source of randomness for seeds and unseeded picks; swap it to pin selection in tests
    */
-  static startSession(userId: string, plan: Plan): Session {
-    // Check weekly limit for Basic plan
-    if (plan === 'basic') {
-      const weekStart = this.getWeekStart(new Date());
-      const sessions = StorageService.getSessions(userId);
-      const weekSessions = sessions.filter(s => {
-        const sessionDate = new Date(s.startTime);
-        return sessionDate >= weekStart;
-      });
-
-      if (weekSessions.length >= this.WEEKLY_LIMIT_BASIC) {
-        throw new SessionError(
-          `Basic plan users are limited to ${this.WEEKLY_LIMIT_BASIC} interviews per week`
-        );
-      }
+  private static random: RandomSource = Math.random;
+
+  /**
+   * Replace the random source, or restore Math.random when called without one
+   */
+  static setRandomSource(random: RandomSource = Math.random): void {
+    this.random = random;
+  }
+
+  /**
+   * Questions sessions are chosen from, apart from a user's own; swap it to pin the bank in tests
+   */
+  private static questions: QuestionProvider = createQuestionProvider();
+
+  /**
+   * Replace the question provider, or restore the built-in bank and imported packs when called without one
+   */
+  static setQuestionProvider(questions: QuestionProvider = createQuestionProvider()): void {
+    this.questions = questions;
+  }
+
+  /**
+   * Setup used when none is chosen: 45 minutes, any category or pattern, even difficulty mix, random question
+   */
+  static readonly DEFAULT_CONFIG: SessionConfig = {
+    durationMinutes: 45,
+    categories: [],
+    patterns: [],
+    difficultyMix: { easy: 1, medium: 1, hard: 1 },
+    selectionMode: 'random',
+  };
+
+  /**
+   * Which setup options each plan may change
+   */
+  static readonly SETUP_ENTITLEMENTS: Record<Plan, SetupEntitlements> = {
+    basic: { durations: [45], chooseCategories: false, customDifficultyMix: false, adaptiveSelection: false },
+    premium: { durations: [30, 45, 60], chooseCategories: true, customDifficultyMix: false, adaptiveSelection: true },
+    pro: { durations: [15, 30, 45, 60, 90], chooseCategories: true, customDifficultyMix: true, adaptiveSelection: true },
+  };
+
+  /**
+   * How often and how long each plan may pause a session
+   * Pressure mode runs are never paused so they stay realistic
+   */
+  static readonly PAUSE_POLICIES: Record<Plan, PausePolicy> = {
+    basic: { maxPauses: 1, maxPauseSeconds: 300, allowedInPressureMode: false },
+    premium: { maxPauses: 2, maxPauseSeconds: 600, allowedInPressureMode: false },
+    pro: { maxPauses: 3, maxPauseSeconds: 900, allowedInPressureMode: false },
+  };
+
+  /**
+   * Plans that can take online assessments, and the problem counts and time limits they offer
+   */
+  static readonly ASSESSMENT_PLANS: Plan[] = ['premium', 'pro'];
+  static readonly ASSESSMENT_PROBLEM_COUNTS: number[] = [2, 3, 4];
+  static readonly ASSESSMENT_DURATIONS: AssessmentDurationMinutes[] = [70, 80, 90];
+
+  /**
+   * Share of an assessment's score earned by passed test cases; the rest rewards solving early
+   */
+  private static readonly ASSESSMENT_CORRECTNESS_WEIGHT = 0.9;
+
+  /**
+   * Seconds remaining when the time warning is shown
+   */
+  static readonly WARNING_SECONDS = 120;
+
+  /**
+   * Check a session setup against the plan's entitlements
+   * @throws SessionError describing the first option the plan does not allow
+   */
+  static validateConfig(config: SessionConfig, plan: Plan): void {
+    const entitlements = this.SETUP_ENTITLEMENTS[plan];
+
+    if (!entitlements.durations.includes(config.durationMinutes)) {
+      throw new SessionError(
+        `A ${config.durationMinutes}-minute session is not available on your plan`
+      );
+    }
+
+    if (config.categories.length > 0 && !entitlements.chooseCategories) {
+      throw new SessionError('Choosing categories is not available on your plan');
+    }
+
+    if ((config.patterns?.length ?? 0) > 0 && !entitlements.chooseCategories) {
+      throw new SessionError('Choosing patterns is not available on your plan');
+    }
+
+    if (config.selectionMode === 'adaptive' && !entitlements.adaptiveSelection) {
+      throw new SessionError('Adaptive question selection is available on Premium and Pro');
+    }
+
+    const weights = Object.values(config.difficultyMix);
+    if (weights.some(weight => !Number.isFinite(weight) || weight < 0) || !weights.some(weight => weight > 0)) {
+      throw new SessionError('Difficulty mix needs at least one difficulty with a positive weight');
+    }
+
+    const { difficultyMix: defaultMix } = this.DEFAULT_CONFIG;
+    const isDefaultMix = (Object.keys(defaultMix) as Question['difficulty'][])
+      .every(difficulty => config.difficultyMix[difficulty] === defaultMix[difficulty]);
+    if (!isDefaultMix && !entitlements.customDifficultyMix) {
+      throw new SessionError('Custom difficulty settings are available on the Pro plan');
     }
+  }
+
+  /**
+   * Start a new interview session
+   * @throws SessionError if weekly limit exceeded for Basic plan, or the setup
+   * is not allowed on the plan or matches no questions
+   */
+  static startSession(userId: string, plan: Plan, config: SessionConfig = this.DEFAULT_CONFIG): Session {
+    this.validateConfig(config, plan);
+    this.checkWeeklyLimit(userId, plan);
 
     // Get questions used today to avoid repetition
     const today = new Date();
@@ -55,31 +175,455 @@ export class SessionService {
       return sessionDate.getTime() === today.getTime();
     });
     const usedQuestionIds = todaySessions.map(s => s.questionId);
+    const includeOwn = config.includeMyQuestions === true && new UserQuestionProvider(userId).list().length > 0;
+    const questions = includeOwn ? this.withOwnQuestions(userId) : this.questions;
+
+    // Select a question for the setup's selection mode
+    if (config.selectionMode === 'adaptive') {
+      const { question, reason } = this.getAdaptiveQuestion(
+        plan, usedQuestionIds, config, sessions, new Date(), this.random, questions
+      );
+      return { ...this.createSession(userId, question.id, config), selectionReason: reason };
+    }
 
-    // Select a random question
-    const question = this.getRandomQuestion(plan, usedQuestionIds);
+    if (config.selectionMode === 'review') {
+      const dueQuestionIds = ReviewService.getDueQuestionIds(userId);
+      const question = this.getRandomQuestion(plan, usedQuestionIds, config, dueQuestionIds, this.random, questions);
+      return this.createSession(userId, question.id, config);
+    }
 
-    // Create new session
-    const session: Session = {
-      id: this.generateId(),
+    // A friend cannot draw from this user's own questions, so there is no draw to share
+    if (includeOwn) {
+      const question = this.getRandomQuestion(plan, usedQuestionIds, config, [], this.random, questions);
+      return this.createSession(userId, question.id, config);
+    }
+
+    // Random questions come from a seeded draw so they can be shared
+    const draw: QuestionDraw = { seed: generateSeed(this.random), plan, config, excludeIds: usedQuestionIds };
+    const question = this.drawQuestion(draw);
+    return { ...this.createSession(userId, question.id, config), draw };
+  }
+
+  /**
+   * Start a session on the question a shared draw produces, such as the
+   * question of the day or a friend's challenge link
+   * Uses the draw's duration when the plan allows it, otherwise the default
+   * @throws SessionError if weekly limit exceeded for Basic plan, or the
+   * drawn question is not available on the plan
+   */
+  static startSessionFromDraw(userId: string, plan: Plan, draw: QuestionDraw): Session {
+    this.checkWeeklyLimit(userId, plan);
+
+    const question = this.drawQuestion(draw);
+    if (!this.questions.getByPlan(plan).some(q => q.id === question.id)) {
+      throw new SessionError('This question is not available on your plan');
+    }
+
+    const config: SessionConfig = {
+      ...this.DEFAULT_CONFIG,
+      durationMinutes: this.SETUP_ENTITLEMENTS[plan].durations.includes(draw.config.durationMinutes)
+        ? draw.config.durationMinutes
+        : this.DEFAULT_CONFIG.durationMinutes,
+    };
+
+    return { ...this.createSession(userId, question.id, config), draw };
+  }
+
+  /**
+   * Start a session on the next question of a study track
+   * @throws SessionError if weekly limit exceeded for Basic plan, or the track
+   * is unknown, not on the plan, locked or already complete
+   */
+  static startTrackSession(userId: string, plan: Plan, trackId: string): Session {
+    this.checkWeeklyLimit(userId, plan);
+
+    let questionId: string;
+    try {
+      questionId = TrackService.getNextQuestionId(trackId, StorageService.getSessions(userId), plan);
+    } catch (error) {
+      if (error instanceof TrackError) {
+        throw new SessionError(error.message, error);
+      }
+      throw error;
+    }
+
+    return { ...this.createSession(userId, questionId, this.DEFAULT_CONFIG), trackId };
+  }
+
+  /**
+   * Start a session on a question picked from the catalog
+   * @throws SessionError if weekly limit exceeded for Basic plan, or the
+   * question is unknown or not available on the plan
+   */
+  static startQuestionSession(userId: string, plan: Plan, questionId: string): Session {
+    this.checkWeeklyLimit(userId, plan);
+
+    const question = this.getQuestion(questionId, userId);
+    const own = new UserQuestionProvider(userId).getById(question.id) !== undefined;
+    if (!own && !this.questions.getByPlan(plan).some(q => q.id === question.id)) {
+      throw new SessionError('This question is not available on your plan');
+    }
+
+    return this.createSession(userId, question.id, this.DEFAULT_CONFIG);
+  }
+
+  /**
+   * Start an interview loop: choose every round's question up front and save
+   * the loop, ready for its first round
+   * @throws SessionError if the loop is unknown or not on the plan, another
+   * loop is still going, or a round's categories match no questions
+   */
+  static startLoop(userId: string, plan: Plan, templateId: string): InterviewLoop {
+    const template = getLoopTemplateById(templateId);
+    if (!template) {
+      throw new SessionError('Interview loop not found');
+    }
+
+    if (!getLoopTemplatesByPlan(plan).some(t => t.id === templateId)) {
+      throw new SessionError('This interview loop is not available on your plan');
+    }
+
+    if (LoopService.getActiveLoop(userId)) {
+      throw new SessionError('Finish or abandon your current interview loop first');
+    }
+
+    // Each round gets a different question
+    const chosenIds: string[] = [];
+    const rounds = template.rounds.map(round => {
+      const question = this.getRandomQuestion(
+        plan, chosenIds, { ...this.DEFAULT_CONFIG, categories: round.categories }, [], this.random
+      );
+      chosenIds.push(question.id);
+      return { ...round, questionId: question.id, sessionId: null, completedAt: null };
+    });
+
+    const loop: InterviewLoop = {
+      id: this.generateId('loop'),
+      userId,
+      templateId,
+      title: template.title,
+      rounds,
+      startedAt: new Date(),
+      endedAt: null,
+    };
+
+    StorageService.saveLoop(loop);
+    return loop;
+  }
+
+  /**
+   * Start a session on the next round of an interview loop, with the round's
+   * time budget
+   * @throws SessionError if weekly limit exceeded for Basic plan, or the loop
+   * is unknown or has ended
+   */
+  static startLoopRound(userId: string, plan: Plan, loopId: string): Session {
+    this.checkWeeklyLimit(userId, plan, loopId);
+
+    let loop: InterviewLoop;
+    try {
+      loop = LoopService.getLoop(userId, loopId);
+    } catch (error) {
+      if (error instanceof LoopError) {
+        throw new SessionError(error.message, error);
+      }
+      throw error;
+    }
+
+    const index = LoopService.getNextRoundIndex(loop);
+    if (loop.endedAt !== null || index === null) {
+      throw new SessionError('This interview loop has ended');
+    }
+
+    const round = loop.rounds[index];
+    const config: SessionConfig = {
+      ...this.DEFAULT_CONFIG,
+      durationMinutes: round.durationMinutes,
+      categories: round.categories,
+    };
+
+    return { ...this.createSession(userId, round.questionId, config), loop: LoopService.getRoundRef(loop, index) };
+  }
+
+  /**
+   * Start a timed online assessment: a problem set drawn from the plan's
+   * auto-graded questions, easiest first, with no hints or pauses
+   * @throws SessionError if the plan has no assessments, the setup is not
+   * offered, or the plan has too few auto-graded problems
+   */
+  static startAssessment(
+    userId: string,
+    plan: Plan,
+    problemCount: number,
+    durationMinutes: AssessmentDurationMinutes
+  ): Session {
+    if (!this.ASSESSMENT_PLANS.includes(plan)) {
+      throw new SessionError('Online assessments are not available on your plan');
+    }
+
+    if (!this.ASSESSMENT_PROBLEM_COUNTS.includes(problemCount)) {
+      throw new SessionError(`Online assessments have ${this.ASSESSMENT_PROBLEM_COUNTS.join(', ')} problems`);
+    }
+
+    if (!this.ASSESSMENT_DURATIONS.includes(durationMinutes)) {
+      throw new SessionError(`Online assessments last ${this.ASSESSMENT_DURATIONS.join(', ')} minutes`);
+    }
+
+    // Shuffle the auto-graded pool and take the first few
+    const pool = this.questions.getByPlan(plan).filter(q => this.isAutoGraded(q));
+    if (pool.length < problemCount) {
+      throw new SessionError('Not enough auto-graded problems for this assessment');
+    }
+
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+
+    const difficultyOrder: Question['difficulty'][] = ['easy', 'medium', 'hard'];
+    const questionIds = pool
+      .slice(0, problemCount)
+      .sort((a, b) => difficultyOrder.indexOf(a.difficulty) - difficultyOrder.indexOf(b.difficulty))
+      .map(q => q.id);
+
+    const startTime = new Date();
+    return {
+      id: this.generateId('assessment'),
       userId,
-      questionId: question.id,
-      startTime: new Date(),
+      questionId: questionIds[0],
+      startTime,
       endTime: null,
-      timeRemaining: this.TIMER_DURATION,
+      timeRemaining: durationMinutes * 60,
       pressureModeEnabled: false,
       hintRevealed: false,
+      assessment: { questionIds, durationMinutes, submissions: [] },
+      events: [{ type: 'started', at: startTime }],
     };
+  }
 
-    return session;
+  /**
+   * Record a submission's run against a problem's hidden test cases
+   * @throws SessionError if the session is not an assessment, the problem is
+   * not in its set, or time is up
+   */
+  static recordAssessmentSubmission(
+    session: Session,
+    questionId: string,
+    result: CodeRunResult,
+    now: Date = new Date()
+  ): Session {
+    if (!session.assessment) {
+      throw new SessionError('Session is not an online assessment');
+    }
+
+    if (!session.assessment.questionIds.includes(questionId)) {
+      throw new SessionError('Problem is not part of this assessment');
+    }
+
+    if (session.timedOut) {
+      throw new SessionError('Time is up for this assessment');
+    }
+
+    if (session.endTime) {
+      throw new SessionError('This assessment has been finished');
+    }
+
+    const submission = {
+      questionId,
+      language: result.language,
+      passedCount: result.passedCount,
+      totalCount: result.totalCount,
+      submittedAt: now,
+    };
+
+    return {
+      ...session,
+      assessment: { ...session.assessment, submissions: [...session.assessment.submissions, submission] },
+    };
+  }
+
+  /**
+   * Grade an assessment: each problem keeps its best submission, and the score
+   * weighs passed cases against how early each problem was fully solved
+   * A finished assessment is graded as of when it was finished
+   * @throws SessionError if the session is not an online assessment
+   */
+  static getAssessmentResult(session: Session, now: Date = session.endTime ?? new Date()): AssessmentResult {
+    if (!session.assessment) {
+      throw new SessionError('Session is not an online assessment');
+    }
+
+    const { questionIds, durationMinutes, submissions } = session.assessment;
+    const timeLimit = durationMinutes * 60;
+    const secondsIn = (date: Date) =>
+      Math.min(timeLimit, Math.max(0, Math.floor((date.getTime() - session.startTime.getTime()) / 1000)));
+
+    const problems = questionIds.map(questionId => {
+      const question = this.getQuestion(questionId, session.userId);
+      const attempts = submissions.filter(s => s.questionId === questionId);
+      const totalCount = question.testCases.length;
+      const solved = attempts.find(s => s.totalCount > 0 && s.passedCount === s.totalCount);
+
+      return {
+        questionId,
+        questionTitle: question.title,
+        difficulty: question.difficulty,
+        passedCount: Math.min(totalCount, Math.max(0, ...attempts.map(s => s.passedCount))),
+        totalCount,
+        submissionCount: attempts.length,
+        solvedAtSeconds: solved ? secondsIn(solved.submittedAt) : null,
+      };
+    });
+
+    const correctness = problems.reduce(
+      (sum, p) => sum + (p.totalCount > 0 ? p.passedCount / p.totalCount : 0), 0
+    ) / problems.length;
+    const timeScore = problems.reduce(
+      (sum, p) => sum + (p.solvedAtSeconds !== null ? 1 - p.solvedAtSeconds / timeLimit : 0), 0
+    ) / problems.length;
+    const weight = this.ASSESSMENT_CORRECTNESS_WEIGHT;
+
+    return {
+      id: session.id,
+      userId: session.userId,
+      startTime: session.startTime,
+      endTime: now,
+      durationMinutes,
+      timeUsed: session.timedOut ? timeLimit : secondsIn(now),
+      timedOut: session.timedOut ?? false,
+      problems,
+      passedCount: problems.reduce((sum, p) => sum + p.passedCount, 0),
+      totalCount: problems.reduce((sum, p) => sum + p.totalCount, 0),
+      score: Math.round(100 * (weight * correctness + (1 - weight) * timeScore)),
+    };
+  }
+
+  /**
+   * Grade and save a finished assessment, dropping the in-progress copy
+   * @throws SessionError if the session is not an online assessment
+   */
+  static endAssessment(session: Session, now: Date = session.endTime ?? new Date()): AssessmentResult {
+    const result = this.getAssessmentResult(session, now);
+
+    StorageService.saveAssessmentResult(result);
+    StorageService.clearActiveSession(session.userId);
+
+    return result;
+  }
+
+  /**
+   * The question a draw produces; the same draw always gives the same question
+   * @throws SessionError if the draw's setup matches no questions
+   */
+  static drawQuestion(draw: QuestionDraw): Question {
+    return this.getRandomQuestion(
+      draw.plan,
+      draw.excludeIds,
+      { ...draw.config, selectionMode: 'random' },
+      [],
+      createSeededRandom(draw.seed)
+    );
+  }
+
+  /**
+   * The question of the day draw: the same for every user on a plan tier for a calendar day
+   */
+  static getDailyDraw(plan: Plan, date: Date = new Date()): QuestionDraw {
+    const day = [
+      date.getFullYear(),
+      String(date.getMonth() + 1).padStart(2, '0'),
+      String(date.getDate()).padStart(2, '0'),
+    ].join('-');
+
+    return { seed: `daily-${day}-${plan}`, plan, config: this.DEFAULT_CONFIG, excludeIds: [] };
+  }
+
+  /**
+   * Whether a draw is the question of the day for its plan tier on the given day
+   */
+  static isDailyDraw(draw: QuestionDraw, date: Date = new Date()): boolean {
+    return draw.seed === this.getDailyDraw(draw.plan, date).seed;
+  }
+
+  /**
+   * Link that starts a session on the same question, relative to the site root
+   */
+  static getChallengeLink(draw: QuestionDraw): string {
+    return `/interview?draw=${this.encodeDraw(draw)}`;
+  }
+
+  /**
+   * Encode a draw for a shareable link
+   */
+  static encodeDraw(draw: QuestionDraw): string {
+    return btoa(encodeURIComponent(JSON.stringify(draw)))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+  }
+
+  /**
+   * Decode a draw from a shareable link
+   * @returns The draw, or null if the value is not a valid encoded draw
+   */
+  static decodeDraw(value: string | null): QuestionDraw | null {
+    if (!value) {
+      return null;
+    }
+
+    try {
+      const draw = JSON.parse(decodeURIComponent(atob(value.replace(/-/g, '+').replace(/_/g, '/'))));
+
+      const isValid = typeof draw === 'object' && draw !== null
+        && typeof draw.seed === 'string'
+        && Object.keys(this.SETUP_ENTITLEMENTS).includes(draw.plan)
+        && typeof draw.config === 'object' && draw.config !== null
+        && Array.isArray(draw.config.categories)
+        && typeof draw.config.difficultyMix === 'object' && draw.config.difficultyMix !== null
+        && typeof draw.config.durationMinutes === 'number'
+        && Array.isArray(draw.excludeIds);
+
+      return isValid ? draw : null;
+    } catch {
+      return null;
+    }
   }
 
   /**
    * Get a random question from the available bank
+   * Limited to the setup's categories and patterns, with difficulty picked by its mix.
+   * In review mode only `dueQuestionIds` are eligible.
+   * @param questions - Where to choose from; the user's own questions join in when they opt in
    * @throws SessionError if no questions available
    */
-  static getRandomQuestion(plan: Plan, excludeIds: string[] = []): Question {
-    const availableQuestions = getQuestionsByPlan(plan);
+  static getRandomQuestion(
+    plan: Plan,
+    excludeIds: string[] = [],
+    config: SessionConfig = this.DEFAULT_CONFIG,
+    dueQuestionIds: string[] = [],
+    random: RandomSource = this.random,
+    questions: QuestionProvider = this.questions
+  ): Question {
+    const planQuestions = questions.getByPlan(plan);
+    const categoryQuestions = questions.query({ plan, categories: config.categories });
+
+    if (planQuestions.length > 0 && categoryQuestions.length === 0) {
+      throw new SessionError('No questions match the selected categories');
+    }
+
+    const patternQuestions = questions.query({ plan, categories: config.categories, patterns: config.patterns });
+
+    if (categoryQuestions.length > 0 && patternQuestions.length === 0) {
+      throw new SessionError('No questions match the selected patterns');
+    }
+
+    const availableQuestions = config.selectionMode === 'review'
+      ? patternQuestions.filter(q => dueQuestionIds.includes(q.id))
+      : patternQuestions;
+
+    if (config.selectionMode === 'review' && availableQuestions.length === 0) {
+      throw new SessionError('No questions are due for review');
+    }
     
     // Filter out excluded questions
     const filteredQuestions = availableQuestions.filter(
@@ -95,26 +639,130 @@ export class SessionService {
       throw new SessionError('No questions available for this plan');
     }
 
+    // Pick a difficulty by weight among those with questions left, then a question
+    const difficulties = (['easy', 'medium', 'hard'] as const).filter(
+      difficulty => config.difficultyMix[difficulty] > 0 && questionsToUse.some(q => q.difficulty === difficulty)
+    );
+    const pickedDifficulty = difficulties.length > 0
+      ? this.pickWeighted(difficulties, config.difficultyMix, random)
+      : null;
+    const candidates = pickedDifficulty
+      ? questionsToUse.filter(q => q.difficulty === pickedDifficulty)
+      : questionsToUse;
+
     // Select random question
-    const randomIndex = Math.floor(Math.random() * questionsToUse.length);
-    return questionsToUse[randomIndex];
+    const randomIndex = Math.floor(random() * candidates.length);
+    return candidates[randomIndex];
+  }
+
+  /**
+   * Pick a question aimed at the user's weak areas
+   * A category is drawn by its adaptive weight among the setup's categories,
+   * then a question at the difficulty stepped from recent ratings there.
+   * The setup's difficulty mix is not used.
+   * @returns The question and a short reason the UI can show
+   * @throws SessionError if no questions available
+   */
+  static getAdaptiveQuestion(
+    plan: Plan,
+    excludeIds: string[],
+    config: SessionConfig,
+    history: CompletedSession[],
+    now: Date = new Date(),
+    random: RandomSource = this.random,
+    questions: QuestionProvider = this.questions
+  ): { question: Question; reason: string } {
+    const categories = [...new Set(
+      questions.query({ plan, categories: config.categories, patterns: config.patterns }).map(q => q.category)
+    )];
+
+    if (categories.length === 0) {
+      // Let the regular selection report why nothing matched
+      return { question: this.getRandomQuestion(plan, excludeIds, config, [], random, questions), reason: '' };
+    }
+
+    const weights = AnalyticsService.getCategoryWeights(history, categories, now);
+    const category = this.pickWeighted(
+      categories,
+      Object.fromEntries(weights.map(w => [w.category, w.weight])) as Record<string, number>,
+      random
+    );
+    const step = AnalyticsService.getDifficultyStep(history, category);
+
+    const question = this.getRandomQuestion(plan, excludeIds, {
+      ...config,
+      categories: [category],
+      difficultyMix: { easy: 0, medium: 0, hard: 0, [step.difficulty]: 1 },
+      selectionMode: 'random',
+    }, [], random, questions);
+
+    let reason = weights.find(w => w.category === category)!.reason;
+    if (step.direction !== 'hold' && question.difficulty === step.difficulty) {
+      reason += `, stepping ${step.direction} to ${step.difficulty}`;
+    }
+
+    return { question, reason };
+  }
+
+  /**
+   * The question provider with one user's own questions added
+   */
+  private static withOwnQuestions(userId: string): QuestionProvider {
+    return new CompositeQuestionProvider([this.questions, new UserQuestionProvider(userId)]);
+  }
+
+  /**
+   * Get the question a session was started with
+   * @param userId - Owner of the session, to find their own questions
+   * @throws SessionError if the question is not in the bank, an imported pack
+   * or the user's own questions
+   */
+  static getQuestion(questionId: string, userId?: string): Question {
+    const question = (userId ? this.withOwnQuestions(userId) : this.questions).getById(questionId);
+
+    if (!question) {
+      throw new SessionError('Question not found');
+    }
+
+    return question;
+  }
+
+  /**
+   * Stop the clock when the user ends the session, before feedback is given
+   * Any open pause is closed, and the session is saved as ending now
+   * A session already ended or timed out is returned unchanged
+   */
+  static finishSession(session: Session, now: Date = new Date()): Session {
+    if (session.endTime || session.timedOut) return session;
+
+    return {
+      ...session,
+      endTime: now,
+      pauses: session.pauses?.map(pause => (pause.end === null ? { ...pause, end: now } : pause)),
+    };
   }
 
   /**
    * End an active session and save with feedback
+   * A session finished with `finishSession` ends when it was finished, not
+   * when the feedback is submitted
    */
   static endSession(
     session: Session,
     feedback: Feedback
   ): CompletedSession {
-    const endTime = new Date();
+    if (session.assessment) {
+      throw new SessionError('Online assessments are scored automatically');
+    }
+
+    const endTime = session.endTime ?? new Date();
     const duration = Math.floor(
       (endTime.getTime() - session.startTime.getTime()) / 1000
     );
+    const pausedDuration = Math.min(duration, this.getPausedSeconds(session, endTime));
 
     // Get question details
-    const { getQuestionById } = require('@/lib/questions');
-    const question = getQuestionById(session.questionId);
+    const question = this.withOwnQuestions(session.userId).getById(session.questionId);
 
     if (!question) {
       throw new SessionError('Question not found');
@@ -126,6 +774,7 @@ export class SessionService {
       questionId: session.questionId,
       questionTitle: question.title,
       category: question.category,
+      patterns: question.patterns,
       difficulty: question.difficulty,
       startTime: session.startTime,
       endTime,
@@ -134,21 +783,259 @@ export class SessionService {
       perceivedDifficulty: feedback.perceivedDifficulty,
       notes: feedback.notes,
       pressureModeUsed: session.pressureModeEnabled,
+      hintUsed: session.hintRevealed,
+      hintCount: this.getHintsShown(session),
+      activeDuration: duration - pausedDuration,
+      pausedDuration,
+      pauseCount: session.pauses?.length ?? 0,
+      timedOut: session.timedOut ?? false,
     };
 
-    // Save the completed session
+    const firstHint = session.hintsRevealedAt?.[0];
+    if (firstHint) {
+      completedSession.firstHintSeconds = Math.max(
+        0,
+        Math.floor((firstHint.getTime() - session.startTime.getTime()) / 1000)
+      );
+    }
+
+    if (session.config) {
+      completedSession.config = session.config;
+    }
+
+    if (session.selectionReason) {
+      completedSession.selectionReason = session.selectionReason;
+    }
+
+    if (session.draw) {
+      completedSession.draw = session.draw;
+    }
+
+    if (session.trackId) {
+      completedSession.trackId = session.trackId;
+    }
+
+    if (session.loop) {
+      completedSession.loop = session.loop;
+    }
+
+    if (session.mode) {
+      completedSession.mode = session.mode;
+    }
+
+    if (session.testPassRate !== undefined) {
+      completedSession.testPassRate = session.testPassRate;
+    }
+
+    if (session.finalCode) {
+      completedSession.finalCode = session.finalCode;
+    }
+
+    if (session.events) {
+      completedSession.events = [...session.events, { type: 'ended', at: endTime }];
+    }
+
+    // Save the replay first so a failed save leaves the session to end again
+    if (session.snapshots && session.snapshots.length > 0) {
+      ReplayService.saveReplay(completedSession, session.snapshots);
+    }
+
+    // Link the round to its loop, ending the loop after its last round. This
+    // comes before the save since linking again on a retry changes nothing
+    if (completedSession.loop) {
+      LoopService.recordRound(completedSession);
+    }
+
+    // Save the completed session and drop the in-progress copy
     StorageService.saveSession(completedSession);
+    StorageService.clearActiveSession(session.userId);
+
+    // Schedule the question's next review from this attempt. The session is
+    // already saved, so a failure here must not send it back to be ended again
+    try {
+      ReviewService.recordSession(completedSession);
+    } catch (error) {
+      console.error('Failed to schedule review:', error);
+    }
 
     return completedSession;
   }
 
+  /**
+   * Whether the session is currently paused
+   */
+  static isPaused(session: Session): boolean {
+    return session.pauses?.some(pause => pause.end === null) ?? false;
+  }
+
+  /**
+   * Total paused time in seconds, counting an open pause up to `now`
+   */
+  static getPausedSeconds(session: Session, now: Date = new Date()): number {
+    const pausedMs = (session.pauses ?? []).reduce(
+      (total, pause) => total + ((pause.end ?? now).getTime() - pause.start.getTime()),
+      0
+    );
+    return Math.max(0, Math.floor(pausedMs / 1000));
+  }
+
+  /**
+   * Pause a session's timer
+   * @throws SessionError if the session is already paused or the plan does not allow another pause
+   */
+  static pauseSession(session: Session, plan: Plan): Session {
+    const policy = this.PAUSE_POLICIES[plan];
+    const pauses = session.pauses ?? [];
+
+    if (this.isPaused(session)) {
+      throw new SessionError('Session is already paused');
+    }
+
+    if (session.assessment) {
+      throw new SessionError('Online assessments cannot be paused');
+    }
+
+    if (session.mode === 'practice') {
+      throw new SessionError('Practice sessions are untimed');
+    }
+
+    if (session.pressureModeEnabled && !policy.allowedInPressureMode) {
+      throw new SessionError('Sessions cannot be paused in pressure mode');
+    }
+
+    if (pauses.length >= policy.maxPauses) {
+      throw new SessionError(
+        `Your plan allows ${policy.maxPauses} ${policy.maxPauses === 1 ? 'pause' : 'pauses'} per session`
+      );
+    }
+
+    const now = new Date();
+    return {
+      ...session,
+      pauses: [...pauses, { start: now, end: null }],
+      events: [...(session.events ?? []), { type: 'paused', at: now }],
+    };
+  }
+
+  /**
+   * Resume a paused session's timer
+   * A pause resumed after the plan's maximum length (say, after a reload) ends
+   * at that length, and the time since then comes off the clock
+   * @throws SessionError if the session is not paused
+   */
+  static resumeSession(session: Session, plan: Plan, now: Date = new Date()): Session {
+    if (!this.isPaused(session)) {
+      throw new SessionError('Session is not paused');
+    }
+
+    const pauses = session.pauses ?? [];
+    const open = pauses.find(pause => pause.end === null)!;
+    const latestEnd = open.start.getTime() + this.PAUSE_POLICIES[plan].maxPauseSeconds * 1000;
+    const end = new Date(Math.min(now.getTime(), latestEnd));
+    const overrunSeconds = Math.floor((now.getTime() - end.getTime()) / 1000);
+
+    return {
+      ...session,
+      timeRemaining: Math.max(0, session.timeRemaining - overrunSeconds),
+      pauses: pauses.map(pause => (pause.end === null ? { ...pause, end } : pause)),
+      events: [...(session.events ?? []), { type: 'resumed', at: end }],
+    };
+  }
+
+  /**
+   * Number of hints shown so far
+   * Sessions started before hints were a list count a shown hint as one
+   */
+  static getHintsShown(session: Session): number {
+    return session.hintsRevealedAt?.length ?? (session.hintRevealed ? 1 : 0);
+  }
+
+  /**
+   * Show the question's next hint and record when it was shown
+   * @throws SessionError if the question is not found or has no more hints
+   */
+  static revealHint(session: Session, now: Date = new Date()): Session {
+    if (session.assessment) {
+      throw new SessionError('Hints are not available in online assessments');
+    }
+
+    const question = this.getQuestion(session.questionId, session.userId);
+    const revealedAt = session.hintsRevealedAt ?? (session.hintRevealed ? [session.startTime] : []);
+
+    if (revealedAt.length >= question.hints.length) {
+      throw new SessionError(question.hints.length === 0 ? 'This question has no hints' : 'Every hint is already shown');
+    }
+
+    return {
+      ...session,
+      hintRevealed: true,
+      hintsRevealedAt: [...revealedAt, now],
+      events: [...(session.events ?? []), { type: 'hint-revealed', at: now, level: revealedAt.length + 1 }],
+    };
+  }
+
+  /**
+   * Add an event to the session's timeline
+   */
+  static recordEvent(session: Session, event: SessionEvent): Session {
+    return {
+      ...session,
+      events: [...(session.events ?? []), event],
+    };
+  }
+
+  /**
+   * Persist an in-progress session and its drafts so a reload can restore them
+   * @returns When the progress was saved
+   * @throws StorageError if the progress cannot be saved
+   */
+  static saveProgress(session: Session, draft: SessionDraft | null): Date {
+    const savedAt = new Date();
+    StorageService.saveActiveSession({ session, draft, savedAt });
+    return savedAt;
+  }
+
   /**
    * Get current active session for a user
+   * Time away since the last save counts against the timer, so a session
+   * left past its time limit comes back with no time remaining. A paused
+   * session, or an untimed practice session, comes back with its time untouched.
+   * A session whose time ran out while away logs when it did. A session the
+   * user already finished waits for feedback with its clock stopped.
    */
   static getCurrentSession(userId: string): Session | null {
-    // In a real implementation, this would track active sessions
-    // For now, return null as sessions are managed in React context
-    return null;
+    const record = StorageService.getActiveSession(userId);
+    if (!record) return null;
+    if (this.isPaused(record.session) || record.session.mode === 'practice' || record.session.endTime) {
+      return record.session;
+    }
+
+    const secondsAway = Math.max(0, Math.floor((Date.now() - record.savedAt.getTime()) / 1000));
+    const session = {
+      ...record.session,
+      timeRemaining: Math.max(0, record.session.timeRemaining - secondsAway),
+    };
+
+    if (session.timeRemaining === 0 && record.session.timeRemaining > 0) {
+      const ranOutAt = new Date(record.savedAt.getTime() + record.session.timeRemaining * 1000);
+      return this.recordEvent(session, { type: 'timed-out', at: ranOutAt });
+    }
+
+    return session;
+  }
+
+  /**
+   * Get the editor and notes drafts saved with the current session
+   */
+  static getSavedDraft(userId: string): SessionDraft | null {
+    return StorageService.getActiveSession(userId)?.draft ?? null;
+  }
+
+  /**
+   * Discard an unfinished session without recording it in history
+   */
+  static discardCurrentSession(userId: string): void {
+    StorageService.clearActiveSession(userId);
   }
 
   /**
@@ -170,6 +1057,88 @@ export class SessionService {
     return sortedSessions;
   }
 
+  /**
+   * Pick one option with probability proportional to its weight
+   */
+  private static pickWeighted<T extends string>(
+    options: readonly T[],
+    weights: Record<T, number>,
+    random: RandomSource
+  ): T {
+    const total = options.reduce((sum, option) => sum + weights[option], 0);
+    let roll = random() * total;
+
+    for (const option of options) {
+      roll -= weights[option];
+      if (roll < 0) return option;
+    }
+
+    return options[options.length - 1];
+  }
+
+  /**
+   * Whether a question's submissions can be graded; matches CodeRunnerService.canRun
+   */
+  private static isAutoGraded(question: Question): boolean {
+    return question.runner !== undefined && question.testCases.length > 0;
+  }
+
+  /**
+   * Throw if a Basic plan user has used up this week's interviews
+   * A loop counts once, so a round of a loop already counted this week is allowed
+   */
+  private static checkWeeklyLimit(userId: string, plan: Plan, loopId?: string): void {
+    if (plan !== 'basic') {
+      return;
+    }
+
+    const weekStart = this.getWeekStart(new Date());
+    const sessions = StorageService.getSessions(userId);
+    const weekSessions = sessions.filter(s => {
+      const sessionDate = new Date(s.startTime);
+      return sessionDate >= weekStart;
+    });
+
+    if (loopId && weekSessions.some(s => s.loop?.loopId === loopId)) {
+      return;
+    }
+
+    if (LoopService.countInterviews(weekSessions) >= this.WEEKLY_LIMIT_BASIC) {
+      throw new SessionError(
+        `Basic plan users are limited to ${this.WEEKLY_LIMIT_BASIC} interviews per week`
+      );
+    }
+  }
+
+  /**
+   * Build a fresh session on a question
+   * The replay opens on the starter code, as the editor does, in JavaScript
+   */
+  private static createSession(userId: string, questionId: string, config: SessionConfig): Session {
+    const startTime = new Date();
+    const starterCode = this.withOwnQuestions(userId).getById(questionId)?.starterCode.javascript ?? '';
+    const opening = ReplayService.takeSnapshot(
+      [],
+      { language: 'javascript', code: { javascript: starterCode }, notes: '' },
+      startTime
+    );
+
+    return {
+      id: this.generateId(),
+      userId,
+      questionId,
+      startTime,
+      endTime: null,
+      timeRemaining: config.durationMinutes * 60,
+      pressureModeEnabled: false,
+      hintRevealed: false,
+      config,
+      mode: config.mode ?? 'interview',
+      events: [{ type: 'started', at: startTime }],
+      snapshots: opening ? [opening] : [],
+    };
+  }
+
   /**
    * Get the start of the current week (Sunday at 00:00:00)
    */
@@ -182,10 +1151,10 @@ export class SessionService {
   }
 
   /**
-   * Generate a unique ID for sessions
+   * Generate a unique ID for sessions, loops, and assessments
    */
-  private static generateId(): string {
-    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private static generateId(prefix: string = 'session'): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   /**
@@ -4,7 +4,7 @@
  * for persisting user data, sessions, and streaks
  */
 
-import { User, CompletedSession } from '@/types';
+import { User, CompletedSession, ActiveSessionRecord, ReviewSchedule, QuestionPack, Question, InterviewLoop, AssessmentResult, SessionReplay, ReplaySnapshot } from '@/types';
 
 /**
  * Storage keys used for localStorage
@@ -13,6 +13,13 @@ const STORAGE_KEYS = {
   USERS: 'interview_buddy_users',
   SESSIONS: 'interview_buddy_sessions',
   STREAKS: 'interview_buddy_streaks',
+  ACTIVE_SESSIONS: 'interview_buddy_active_sessions',
+  REVIEW_SCHEDULES: 'interview_buddy_review_schedules',
+  QUESTION_PACKS: 'interview_buddy_question_packs',
+  USER_QUESTIONS: 'interview_buddy_user_questions',
+  LOOPS: 'interview_buddy_loops',
+  ASSESSMENTS: 'interview_buddy_assessments',
+  REPLAYS: 'interview_buddy_replays',
 } as const;
 
 /**
@@ -101,10 +108,156 @@ export class StorageService {
       s.rating >= 1 &&
       s.rating <= 5 &&
       typeof s.notes === 'string' &&
-      typeof s.pressureModeUsed === 'boolean'
+      typeof s.pressureModeUsed === 'boolean' &&
+      (s.events === undefined || Array.isArray(s.events))
     );
   }
 
+  /**
+   * Validate active session record structure
+   */
+  private static validateActiveSessionRecord(record: unknown): record is ActiveSessionRecord {
+    if (!record || typeof record !== 'object') return false;
+
+    const r = record as Partial<ActiveSessionRecord>;
+    const s = r.session;
+    return (
+      !!s &&
+      typeof s.id === 'string' &&
+      typeof s.userId === 'string' &&
+      typeof s.questionId === 'string' &&
+      typeof s.timeRemaining === 'number' &&
+      typeof s.pressureModeEnabled === 'boolean' &&
+      typeof s.hintRevealed === 'boolean' &&
+      (s.pauses === undefined || Array.isArray(s.pauses)) &&
+      (s.hintsRevealedAt === undefined || Array.isArray(s.hintsRevealedAt)) &&
+      (s.events === undefined || Array.isArray(s.events)) &&
+      (s.snapshots === undefined || Array.isArray(s.snapshots)) &&
+      r.savedAt !== undefined &&
+      (r.draft === null || (typeof r.draft === 'object' && r.draft.sessionId === s.id))
+    );
+  }
+
+  /**
+   * Validate review schedule structure
+   */
+  private static validateReviewSchedule(schedule: unknown): schedule is ReviewSchedule {
+    if (!schedule || typeof schedule !== 'object') return false;
+
+    const s = schedule as Partial<ReviewSchedule>;
+    return (
+      typeof s.questionId === 'string' &&
+      typeof s.repetitions === 'number' &&
+      typeof s.easeFactor === 'number' &&
+      typeof s.intervalDays === 'number' &&
+      s.lastReviewedAt !== undefined &&
+      s.nextReviewAt !== undefined
+    );
+  }
+
+  /**
+   * Validate interview loop structure
+   */
+  private static validateLoop(loop: unknown): loop is InterviewLoop {
+    if (!loop || typeof loop !== 'object') return false;
+
+    const l = loop as Partial<InterviewLoop>;
+    return (
+      typeof l.id === 'string' &&
+      typeof l.userId === 'string' &&
+      typeof l.templateId === 'string' &&
+      typeof l.title === 'string' &&
+      Array.isArray(l.rounds) &&
+      l.rounds.every(round => typeof round?.questionId === 'string') &&
+      l.startedAt !== undefined
+    );
+  }
+
+  /**
+   * Validate online assessment result structure
+   */
+  private static validateAssessmentResult(result: unknown): result is AssessmentResult {
+    if (!result || typeof result !== 'object') return false;
+
+    const r = result as Partial<AssessmentResult>;
+    return (
+      typeof r.id === 'string' &&
+      typeof r.userId === 'string' &&
+      typeof r.score === 'number' &&
+      typeof r.timeUsed === 'number' &&
+      Array.isArray(r.problems) &&
+      r.problems.every(problem => typeof problem?.questionId === 'string') &&
+      r.startTime !== undefined &&
+      r.endTime !== undefined
+    );
+  }
+
+  /**
+   * Validate session replay structure
+   */
+  private static validateReplay(replay: unknown): replay is SessionReplay {
+    if (!replay || typeof replay !== 'object') return false;
+
+    const r = replay as Partial<SessionReplay>;
+    return (
+      typeof r.sessionId === 'string' &&
+      typeof r.userId === 'string' &&
+      r.startTime !== undefined &&
+      typeof r.intervalSeconds === 'number' &&
+      Array.isArray(r.snapshots)
+    );
+  }
+
+  /**
+   * Convert a stored replay snapshot's time back to a Date
+   */
+  private static reviveSnapshot(snapshot: ReplaySnapshot): ReplaySnapshot {
+    return { ...snapshot, at: new Date(snapshot.at) };
+  }
+
+  /**
+   * Validate question pack structure
+   * Questions are checked against the full schema when the pack is imported
+   */
+  private static validateQuestionPack(pack: unknown): pack is QuestionPack {
+    if (!pack || typeof pack !== 'object') return false;
+
+    const p = pack as Partial<QuestionPack>;
+    return (
+      typeof p.id === 'string' &&
+      typeof p.name === 'string' &&
+      Array.isArray(p.questions) &&
+      p.importedAt !== undefined
+    );
+  }
+
+  /**
+   * Validate a user's own question structure
+   * The full schema is checked by UserQuestionService before saving
+   */
+  private static validateUserQuestion(question: unknown): question is Question {
+    if (!question || typeof question !== 'object') return false;
+
+    const q = question as Partial<Question>;
+    return (
+      typeof q.id === 'string' &&
+      typeof q.title === 'string' &&
+      typeof q.statement === 'string' &&
+      !!q.solution &&
+      typeof q.solution === 'object'
+    );
+  }
+
+  /**
+   * Questions saved before hints were a list have a single `hint` string
+   */
+  private static withHintList(question: Question): Question {
+    if (Array.isArray(question.hints)) return question;
+
+    const { hint, ...rest } = question as Question & { hint?: string };
+    return { ...rest, hints: hint ? [hint] : [] };
+  }
+
   /**
    * Save a user to localStorage
    * @throws StorageError if localStorage is unavailable or quota exceeded
@@ -275,6 +428,7 @@ export class StorageService {
           ...session,
           startTime: new Date(session.startTime),
           endTime: new Date(session.endTime),
+          events: session.events?.map(event => ({ ...event, at: new Date(event.at) })),
         }));
     } catch (error) {
       console.error('Failed to retrieve sessions:', error);
@@ -282,6 +436,175 @@ export class StorageService {
     }
   }
 
+  /**
+   * Save the in-progress session and its drafts, replacing any previous one for the user
+   * @throws StorageError if localStorage is unavailable or quota exceeded
+   */
+  static saveActiveSession(record: ActiveSessionRecord): void {
+    if (!this.isLocalStorageAvailable()) {
+      throw new StorageError('localStorage is not available');
+    }
+
+    if (!this.validateActiveSessionRecord(record)) {
+      throw new StorageError('Invalid active session data structure');
+    }
+
+    try {
+      const activeData = this.safeParse<Record<string, ActiveSessionRecord>>(
+        localStorage.getItem(STORAGE_KEYS.ACTIVE_SESSIONS),
+        {}
+      );
+
+      activeData[record.session.userId] = record;
+
+      const serialized = this.safeStringify(activeData);
+      localStorage.setItem(STORAGE_KEYS.ACTIVE_SESSIONS, serialized);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        throw new StorageError('Storage quota exceeded. Please clear old data.', error);
+      }
+      throw new StorageError('Failed to save active session', error);
+    }
+  }
+
+  /**
+   * Retrieve a user's in-progress session and drafts
+   * @returns The saved record or null if none found
+   */
+  static getActiveSession(userId: string): ActiveSessionRecord | null {
+    if (!this.isLocalStorageAvailable()) {
+      console.warn('localStorage is not available');
+      return null;
+    }
+
+    try {
+      const activeData = this.safeParse<Record<string, ActiveSessionRecord>>(
+        localStorage.getItem(STORAGE_KEYS.ACTIVE_SESSIONS),
+        {}
+      );
+
+      const record = activeData[userId];
+
+      if (!record) return null;
+
+      if (this.validateActiveSessionRecord(record)) {
+        // Convert date strings back to Date objects
+        return {
+          ...record,
+          session: {
+            ...record.session,
+            startTime: new Date(record.session.startTime),
+            endTime: record.session.endTime ? new Date(record.session.endTime) : null,
+            pauses: record.session.pauses?.map(pause => ({
+              start: new Date(pause.start),
+              end: pause.end ? new Date(pause.end) : null,
+            })),
+            hintsRevealedAt: record.session.hintsRevealedAt?.map(time => new Date(time)),
+            events: record.session.events?.map(event => ({ ...event, at: new Date(event.at) })),
+            snapshots: record.session.snapshots?.map(this.reviveSnapshot),
+            assessment: record.session.assessment && {
+              ...record.session.assessment,
+              submissions: record.session.assessment.submissions.map(submission => ({
+                ...submission,
+                submittedAt: new Date(submission.submittedAt),
+              })),
+            },
+          },
+          savedAt: new Date(record.savedAt),
+        };
+      }
+
+      console.warn('Invalid active session data found, returning null');
+      return null;
+    } catch (error) {
+      console.error('Failed to retrieve active session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove a user's in-progress session and drafts
+   * @throws StorageError if localStorage is unavailable
+   */
+  static clearActiveSession(userId: string): void {
+    if (!this.isLocalStorageAvailable()) {
+      throw new StorageError('localStorage is not available');
+    }
+
+    try {
+      const activeData = this.safeParse<Record<string, ActiveSessionRecord>>(
+        localStorage.getItem(STORAGE_KEYS.ACTIVE_SESSIONS),
+        {}
+      );
+
+      delete activeData[userId];
+
+      localStorage.setItem(STORAGE_KEYS.ACTIVE_SESSIONS, this.safeStringify(activeData));
+    } catch (error) {
+      throw new StorageError('Failed to clear active session', error);
+    }
+  }
+
+  /**
+   * Save a question's review schedule, replacing the previous one for the user
+   * @throws StorageError if localStorage is unavailable or quota exceeded
+   */
+  static saveReviewSchedule(userId: string, schedule: ReviewSchedule): void {
+    if (!this.isLocalStorageAvailable()) {
+      throw new StorageError('localStorage is not available');
+    }
+
+    if (!this.validateReviewSchedule(schedule)) {
+      throw new StorageError('Invalid review schedule data structure');
+    }
+
+    try {
+      const schedulesData = this.safeParse<Record<string, Record<string, ReviewSchedule>>>(
+        localStorage.getItem(STORAGE_KEYS.REVIEW_SCHEDULES),
+        {}
+      );
+
+      schedulesData[userId] = { ...schedulesData[userId], [schedule.questionId]: schedule };
+
+      const serialized = this.safeStringify(schedulesData);
+      localStorage.setItem(STORAGE_KEYS.REVIEW_SCHEDULES, serialized);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        throw new StorageError('Storage quota exceeded. Please clear old data.', error);
+      }
+      throw new StorageError('Failed to save review schedule', error);
+    }
+  }
+
+  /**
+   * Retrieve all of a user's review schedules
+   * @returns One schedule per reviewed question (empty if none found)
+   */
+  static getReviewSchedules(userId: string): ReviewSchedule[] {
+    if (!this.isLocalStorageAvailable()) {
+      console.warn('localStorage is not available');
+      return [];
+    }
+
+    try {
+      const schedulesData = this.safeParse<Record<string, Record<string, ReviewSchedule>>>(
+        localStorage.getItem(STORAGE_KEYS.REVIEW_SCHEDULES),
+        {}
+      );
+
+      return Object.values(schedulesData[userId] ?? {})
+        .filter(schedule => this.validateReviewSchedule(schedule))
+        .map(schedule => ({
+          ...schedule,
+          lastReviewedAt: new Date(schedule.lastReviewedAt),
+          nextReviewAt: new Date(schedule.nextReviewAt),
+        }));
+    } catch (error) {
+      console.error('Failed to retrieve review schedules:', error);
+      return [];
+    }
+  }
+
   /**
    * Update a user's streak count
    * @throws StorageError if localStorage is unavailable or quota exceeded
@@ -343,6 +666,357 @@ export class StorageService {
     }
   }
 
+  /**
+   * Save an imported question pack, replacing any pack with the same id
+   * Packs are shared by every user on the device
+   * @throws StorageError if localStorage is unavailable or quota exceeded
+   */
+  static saveQuestionPack(pack: QuestionPack): void {
+    if (!this.isLocalStorageAvailable()) {
+      throw new StorageError('localStorage is not available');
+    }
+
+    if (!this.validateQuestionPack(pack)) {
+      throw new StorageError('Invalid question pack data structure');
+    }
+
+    try {
+      const packsData = this.safeParse<Record<string, QuestionPack>>(
+        localStorage.getItem(STORAGE_KEYS.QUESTION_PACKS),
+        {}
+      );
+
+      packsData[pack.id] = pack;
+
+      const serialized = this.safeStringify(packsData);
+      localStorage.setItem(STORAGE_KEYS.QUESTION_PACKS, serialized);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        throw new StorageError('Storage quota exceeded. Please clear old data.', error);
+      }
+      throw new StorageError('Failed to save question pack', error);
+    }
+  }
+
+  /**
+   * Retrieve all imported question packs, oldest import first
+   * @returns Array of packs (empty if none found)
+   */
+  static getQuestionPacks(): QuestionPack[] {
+    if (!this.isLocalStorageAvailable()) {
+      console.warn('localStorage is not available');
+      return [];
+    }
+
+    try {
+      const packsData = this.safeParse<Record<string, QuestionPack>>(
+        localStorage.getItem(STORAGE_KEYS.QUESTION_PACKS),
+        {}
+      );
+
+      return Object.values(packsData)
+        .filter(pack => this.validateQuestionPack(pack))
+        .map(pack => ({
+          ...pack,
+          questions: pack.questions.map(question => this.withHintList(question)),
+          importedAt: new Date(pack.importedAt),
+        }))
+        .sort((a, b) => a.importedAt.getTime() - b.importedAt.getTime());
+    } catch (error) {
+      console.error('Failed to retrieve question packs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete an imported question pack
+   * @throws StorageError if localStorage is unavailable
+   */
+  static deleteQuestionPack(packId: string): void {
+    if (!this.isLocalStorageAvailable()) {
+      throw new StorageError('localStorage is not available');
+    }
+
+    try {
+      const packsData = this.safeParse<Record<string, QuestionPack>>(
+        localStorage.getItem(STORAGE_KEYS.QUESTION_PACKS),
+        {}
+      );
+
+      delete packsData[packId];
+      localStorage.setItem(STORAGE_KEYS.QUESTION_PACKS, this.safeStringify(packsData));
+    } catch (error) {
+      throw new StorageError('Failed to delete question pack', error);
+    }
+  }
+
+  /**
+   * Save one of a user's own questions, replacing any with the same id
+   * @throws StorageError if localStorage is unavailable or quota exceeded
+   */
+  static saveUserQuestion(userId: string, question: Question): void {
+    if (!this.isLocalStorageAvailable()) {
+      throw new StorageError('localStorage is not available');
+    }
+
+    if (!this.validateUserQuestion(question)) {
+      throw new StorageError('Invalid question data structure');
+    }
+
+    try {
+      const questionsData = this.safeParse<Record<string, Record<string, Question>>>(
+        localStorage.getItem(STORAGE_KEYS.USER_QUESTIONS),
+        {}
+      );
+
+      questionsData[userId] = { ...questionsData[userId], [question.id]: question };
+
+      const serialized = this.safeStringify(questionsData);
+      localStorage.setItem(STORAGE_KEYS.USER_QUESTIONS, serialized);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        throw new StorageError('Storage quota exceeded. Please clear old data.', error);
+      }
+      throw new StorageError('Failed to save question', error);
+    }
+  }
+
+  /**
+   * Retrieve a user's own questions, oldest first
+   * @returns Array of questions (empty if none found)
+   */
+  static getUserQuestions(userId: string): Question[] {
+    if (!this.isLocalStorageAvailable()) {
+      console.warn('localStorage is not available');
+      return [];
+    }
+
+    try {
+      const questionsData = this.safeParse<Record<string, Record<string, Question>>>(
+        localStorage.getItem(STORAGE_KEYS.USER_QUESTIONS),
+        {}
+      );
+
+      return Object.values(questionsData[userId] ?? {})
+        .filter(question => this.validateUserQuestion(question))
+        .map(question => this.withHintList(question));
+    } catch (error) {
+      console.error('Failed to retrieve questions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete one of a user's own questions
+   * @throws StorageError if localStorage is unavailable
+   */
+  static deleteUserQuestion(userId: string, questionId: string): void {
+    if (!this.isLocalStorageAvailable()) {
+      throw new StorageError('localStorage is not available');
+    }
+
+    try {
+      const questionsData = this.safeParse<Record<string, Record<string, Question>>>(
+        localStorage.getItem(STORAGE_KEYS.USER_QUESTIONS),
+        {}
+      );
+
+      if (questionsData[userId]) {
+        delete questionsData[userId][questionId];
+      }
+      localStorage.setItem(STORAGE_KEYS.USER_QUESTIONS, this.safeStringify(questionsData));
+    } catch (error) {
+      throw new StorageError('Failed to delete question', error);
+    }
+  }
+
+  /**
+   * Save an interview loop, replacing the previous copy with the same id
+   * @throws StorageError if localStorage is unavailable or quota exceeded
+   */
+  static saveLoop(loop: InterviewLoop): void {
+    if (!this.isLocalStorageAvailable()) {
+      throw new StorageError('localStorage is not available');
+    }
+
+    if (!this.validateLoop(loop)) {
+      throw new StorageError('Invalid interview loop data structure');
+    }
+
+    try {
+      const loopsData = this.safeParse<Record<string, Record<string, InterviewLoop>>>(
+        localStorage.getItem(STORAGE_KEYS.LOOPS),
+        {}
+      );
+
+      loopsData[loop.userId] = { ...loopsData[loop.userId], [loop.id]: loop };
+
+      const serialized = this.safeStringify(loopsData);
+      localStorage.setItem(STORAGE_KEYS.LOOPS, serialized);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        throw new StorageError('Storage quota exceeded. Please clear old data.', error);
+      }
+      throw new StorageError('Failed to save interview loop', error);
+    }
+  }
+
+  /**
+   * Retrieve all of a user's interview loops, oldest first
+   * @returns Array of loops (empty if none found)
+   */
+  static getLoops(userId: string): InterviewLoop[] {
+    if (!this.isLocalStorageAvailable()) {
+      console.warn('localStorage is not available');
+      return [];
+    }
+
+    try {
+      const loopsData = this.safeParse<Record<string, Record<string, InterviewLoop>>>(
+        localStorage.getItem(STORAGE_KEYS.LOOPS),
+        {}
+      );
+
+      return Object.values(loopsData[userId] ?? {})
+        .filter(loop => this.validateLoop(loop))
+        .map(loop => ({
+          ...loop,
+          rounds: loop.rounds.map(round => ({
+            ...round,
+            completedAt: round.completedAt ? new Date(round.completedAt) : null,
+          })),
+          startedAt: new Date(loop.startedAt),
+          endedAt: loop.endedAt ? new Date(loop.endedAt) : null,
+        }))
+        .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+    } catch (error) {
+      console.error('Failed to retrieve interview loops:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a finished online assessment's result
+   * @throws StorageError if localStorage is unavailable or quota exceeded
+   */
+  static saveAssessmentResult(result: AssessmentResult): void {
+    if (!this.isLocalStorageAvailable()) {
+      throw new StorageError('localStorage is not available');
+    }
+
+    if (!this.validateAssessmentResult(result)) {
+      throw new StorageError('Invalid assessment result data structure');
+    }
+
+    try {
+      const resultsData = this.safeParse<Record<string, AssessmentResult[]>>(
+        localStorage.getItem(STORAGE_KEYS.ASSESSMENTS),
+        {}
+      );
+
+      resultsData[result.userId] = [...(resultsData[result.userId] ?? []), result];
+
+      const serialized = this.safeStringify(resultsData);
+      localStorage.setItem(STORAGE_KEYS.ASSESSMENTS, serialized);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        throw new StorageError('Storage quota exceeded. Please clear old data.', error);
+      }
+      throw new StorageError('Failed to save assessment result', error);
+    }
+  }
+
+  /**
+   * Retrieve all of a user's online assessment results, oldest first
+   * @returns Array of results (empty if none found)
+   */
+  static getAssessmentResults(userId: string): AssessmentResult[] {
+    if (!this.isLocalStorageAvailable()) {
+      console.warn('localStorage is not available');
+      return [];
+    }
+
+    try {
+      const resultsData = this.safeParse<Record<string, AssessmentResult[]>>(
+        localStorage.getItem(STORAGE_KEYS.ASSESSMENTS),
+        {}
+      );
+
+      return (resultsData[userId] ?? [])
+        .filter(result => this.validateAssessmentResult(result))
+        .map(result => ({
+          ...result,
+          startTime: new Date(result.startTime),
+          endTime: new Date(result.endTime),
+        }))
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    } catch (error) {
+      console.error('Failed to retrieve assessment results:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Replace all of a user's session replays
+   * @throws StorageError if localStorage is unavailable or quota exceeded
+   */
+  static saveReplays(userId: string, replays: SessionReplay[]): void {
+    if (!this.isLocalStorageAvailable()) {
+      throw new StorageError('localStorage is not available');
+    }
+
+    if (!replays.every(replay => this.validateReplay(replay) && replay.userId === userId)) {
+      throw new StorageError('Invalid session replay data structure');
+    }
+
+    try {
+      const replaysData = this.safeParse<Record<string, SessionReplay[]>>(
+        localStorage.getItem(STORAGE_KEYS.REPLAYS),
+        {}
+      );
+
+      replaysData[userId] = replays;
+
+      const serialized = this.safeStringify(replaysData);
+      localStorage.setItem(STORAGE_KEYS.REPLAYS, serialized);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        throw new StorageError('Storage quota exceeded. Please clear old data.', error);
+      }
+      throw new StorageError('Failed to save session replays', error);
+    }
+  }
+
+  /**
+   * Retrieve all of a user's session replays, oldest first
+   * @returns Array of replays (empty if none found)
+   */
+  static getReplays(userId: string): SessionReplay[] {
+    if (!this.isLocalStorageAvailable()) {
+      console.warn('localStorage is not available');
+      return [];
+    }
+
+    try {
+      const replaysData = this.safeParse<Record<string, SessionReplay[]>>(
+        localStorage.getItem(STORAGE_KEYS.REPLAYS),
+        {}
+      );
+
+      return (replaysData[userId] ?? [])
+        .filter(replay => this.validateReplay(replay))
+        .map(replay => ({
+          ...replay,
+          startTime: new Date(replay.startTime),
+          snapshots: replay.snapshots.map(this.reviveSnapshot),
+        }))
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    } catch (error) {
+      console.error('Failed to retrieve session replays:', error);
+      return [];
+    }
+  }
+
   /**
    * Clear all storage data (useful for testing and demo reset)
    */
@@ -355,6 +1029,13 @@ export class StorageService {
       localStorage.removeItem(STORAGE_KEYS.USERS);
       localStorage.removeItem(STORAGE_KEYS.SESSIONS);
       localStorage.removeItem(STORAGE_KEYS.STREAKS);
+      localStorage.removeItem(STORAGE_KEYS.ACTIVE_SESSIONS);
+      localStorage.removeItem(STORAGE_KEYS.REVIEW_SCHEDULES);
+      localStorage.removeItem(STORAGE_KEYS.QUESTION_PACKS);
+      localStorage.removeItem(STORAGE_KEYS.USER_QUESTIONS);
+      localStorage.removeItem(STORAGE_KEYS.LOOPS);
+      localStorage.removeItem(STORAGE_KEYS.ASSESSMENTS);
+      localStorage.removeItem(STORAGE_KEYS.REPLAYS);
     } catch (error) {
       throw new StorageError('Failed to clear storage', error);
     }
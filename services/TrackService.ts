@@ -0,0 +1,107 @@
+/**
+ * TrackService - Progress through curated study tracks
+ * Progress is derived from completed session history, so it needs no storage of its own
+ */
+
+import { CompletedSession, Plan, StudyTrack, TrackProgress } from '@/types';
+import { studyTracks, getTrackById, getTracksByPlan } from '@/lib/tracks';
+
+/**
+ * Error types for study track operations
+ */
+export class TrackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrackError';
+  }
+}
+
+/**
+ * Study track progress service
+ */
+export class TrackService {
+  /**
+   * Lowest self-rating that counts a track question as completed
+   */
+  static readonly COMPLETION_RATING = 3;
+
+  /**
+   * Progress through every track, in track order
+   *
+   * @param sessions - The user's completed sessions
+   * @param plan - The user's plan, for track availability
+   */
+  static getProgress(sessions: CompletedSession[], plan: Plan): TrackProgress[] {
+    const completedIds = new Set(
+      sessions.filter(s => s.rating >= this.COMPLETION_RATING).map(s => s.questionId)
+    );
+    const availableIds = getTracksByPlan(plan).map(t => t.id);
+
+    const isComplete = (track: StudyTrack) => track.questionIds.every(id => completedIds.has(id));
+
+    return studyTracks.map(track => {
+      const completedQuestionIds = track.questionIds.filter(id => completedIds.has(id));
+
+      return {
+        trackId: track.id,
+        completedQuestionIds,
+        percentComplete: Math.round((completedQuestionIds.length / track.questionIds.length) * 100),
+        nextQuestionId: track.questionIds.find(id => !completedIds.has(id)) ?? null,
+        available: availableIds.includes(track.id),
+        unlocked: track.prerequisites.every(prerequisite => {
+          const required = getTrackById(prerequisite);
+          return required !== undefined && isComplete(required);
+        }),
+      };
+    });
+  }
+
+  /**
+   * The track to continue next: the first started track with questions left,
+   * otherwise the first one that can be started
+   * @returns The track and its progress, or null when every open track is done
+   */
+  static getNextInTrack(
+    sessions: CompletedSession[],
+    plan: Plan
+  ): { track: StudyTrack; progress: TrackProgress } | null {
+    const open = this.getProgress(sessions, plan)
+      .filter(p => p.available && p.unlocked && p.nextQuestionId !== null);
+    const progress = open.find(p => p.completedQuestionIds.length > 0) ?? open[0];
+
+    if (!progress) {
+      return null;
+    }
+
+    return { track: getTrackById(progress.trackId)!, progress };
+  }
+
+  /**
+   * The next question to practice in a track
+   * @throws TrackError if the track does not exist, is not on the plan,
+   * is still locked or is already complete
+   */
+  static getNextQuestionId(trackId: string, sessions: CompletedSession[], plan: Plan): string {
+    const track = getTrackById(trackId);
+    if (!track) {
+      throw new TrackError('Study track not found');
+    }
+
+    const progress = this.getProgress(sessions, plan).find(p => p.trackId === trackId)!;
+
+    if (!progress.available) {
+      throw new TrackError(`${track.title} is not available on your plan`);
+    }
+
+    if (!progress.unlocked) {
+      const titles = track.prerequisites.map(id => getTrackById(id)?.title ?? id);
+      throw new TrackError(`Complete ${titles.join(' and ')} before starting ${track.title}`);
+    }
+
+    if (progress.nextQuestionId === null) {
+      throw new TrackError(`${track.title} is already complete`);
+    }
+
+    return progress.nextQuestionId;
+  }
+}
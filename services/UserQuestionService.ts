@@ -0,0 +1,111 @@
+/**
+ * UserQuestionService - A user's own private questions ("My Questions")
+ * Questions are held to the same schema as the built-in bank and get ids in
+ * their own namespace, so they never clash with built-in or pack questions
+ */
+
+import { Question, QuestionDraft, QuestionFieldIssue } from '@/types';
+import { StorageService } from './StorageService';
+import { validateQuestion } from '@/lib/questionFormat';
+
+/**
+ * Error types for user question operations
+ */
+export class UserQuestionError extends Error {
+  constructor(message: string, public readonly issues: QuestionFieldIssue[] = []) {
+    super(message);
+    this.name = 'UserQuestionError';
+  }
+}
+
+/**
+ * User question service
+ */
+export class UserQuestionService {
+  /**
+   * Prefix of every user question id; question packs may not use it
+   */
+  static readonly ID_PREFIX = 'custom-';
+
+  /**
+   * Add a question to the user's own questions
+   * Private questions are always available to their owner, whatever the plan
+   * @throws UserQuestionError listing every invalid field
+   */
+  static createQuestion(userId: string, draft: QuestionDraft): Question {
+    const question = this.validate(this.generateId(), draft);
+    StorageService.saveUserQuestion(userId, question);
+    return question;
+  }
+
+  /**
+   * Replace the contents of one of the user's questions, keeping its id
+   * @throws UserQuestionError if the question does not exist or a field is invalid
+   */
+  static updateQuestion(userId: string, questionId: string, draft: QuestionDraft): Question {
+    if (!this.getQuestionById(userId, questionId)) {
+      throw new UserQuestionError('Question not found');
+    }
+
+    const question = this.validate(questionId, draft);
+    StorageService.saveUserQuestion(userId, question);
+    return question;
+  }
+
+  /**
+   * Delete one of the user's questions; past sessions on it are kept
+   * @throws UserQuestionError if the question does not exist
+   */
+  static deleteQuestion(userId: string, questionId: string): void {
+    if (!this.getQuestionById(userId, questionId)) {
+      throw new UserQuestionError('Question not found');
+    }
+
+    StorageService.deleteUserQuestion(userId, questionId);
+  }
+
+  /**
+   * The user's own questions, oldest first
+   */
+  static getQuestions(userId: string): Question[] {
+    return StorageService.getUserQuestions(userId);
+  }
+
+  /**
+   * Find one of the user's own questions
+   */
+  static getQuestionById(userId: string, questionId: string): Question | undefined {
+    return this.getQuestions(userId).find(q => q.id === questionId);
+  }
+
+  /**
+   * Whether an id belongs to the user question namespace
+   */
+  static isUserQuestionId(questionId: string): boolean {
+    return questionId.startsWith(this.ID_PREFIX);
+  }
+
+  /**
+   * Build a question from a draft and check it against the question schema
+   * @throws UserQuestionError listing every invalid field
+   */
+  private static validate(id: string, draft: QuestionDraft): Question {
+    const { question, issues } = validateQuestion({ ...draft, id, planRequired: 'basic' });
+
+    if (!question) {
+      throw new UserQuestionError(
+        `Please fix ${issues.length} problem${issues.length === 1 ? '' : 's'} with this question`,
+        issues
+      );
+    }
+
+    return question;
+  }
+
+  /**
+   * Generate a unique id in the user question namespace
+   */
+  private static generateId(): string {
+    return `${this.ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+  }
+}
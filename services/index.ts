@@ -6,3 +6,18 @@
 export { StorageService, StorageError } from './StorageService';
 export { SessionService, SessionError } from './SessionService';
 export { AnalyticsService, AnalyticsError } from './AnalyticsService';
+export { CodeRunnerService, CodeRunnerError } from './CodeRunnerService';
+export { ReviewService } from './ReviewService';
+export { TrackService, TrackError } from './TrackService';
+export { LoopService, LoopError } from './LoopService';
+export { ReplayService } from './ReplayService';
+export { QuestionPackService, QuestionPackError } from './QuestionPackService';
+export { UserQuestionService, UserQuestionError } from './UserQuestionService';
+export {
+  createQuestionProvider,
+  BuiltInQuestionProvider,
+  PackQuestionProvider,
+  UserQuestionProvider,
+  InMemoryQuestionProvider,
+  CompositeQuestionProvider,
+} from './QuestionProvider';
@@ -28,16 +28,130 @@ export interface User {
 // Question Interface
 // ============================================================================
 
+export interface QuestionExample {
+  input: string;
+  output: string;
+  explanation?: string;
+}
+
+export interface QuestionTestCase {
+  args: unknown[];  // Arguments passed to the solution, in order (trees as level-order arrays)
+  expected: unknown;
+  unordered?: boolean;  // Compare nested arrays ignoring element order
+}
+
+export type LanguageId = 'javascript' | 'python' | 'java' | 'cpp' | 'typescript' | 'go';
+
+export type RunnerValueKind = 'value' | 'tree' | 'graph';
+
+export interface QuestionRunner {
+  entryPoint: string | string[];  // Function the candidate implements; a list is chained in order
+  argKinds?: RunnerValueKind[];  // How each test case argument is built, defaults to 'value'
+  returnKind?: RunnerValueKind;
+}
+
+export interface QuestionSolution {
+  approach: string;
+  timeComplexity?: string;  // Omitted for behavioral and system-design questions
+  spaceComplexity?: string;
+  code: Partial<Record<LanguageId, string>>;  // Reference solutions keyed by language
+}
+
+export type QuestionPattern =
+  | 'hash-map'
+  | 'two-pointers'
+  | 'sliding-window'
+  | 'prefix-sum'
+  | 'binary-search'
+  | 'sorting'
+  | 'greedy'
+  | 'stack'
+  | 'recursion'
+  | 'dfs'
+  | 'bfs'
+  | 'topological-sort'
+  | 'union-find'
+  | 'memoization'
+  | 'tabulation'
+  | 'serialization'
+  | 'caching'
+  | 'sharding'
+  | 'fan-out'
+  | 'star-method';
+
 export interface Question {
   id: string;
   title: string;
   difficulty: 'easy' | 'medium' | 'hard';
   category: 'arrays' | 'trees' | 'graphs' | 'dynamic-programming' | 'strings' | 'system-design' | 'behavioral';
+  patterns: QuestionPattern[];  // Techniques the question drills, most central first
   statement: string;
-  hint: string;
+  hints: string[];  // Revealed one at a time, from a gentle nudge to a near-solution
+  examples: QuestionExample[];
+  constraints: string[];
+  testCases: QuestionTestCase[];  // Hidden from the candidate
+  runner?: QuestionRunner;  // Absent for questions that cannot be run
+  starterCode: Partial<Record<LanguageId, string>>;  // Function signatures the editor opens with
+  solution: QuestionSolution;
   planRequired: Plan;
 }
 
+export type QuestionDraft = Omit<Question, 'id' | 'planRequired'>;  // A user's own question before it gets an id
+
+export interface QuestionFieldIssue {
+  field: string;  // Path within the question, e.g. "examples[0].input"
+  message: string;
+}
+
+export type QuestionFileFormat = 'json' | 'markdown';
+
+export interface QuestionFileIssue {
+  line: number;  // 1-based line in the imported file
+  message: string;
+}
+
+export interface QuestionPack {
+  id: string;  // Slug of the pack name; re-importing a pack with the same name replaces it
+  name: string;
+  questions: Question[];
+  importedAt: Date;
+}
+
+export interface QuestionQuery {
+  plan?: Plan;  // Keep only questions the plan tier can access
+  categories?: Question['category'][];  // Empty or absent means every category
+  patterns?: QuestionPattern[];  // Questions tagged with any of these
+  difficulties?: Question['difficulty'][];
+  text?: string;  // Full-text search over title and statement; results come back best match first
+  status?: QuestionStatus;  // Judged from history
+  lastAttempted?: DateRange;  // Judged from history; never-attempted questions are left out
+  history?: CompletedSession[];  // The user's sessions, needed by status and lastAttempted
+}
+
+export type QuestionStatus = 'solved' | 'unsolved';
+
+export interface DateRange {
+  from?: Date;  // Inclusive; absent means no lower bound
+  to?: Date;  // Inclusive; absent means no upper bound
+}
+
+export interface QuestionAttempts {
+  questionId: string;
+  attempts: number;
+  lastAttemptedAt: Date;  // End of the most recent session
+  solved: boolean;  // Some session passed every test, or was rated 4+ when code was never run
+}
+
+/**
+ * A source of questions, e.g. the built-in bank or imported packs
+ */
+export interface QuestionProvider {
+  list(): Question[];
+  getById(id: string): Question | undefined;
+  query(query: QuestionQuery): Question[];
+  getByPlan(plan: Plan): Question[];
+}
+
 // ============================================================================
 // Session Interfaces
 // ============================================================================
@@ -47,10 +161,103 @@ export interface Session {
   userId: string;
   questionId: string;
   startTime: Date;
-  endTime: Date | null;
+  endTime: Date | null;  // Set when the user ends the session, stopping its clock until feedback is saved
   timeRemaining: number;  // in seconds
   pressureModeEnabled: boolean;
-  hintRevealed: boolean;
+  hintRevealed: boolean;  // True once the first hint is shown
+  hintsRevealedAt?: Date[];  // When each hint was shown, in hint order; absent until the first
+  testPassRate?: number;  // 0-1, from the most recent code run
+  pauses?: PauseInterval[];  // Absent until the session is first paused
+  timedOut?: boolean;  // Set when the timer reaches zero
+  finalCode?: CodeSnapshot;  // Editor contents when the timer reached zero
+  config?: SessionConfig;  // Setup choices; absent on sessions started before setup options
+  selectionReason?: string;  // Why adaptive selection chose the question, e.g. "weak area: trees"
+  draw?: QuestionDraw;  // Present when the question came from a reproducible random draw
+  trackId?: string;  // Study track the question was started from
+  loop?: LoopRoundRef;  // Present when the session is a round of an interview loop
+  assessment?: AssessmentState;  // Present when the session is an online assessment
+  mode?: SessionMode;  // Absent on sessions started before modes; treated as 'interview'
+  events?: SessionEvent[];  // Timeline of the session, oldest first; absent on sessions started before event logs
+  snapshots?: ReplaySnapshot[];  // Editor and notes history for the replay; absent on assessments
+}
+
+/**
+ * Something that happened during a session, for its timeline
+ */
+export type SessionEvent =
+  | { type: 'started'; at: Date }
+  | { type: 'hint-revealed'; at: Date; level: number }  // 1 for the first hint
+  | { type: 'pressure-popup-shown'; at: Date; message: string }
+  | { type: 'pressure-popup-dismissed'; at: Date }
+  | { type: 'language-switched'; at: Date; from: LanguageId; to: LanguageId }
+  | { type: 'code-run'; at: Date; language: LanguageId; passedCount: number; totalCount: number; error?: string }
+  | { type: 'paused'; at: Date }
+  | { type: 'resumed'; at: Date }
+  | { type: 'warning-shown'; at: Date; secondsRemaining: number }
+  | { type: 'timed-out'; at: Date }
+  | { type: 'ended'; at: Date };
+
+export type SessionEventType = SessionEvent['type'];
+
+export type SessionDurationMinutes = 15 | 30 | 45 | 60 | 90;
+
+export type SessionMode = 'practice' | 'interview';  // Practice is untimed and kept out of readiness and weekly stats
+
+export type QuestionSelectionMode = 'random' | 'review' | 'adaptive';
+
+export interface SessionConfig {
+  durationMinutes: SessionDurationMinutes;
+  categories: Question['category'][];  // Empty means every category
+  patterns?: QuestionPattern[];  // Questions must use at least one; empty or absent means any
+  difficultyMix: Record<Question['difficulty'], number>;  // Relative weights when picking the question
+  selectionMode?: QuestionSelectionMode;  // 'review' picks only questions due for review, 'adaptive' targets weak areas; defaults to 'random'
+  includeMyQuestions?: boolean;  // Add the user's own questions to the pool
+  mode?: SessionMode;  // Defaults to 'interview'; practice sessions ignore the duration
+}
+
+export interface QuestionDraw {
+  seed: string;
+  plan: Plan;  // Question bank tier the draw was made from
+  config: SessionConfig;
+  excludeIds: string[];  // Questions left out of the draw, e.g. ones already used that day
+}
+
+export interface SetupEntitlements {
+  durations: SessionDurationMinutes[];
+  chooseCategories: boolean;
+  customDifficultyMix: boolean;
+  adaptiveSelection: boolean;
+}
+
+export interface CodeSnapshot {
+  language: LanguageId;
+  code: string;
+}
+
+export interface PauseInterval {
+  start: Date;
+  end: Date | null;  // null while the session is paused
+}
+
+export interface PausePolicy {
+  maxPauses: number;  // Per session
+  maxPauseSeconds: number;  // Each pause resumes automatically after this
+  allowedInPressureMode: boolean;
+}
+
+export interface SessionDraft {
+  sessionId: string;
+  language: LanguageId;  // Language selected in the editor
+  code: Partial<Record<LanguageId, string>>;  // Edited buffers; untouched languages use the starter code
+  notes: string;
+  approach: string;
+  problemCode?: Record<string, Partial<Record<LanguageId, string>>>;  // Online assessments: edited buffers per problem id
+}
+
+export interface ActiveSessionRecord {
+  session: Session;
+  draft: SessionDraft | null;
+  savedAt: Date;
 }
 
 export interface CompletedSession {
@@ -59,6 +266,7 @@ export interface CompletedSession {
   questionId: string;
   questionTitle: string;
   category: string;
+  patterns?: QuestionPattern[];  // Absent on sessions saved before pattern tags
   difficulty: 'easy' | 'medium' | 'hard';
   startTime: Date;
   endTime: Date;
@@ -67,6 +275,223 @@ export interface CompletedSession {
   perceivedDifficulty: 'easy' | 'medium' | 'hard';
   notes: string;
   pressureModeUsed: boolean;
+  hintUsed?: boolean;  // Absent on sessions saved before hint tracking
+  hintCount?: number;  // Hints shown; absent on sessions saved before progressive hints
+  firstHintSeconds?: number;  // Seconds from the start to the first hint; absent when none was shown
+  testPassRate?: number;  // 0-1, absent when code was never run
+  activeDuration?: number;  // in seconds, duration minus paused time
+  pausedDuration?: number;  // in seconds
+  pauseCount?: number;
+  timedOut?: boolean;  // true when the timer ended the session, absent on sessions saved before timeouts
+  finalCode?: CodeSnapshot;
+  config?: SessionConfig;  // Absent on sessions saved before setup options; those ran 45 minutes
+  selectionReason?: string;  // Only on adaptive sessions
+  draw?: QuestionDraw;
+  trackId?: string;
+  loop?: LoopRoundRef;
+  mode?: SessionMode;  // Absent on sessions saved before modes; treated as 'interview'
+  events?: SessionEvent[];  // Absent on sessions saved before event logs
+}
+
+// ============================================================================
+// Interview Loop Types
+// ============================================================================
+
+export interface LoopRoundTemplate {
+  title: string;  // e.g. "Coding 1"
+  categories: Question['category'][];  // Pool the round's question is drawn from
+  durationMinutes: SessionDurationMinutes;
+  breakMinutes: number;  // Rest after the round; 0 after the last
+}
+
+export interface LoopTemplate {
+  id: string;
+  title: string;
+  description: string;
+  rounds: LoopRoundTemplate[];
+  planRequired: Plan;
+}
+
+export interface LoopRound extends LoopRoundTemplate {
+  questionId: string;  // Chosen when the loop starts
+  sessionId: string | null;  // Completed session of the round; null until its feedback is saved
+  completedAt: Date | null;
+}
+
+export interface InterviewLoop {
+  id: string;
+  userId: string;
+  templateId: string;
+  title: string;
+  rounds: LoopRound[];  // In the order they are interviewed
+  startedAt: Date;
+  endedAt: Date | null;  // Set after the last round, or when the loop is abandoned
+}
+
+export interface LoopRoundRef {
+  loopId: string;
+  loopTitle: string;
+  round: number;  // 0-based position in the loop
+  roundCount: number;
+  roundTitle: string;
+}
+
+export interface LoopSummary {
+  loopId: string;
+  title: string;
+  rounds: CompletedSession[];  // Rounds with saved feedback, in round order
+  roundCount: number;  // Rounds the loop was planned with
+  startTime: Date;  // Start of the first round
+  endTime: Date;  // End of the last saved round
+  duration: number;  // in seconds, summed over the saved rounds
+  averageRating: number;
+  averagePassRate: number | null;  // 0-1 across rounds where code was run
+}
+
+// ============================================================================
+// Online Assessment Types
+// ============================================================================
+
+export type AssessmentDurationMinutes = 70 | 80 | 90;
+
+export interface AssessmentSubmission {
+  questionId: string;
+  language: LanguageId;
+  passedCount: number;  // Hidden test cases passed
+  totalCount: number;
+  submittedAt: Date;
+}
+
+export interface AssessmentState {
+  questionIds: string[];  // Problem set, easiest first
+  durationMinutes: AssessmentDurationMinutes;
+  submissions: AssessmentSubmission[];  // In the order they were made
+}
+
+export interface AssessmentProblemResult {
+  questionId: string;
+  questionTitle: string;
+  difficulty: Question['difficulty'];
+  passedCount: number;  // From the best submission; 0 when never submitted
+  totalCount: number;
+  submissionCount: number;
+  solvedAtSeconds: number | null;  // Time into the assessment of the first submission passing every case
+}
+
+export interface AssessmentResult {
+  id: string;
+  userId: string;
+  startTime: Date;
+  endTime: Date;
+  durationMinutes: AssessmentDurationMinutes;
+  timeUsed: number;  // in seconds, capped at the time limit
+  timedOut: boolean;
+  problems: AssessmentProblemResult[];
+  passedCount: number;  // Summed over problems
+  totalCount: number;
+  score: number;  // 0-100, from passed cases and time used
+}
+
+// ============================================================================
+// Session Replay Types
+// ============================================================================
+
+/**
+ * One contiguous edit: the previous text with `deleteCount` characters at
+ * `start` replaced by `insert`
+ */
+export interface TextPatch {
+  start: number;
+  deleteCount: number;
+  insert: string;
+}
+
+export interface ReplaySnapshot {
+  at: Date;
+  language: LanguageId;  // Language selected in the editor
+  code?: TextPatch;  // Change to that language's buffer since the snapshot before; absent when unchanged
+  notes?: TextPatch;  // Change to the notes since the snapshot before; absent when unchanged
+}
+
+export interface ReplayBuffers {
+  language: LanguageId;
+  code: Partial<Record<LanguageId, string>>;  // Every buffer written so far
+  notes: string;
+}
+
+export interface SessionReplay {
+  sessionId: string;
+  userId: string;
+  startTime: Date;
+  intervalSeconds: number;  // Least time between snapshots; grows as the replay is compacted
+  snapshots: ReplaySnapshot[];
+}
+
+/**
+ * The workspace as of one snapshot, for the replay player
+ */
+export interface ReplayFrame {
+  at: Date;
+  language: LanguageId;
+  code: string;  // Buffer of the selected language
+  notes: string;
+  typed: { start: number; end: number } | null;  // Code inserted since the snapshot before
+}
+
+// ============================================================================
+// Review Scheduling Types
+// ============================================================================
+
+export interface ReviewSchedule {
+  questionId: string;
+  repetitions: number;  // Successful reviews in a row
+  easeFactor: number;  // SM-2 ease, at least 1.3
+  intervalDays: number;
+  lastReviewedAt: Date;
+  nextReviewAt: Date;
+}
+
+// ============================================================================
+// Study Track Types
+// ============================================================================
+
+export interface StudyTrack {
+  id: string;
+  title: string;
+  description: string;
+  questionIds: string[];  // In the order they should be practiced
+  prerequisites: string[];  // Track ids to complete first
+  planRequired: Plan;
+}
+
+export interface TrackProgress {
+  trackId: string;
+  completedQuestionIds: string[];
+  percentComplete: number;  // 0-100
+  nextQuestionId: string | null;  // First question in order not yet completed; null when done
+  available: boolean;  // The plan includes the track
+  unlocked: boolean;  // Every prerequisite track is complete
+}
+
+// ============================================================================
+// Code Runner Types
+// ============================================================================
+
+export interface TestCaseResult {
+  index: number;  // Position in the question's test cases
+  passed: boolean;
+  runtimeMs: number;
+  error?: string;  // Message of the error thrown by the candidate's code
+}
+
+export interface CodeRunResult {
+  language: LanguageId;
+  results: TestCaseResult[];
+  passedCount: number;
+  totalCount: number;
+  passRate: number;  // 0-1
+  timedOut: boolean;
+  error?: string;  // Compile error or missing entry point; no cases ran
 }
 
 // ============================================================================
@@ -99,9 +524,37 @@ export interface CategoryPerformance {
   category: string;
   sessionsCount: number;
   averageRating: number;
+  averagePassRate: number | null;  // 0-1 across sessions where code was run
+  isWeakest: boolean;
+}
+
+export interface PatternPerformance {
+  pattern: QuestionPattern;
+  sessionsCount: number;
+  averageRating: number;
+  averagePassRate: number | null;  // 0-1 across sessions where code was run
   isWeakest: boolean;
 }
 
+export interface HintDependence {
+  category: string;
+  sessionsCount: number;  // Sessions saved with hint tracking
+  hintRate: number;  // 0-1, share of those sessions that showed at least one hint
+  averageHints: number;
+  averageSecondsToFirstHint: number | null;  // Across sessions that showed a hint
+}
+
+export interface CategoryWeight {
+  category: string;
+  weight: number;  // Relative chance of adaptive selection picking the category
+  reason: string;  // The main factor behind the weight, e.g. "weak area: dynamic-programming"
+}
+
+export interface DifficultyStep {
+  difficulty: 'easy' | 'medium' | 'hard';
+  direction: 'up' | 'down' | 'hold';  // Compared with the latest attempt in the category
+}
+
 export interface ReadinessScore {
   overall: number;  // 0-100
   breakdown: {